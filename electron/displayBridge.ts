@@ -0,0 +1,112 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { timingSafeEqual } from 'crypto'
+import { applyDisplaySelection, type DisplayInfo, type DisplaySelection } from '../shared/displaySelection.cjs'
+
+// リクエストボディの上限（ディスプレイの選択のみを受け付ける）
+const MAX_BODY_SIZE = 4096
+
+/**
+ * ディスプレイブリッジから呼び出す処理
+ */
+export interface DisplayBridgeHandlers {
+  /** 接続中のディスプレイ一覧 */
+  listDisplays: () => DisplayInfo[]
+  /** 現在の選択 */
+  getSelection: () => DisplaySelection
+  /** 表示するディスプレイと範囲を変更する */
+  select: (selection: DisplaySelection) => void
+}
+
+/**
+ * Authorization ヘッダーがコントロールトークンと一致するか判定（定数時間で比較）
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = (req.headers.authorization ?? '').match(/^Bearer (.+)$/)
+  if (!match?.[1]) return false
+  const actual = Buffer.from(match[1])
+  const expected = Buffer.from(token)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.setEncoding('utf-8')
+    req.on('data', (chunk: string) => {
+      body += chunk
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new Error('Request body is too large'))
+        req.destroy()
+      }
+    })
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body))
+      } catch {
+        reject(new Error('Request body is not valid JSON'))
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+/**
+ * セットアップサーバーからディスプレイを選択するためのHTTPブリッジを起動する
+ * - GET /displays: ディスプレイ一覧と現在の選択
+ * - PUT /display: 表示するディスプレイと範囲を変更（省略した項目は変更しない）
+ * セキュリティ: localhost でのみ待ち受け、ProcessManager が発行したコントロールトークンを要求する
+ */
+export function startDisplayBridge(port: number, token: string, handlers: DisplayBridgeHandlers): Server {
+  const respond = (res: ServerResponse): void => {
+    sendJson(res, 200, {
+      success: true,
+      displays: handlers.listDisplays(),
+      selection: handlers.getSelection(),
+    })
+  }
+
+  const server = createServer((req, res) => {
+    if (!isAuthorized(req, token)) {
+      sendJson(res, 401, { success: false, error: 'Unauthorized' })
+      return
+    }
+
+    if (req.method === 'GET' && req.url === '/displays') {
+      respond(res)
+      return
+    }
+
+    if (req.method === 'PUT' && req.url === '/display') {
+      readJson(req)
+        .then((body) => {
+          // 一部の項目だけを変更した場合、残りは現在の選択を引き継ぐ
+          const selection = applyDisplaySelection(handlers.getSelection(), body)
+          if (!selection) {
+            sendJson(res, 400, { success: false, error: 'Invalid display selection' })
+            return
+          }
+          handlers.select(selection)
+          respond(res)
+        })
+        .catch((err: unknown) => {
+          sendJson(res, 400, { success: false, error: err instanceof Error ? err.message : 'Invalid request' })
+        })
+      return
+    }
+
+    sendJson(res, 404, { success: false, error: 'Not found' })
+  })
+
+  server.on('error', (err) => {
+    console.error('Display bridge error:', err)
+  })
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`Display bridge listening on http://localhost:${port}`)
+  })
+  return server
+}
@@ -1,5 +1,17 @@
-import { app, BrowserWindow, screen } from 'electron'
+import { app, BrowserWindow, globalShortcut, screen, shell } from 'electron'
 import resolvePort from '../shared/resolvePort.cjs'
+import { loadHotkeys, type HotkeyAction } from '../shared/hotkeys.cjs'
+import {
+  FULL_REGION,
+  findDisplay,
+  parseRegionSpec,
+  resolveWindowBounds,
+  toDisplayInfo,
+  type DisplaySelection,
+} from '../shared/displaySelection.cjs'
+import { startDisplayBridge } from './displayBridge'
+import { createOverlayAdmin, requestSetupStop } from './overlayAdmin'
+import { createOverlayTray } from './tray'
 
 // シグナルハンドリング: グレースフルシャットダウン
 const gracefulShutdown = () => {
@@ -15,14 +27,40 @@ process.on('SIGINT', gracefulShutdown)
 const overlayPort = resolvePort(process.env['OVERLAY_PORT'], 8000)
 const OVERLAY_URL = `http://localhost:${overlayPort}`
 
-function createOverlayWindow(): BrowserWindow {
-  const { width, height } = screen.getPrimaryDisplay().workAreaSize
+// セットアップサーバーからディスプレイを選択するためのブリッジ
+// コントロールトークンはセットアップ画面から起動した場合のみ設定される
+const bridgePort = resolvePort(process.env['OVERLAY_BRIDGE_PORT'], 8002)
+const controlToken = process.env['OVERLAY_CONTROL_TOKEN']
+
+// 緊急停止の依頼先（セットアップサーバー）
+const setupPort = resolvePort(process.env['SETUP_PORT'], 8001)
+
+// 一時停止・消去はオーバーレイサーバーの管理APIで行うため、コントロールトークンがある場合のみ使用できる
+const overlayAdmin = controlToken ? createOverlayAdmin(overlayPort, controlToken) : null
+
+// 起動時の表示範囲。環境変数 OVERLAY_WINDOW_REGION（"x,y,width,height" の割合）で
+// ディスプレイの一部だけを覆うウィンドウにできる。不正な値は全体にフォールバックする
+const initialRegion = parseRegionSpec(process.env['OVERLAY_WINDOW_REGION'])
+if (!initialRegion) {
+  console.warn('Invalid OVERLAY_WINDOW_REGION, using the whole display')
+}
+
+// 表示するディスプレイと範囲（既定: プライマリディスプレイの作業領域全体）
+let displaySelection: DisplaySelection = { displayId: null, region: initialRegion ?? FULL_REGION }
+
+/**
+ * 選択中のディスプレイと範囲からウィンドウの位置と大きさを求める
+ * 選択したディスプレイが取り外された場合はプライマリディスプレイに表示する
+ */
+function getOverlayBounds(): Electron.Rectangle {
+  const primary = screen.getPrimaryDisplay()
+  const display = findDisplay(screen.getAllDisplays(), displaySelection.displayId, primary)
+  return resolveWindowBounds(display.workArea, displaySelection.region)
+}
 
+function createOverlayWindow(): BrowserWindow {
   const win = new BrowserWindow({
-    width,
-    height,
-    x: 0,
-    y: 0,
+    ...getOverlayBounds(),
     transparent: true,
     frame: false,
     alwaysOnTop: true,
@@ -44,8 +82,122 @@ function createOverlayWindow(): BrowserWindow {
   return win
 }
 
+/**
+ * オーバーレイを停止する（緊急停止のショートカットキーとトレイアイコンのメニューから使用）
+ * 停止を待たずにすぐ隠す。セットアップサーバーに依頼できない場合（単体起動など）はウィンドウを終了する
+ */
+function stopOverlay(win: BrowserWindow): void {
+  if (!win.isDestroyed()) win.hide()
+  requestSetupStop(setupPort).catch((err: unknown) => {
+    console.error('Stop failed:', err)
+    app.quit()
+  })
+}
+
+/**
+ * グローバルショートカットを登録する
+ * オーバーレイのウィンドウはフォーカスを受け取らないため、発表中はショートカットキーで操作する
+ */
+function registerHotkeys(win: BrowserWindow): void {
+  const { hotkeys, errors } = loadHotkeys(process.env)
+  for (const error of errors) {
+    console.warn(`Hotkey disabled: ${error}`)
+  }
+
+  const report = (label: string) => (err: unknown) => {
+    console.error(`${label} failed:`, err)
+  }
+
+  const handlers: Record<HotkeyAction, (() => void) | null> = {
+    toggleVisibility: () => {
+      if (win.isDestroyed()) return
+      if (win.isVisible()) {
+        win.hide()
+      } else {
+        win.showInactive()
+      }
+    },
+    togglePause: overlayAdmin && (() => {
+      overlayAdmin.getState()
+        .then((state) => overlayAdmin.setPaused(!state.paused))
+        .then((state) => console.log(`Comments ${state.paused ? 'paused' : 'resumed'}`))
+        .catch(report('Pause'))
+    }),
+    clear: overlayAdmin && (() => {
+      overlayAdmin.clear().catch(report('Clear'))
+    }),
+    panic: () => stopOverlay(win),
+  }
+
+  for (const [action, accelerator] of Object.entries(hotkeys) as [HotkeyAction, string | null][]) {
+    const handler = handlers[action]
+    if (!accelerator) continue
+    if (!handler) {
+      console.log(`Hotkey ${accelerator} (${action}) requires starting from the setup page`)
+      continue
+    }
+    // 他のアプリが使用中のキーは登録できない
+    if (!globalShortcut.register(accelerator, handler)) {
+      console.warn(`Hotkey ${accelerator} (${action}) is used by another application`)
+    }
+  }
+}
+
+// 実行中の状態と操作メニューを表示するトレイアイコン
+let tray: ReturnType<typeof createOverlayTray> | null = null
+
 app.whenReady().then(() => {
-  createOverlayWindow()
+  const win = createOverlayWindow()
+  registerHotkeys(win)
+
+  const listDisplays = () => {
+    const primaryId = screen.getPrimaryDisplay().id
+    return screen.getAllDisplays().map((display, index) => toDisplayInfo(display, index, primaryId))
+  }
+
+  // ディスプレイの接続・取り外し・解像度の変更に追従する（再起動は不要）
+  const updateBounds = () => {
+    if (!win.isDestroyed()) {
+      win.setBounds(getOverlayBounds())
+    }
+    tray?.refresh()
+  }
+  screen.on('display-added', updateBounds)
+  screen.on('display-removed', updateBounds)
+  screen.on('display-metrics-changed', updateBounds)
+
+  tray = createOverlayTray({
+    overlayAdmin,
+    listDisplays,
+    getSelection: () => displaySelection,
+    selectDisplay: (displayId) => {
+      displaySelection = { ...displaySelection, displayId }
+      updateBounds()
+    },
+    openSetup: () => {
+      shell.openExternal(`http://localhost:${setupPort}`).catch((err: unknown) => {
+        console.error('Failed to open setup page:', err)
+      })
+    },
+    stop: () => stopOverlay(win),
+  })
+
+  if (controlToken) {
+    startDisplayBridge(bridgePort, controlToken, {
+      listDisplays,
+      getSelection: () => displaySelection,
+      select: (selection) => {
+        displaySelection = selection
+        updateBounds()
+      },
+    })
+  }
+})
+
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll()
+  tray?.destroy()
+  tray = null
 })
 
 app.on('window-all-closed', () => {
@@ -0,0 +1,56 @@
+// オーバーレイサーバーの管理API（/api/admin）とセットアップサーバーの呼び出し
+// ショートカットキーとトレイアイコンから状態の取得・一時停止・消去・停止を行うために使用する
+import type { OverlayStatusState } from '../shared/overlayStatus.cjs'
+
+/**
+ * オーバーレイの操作状態
+ */
+export type OverlayState = OverlayStatusState
+
+/**
+ * オーバーレイサーバーの管理APIのクライアント
+ */
+export interface OverlayAdmin {
+  getState: () => Promise<OverlayState>
+  setPaused: (paused: boolean) => Promise<OverlayState>
+  clear: () => Promise<OverlayState>
+}
+
+/**
+ * オーバーレイサーバーの管理APIのクライアントを作成
+ * セキュリティ: ホストは localhost 固定。ProcessManager が発行したコントロールトークンで認証する
+ */
+export function createOverlayAdmin(port: number, token: string): OverlayAdmin {
+  const request = async (method: string, pathname: string, body?: unknown): Promise<OverlayState> => {
+    const response = await fetch(`http://localhost:${port}/api/admin${pathname}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const result = await response.json().catch(() => null) as { success?: boolean, overlay?: OverlayState, error?: string } | null
+    if (!response.ok || !result?.success || !result.overlay) {
+      throw new Error(result?.error ?? `Overlay server responded with ${response.status}`)
+    }
+    return result.overlay
+  }
+
+  return {
+    getState: () => request('GET', '/overlay'),
+    setPaused: (paused) => request('PUT', '/overlay', { paused }),
+    clear: () => request('POST', '/overlay/clear'),
+  }
+}
+
+/**
+ * セットアップサーバーにオーバーレイの停止を依頼する
+ * セットアップ画面から起動した場合、ProcessManager がオーバーレイサーバーとこのウィンドウを終了する
+ */
+export async function requestSetupStop(port: number): Promise<void> {
+  const response = await fetch(`http://localhost:${port}/api/stop`, { method: 'POST' })
+  if (!response.ok) {
+    throw new Error(`Setup server responded with ${response.status}`)
+  }
+}
@@ -0,0 +1,119 @@
+import { Menu, Tray, type MenuItemConstructorOptions } from 'electron'
+import { describeOverlayStatus } from '../shared/overlayStatus.cjs'
+import type { DisplayInfo, DisplaySelection } from '../shared/displaySelection.cjs'
+import type { OverlayAdmin, OverlayState } from './overlayAdmin'
+import { createTrayIcon } from './trayIcon'
+
+// 状態を取得する間隔（ミリ秒）
+const STATUS_INTERVAL_MS = 3000
+
+/**
+ * トレイアイコンのメニューから呼び出す処理
+ */
+export interface OverlayTrayHandlers {
+  /** オーバーレイサーバーの管理API（セットアップ画面から起動した場合のみ） */
+  overlayAdmin: OverlayAdmin | null
+  listDisplays: () => DisplayInfo[]
+  getSelection: () => DisplaySelection
+  /** 表示するディスプレイを変更する（表示範囲はそのまま） */
+  selectDisplay: (displayId: number) => void
+  openSetup: () => void
+  stop: () => void
+}
+
+/**
+ * 状態とメニューを表示するトレイアイコンを作成する
+ * オーバーレイのウィンドウはタスクバーに表示しないため、実行中の操作はトレイアイコンから行う
+ */
+export function createOverlayTray(handlers: OverlayTrayHandlers): { refresh: () => void, destroy: () => void } {
+  const { overlayAdmin } = handlers
+  const tray = new Tray(createTrayIcon())
+  let state: OverlayState | null = null
+  let error: string | undefined = overlayAdmin ? undefined : 'セットアップ画面から起動すると状態を表示します'
+
+  const run = (label: string, operation: () => Promise<OverlayState>) => () => {
+    operation()
+      .then((next) => {
+        state = next
+        render()
+      })
+      .catch((err: unknown) => {
+        console.error(`${label} failed:`, err)
+      })
+  }
+
+  const render = (): void => {
+    const status = describeOverlayStatus(state, error)
+    const selection = handlers.getSelection()
+    const displays = handlers.listDisplays()
+    const selectedId = displays.some((display) => display.id === selection.displayId)
+      ? selection.displayId
+      : displays.find((display) => display.primary)?.id
+
+    const template: MenuItemConstructorOptions[] = [
+      ...status.lines.map((line): MenuItemConstructorOptions => ({ label: line, enabled: false })),
+      { type: 'separator' },
+      {
+        label: 'コメントを一時停止',
+        type: 'checkbox',
+        checked: state?.paused ?? false,
+        enabled: !!overlayAdmin && !!state,
+        click: overlayAdmin ? run('Pause', () => overlayAdmin.setPaused(!state?.paused)) : undefined,
+      },
+      {
+        label: '表示中のコメントを消す',
+        enabled: !!overlayAdmin && !!state,
+        click: overlayAdmin ? run('Clear', () => overlayAdmin.clear()) : undefined,
+      },
+      {
+        label: '表示するディスプレイ',
+        submenu: displays.map((display): MenuItemConstructorOptions => ({
+          label: `${display.label}（${display.bounds.width}×${display.bounds.height}）`,
+          type: 'radio',
+          checked: display.id === selectedId,
+          click: () => {
+            handlers.selectDisplay(display.id)
+            render()
+          },
+        })),
+      },
+      { type: 'separator' },
+      { label: 'セットアップ画面を開く', click: handlers.openSetup },
+      { label: 'オーバーレイを停止', click: handlers.stop },
+    ]
+
+    tray.setToolTip(status.tooltip)
+    tray.setContextMenu(Menu.buildFromTemplate(template))
+  }
+
+  // 管理APIをポーリングして状態を更新する（取得できない間は理由を表示する）
+  // 開いているメニューを作り直さないよう、変化があった場合のみ表示し直す
+  const update = (): void => {
+    if (!overlayAdmin) return
+    const previous = JSON.stringify({ state, error })
+    overlayAdmin.getState()
+      .then((next) => {
+        state = next
+        error = undefined
+      })
+      .catch(() => {
+        state = null
+        error = 'オーバーレイサーバーに接続できません'
+      })
+      .finally(() => {
+        if (JSON.stringify({ state, error }) !== previous) render()
+      })
+  }
+
+  render()
+  update()
+  const timer = setInterval(update, STATUS_INTERVAL_MS)
+
+  return {
+    refresh: render,
+    destroy: () => {
+      clearInterval(timer)
+      tray.destroy()
+    },
+  }
+}
@@ -0,0 +1,57 @@
+import { nativeImage, type NativeImage } from 'electron'
+
+// アイコンの大きさ（Retina 用に 2 倍で描画する）
+const SIZE = 32
+const SCALE_FACTOR = 2
+
+/**
+ * 吹き出しの形の内側か判定する（3つの点の部分は抜く）
+ */
+function isInsideBubble(x: number, y: number): boolean {
+  // 角の丸い四角形
+  const left = 3
+  const right = 28
+  const top = 4
+  const bottom = 22
+  const radius = 6
+  const cx = Math.min(Math.max(x, left + radius), right - radius)
+  const cy = Math.min(Math.max(y, top + radius), bottom - radius)
+  const inBody = x >= left && x <= right && y >= top && y <= bottom && (x - cx) ** 2 + (y - cy) ** 2 <= radius ** 2
+
+  // 左下のしっぽ
+  const inTail = y > bottom && y <= 28 && x >= 8 && x <= 8 + (28 - y)
+
+  // コメントを表す3つの点
+  const inDot = [10, 16, 22].some((dx) => (x - dx) ** 2 + (y - 13) ** 2 <= 4)
+
+  return (inBody || inTail) && !inDot
+}
+
+/**
+ * トレイアイコンの画像を作成する（画像ファイルを同梱しないよう、吹き出しの形を描画する）
+ * macOS ではメニューバーの配色に合わせるテンプレート画像、それ以外は縁取り付きの白い吹き出し
+ */
+export function createTrayIcon(): NativeImage {
+  const template = process.platform === 'darwin'
+  const bitmap = Buffer.alloc(SIZE * SIZE * 4)
+
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      if (!isInsideBubble(x, y)) continue
+
+      // 形の端（外側と接する部分）は縁取りの色にする
+      const edge = [[-1, 0], [1, 0], [0, -1], [0, 1]].some(([dx, dy]) => !isInsideBubble(x + dx!, y + dy!))
+      const value = template || edge ? 0 : 255
+      const offset = (y * SIZE + x) * 4
+      // BGRA
+      bitmap[offset] = value
+      bitmap[offset + 1] = value
+      bitmap[offset + 2] = value
+      bitmap[offset + 3] = 255
+    }
+  }
+
+  const image = nativeImage.createFromBitmap(bitmap, { width: SIZE, height: SIZE, scaleFactor: SCALE_FACTOR })
+  image.setTemplateImage(template)
+  return image
+}
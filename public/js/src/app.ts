@@ -1,24 +1,99 @@
 // ===========================================
 // 型定義（バックエンドから再利用）
 // ===========================================
-import type { WebSocketMessage } from '../../../src/types/index.js';
+import type {
+  CommentImage,
+  CommentMessage,
+  CommentSize,
+  OverlayConfig,
+  ReactionMessage,
+  ThreadCount,
+  WebSocketMessage,
+} from '../../../src/types/index.js';
+
+// ===========================================
+// レイアウト（レーン選択・文字サイズ・表示時間）
+// ===========================================
+import { createCommentLayout } from '../../../src/commentLayout.js';
+import { DEFAULT_OVERLAY_CONFIG, getCounterColor } from '../../../src/overlayConfig/overlayConfig.js';
 
 // ===========================================
 // 定数
 // ===========================================
-const LANE_COUNT = 10;
-const USABLE_RANGE_START = 0.1;
-const USABLE_RANGE_END = 0.9;
-const FLOW_DURATION = 8; // CSSアニメーションの秒数
+const REACTION_BURST_SIZE = 5; // 1回のリアクションで浮かび上がる絵文字の数
+const REACTION_AREA_START = 0.75; // リアクションを表示する横方向の範囲（画面右側）
+const REACTION_AREA_END = 0.95;
 
 // ===========================================
 // 状態管理
 // ===========================================
-// レーン状態: 各要素は使用中の場合タイムスタンプ、空きの場合null
-let lanes: (number | null)[] = new Array(LANE_COUNT).fill(null);
+// コメントの配置（流れるレーンと固定レーンの状態を保持）
+const layout = createCommentLayout();
+
+// 表示設定（接続時にサーバーから受け取る）
+let overlayConfig: OverlayConfig = DEFAULT_OVERLAY_CONFIG;
 
 // WebSocket接続
 let ws: WebSocket | null = null;
+// サーバーに接続中か（プレビュー中は常に true）。カウンターの表示に使用
+let connected = false;
+// セットアップ画面のプレビューとして表示中か
+let previewing = false;
+
+// 表示中のコメント要素（コメントID → 要素）。編集・削除の反映に使用
+const commentElements = new Map<string, HTMLElement>();
+
+// ===========================================
+// メッセージ処理
+// ===========================================
+function handleMessage(data: WebSocketMessage): void {
+  // 表示設定の処理
+  if (data.type === 'config') {
+    applyConfig(data.config);
+    return;
+  }
+
+  // カウンターメッセージの処理
+  if (data.type === 'counter') {
+    updateCounter(data.count, data.threads ?? []);
+    return;
+  }
+
+  // コメントメッセージの処理
+  if (data.type === 'comment') {
+    showComment(data);
+    return;
+  }
+
+  // コメント編集の処理
+  if (data.type === 'comment_update') {
+    updateComment(data.id, data.text, data.emojis ?? {});
+    return;
+  }
+
+  // コメント削除の処理
+  if (data.type === 'comment_retract') {
+    retractComment(data.id);
+    return;
+  }
+
+  // リアクションの処理
+  if (data.type === 'reaction') {
+    showReaction(data);
+    return;
+  }
+
+  // 一時停止・再開の処理
+  if (data.type === 'pause') {
+    showPauseIndicator(data.paused);
+    return;
+  }
+
+  // 表示中のコメントを消す
+  if (data.type === 'clear') {
+    clearComments();
+  }
+}
 
 // ===========================================
 // WebSocket接続
@@ -29,26 +104,18 @@ function connect(): void {
 
   ws.onopen = (): void => {
     console.log('WebSocket connected');
+    connected = true;
   };
 
   ws.onmessage = (event: MessageEvent): void => {
-    const data = JSON.parse(event.data) as WebSocketMessage;
-
-    // カウンターメッセージの処理
-    if (data.type === 'counter') {
-      updateCounter(data.count);
-      return;
-    }
-
-    // コメントメッセージの処理
-    if (data.type === 'comment') {
-      showComment(data.userName, data.text, data.userColor, data.emojis ?? {});
-    }
+    handleMessage(JSON.parse(event.data) as WebSocketMessage);
   };
 
   ws.onclose = (): void => {
     console.log('WebSocket disconnected');
+    connected = false;
     hideCounter();
+    showPauseIndicator(false);  // 再接続時に一時停止中であれば再度通知される
   };
 
   ws.onerror = (err: Event): void => {
@@ -57,24 +124,87 @@ function connect(): void {
   };
 }
 
+// ===========================================
+// プレビュー
+// ===========================================
+// セットアップ画面の iframe から送られたメッセージを表示する（サーバーには接続しない）
+function startPreview(): void {
+  connected = true;
+  previewing = true;
+  renderExclusionGuides(overlayConfig);
+  window.addEventListener('message', (event: MessageEvent) => {
+    // セキュリティ: 同じオリジンの埋め込み元からのメッセージのみ受け付ける
+    if (event.origin !== location.origin || event.source !== window.parent) return;
+    handleMessage(event.data as WebSocketMessage);
+  });
+}
+
 // ===========================================
 // UI更新
 // ===========================================
-// カウンター色決定（盛り上がり系カラースキーム）
-function getCounterColor(count: number): string {
-  if (count >= 100) return '#FFD700'; // Gold - 最高潮
-  if (count >= 50) return '#FF9800';  // Orange - 熱くなってきた
-  if (count >= 25) return '#FFEB3B';  // Yellow - 盛り上がり開始
-  return '#4CAF50';                    // Green - 平穏
+// 表示設定を反映（表示中のコメントはそのまま流し、新しいコメントから適用する）
+function applyConfig(config: OverlayConfig): void {
+  overlayConfig = config;
+  layout.configure({
+    laneCount: config.laneCount,
+    usableRange: config.usableRange,
+    exclusions: config.exclusions,
+    flowDuration: config.flowDurationSeconds * 1000,
+    fixedDuration: config.fixedDurationSeconds * 1000,
+  });
+  if (previewing) {
+    renderExclusionGuides(config);
+  }
+
+  const root = document.documentElement.style;
+  root.setProperty('--comment-font-family', config.font.family);
+  root.setProperty('--comment-font-weight', String(config.font.weight));
+  root.setProperty('--comment-opacity', String(config.font.opacity));
+  root.setProperty('--outline-width', `${config.font.outlineWidth}px`);
+  root.setProperty('--outline-color', config.font.outlineColor);
+
+  const counter = document.getElementById('comment-counter');
+  if (counter) {
+    counter.dataset['position'] = config.counter.position;
+    counter.style.display = config.counter.visible && connected ? 'block' : 'none';
+  }
+}
+
+// 除外範囲を枠で表示（プレビュー時のみ。本番の画面には表示しない）
+function renderExclusionGuides(config: OverlayConfig): void {
+  document.querySelectorAll('.exclusion-guide').forEach((guide) => guide.remove());
+  for (const area of config.exclusions) {
+    const guide = document.createElement('div');
+    guide.className = 'exclusion-guide';
+    guide.style.left = `${area.x * 100}%`;
+    guide.style.top = `${area.y * 100}%`;
+    guide.style.width = `${area.width * 100}%`;
+    guide.style.height = `${area.height * 100}%`;
+    document.body.appendChild(guide);
+  }
 }
 
-// カウンター更新
-function updateCounter(count: number): void {
+// カウンター更新（複数スレッド監視時はラベル付きスレッドの内訳も表示）
+function updateCounter(count: number, threads: ThreadCount[]): void {
   const counter = document.getElementById('comment-counter');
   if (counter) {
-    counter.style.display = 'block';  // 再接続時に表示
-    counter.textContent = `💬 ${count}`;
-    counter.style.color = getCounterColor(count);
+    counter.style.display = overlayConfig.counter.visible ? 'block' : 'none';  // 再接続時に表示
+    const breakdown = threads.length > 1
+      ? threads
+        .filter((thread) => thread.label)
+        .map((thread) => `${thread.label}: ${thread.count}`)
+        .join(' / ')
+      : '';
+    counter.textContent = breakdown ? `💬 ${count} (${breakdown})` : `💬 ${count}`;
+    counter.style.color = getCounterColor(count, overlayConfig.counter.thresholds);
+  }
+}
+
+// 一時停止中の表示を切り替え
+function showPauseIndicator(paused: boolean): void {
+  const indicator = document.getElementById('pause-indicator');
+  if (indicator) {
+    indicator.style.display = paused ? 'block' : 'none';
   }
 }
 
@@ -86,16 +216,10 @@ function hideCounter(): void {
   }
 }
 
-// フォントサイズ決定
-// | 文字数 | フォントサイズ |
-// | 1〜10文字 | 40px (大) |
-// | 11〜30文字 | 32px (中) |
-// | 31文字以上 | 24px (小) |
-function getFontSize(text: string): number {
-  const length = text.length;
-  if (length <= 10) return 40;
-  if (length <= 30) return 32;
-  return 24;
+// コメント要素のフォントサイズを設定（サイズコマンドは要素に保持して編集時にも適用する）
+function applyFontSize(comment: HTMLElement, text: string): void {
+  const size = comment.dataset['size'] as CommentSize | undefined;
+  comment.style.fontSize = `${layout.getFontSize(text, size)}px`;
 }
 
 // ===========================================
@@ -161,101 +285,159 @@ function renderTextWithEmojis(text: string, emojis: Record<string, string>): Doc
 }
 
 // ===========================================
-// レーン管理
+// 添付画像
 // ===========================================
-// レーンのY座標を計算
-function getLaneY(laneIndex: number): number {
-  const usableHeight = window.innerHeight * (USABLE_RANGE_END - USABLE_RANGE_START);
-  const laneHeight = usableHeight / LANE_COUNT;
-  const startY = window.innerHeight * USABLE_RANGE_START;
-  return startY + laneHeight * (laneIndex + 0.5);
-}
-
-// 空きレーンのインデックス一覧を取得
-function getAvailableLanes(): number[] {
-  const available: number[] = [];
-  for (let i = 0; i < lanes.length; i++) {
-    if (lanes[i] === null) {
-      available.push(i);
+// 添付画像のサムネイルを並べた要素を返す（表示できる画像がない場合はnull）
+function renderImages(images: CommentImage[]): HTMLElement | null {
+  const container = document.createElement('div');
+  container.className = 'comment-images';
+
+  for (const image of images) {
+    // セキュリティ: オーバーレイサーバーの画像プロキシ経由のURLのみ許可
+    if (!image.url.startsWith('/images/')) continue;
+
+    const img = document.createElement('img');
+    img.src = image.url;
+    img.alt = image.name ?? '';
+    img.className = 'comment-image';
+    if (image.width && image.height) {
+      img.width = image.width;
+      img.height = image.height;
     }
+    // 読み込みエラー時は画像を表示しない
+    img.onerror = (): void => img.remove();
+    container.appendChild(img);
   }
-  return available;
-}
 
-// 最古のレーンのインデックスを取得
-function findOldestLane(): number {
-  let oldestIndex = 0;
-  let oldestTimestamp = Infinity;
-  for (let i = 0; i < lanes.length; i++) {
-    const timestamp = lanes[i];
-    if (timestamp !== null && timestamp !== undefined && timestamp < oldestTimestamp) {
-      oldestTimestamp = timestamp;
-      oldestIndex = i;
-    }
-  }
-  return oldestIndex;
-}
-
-// 使用するレーンを選択
-function selectLane(): number {
-  const available = getAvailableLanes();
-  if (available.length > 0) {
-    const randomIndex = Math.floor(Math.random() * available.length);
-    return available[randomIndex]!;
-  }
-  return findOldestLane();
+  return container.childElementCount > 0 ? container : null;
 }
 
 // ===========================================
 // コメント表示
 // ===========================================
-function showComment(userName: string, text: string, userColor: string, emojis: Record<string, string>): void {
+// コメント要素を作成（配置は placeComment で決める）
+function renderComment(data: CommentMessage): HTMLElement {
+  const { userName, text, userColor, threadLabel } = data;
+  const style = data.style ?? {};
   const comment = document.createElement('div');
   comment.className = 'comment';
-  comment.style.color = userColor;
+  // セキュリティ: 色コマンドの色は #RRGGBB 形式のみ許可
+  comment.style.color = style.color && /^#[0-9a-f]{6}$/i.test(style.color) ? style.color : userColor;
 
-  // フォントサイズを動的に設定
-  const fontSize = getFontSize(text);
-  comment.style.fontSize = `${fontSize}px`;
+  // フォントサイズを動的に設定（サイズコマンドの倍率を適用）
+  if (style.size) {
+    comment.dataset['size'] = style.size;
+  }
+  applyFontSize(comment, text);
 
   // コメントテキスト（絵文字を画像に置換）
   const textSpan = document.createElement('span');
   textSpan.className = 'comment-text';
-  textSpan.appendChild(renderTextWithEmojis(text, emojis));
+  textSpan.appendChild(renderTextWithEmojis(text, data.emojis ?? {}));
   comment.appendChild(textSpan);
 
+  // 添付画像（サムネイル）
+  const images = renderImages(data.images ?? []);
+  if (images) {
+    comment.appendChild(images);
+  }
+
   // 投稿者名（右下に控えめに表示）
   const nameSpan = document.createElement('span');
   nameSpan.className = 'user-name';
-  nameSpan.textContent = userName;
+  // スレッドにラベルがある場合は投稿者名に添える
+  nameSpan.textContent = threadLabel ? `${userName} ・ ${threadLabel}` : userName;
   comment.appendChild(nameSpan);
 
-  // レーンを選択してY座標を設定
-  const laneIndex = selectLane();
-  const y = getLaneY(laneIndex);
-  comment.style.top = `${y}px`;
+  return comment;
+}
 
-  // レーンを占有
-  const now = Date.now();
-  lanes[laneIndex] = now;
+// 描画したコメントの幅からレーンを選び、Y座標と表示時間を設定
+// 位置コマンド（[ue] / [shita]）のコメントは画面上部・下部に中央揃えで固定表示
+function placeComment(comment: HTMLElement, data: CommentMessage): void {
+  const placement = layout.place(
+    { width: comment.offsetWidth, style: data.style },
+    { width: window.innerWidth, height: window.innerHeight }
+  );
+  if (placement.kind === 'fixed') {
+    comment.classList.add('fixed');
+  }
+  comment.style.top = `${placement.y}px`;
+  comment.style.animationDuration = `${placement.duration}ms`;
+}
 
-  // 一定時間後にレーンを解放（コメントが画面中央を過ぎた頃）
-  setTimeout(() => {
-    // 同じタイムスタンプの場合のみ解放（上書きされていない場合）
-    if (lanes[laneIndex] === now) {
-      lanes[laneIndex] = null;
-    }
-  }, (FLOW_DURATION / 2) * 1000);
+function showComment(data: CommentMessage): void {
+  const comment = renderComment(data);
 
+  // 幅を測るため、配置の前に追加する（流れ始めは画面外、固定表示は配置後にアニメーションを始める）
   document.body.appendChild(comment);
+  placeComment(comment, data);
+  commentElements.set(data.id, comment);
 
   // アニメーション終了後に要素を削除
   comment.addEventListener('animationend', () => {
     comment.remove();
+    commentElements.delete(data.id);
   });
 }
 
+// 表示中のコメントを編集後の内容で再描画（流れている位置はそのまま）
+function updateComment(id: string, text: string, emojis: Record<string, string>): void {
+  const comment = commentElements.get(id);
+  const textSpan = comment?.querySelector('.comment-text');
+  if (!comment || !textSpan) return;
+
+  applyFontSize(comment, text);
+  textSpan.replaceChildren(renderTextWithEmojis(text, emojis));
+}
+
+// 表示中のコメントを取り消す
+function retractComment(id: string): void {
+  const comment = commentElements.get(id);
+  if (!comment) return;
+
+  comment.remove();
+  commentElements.delete(id);
+}
+
+// 表示中のコメントとリアクションを全て消す
+function clearComments(): void {
+  document.querySelectorAll('.comment, .reaction').forEach((element) => element.remove());
+  commentElements.clear();
+}
+
+// ===========================================
+// リアクション表示
+// ===========================================
+// リアクションの絵文字を画面右下から少しずつずらして浮かび上がらせる
+function showReaction(data: ReactionMessage): void {
+  // セキュリティ: https/httpスキームのみ許可（XSS対策）
+  if (!data.url.startsWith('https://') && !data.url.startsWith('http://')) return;
+
+  for (let i = 0; i < REACTION_BURST_SIZE; i++) {
+    const img = document.createElement('img');
+    img.src = data.url;
+    img.alt = ':' + data.emoji + ':';
+    img.className = 'reaction';
+
+    const x = REACTION_AREA_START + Math.random() * (REACTION_AREA_END - REACTION_AREA_START);
+    img.style.left = `${x * 100}vw`;
+    img.style.setProperty('--drift', `${Math.round((Math.random() - 0.5) * 120)}px`);
+    img.style.animationDelay = `${i * 0.12}s`;
+    img.style.animationDuration = `${2 + Math.random()}s`;
+
+    // 読み込みエラー時・アニメーション終了後に要素を削除
+    img.onerror = (): void => img.remove();
+    img.addEventListener('animationend', () => img.remove());
+    document.body.appendChild(img);
+  }
+}
+
 // ===========================================
 // 初期化
 // ===========================================
-connect();
+if (new URLSearchParams(location.search).has('preview')) {
+  startPreview();
+} else {
+  connect();
+}
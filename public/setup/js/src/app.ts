@@ -11,6 +11,13 @@ type AppState = 'idle' | 'ready' | 'starting' | 'running' | 'stopping';
 interface StatusResponse {
   state: AppState;
   threadUrl?: string;
+  threadUrls?: string[];
+}
+
+interface ThreadInput {
+  threadUrl: string;
+  label?: string;
+  includeReplies: boolean;
 }
 
 interface ApiResponse {
@@ -23,6 +30,183 @@ interface WebSocketStatusMessage {
   data: StatusResponse;
 }
 
+interface ModerationSettings {
+  enabled: boolean;
+  autoApproveSeconds: number | null;
+}
+
+interface ModerationItem {
+  id: string;
+  comment: {
+    text: string;
+    userName: string;
+    threadLabel: string;
+    images?: unknown[];
+  };
+  reason: 'moderation' | 'filter';
+  autoApproveAt: number | null;
+}
+
+interface ModerationSnapshot {
+  settings: ModerationSettings;
+  items: ModerationItem[];
+}
+
+interface ModerationResponse extends ApiResponse {
+  moderation?: ModerationSnapshot;
+}
+
+interface WebSocketModerationMessage {
+  type: 'moderation';
+  data: ModerationSnapshot;
+}
+
+type ReplayState = 'idle' | 'playing' | 'paused' | 'ended';
+
+interface ReplayStatus {
+  state: ReplayState;
+  source: string | null;
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+  played: number;
+  total: number;
+}
+
+interface ReplayResponse extends ApiResponse {
+  replay?: ReplayStatus;
+}
+
+interface WebSocketReplayMessage {
+  type: 'replay';
+  data: ReplayStatus;
+}
+
+type WebSocketMessage = WebSocketStatusMessage | WebSocketModerationMessage | WebSocketReplayMessage;
+
+type FilterAction = 'drop' | 'mask' | 'hold';
+
+interface FilterRule {
+  pattern: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  action: FilterAction;
+}
+
+interface FilterConfig {
+  rules: FilterRule[];
+}
+
+interface FilterConfigResponse extends ApiResponse {
+  config?: FilterConfig;
+}
+
+interface TranscriptSummary {
+  sessionId: string;
+  size: number;
+  updatedAt: string;
+}
+
+interface TranscriptListResponse extends ApiResponse {
+  transcripts?: TranscriptSummary[];
+}
+
+interface DisplayRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DisplayInfo {
+  id: number;
+  label: string;
+  bounds: DisplayRect;
+  workArea: DisplayRect;
+  scaleFactor: number;
+  primary: boolean;
+}
+
+interface DisplaySelection {
+  displayId: number | null;
+  region: DisplayRect;
+}
+
+interface DisplayResponse extends ApiResponse {
+  displays?: DisplayInfo[];
+  selection?: DisplaySelection;
+}
+
+type CounterPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+interface CounterThreshold {
+  count: number;
+  color: string;
+}
+
+interface ExclusionArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface OverlayConfig {
+  laneCount: number;
+  usableRange: { start: number; end: number };
+  exclusions: ExclusionArea[];
+  flowDurationSeconds: number;
+  fixedDurationSeconds: number;
+  font: {
+    family: string;
+    weight: number;
+    outlineWidth: number;
+    outlineColor: string;
+    opacity: number;
+  };
+  counter: {
+    visible: boolean;
+    position: CounterPosition;
+    thresholds: CounterThreshold[];
+  };
+}
+
+interface OverlayConfigResponse extends ApiResponse {
+  config?: OverlayConfig;
+}
+
+interface OverlayPreset {
+  name: string;
+  config: OverlayConfig;
+}
+
+interface OverlayPresetsResponse extends ApiResponse {
+  presets?: OverlayPreset[];
+}
+
+interface PreviewCommentStyle {
+  position?: 'top' | 'bottom';
+  color?: string;
+  size?: 'big' | 'small';
+}
+
+/**
+ * プレビュー（オーバーレイ画面）に送るメッセージ
+ */
+type PreviewMessage =
+  | { type: 'config'; config: OverlayConfig }
+  | { type: 'counter'; count: number }
+  | {
+    type: 'comment';
+    id: string;
+    text: string;
+    userName: string;
+    userColor: string;
+    style?: PreviewCommentStyle;
+    threadId: string;
+    threadLabel: string;
+  };
+
 interface DOMElements {
   // ステップインジケーター
   step1Indicator: HTMLElement;
@@ -48,7 +232,11 @@ interface DOMElements {
   errorMessage: HTMLElement;
 
   // Step 2
-  threadUrl: HTMLInputElement;
+  threadUrl: HTMLTextAreaElement;
+  includeReplies: HTMLInputElement;
+  moderationEnabled: HTMLInputElement;
+  showImages: HTMLInputElement;
+  backfillCount: HTMLInputElement;
   step2Error: HTMLElement;
   backBtn: HTMLButtonElement;
   startBtn: HTMLButtonElement;
@@ -56,7 +244,84 @@ interface DOMElements {
   // Step 3
   currentUrl: HTMLElement;
   uptime: HTMLElement;
+  switchUrl: HTMLInputElement;
+  switchIncludeReplies: HTMLInputElement;
+  switchBtn: HTMLButtonElement;
+  switchError: HTMLElement;
+  moderationToggle: HTMLInputElement;
+  autoApproveSeconds: HTMLInputElement;
+  moderationList: HTMLElement;
+  moderationEmpty: HTMLElement;
+  moderationError: HTMLElement;
   stopBtn: HTMLButtonElement;
+
+  // 表示するディスプレイ
+  displaySelect: HTMLSelectElement;
+  displayRefreshBtn: HTMLButtonElement;
+  displayApplyBtn: HTMLButtonElement;
+  displayRegionX: HTMLInputElement;
+  displayRegionY: HTMLInputElement;
+  displayRegionWidth: HTMLInputElement;
+  displayRegionHeight: HTMLInputElement;
+  displayError: HTMLElement;
+
+  // NGワードフィルター
+  filterRules: HTMLElement;
+  filterEmpty: HTMLElement;
+  filterError: HTMLElement;
+  filterSaved: HTMLElement;
+  filterAddBtn: HTMLButtonElement;
+  filterSaveBtn: HTMLButtonElement;
+
+  // リプレイ
+  replaySource: HTMLSelectElement;
+  replaySpeed: HTMLSelectElement;
+  replayThreadUrl: HTMLInputElement;
+  replayLoadBtn: HTMLButtonElement;
+  replayPlayBtn: HTMLButtonElement;
+  replayStopBtn: HTMLButtonElement;
+  replaySeek: HTMLInputElement;
+  replayPosition: HTMLElement;
+  replayInfo: HTMLElement;
+  replayError: HTMLElement;
+
+  // 表示設定
+  themePreview: HTMLIFrameElement;
+  themeTestBtn: HTMLButtonElement;
+  themePreset: HTMLSelectElement;
+  themePresetLoadBtn: HTMLButtonElement;
+  themePresetDeleteBtn: HTMLButtonElement;
+  themePresetName: HTMLInputElement;
+  themePresetSaveBtn: HTMLButtonElement;
+  themeForm: HTMLElement;
+  themeFontFamily: HTMLInputElement;
+  themeFontWeight: HTMLInputElement;
+  themeOpacity: HTMLInputElement;
+  themeOpacityValue: HTMLElement;
+  themeOutlineWidth: HTMLInputElement;
+  themeOutlineWidthValue: HTMLElement;
+  themeOutlineColor: HTMLInputElement;
+  themeFlowDuration: HTMLInputElement;
+  themeFlowDurationValue: HTMLElement;
+  themeFixedDuration: HTMLInputElement;
+  themeLaneCount: HTMLInputElement;
+  themeRangeStart: HTMLInputElement;
+  themeRangeEnd: HTMLInputElement;
+  themeExclusions: HTMLElement;
+  themeExclusionAddBtn: HTMLButtonElement;
+  themeCounterPosition: HTMLSelectElement;
+  themeCounterVisible: HTMLInputElement;
+  themeCounterThresholds: HTMLElement;
+  themeError: HTMLElement;
+  themeSaved: HTMLElement;
+  themeResetBtn: HTMLButtonElement;
+  themeApplyBtn: HTMLButtonElement;
+
+  // セッションログ
+  transcriptList: HTMLElement;
+  transcriptEmpty: HTMLElement;
+  transcriptError: HTMLElement;
+  transcriptRefreshBtn: HTMLButtonElement;
 }
 
 // ===========================================
@@ -69,6 +334,21 @@ let ws: WebSocket | null = null;
 let uptimeInterval: ReturnType<typeof setInterval> | null = null;
 let startTime = 0;
 
+// リプレイの再生状況と受信時刻（再生中の位置の表示に使用）
+let replayStatus: ReplayStatus | null = null;
+let replayReceivedAt = 0;
+let replayInterval: ReturnType<typeof setInterval> | null = null;
+// 再生位置のスライダーを操作中か
+let replaySeeking = false;
+
+// 保存済みの表示設定（編集欄を元に戻す際に使用）
+let savedOverlayConfig: OverlayConfig | null = null;
+// 編集欄に読み込んだ表示設定（画面で編集しない項目の値に使用）
+let editingOverlayConfig: OverlayConfig | null = null;
+let overlayPresets: OverlayPreset[] = [];
+// プレビューのカウンターに表示するコメント数
+let previewCount = 0;
+
 // ===========================================
 // DOM要素
 // ===========================================
@@ -98,7 +378,11 @@ const elements: DOMElements = {
   errorMessage: document.getElementById('error-message')!,
 
   // Step 2
-  threadUrl: document.getElementById('thread-url') as HTMLInputElement,
+  threadUrl: document.getElementById('thread-url') as HTMLTextAreaElement,
+  includeReplies: document.getElementById('include-replies') as HTMLInputElement,
+  moderationEnabled: document.getElementById('moderation-enabled') as HTMLInputElement,
+  showImages: document.getElementById('show-images') as HTMLInputElement,
+  backfillCount: document.getElementById('backfill-count') as HTMLInputElement,
   step2Error: document.getElementById('step2-error')!,
   backBtn: document.getElementById('back-btn') as HTMLButtonElement,
   startBtn: document.getElementById('start-btn') as HTMLButtonElement,
@@ -106,7 +390,78 @@ const elements: DOMElements = {
   // Step 3
   currentUrl: document.getElementById('current-url')!,
   uptime: document.getElementById('uptime')!,
+  switchUrl: document.getElementById('switch-url') as HTMLInputElement,
+  switchIncludeReplies: document.getElementById('switch-include-replies') as HTMLInputElement,
+  switchBtn: document.getElementById('switch-btn') as HTMLButtonElement,
+  switchError: document.getElementById('switch-error')!,
+  moderationToggle: document.getElementById('moderation-toggle') as HTMLInputElement,
+  autoApproveSeconds: document.getElementById('auto-approve-seconds') as HTMLInputElement,
+  moderationList: document.getElementById('moderation-list')!,
+  moderationEmpty: document.getElementById('moderation-empty')!,
+  moderationError: document.getElementById('moderation-error')!,
   stopBtn: document.getElementById('stop-btn') as HTMLButtonElement,
+
+  // 表示するディスプレイ
+  displaySelect: document.getElementById('display-select') as HTMLSelectElement,
+  displayRefreshBtn: document.getElementById('display-refresh-btn') as HTMLButtonElement,
+  displayApplyBtn: document.getElementById('display-apply-btn') as HTMLButtonElement,
+  displayRegionX: document.getElementById('display-region-x') as HTMLInputElement,
+  displayRegionY: document.getElementById('display-region-y') as HTMLInputElement,
+  displayRegionWidth: document.getElementById('display-region-width') as HTMLInputElement,
+  displayRegionHeight: document.getElementById('display-region-height') as HTMLInputElement,
+  displayError: document.getElementById('display-error')!,
+
+  // NGワードフィルター
+  filterRules: document.getElementById('filter-rules')!,
+  filterEmpty: document.getElementById('filter-empty')!,
+  filterError: document.getElementById('filter-error')!,
+  filterSaved: document.getElementById('filter-saved')!,
+  filterAddBtn: document.getElementById('filter-add-btn') as HTMLButtonElement,
+  filterSaveBtn: document.getElementById('filter-save-btn') as HTMLButtonElement,
+  replaySource: document.getElementById('replay-source') as HTMLSelectElement,
+  replaySpeed: document.getElementById('replay-speed') as HTMLSelectElement,
+  replayThreadUrl: document.getElementById('replay-thread-url') as HTMLInputElement,
+  replayLoadBtn: document.getElementById('replay-load-btn') as HTMLButtonElement,
+  replayPlayBtn: document.getElementById('replay-play-btn') as HTMLButtonElement,
+  replayStopBtn: document.getElementById('replay-stop-btn') as HTMLButtonElement,
+  replaySeek: document.getElementById('replay-seek') as HTMLInputElement,
+  replayPosition: document.getElementById('replay-position')!,
+  replayInfo: document.getElementById('replay-info')!,
+  replayError: document.getElementById('replay-error')!,
+  themePreview: document.getElementById('theme-preview') as HTMLIFrameElement,
+  themeTestBtn: document.getElementById('theme-test-btn') as HTMLButtonElement,
+  themePreset: document.getElementById('theme-preset') as HTMLSelectElement,
+  themePresetLoadBtn: document.getElementById('theme-preset-load-btn') as HTMLButtonElement,
+  themePresetDeleteBtn: document.getElementById('theme-preset-delete-btn') as HTMLButtonElement,
+  themePresetName: document.getElementById('theme-preset-name') as HTMLInputElement,
+  themePresetSaveBtn: document.getElementById('theme-preset-save-btn') as HTMLButtonElement,
+  themeForm: document.getElementById('theme-form')!,
+  themeFontFamily: document.getElementById('theme-font-family') as HTMLInputElement,
+  themeFontWeight: document.getElementById('theme-font-weight') as HTMLInputElement,
+  themeOpacity: document.getElementById('theme-opacity') as HTMLInputElement,
+  themeOpacityValue: document.getElementById('theme-opacity-value')!,
+  themeOutlineWidth: document.getElementById('theme-outline-width') as HTMLInputElement,
+  themeOutlineWidthValue: document.getElementById('theme-outline-width-value')!,
+  themeOutlineColor: document.getElementById('theme-outline-color') as HTMLInputElement,
+  themeFlowDuration: document.getElementById('theme-flow-duration') as HTMLInputElement,
+  themeFlowDurationValue: document.getElementById('theme-flow-duration-value')!,
+  themeFixedDuration: document.getElementById('theme-fixed-duration') as HTMLInputElement,
+  themeLaneCount: document.getElementById('theme-lane-count') as HTMLInputElement,
+  themeRangeStart: document.getElementById('theme-range-start') as HTMLInputElement,
+  themeRangeEnd: document.getElementById('theme-range-end') as HTMLInputElement,
+  themeExclusions: document.getElementById('theme-exclusions')!,
+  themeExclusionAddBtn: document.getElementById('theme-exclusion-add-btn') as HTMLButtonElement,
+  themeCounterPosition: document.getElementById('theme-counter-position') as HTMLSelectElement,
+  themeCounterVisible: document.getElementById('theme-counter-visible') as HTMLInputElement,
+  themeCounterThresholds: document.getElementById('theme-counter-thresholds')!,
+  themeError: document.getElementById('theme-error')!,
+  themeSaved: document.getElementById('theme-saved')!,
+  themeResetBtn: document.getElementById('theme-reset-btn') as HTMLButtonElement,
+  themeApplyBtn: document.getElementById('theme-apply-btn') as HTMLButtonElement,
+  transcriptList: document.getElementById('transcript-list')!,
+  transcriptEmpty: document.getElementById('transcript-empty')!,
+  transcriptError: document.getElementById('transcript-error')!,
+  transcriptRefreshBtn: document.getElementById('transcript-refresh-btn') as HTMLButtonElement,
 };
 
 // ===========================================
@@ -227,9 +582,13 @@ function connectWebSocket(): void {
   };
 
   ws.onmessage = (event: MessageEvent): void => {
-    const message = JSON.parse(event.data) as WebSocketStatusMessage;
+    const message = JSON.parse(event.data) as WebSocketMessage;
     if (message.type === 'status') {
       handleStatusUpdate(message.data);
+    } else if (message.type === 'moderation') {
+      renderModeration(message.data);
+    } else if (message.type === 'replay') {
+      renderReplay(message.data);
     }
   };
 
@@ -253,20 +612,469 @@ function handleStatusUpdate(status: StatusResponse): void {
   if (status.state === 'idle') {
     showStep(1);
     stopUptimeTimer();
+    renderReplay(null);
+    loadTranscripts();
   } else if (status.state === 'ready') {
     showStep(2);
     stopUptimeTimer();
+    renderReplay(null);
+    // 停止したセッションのログを一覧に反映
+    loadTranscripts();
   } else if (status.state === 'starting') {
     showLoading('オーバーレイを起動中...');
   } else if (status.state === 'running') {
     showStep(3);
-    elements.currentUrl.textContent = status.threadUrl ?? '';
-    startUptimeTimer();
+    elements.currentUrl.textContent = (status.threadUrls ?? []).join(', ') || (status.threadUrl ?? '');
+    // スレッド切り替え時はタイマーを継続する
+    if (!uptimeInterval) {
+      startUptimeTimer();
+      loadModeration();
+      requestReplay('GET', '');
+      loadDisplays(DISPLAY_RETRY_COUNT);
+    }
   } else if (status.state === 'stopping') {
     showLoading('オーバーレイを停止中...');
   }
 }
 
+// ===========================================
+// モデレーション
+// ===========================================
+
+/**
+ * 承認待ちのコメント一覧と設定を表示
+ */
+function renderModeration(snapshot: ModerationSnapshot): void {
+  elements.moderationToggle.checked = snapshot.settings.enabled;
+  // 入力中の値は上書きしない
+  if (document.activeElement !== elements.autoApproveSeconds) {
+    elements.autoApproveSeconds.value = snapshot.settings.autoApproveSeconds?.toString() ?? '';
+  }
+
+  elements.moderationList.replaceChildren(...snapshot.items.map(createModerationRow));
+  elements.moderationEmpty.classList.toggle('hidden', snapshot.items.length > 0);
+}
+
+/**
+ * 承認待ちのコメント1件分の行を作成
+ */
+function createModerationRow(item: ModerationItem): HTMLElement {
+  const row = document.createElement('li');
+  row.className = 'flex items-center gap-2 px-3 py-2';
+
+  // セキュリティ: コメント本文は textContent で表示する
+  const body = document.createElement('div');
+  body.className = 'flex-1 min-w-0';
+  const meta = document.createElement('div');
+  meta.className = 'text-xs text-gray-500 truncate';
+  meta.textContent = item.comment.threadLabel
+    ? `${item.comment.userName} [${item.comment.threadLabel}]`
+    : item.comment.userName;
+  if (item.reason === 'filter') {
+    meta.textContent += '（NGワード）';
+  }
+  const text = document.createElement('div');
+  text.className = 'text-sm text-gray-800 break-words';
+  text.textContent = item.comment.text;
+  const imageCount = item.comment.images?.length ?? 0;
+  if (imageCount > 0) {
+    text.textContent += `${item.comment.text ? ' ' : ''}[画像 ${imageCount}枚]`;
+  }
+  body.append(meta, text);
+
+  const approveBtn = document.createElement('button');
+  approveBtn.className = 'bg-emerald-500 text-white text-sm py-1 px-3 rounded-lg hover:bg-emerald-600 transition-all';
+  approveBtn.textContent = '承認';
+  approveBtn.setAttribute('aria-label', 'コメントを承認して表示する');
+  approveBtn.addEventListener('click', () => moderate(item.id, 'approve'));
+
+  const rejectBtn = document.createElement('button');
+  rejectBtn.className = 'bg-slate-200 text-slate-700 text-sm py-1 px-3 rounded-lg hover:bg-slate-300 transition-all';
+  rejectBtn.textContent = '却下';
+  rejectBtn.setAttribute('aria-label', 'コメントを却下する');
+  rejectBtn.addEventListener('click', () => moderate(item.id, 'reject'));
+
+  row.append(body, approveBtn, rejectBtn);
+  return row;
+}
+
+// ===========================================
+// 表示するディスプレイ
+// ===========================================
+
+// オーバーレイのウィンドウ（Electron）の起動を待つ間の再試行
+const DISPLAY_RETRY_COUNT = 10;
+const DISPLAY_RETRY_INTERVAL = 2000;
+
+/**
+ * ディスプレイの選択肢と現在の選択を表示
+ */
+function renderDisplays(displays: DisplayInfo[], selection: DisplaySelection): void {
+  elements.displaySelect.replaceChildren(...displays.map((display) => {
+    const option = document.createElement('option');
+    option.value = String(display.id);
+    const { width, height } = display.bounds;
+    option.textContent = `${display.label}（${width}×${height}${display.primary ? '、メイン' : ''}）`;
+    return option;
+  }));
+  const selected = displays.find((display) => display.id === selection.displayId)
+    ?? displays.find((display) => display.primary);
+  if (selected) {
+    elements.displaySelect.value = String(selected.id);
+  }
+
+  const percent = (value: number): string => String(Math.round(value * 100));
+  elements.displayRegionX.value = percent(selection.region.x);
+  elements.displayRegionY.value = percent(selection.region.y);
+  elements.displayRegionWidth.value = percent(selection.region.width);
+  elements.displayRegionHeight.value = percent(selection.region.height);
+  elements.displayApplyBtn.disabled = displays.length === 0;
+}
+
+/**
+ * 編集欄から表示範囲（割合）を取得
+ */
+function collectDisplayRegion(): DisplayRect {
+  const fraction = (input: HTMLInputElement): number => input.valueAsNumber / 100;
+  return {
+    x: fraction(elements.displayRegionX),
+    y: fraction(elements.displayRegionY),
+    width: fraction(elements.displayRegionWidth),
+    height: fraction(elements.displayRegionHeight),
+  };
+}
+
+// ===========================================
+// NGワードフィルター
+// ===========================================
+
+const FILTER_ACTION_LABELS: Record<FilterAction, string> = {
+  drop: '除外',
+  mask: 'マスク',
+  hold: '保留',
+};
+
+/**
+ * フィルタールールの編集欄を表示
+ */
+function renderFilterRules(rules: FilterRule[]): void {
+  elements.filterRules.replaceChildren(...rules.map(createFilterRuleRow));
+  updateFilterEmpty();
+}
+
+function updateFilterEmpty(): void {
+  elements.filterEmpty.classList.toggle('hidden', elements.filterRules.children.length > 0);
+}
+
+/**
+ * フィルタールール1件分の編集行を作成
+ */
+function createFilterRuleRow(rule: FilterRule): HTMLElement {
+  const row = document.createElement('li');
+  row.className = 'flex items-center gap-2';
+
+  const pattern = document.createElement('input');
+  pattern.type = 'text';
+  pattern.value = rule.pattern;
+  pattern.placeholder = 'NGワード';
+  pattern.dataset['field'] = 'pattern';
+  pattern.setAttribute('aria-label', 'NGワードまたは正規表現');
+  pattern.className = 'flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors';
+
+  const regexLabel = document.createElement('label');
+  regexLabel.className = 'flex items-center text-sm text-gray-700 whitespace-nowrap';
+  const regex = document.createElement('input');
+  regex.type = 'checkbox';
+  regex.checked = rule.regex === true;
+  regex.dataset['field'] = 'regex';
+  regex.className = 'mr-1 rounded border-slate-300';
+  regexLabel.append(regex, '正規表現');
+
+  const action = document.createElement('select');
+  action.dataset['field'] = 'action';
+  action.setAttribute('aria-label', '一致した場合の動作');
+  action.className = 'px-2 py-2 border border-slate-300 rounded-lg text-sm';
+  for (const [value, label] of Object.entries(FILTER_ACTION_LABELS)) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    action.append(option);
+  }
+  action.value = rule.action;
+
+  const removeBtn = document.createElement('button');
+  removeBtn.className = 'bg-slate-200 text-slate-700 text-sm py-2 px-3 rounded-lg hover:bg-slate-300 transition-all';
+  removeBtn.textContent = '削除';
+  removeBtn.setAttribute('aria-label', 'フィルタールールを削除する');
+  removeBtn.addEventListener('click', () => {
+    row.remove();
+    updateFilterEmpty();
+  });
+
+  // 大文字・小文字の区別は画面では編集しないため、既存の値を保持する
+  if (rule.caseSensitive) {
+    row.dataset['caseSensitive'] = 'true';
+  }
+
+  row.append(pattern, regexLabel, action, removeBtn);
+  return row;
+}
+
+/**
+ * 編集欄からフィルタールールを取得（空欄の行は除く）
+ */
+function collectFilterRules(): FilterRule[] {
+  return Array.from(elements.filterRules.children).flatMap((row): FilterRule[] => {
+    const field = <T extends HTMLElement>(name: string): T => row.querySelector(`[data-field="${name}"]`) as T;
+    const pattern = field<HTMLInputElement>('pattern').value.trim();
+    if (!pattern) return [];
+
+    const rule: FilterRule = {
+      pattern,
+      action: field<HTMLSelectElement>('action').value as FilterAction,
+    };
+    if (field<HTMLInputElement>('regex').checked) rule.regex = true;
+    if ((row as HTMLElement).dataset['caseSensitive'] === 'true') rule.caseSensitive = true;
+    return [rule];
+  });
+}
+
+// ===========================================
+// 表示設定
+// ===========================================
+
+// プレビューに流すテストコメント（コメントコマンドの表示も確認できるようにする）
+const PREVIEW_COMMENTS: { text: string; userColor: string; style?: PreviewCommentStyle }[] = [
+  { text: 'テストコメントです', userColor: '#FFFFFF' },
+  { text: 'これは長めのテストコメントです。流れる速さや縁取りを確認できます', userColor: '#7DD3FC' },
+  { text: 'www', userColor: '#FCA5A5' },
+  { text: '上に固定表示されるコメント', userColor: '#FFFFFF', style: { position: 'top' } },
+  { text: '下に固定表示（赤・大）', userColor: '#FFFFFF', style: { position: 'bottom', color: '#FF0000', size: 'big' } },
+  { text: '小さいコメント', userColor: '#86EFAC', style: { size: 'small' } },
+];
+// テストコメントを流す間隔（ミリ秒）
+const PREVIEW_COMMENT_INTERVAL = 400;
+
+/**
+ * 表示設定を編集欄に表示し、プレビューに反映
+ */
+function renderOverlayConfig(config: OverlayConfig): void {
+  editingOverlayConfig = config;
+  elements.themeFontFamily.value = config.font.family;
+  elements.themeFontWeight.value = String(config.font.weight);
+  elements.themeOpacity.value = String(config.font.opacity);
+  elements.themeOutlineWidth.value = String(config.font.outlineWidth);
+  elements.themeOutlineColor.value = config.font.outlineColor.toLowerCase();
+  elements.themeFlowDuration.value = String(config.flowDurationSeconds);
+  elements.themeFixedDuration.value = String(config.fixedDurationSeconds);
+  elements.themeLaneCount.value = String(config.laneCount);
+  elements.themeRangeStart.value = String(toPercent(config.usableRange.start));
+  elements.themeRangeEnd.value = String(toPercent(config.usableRange.end));
+  elements.themeExclusions.replaceChildren(...config.exclusions.map(createExclusionRow));
+  elements.themeCounterPosition.value = config.counter.position;
+  elements.themeCounterVisible.checked = config.counter.visible;
+  elements.themeCounterThresholds.replaceChildren(...config.counter.thresholds.map(createThresholdRow));
+  updateThemeValueLabels();
+  updatePreview();
+}
+
+/**
+ * カウンターの色の閾値1件分の編集欄を作成
+ */
+function createThresholdRow(threshold: CounterThreshold): HTMLElement {
+  const row = document.createElement('li');
+  row.className = 'flex items-center gap-1';
+
+  const count = document.createElement('input');
+  count.type = 'number';
+  count.min = '0';
+  count.step = '1';
+  count.value = String(threshold.count);
+  count.dataset['field'] = 'count';
+  count.setAttribute('aria-label', 'コメント数');
+  count.className = 'w-20 px-2 py-1 border border-slate-300 rounded-lg';
+
+  const color = document.createElement('input');
+  color.type = 'color';
+  color.value = threshold.color.toLowerCase();
+  color.dataset['field'] = 'color';
+  color.setAttribute('aria-label', 'カウンターの色');
+  color.className = 'h-8 w-10 border border-slate-300 rounded-lg';
+
+  row.append(count, '件〜', color);
+  return row;
+}
+
+/**
+ * 割合（0〜1）を入力欄に表示するパーセントに変換
+ */
+function toPercent(fraction: number): number {
+  return Math.round(fraction * 1000) / 10;
+}
+
+// 除外範囲の編集欄の項目（data-field とラベル）
+const EXCLUSION_FIELDS: readonly (readonly [keyof ExclusionArea, string])[] = [
+  ['x', '左端'],
+  ['y', '上端'],
+  ['width', '幅'],
+  ['height', '高さ'],
+];
+
+/**
+ * コメントを表示しない領域1件分の編集欄を作成（値は画面に対するパーセント）
+ */
+function createExclusionRow(area: ExclusionArea): HTMLElement {
+  const row = document.createElement('li');
+  row.className = 'flex flex-wrap items-center gap-2';
+
+  for (const [field, label] of EXCLUSION_FIELDS) {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '0';
+    input.max = '100';
+    input.step = '1';
+    input.value = String(toPercent(area[field]));
+    input.dataset['field'] = field;
+    input.setAttribute('aria-label', `${label}（%）`);
+    input.className = 'w-16 px-2 py-1 border border-slate-300 rounded-lg';
+    row.append(label, input, '%');
+  }
+
+  const removeBtn = document.createElement('button');
+  removeBtn.type = 'button';
+  removeBtn.className = 'bg-slate-200 text-slate-700 text-sm py-1 px-3 rounded-lg hover:bg-slate-300 transition-all';
+  removeBtn.textContent = '削除';
+  removeBtn.setAttribute('aria-label', 'コメントを表示しない領域を削除する');
+  removeBtn.addEventListener('click', () => {
+    row.remove();
+    updatePreview();
+  });
+
+  row.append(removeBtn);
+  return row;
+}
+
+/**
+ * スライダーの現在値を表示
+ */
+function updateThemeValueLabels(): void {
+  elements.themeOpacityValue.textContent = `${Math.round(Number(elements.themeOpacity.value) * 100)}%`;
+  elements.themeOutlineWidthValue.textContent = `${elements.themeOutlineWidth.value}px`;
+  elements.themeFlowDurationValue.textContent = `${elements.themeFlowDuration.value}秒`;
+}
+
+/**
+ * 数値の入力欄の値を取得（空欄などの場合は fallback）
+ */
+function readNumber(input: HTMLInputElement, fallback: number): number {
+  const value = input.valueAsNumber;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * 編集欄から表示設定を取得（値の検証は保存時にサーバーで行う）
+ * 表示範囲・除外範囲はパーセントで編集し、割合に戻す
+ */
+function collectOverlayConfig(base: OverlayConfig): OverlayConfig {
+  const thresholds = Array.from(elements.themeCounterThresholds.children).map((row): CounterThreshold => {
+    const field = (name: string): HTMLInputElement => row.querySelector(`[data-field="${name}"]`) as HTMLInputElement;
+    return { count: readNumber(field('count'), 0), color: field('color').value };
+  });
+  const exclusions = Array.from(elements.themeExclusions.children).map((row): ExclusionArea => {
+    const field = (name: string): number =>
+      readNumber(row.querySelector(`[data-field="${name}"]`) as HTMLInputElement, 0) / 100;
+    return { x: field('x'), y: field('y'), width: field('width'), height: field('height') };
+  });
+
+  return {
+    laneCount: readNumber(elements.themeLaneCount, base.laneCount),
+    usableRange: {
+      start: readNumber(elements.themeRangeStart, base.usableRange.start * 100) / 100,
+      end: readNumber(elements.themeRangeEnd, base.usableRange.end * 100) / 100,
+    },
+    exclusions,
+    flowDurationSeconds: readNumber(elements.themeFlowDuration, base.flowDurationSeconds),
+    fixedDurationSeconds: readNumber(elements.themeFixedDuration, base.fixedDurationSeconds),
+    font: {
+      family: elements.themeFontFamily.value.trim() || base.font.family,
+      weight: readNumber(elements.themeFontWeight, base.font.weight),
+      outlineWidth: readNumber(elements.themeOutlineWidth, base.font.outlineWidth),
+      outlineColor: elements.themeOutlineColor.value,
+      opacity: readNumber(elements.themeOpacity, base.font.opacity),
+    },
+    counter: {
+      visible: elements.themeCounterVisible.checked,
+      position: elements.themeCounterPosition.value as CounterPosition,
+      thresholds: thresholds.sort((a, b) => a.count - b.count),
+    },
+  };
+}
+
+/**
+ * プレビューにメッセージを送る（プレビューの読み込み前は何もしない）
+ */
+function postToPreview(message: PreviewMessage): void {
+  elements.themePreview.contentWindow?.postMessage(message, location.origin);
+}
+
+/**
+ * 編集中の表示設定をプレビューに反映
+ */
+function updatePreview(): void {
+  if (!editingOverlayConfig) return;
+  postToPreview({ type: 'config', config: collectOverlayConfig(editingOverlayConfig) });
+}
+
+/**
+ * プレビューにテストコメントを流し、カウンターを進める
+ */
+function sendTestComments(): void {
+  const batch = Date.now();
+  PREVIEW_COMMENTS.forEach((comment, index) => {
+    setTimeout(() => {
+      postToPreview({
+        type: 'comment',
+        id: `preview-${batch}-${index}`,
+        text: comment.text,
+        userName: 'プレビュー',
+        userColor: comment.userColor,
+        style: comment.style,
+        threadId: 'preview',
+        threadLabel: '',
+      });
+    }, index * PREVIEW_COMMENT_INTERVAL);
+  });
+
+  previewCount += PREVIEW_COMMENTS.length;
+  postToPreview({ type: 'counter', count: previewCount });
+}
+
+/**
+ * プリセットの選択肢を表示
+ */
+function renderOverlayPresets(presets: OverlayPreset[]): void {
+  overlayPresets = presets;
+  const selected = elements.themePreset.value;
+  const placeholder = elements.themePreset.options[0]!;
+  elements.themePreset.replaceChildren(placeholder, ...presets.map((preset) => {
+    const option = document.createElement('option');
+    option.value = preset.name;
+    option.textContent = preset.name;
+    return option;
+  }));
+  elements.themePreset.value = presets.some((preset) => preset.name === selected) ? selected : '';
+}
+
+/**
+ * 選択中のプリセットを編集欄に読み込む（反映するまでオーバーレイは変わらない）
+ */
+function loadPresetIntoEditor(): void {
+  const preset = overlayPresets.find((item) => item.name === elements.themePreset.value);
+  if (!preset) return;
+  elements.themePresetName.value = preset.name;
+  renderOverlayConfig(preset.config);
+}
+
 // ===========================================
 // 経過時間タイマー
 // ===========================================
@@ -331,8 +1139,8 @@ async function decrypt(): Promise<void> {
  * 開始API呼び出し
  */
 async function start(): Promise<void> {
-  const threadUrl = elements.threadUrl.value.trim();
-  if (!threadUrl) return;
+  const threads = parseThreadLines(elements.threadUrl.value, elements.includeReplies.checked);
+  if (!threads) return;
 
   showLoading('オーバーレイを起動中...');
   hideError(elements.step2Error);
@@ -341,7 +1149,12 @@ async function start(): Promise<void> {
     const response = await fetch('/api/start', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ threadUrl }),
+      body: JSON.stringify({
+        threads,
+        moderation: { enabled: elements.moderationEnabled.checked },
+        showImages: elements.showImages.checked,
+        backfillCount: Number(elements.backfillCount.value || 0),
+      }),
     });
 
     const result = await response.json() as ApiResponse;
@@ -358,6 +1171,442 @@ async function start(): Promise<void> {
   }
 }
 
+/**
+ * スレッド切り替えAPI呼び出し
+ */
+async function switchThread(): Promise<void> {
+  const threadUrl = elements.switchUrl.value.trim();
+  if (!threadUrl) return;
+
+  elements.switchBtn.disabled = true;
+  hideError(elements.switchError);
+
+  try {
+    const response = await fetch('/api/switch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ threadUrl, includeReplies: elements.switchIncludeReplies.checked }),
+    });
+
+    const result = await response.json() as ApiResponse;
+
+    if (result.success) {
+      elements.switchUrl.value = '';
+    } else {
+      const errorMsg = result.error ?? '切り替えに失敗しました';
+      showError(elements.switchError, `${errorMsg}。URLを確認して再試行してください。`);
+    }
+    // 成功時はWebSocketで状態更新を受け取る
+  } catch {
+    showError(elements.switchError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  } finally {
+    validateSwitchUrl();
+  }
+}
+
+/**
+ * モデレーションAPI呼び出し
+ * 他の操作者による変更はWebSocketで受け取る
+ */
+async function requestModeration(method: string, path: string, body?: unknown): Promise<void> {
+  hideError(elements.moderationError);
+
+  try {
+    const response = await fetch('/api/moderation' + path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const result = await response.json() as ModerationResponse;
+
+    if (result.success && result.moderation) {
+      renderModeration(result.moderation);
+    } else if (!result.success) {
+      showError(elements.moderationError, result.error ?? 'モデレーションの操作に失敗しました');
+    }
+  } catch {
+    showError(elements.moderationError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  }
+}
+
+/**
+ * モデレーションキューの状態を取得
+ */
+function loadModeration(): Promise<void> {
+  return requestModeration('GET', '');
+}
+
+/**
+ * コメントを承認・却下
+ */
+function moderate(id: string, action: 'approve' | 'reject'): Promise<void> {
+  return requestModeration('POST', `/${encodeURIComponent(id)}/${action}`);
+}
+
+/**
+ * モデレーション設定を更新
+ */
+function updateModerationSettings(): Promise<void> {
+  const value = elements.autoApproveSeconds.value.trim();
+  const seconds = value === '' ? null : Number(value);
+  if (seconds !== null && !(Number.isInteger(seconds) && seconds > 0)) {
+    showError(elements.moderationError, '自動承認の秒数は1以上の整数で入力してください');
+    return Promise.resolve();
+  }
+
+  return requestModeration('PUT', '/settings', {
+    enabled: elements.moderationToggle.checked,
+    autoApproveSeconds: seconds,
+  });
+}
+
+/**
+ * フィルター設定の取得・保存API呼び出し
+ */
+async function requestFilters(method: 'GET' | 'PUT', config?: FilterConfig): Promise<void> {
+  hideError(elements.filterError);
+  elements.filterSaved.classList.add('hidden');
+
+  try {
+    const response = await fetch('/api/filters', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: config === undefined ? undefined : JSON.stringify(config),
+    });
+
+    const result = await response.json() as FilterConfigResponse;
+
+    if (result.success && result.config) {
+      renderFilterRules(result.config.rules);
+      if (method === 'PUT') {
+        elements.filterSaved.classList.remove('hidden');
+      }
+    } else {
+      showError(elements.filterError, result.error ?? 'フィルター設定の操作に失敗しました');
+    }
+  } catch {
+    showError(elements.filterError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  }
+}
+
+function loadFilters(): Promise<void> {
+  return requestFilters('GET');
+}
+
+function saveFilters(): Promise<void> {
+  return requestFilters('PUT', { rules: collectFilterRules() });
+}
+
+/**
+ * 表示設定の取得・反映API呼び出し
+ */
+async function requestOverlayConfig(method: 'GET' | 'PUT', config?: OverlayConfig): Promise<void> {
+  hideError(elements.themeError);
+  elements.themeSaved.classList.add('hidden');
+
+  try {
+    const response = await fetch('/api/overlay-config', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: config === undefined ? undefined : JSON.stringify(config),
+    });
+
+    const result = await response.json() as OverlayConfigResponse;
+
+    if (result.success && result.config) {
+      savedOverlayConfig = result.config;
+      renderOverlayConfig(result.config);
+      if (method === 'PUT') {
+        elements.themeSaved.textContent = 'オーバーレイに反映しました';
+        elements.themeSaved.classList.remove('hidden');
+      }
+    } else {
+      showError(elements.themeError, result.error ?? '表示設定の操作に失敗しました');
+    }
+  } catch {
+    showError(elements.themeError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  }
+}
+
+function loadOverlayConfig(): Promise<void> {
+  return requestOverlayConfig('GET');
+}
+
+function applyOverlayConfig(): Promise<void> {
+  if (!editingOverlayConfig) return Promise.resolve();
+  return requestOverlayConfig('PUT', collectOverlayConfig(editingOverlayConfig));
+}
+
+/**
+ * プリセットの取得・保存・削除API呼び出し
+ * @returns 成功した場合 true
+ */
+async function requestOverlayPresets(method: 'GET' | 'PUT' | 'DELETE', name?: string, config?: OverlayConfig): Promise<boolean> {
+  hideError(elements.themeError);
+  elements.themeSaved.classList.add('hidden');
+
+  try {
+    const path = name === undefined ? '/api/overlay-presets' : `/api/overlay-presets/${encodeURIComponent(name)}`;
+    const response = await fetch(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: config === undefined ? undefined : JSON.stringify(config),
+    });
+
+    const result = await response.json() as OverlayPresetsResponse;
+
+    if (result.success && result.presets) {
+      renderOverlayPresets(result.presets);
+      return true;
+    }
+    showError(elements.themeError, result.error ?? 'プリセットの操作に失敗しました');
+  } catch {
+    showError(elements.themeError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  }
+  return false;
+}
+
+async function loadOverlayPresets(): Promise<void> {
+  await requestOverlayPresets('GET');
+}
+
+async function saveOverlayPreset(): Promise<void> {
+  const name = elements.themePresetName.value.trim();
+  if (!editingOverlayConfig) return;
+  if (!name) {
+    showError(elements.themeError, 'プリセット名を入力してください');
+    return;
+  }
+
+  if (await requestOverlayPresets('PUT', name, collectOverlayConfig(editingOverlayConfig))) {
+    elements.themePreset.value = name;
+    elements.themeSaved.textContent = `プリセット「${name}」を保存しました`;
+    elements.themeSaved.classList.remove('hidden');
+  }
+}
+
+async function deleteOverlayPreset(): Promise<void> {
+  const name = elements.themePreset.value;
+  if (!name) return;
+  await requestOverlayPresets('DELETE', name);
+}
+
+/**
+ * ディスプレイの取得・選択API呼び出し
+ * @returns ステータスコード（ネットワークエラーの場合は 0）
+ */
+async function requestDisplays(method: 'GET' | 'PUT', body?: DisplaySelection): Promise<number> {
+  hideError(elements.displayError);
+
+  try {
+    const response = await fetch(method === 'GET' ? '/api/displays' : '/api/display', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const result = await response.json() as DisplayResponse;
+
+    if (result.success && result.displays && result.selection) {
+      renderDisplays(result.displays, result.selection);
+    } else {
+      showError(elements.displayError, result.error ?? 'ディスプレイの操作に失敗しました');
+    }
+    return response.status;
+  } catch {
+    showError(elements.displayError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+    return 0;
+  }
+}
+
+/**
+ * ディスプレイ一覧を取得
+ * @param retries オーバーレイのウィンドウが起動していない（502）場合に再試行する回数
+ */
+async function loadDisplays(retries = 0): Promise<void> {
+  const status = await requestDisplays('GET');
+  if (status === 502 && retries > 0 && currentState === 'running') {
+    setTimeout(() => loadDisplays(retries - 1), DISPLAY_RETRY_INTERVAL);
+  }
+}
+
+async function applyDisplay(): Promise<void> {
+  const displayId = Number(elements.displaySelect.value);
+  await requestDisplays('PUT', {
+    displayId: Number.isInteger(displayId) ? displayId : null,
+    region: collectDisplayRegion(),
+  });
+}
+
+// ===========================================
+// リプレイ
+// ===========================================
+
+/**
+ * 現在の再生位置（再生中は受信後の経過時間から推定する）
+ */
+function getReplayPosition(status: ReplayStatus): number {
+  if (status.state !== 'playing') return status.positionMs;
+  const elapsed = (Date.now() - replayReceivedAt) * status.speed;
+  return Math.min(status.positionMs + elapsed, status.durationMs);
+}
+
+/**
+ * 再生位置の表示を更新
+ */
+function updateReplayPosition(): void {
+  const position = replayStatus ? getReplayPosition(replayStatus) : 0;
+  const duration = replayStatus?.durationMs ?? 0;
+  if (!replaySeeking) {
+    elements.replaySeek.value = String(position);
+  }
+  elements.replayPosition.textContent = `${formatUptime(position)} / ${formatUptime(duration)}`;
+}
+
+/**
+ * リプレイの再生状況を表示（null の場合は初期状態に戻す）
+ */
+function renderReplay(status: ReplayStatus | null): void {
+  replayStatus = status?.state === 'idle' ? null : status;
+  replayReceivedAt = Date.now();
+
+  const loaded = replayStatus !== null;
+  const playing = replayStatus?.state === 'playing';
+  elements.replayPlayBtn.disabled = !loaded;
+  elements.replayPlayBtn.textContent = playing ? '一時停止' : '再生';
+  elements.replayStopBtn.disabled = !loaded;
+  elements.replaySeek.disabled = !loaded;
+  elements.replaySeek.max = String(replayStatus?.durationMs ?? 0);
+  if (replayStatus) {
+    elements.replaySpeed.value = String(replayStatus.speed);
+    elements.replayInfo.textContent = `${replayStatus.source ?? ''}（${replayStatus.played} / ${replayStatus.total}件）`;
+  } else {
+    elements.replayInfo.textContent = '既存スレッドの返信履歴や保存済みのセッションログを、元の投稿間隔（または速度倍率）で再生します';
+  }
+  updateReplayPosition();
+
+  // 再生中は再生位置の表示を進める
+  if (playing && !replayInterval) {
+    replayInterval = setInterval(updateReplayPosition, 500);
+  } else if (!playing && replayInterval) {
+    clearInterval(replayInterval);
+    replayInterval = null;
+  }
+}
+
+/**
+ * リプレイ操作API呼び出し
+ */
+async function requestReplay(method: string, path: string, body?: unknown): Promise<void> {
+  hideError(elements.replayError);
+
+  try {
+    const response = await fetch('/api/replay' + path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const result = await response.json() as ReplayResponse;
+
+    if (result.success && result.replay) {
+      renderReplay(result.replay);
+    } else if (!result.success) {
+      showError(elements.replayError, result.error ?? 'リプレイの操作に失敗しました');
+    }
+  } catch {
+    showError(elements.replayError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  }
+}
+
+/**
+ * 選択した再生元を読み込む
+ */
+function loadReplay(): Promise<void> {
+  const sessionId = elements.replaySource.value;
+  const threadUrl = elements.replayThreadUrl.value.trim();
+  if (!sessionId && !threadUrl) {
+    showError(elements.replayError, 'スレッドURLを入力してください');
+    return Promise.resolve();
+  }
+
+  return requestReplay('POST', '', {
+    source: sessionId ? { type: 'transcript', sessionId } : { type: 'thread', threadUrl },
+    speed: Number(elements.replaySpeed.value),
+  });
+}
+
+/**
+ * 再生元の選択肢にセッションログを反映
+ */
+function renderReplaySources(transcripts: TranscriptSummary[]): void {
+  const selected = elements.replaySource.value;
+  const threadOption = elements.replaySource.options[0]!;
+  const sessionOptions = transcripts.map((transcript) => {
+    const option = document.createElement('option');
+    option.value = transcript.sessionId;
+    option.textContent = `セッションログ: ${new Date(transcript.updatedAt).toLocaleString()}`;
+    return option;
+  });
+  elements.replaySource.replaceChildren(threadOption, ...sessionOptions);
+  elements.replaySource.value = transcripts.some((t) => t.sessionId === selected) ? selected : '';
+  elements.replayThreadUrl.classList.toggle('hidden', elements.replaySource.value !== '');
+}
+
+// ===========================================
+// セッションログ
+// ===========================================
+
+/**
+ * セッションログ1件分の行を作成
+ */
+function createTranscriptRow(transcript: TranscriptSummary): HTMLElement {
+  const row = document.createElement('li');
+  row.className = 'flex items-center gap-2 px-3 py-2';
+
+  const body = document.createElement('div');
+  body.className = 'flex-1 min-w-0';
+  const updatedAt = document.createElement('div');
+  updatedAt.className = 'text-sm text-gray-800';
+  updatedAt.textContent = new Date(transcript.updatedAt).toLocaleString();
+  const meta = document.createElement('div');
+  meta.className = 'text-xs text-gray-500 truncate';
+  meta.textContent = `${transcript.sessionId}（${Math.ceil(transcript.size / 1024)} KB）`;
+  body.append(updatedAt, meta);
+
+  const link = document.createElement('a');
+  link.className = 'text-sm text-indigo-600 hover:text-indigo-800';
+  link.href = `/api/transcripts/${encodeURIComponent(transcript.sessionId)}`;
+  link.download = `${transcript.sessionId}.jsonl`;
+  link.textContent = 'ダウンロード';
+
+  row.append(body, link);
+  return row;
+}
+
+/**
+ * セッションログ一覧の取得API呼び出し
+ */
+async function loadTranscripts(): Promise<void> {
+  hideError(elements.transcriptError);
+
+  try {
+    const response = await fetch('/api/transcripts');
+    const result = await response.json() as TranscriptListResponse;
+
+    if (result.success && result.transcripts) {
+      elements.transcriptList.replaceChildren(...result.transcripts.map(createTranscriptRow));
+      renderReplaySources(result.transcripts);
+      elements.transcriptEmpty.classList.toggle('hidden', result.transcripts.length > 0);
+    } else {
+      showError(elements.transcriptError, result.error ?? 'セッションログの取得に失敗しました');
+    }
+  } catch {
+    showError(elements.transcriptError, 'ネットワークエラーが発生しました。接続を確認して再試行してください。');
+  }
+}
+
 /**
  * 停止API呼び出し
  */
@@ -382,12 +1631,38 @@ function validateStep1(): void {
   elements.decryptBtn.disabled = !valid;
 }
 
+// スレッドURLまたはチャンネルURL
+const THREAD_URL_PATTERN = /^https:\/\/[\w-]+\.slack\.com\/archives\/[A-Z0-9]+(\/p\d+)?$/;
+
+/**
+ * URL入力欄の各行を監視対象に変換（"ラベル=URL" 形式でラベル付け、空行は無視）
+ * @returns 監視対象がない・不正な行がある場合は null
+ */
+function parseThreadLines(value: string, includeReplies: boolean): ThreadInput[] | null {
+  const threads: ThreadInput[] = [];
+  for (const line of value.split('\n')) {
+    const spec = line.trim();
+    if (!spec) continue;
+
+    const separatorIndex = spec.startsWith('https://') ? -1 : spec.indexOf('=');
+    const label = separatorIndex > 0 ? spec.slice(0, separatorIndex).trim() : undefined;
+    const threadUrl = separatorIndex > 0 ? spec.slice(separatorIndex + 1).trim() : spec;
+    if (!THREAD_URL_PATTERN.test(threadUrl)) return null;
+    threads.push({ threadUrl, label, includeReplies });
+  }
+  return threads.length > 0 ? threads : null;
+}
+
 function validateStep2(): void {
-  const urlPattern = /^https:\/\/[\w-]+\.slack\.com\/archives\/[A-Z0-9]+\/p\d+$/;
-  const valid = urlPattern.test(elements.threadUrl.value.trim());
+  const valid = parseThreadLines(elements.threadUrl.value, false) !== null;
   elements.startBtn.disabled = !valid;
 }
 
+function validateSwitchUrl(): void {
+  const valid = THREAD_URL_PATTERN.test(elements.switchUrl.value.trim());
+  elements.switchBtn.disabled = !valid;
+}
+
 // ===========================================
 // イベントリスナー
 // ===========================================
@@ -439,8 +1714,10 @@ elements.threadUrl.addEventListener('input', () => {
   validateStep2();
   hideError(elements.step2Error);
 });
-elements.threadUrl.addEventListener('keypress', (e: KeyboardEvent) => {
-  if (e.key === 'Enter' && !elements.startBtn.disabled) {
+// 改行で複数のURLを入力するため、Ctrl+Enter（Macは⌘+Enter）で開始する
+elements.threadUrl.addEventListener('keydown', (e: KeyboardEvent) => {
+  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && !elements.startBtn.disabled) {
+    e.preventDefault();
     start();
   }
 });
@@ -451,13 +1728,98 @@ elements.backBtn.addEventListener('click', () => showStep(1));
 // 開始ボタン
 elements.startBtn.addEventListener('click', start);
 
+// スレッド切り替え
+elements.switchUrl.addEventListener('input', () => {
+  validateSwitchUrl();
+  hideError(elements.switchError);
+});
+elements.switchUrl.addEventListener('keypress', (e: KeyboardEvent) => {
+  if (e.key === 'Enter' && !elements.switchBtn.disabled) {
+    switchThread();
+  }
+});
+elements.switchBtn.addEventListener('click', switchThread);
+
+// モデレーション
+elements.moderationToggle.addEventListener('change', updateModerationSettings);
+elements.autoApproveSeconds.addEventListener('change', updateModerationSettings);
+
 // 停止ボタン
 elements.stopBtn.addEventListener('click', stop);
 
+// 表示するディスプレイ
+elements.displayRefreshBtn.addEventListener('click', () => loadDisplays());
+elements.displayApplyBtn.addEventListener('click', applyDisplay);
+
+// NGワードフィルター
+elements.filterAddBtn.addEventListener('click', () => {
+  elements.filterRules.append(createFilterRuleRow({ pattern: '', action: 'drop' }));
+  updateFilterEmpty();
+});
+elements.filterSaveBtn.addEventListener('click', saveFilters);
+
+// リプレイ
+elements.replaySource.addEventListener('change', () => {
+  elements.replayThreadUrl.classList.toggle('hidden', elements.replaySource.value !== '');
+});
+elements.replayLoadBtn.addEventListener('click', loadReplay);
+elements.replayPlayBtn.addEventListener('click', () => {
+  requestReplay('POST', replayStatus?.state === 'playing' ? '/pause' : '/play');
+});
+elements.replayStopBtn.addEventListener('click', () => {
+  requestReplay('POST', '/stop');
+});
+elements.replaySpeed.addEventListener('change', () => {
+  if (replayStatus) {
+    requestReplay('PUT', '/speed', { speed: Number(elements.replaySpeed.value) });
+  }
+});
+elements.replaySeek.addEventListener('input', () => {
+  replaySeeking = true;
+  elements.replayPosition.textContent = `${formatUptime(Number(elements.replaySeek.value))} / ${formatUptime(replayStatus?.durationMs ?? 0)}`;
+});
+elements.replaySeek.addEventListener('change', () => {
+  replaySeeking = false;
+  requestReplay('PUT', '/position', { positionMs: Number(elements.replaySeek.value) });
+});
+
+// セッションログ
+elements.transcriptRefreshBtn.addEventListener('click', loadTranscripts);
+
+// 表示設定（編集中の値はすぐにプレビューに反映し、オーバーレイには反映ボタンで保存する）
+elements.themeForm.addEventListener('input', () => {
+  updateThemeValueLabels();
+  updatePreview();
+});
+elements.themePreview.addEventListener('load', () => {
+  updatePreview();
+  postToPreview({ type: 'counter', count: previewCount });
+});
+elements.themeTestBtn.addEventListener('click', sendTestComments);
+elements.themeExclusionAddBtn.addEventListener('click', () => {
+  // 既定では右下のワイプを想定した領域を追加する
+  elements.themeExclusions.append(createExclusionRow({ x: 0.75, y: 0.7, width: 0.25, height: 0.3 }));
+  updatePreview();
+});
+elements.themePresetLoadBtn.addEventListener('click', loadPresetIntoEditor);
+elements.themePresetDeleteBtn.addEventListener('click', deleteOverlayPreset);
+elements.themePresetSaveBtn.addEventListener('click', saveOverlayPreset);
+elements.themeResetBtn.addEventListener('click', () => {
+  if (savedOverlayConfig) renderOverlayConfig(savedOverlayConfig);
+});
+elements.themeApplyBtn.addEventListener('click', applyOverlayConfig);
+
 // ===========================================
 // 初期化
 // ===========================================
 
+// フィルター設定の取得
+loadFilters();
+
+// 表示設定・プリセットの取得
+loadOverlayConfig();
+loadOverlayPresets();
+
 // 初期状態の取得
 fetch('/api/status')
   .then(res => res.json() as Promise<StatusResponse>)
@@ -1,13 +1,11 @@
 #!/bin/bash
 
 # Comment Overlay - サーバーとElectronの同時起動スクリプト
-# 使用方法: npm run dev:overlay -- "THREAD_URL"
+# 使用方法: npm run dev:overlay -- "THREAD_URL" ["LABEL=THREAD_URL" ...]
 
 set -e
 
-THREAD_URL="$1"
-
-if [ -z "$THREAD_URL" ]; then
+if [ $# -eq 0 ]; then
   echo "Error: スレッドURLが指定されていません"
   echo ""
   echo "使用方法:"
@@ -15,11 +13,16 @@ if [ -z "$THREAD_URL" ]; then
   echo ""
   echo "例:"
   echo "  npm run dev:overlay -- \"https://example.slack.com/archives/C1234567890/p1705200000000000\""
+  echo ""
+  echo "複数スレッドを監視する場合（ラベルは任意）:"
+  echo "  npm run dev:overlay -- \"A=https://...\" \"B=https://...\""
   exit 1
 fi
 
 echo "Starting Comment Overlay..."
-echo "Thread URL: $THREAD_URL"
+for THREAD_SPEC in "$@"; do
+  echo "Thread: $THREAD_SPEC"
+done
 echo ""
 
 # concurrentlyでサーバーとElectronを同時起動
@@ -27,6 +30,16 @@ echo ""
 # -n: プロセス名のラベル
 # -c: 出力の色分け
 # server: tsx watchでサーバーを起動（2秒後にElectron起動を待たせるためsleepは不要、サーバーは即座に起動する）
+# スレッドの指定はコマンド文字列に埋め込まず、環境変数で渡す
+# （ラベルやURLに " $ ` などが含まれてもシェルのコマンドとして解釈されないようにする）
+SERVER_ARGS=()
+INDEX=0
+for THREAD_SPEC in "$@"; do
+  export "DEV_OVERLAY_THREAD_$INDEX=$THREAD_SPEC"
+  SERVER_ARGS+=("\"\$DEV_OVERLAY_THREAD_$INDEX\"")
+  INDEX=$((INDEX + 1))
+done
+
 npx concurrently -k -n "server,electron" -c "blue,green" \
-  "tsx watch src/server.ts \"$THREAD_URL\"" \
+  "tsx watch src/server.ts ${SERVER_ARGS[*]}" \
   "sleep 2 && npm run electron"
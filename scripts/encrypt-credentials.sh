@@ -18,14 +18,43 @@ if [ -z "$SLACK_BOT_TOKEN" ]; then
   exit 1
 fi
 
-# SLACK_APP_TOKEN の入力
-read -sp "SLACK_APP_TOKEN (xapp-...): " SLACK_APP_TOKEN
-echo ""
+# 接続方式の入力（socket / events / polling）
+read -p "SLACK_TRANSPORT (socket/events/polling) [socket]: " SLACK_TRANSPORT
+SLACK_TRANSPORT=${SLACK_TRANSPORT:-socket}
 
-if [ -z "$SLACK_APP_TOKEN" ]; then
-  echo "Error: SLACK_APP_TOKEN を入力してください" >&2
-  exit 1
-fi
+ENV_CONTENT="SLACK_BOT_TOKEN=${SLACK_BOT_TOKEN}\nSLACK_TRANSPORT=${SLACK_TRANSPORT}"
+
+case "$SLACK_TRANSPORT" in
+  socket)
+    # SLACK_APP_TOKEN の入力
+    read -sp "SLACK_APP_TOKEN (xapp-...): " SLACK_APP_TOKEN
+    echo ""
+
+    if [ -z "$SLACK_APP_TOKEN" ]; then
+      echo "Error: SLACK_APP_TOKEN を入力してください" >&2
+      exit 1
+    fi
+    ENV_CONTENT="${ENV_CONTENT}\nSLACK_APP_TOKEN=${SLACK_APP_TOKEN}"
+    ;;
+  events)
+    # SLACK_SIGNING_SECRET の入力
+    read -sp "SLACK_SIGNING_SECRET: " SLACK_SIGNING_SECRET
+    echo ""
+
+    if [ -z "$SLACK_SIGNING_SECRET" ]; then
+      echo "Error: SLACK_SIGNING_SECRET を入力してください" >&2
+      exit 1
+    fi
+    ENV_CONTENT="${ENV_CONTENT}\nSLACK_SIGNING_SECRET=${SLACK_SIGNING_SECRET}"
+    ;;
+  polling)
+    # Bot Token のみで動作する
+    ;;
+  *)
+    echo "Error: SLACK_TRANSPORT には socket、events、polling のいずれかを入力してください" >&2
+    exit 1
+    ;;
+esac
 
 echo ""
 
@@ -33,7 +62,7 @@ echo ""
 export ENCRYPTION_PASSWORD=$(openssl rand -base64 32)
 
 # 一時ファイルを使わずに直接暗号化（ヒアストリング使用）
-echo -e "SLACK_BOT_TOKEN=${SLACK_BOT_TOKEN}\nSLACK_APP_TOKEN=${SLACK_APP_TOKEN}" | \
+echo -e "$ENV_CONTENT" | \
   openssl enc -$ALGORITHM -salt -pbkdf2 -out "$ENCRYPTED_FILE" -pass env:ENCRYPTION_PASSWORD
 
 echo "✓ Encrypted to $ENCRYPTED_FILE"
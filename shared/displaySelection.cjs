@@ -0,0 +1,115 @@
+// オーバーレイを表示するディスプレイと範囲の選択
+// Electron（CommonJS）とセットアップサーバーの両方から使用する
+
+// 範囲の既定値: ディスプレイの作業領域全体
+const FULL_REGION = Object.freeze({ x: 0, y: 0, width: 1, height: 1 })
+
+function isFraction(value) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+}
+
+/**
+ * Electron の Display をセットアップ画面に返す形式に変換する
+ */
+function toDisplayInfo(display, index, primaryId) {
+  return {
+    id: display.id,
+    label: display.label || `ディスプレイ ${index + 1}`,
+    bounds: { ...display.bounds },
+    workArea: { ...display.workArea },
+    scaleFactor: display.scaleFactor,
+    primary: display.id === primaryId,
+  }
+}
+
+/**
+ * 表示範囲（作業領域に対する割合）を検証する
+ * 省略した場合は全体とし、不正な場合は null を返す
+ */
+function parseDisplayRegion(value) {
+  if (value === undefined || value === null) return FULL_REGION
+  if (typeof value !== 'object') return null
+
+  const { x, y, width, height } = value
+  if (![x, y, width, height].every(isFraction)) return null
+  if (width === 0 || height === 0) return null
+  // 浮動小数点の誤差を許容する
+  if (x + width > 1 + 1e-9 || y + height > 1 + 1e-9) return null
+  return { x, y, width, height }
+}
+
+/**
+ * 環境変数で指定した表示範囲（"x,y,width,height" の割合）を検証する
+ * 未設定の場合は全体とし、不正な場合は null を返す
+ */
+function parseRegionSpec(value) {
+  if (value === undefined || value.trim() === '') return FULL_REGION
+
+  const parts = value.split(',').map((part) => part.trim())
+  if (parts.length !== 4 || parts.some((part) => part === '')) return null
+  const [x, y, width, height] = parts.map(Number)
+  return parseDisplayRegion({ x, y, width, height })
+}
+
+/**
+ * ディスプレイの選択を検証する
+ * displayId が null の場合はプライマリディスプレイを使用する
+ * 不正な場合は null を返す
+ */
+function parseDisplaySelection(value) {
+  if (typeof value !== 'object' || value === null) return null
+
+  const displayId = value.displayId ?? null
+  if (displayId !== null && !Number.isInteger(displayId)) return null
+
+  const region = parseDisplayRegion(value.region)
+  if (!region) return null
+  return { displayId, region }
+}
+
+/**
+ * 現在の選択に変更を適用して検証する
+ * displayId・region のうち指定しなかった項目は現在の選択のままにする
+ * 不正な場合は null を返す
+ */
+function applyDisplaySelection(current, update) {
+  if (typeof update !== 'object' || update === null) return null
+
+  return parseDisplaySelection({
+    displayId: update.displayId !== undefined ? update.displayId : current.displayId,
+    region: update.region !== undefined ? update.region : current.region,
+  })
+}
+
+/**
+ * 選択したディスプレイを探す
+ * 取り外されたなどで見つからない場合はプライマリディスプレイを返す
+ */
+function findDisplay(displays, displayId, primary) {
+  return displays.find((display) => display.id === displayId) ?? primary
+}
+
+/**
+ * 作業領域と表示範囲からウィンドウの位置と大きさ（ピクセル）を求める
+ */
+function resolveWindowBounds(workArea, region = FULL_REGION) {
+  const x = Math.round(workArea.x + workArea.width * region.x)
+  const y = Math.round(workArea.y + workArea.height * region.y)
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round(workArea.x + workArea.width * (region.x + region.width)) - x),
+    height: Math.max(1, Math.round(workArea.y + workArea.height * (region.y + region.height)) - y),
+  }
+}
+
+module.exports = {
+  FULL_REGION,
+  toDisplayInfo,
+  parseDisplayRegion,
+  parseRegionSpec,
+  parseDisplaySelection,
+  applyDisplaySelection,
+  findDisplay,
+  resolveWindowBounds,
+}
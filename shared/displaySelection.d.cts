@@ -0,0 +1,68 @@
+/**
+ * 画面上の矩形（ピクセル）
+ */
+export interface DisplayRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * セットアップ画面に返すディスプレイの情報
+ */
+export interface DisplayInfo {
+  id: number
+  label: string
+  bounds: DisplayRect
+  /** タスクバー・メニューバーを除いた領域 */
+  workArea: DisplayRect
+  scaleFactor: number
+  primary: boolean
+}
+
+/**
+ * オーバーレイを表示する範囲（作業領域に対する 0〜1 の割合）
+ */
+export interface DisplayRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * オーバーレイを表示するディスプレイと範囲
+ */
+export interface DisplaySelection {
+  /** ディスプレイID（null の場合はプライマリディスプレイ） */
+  displayId: number | null
+  region: DisplayRegion
+}
+
+/**
+ * toDisplayInfo に渡す Electron の Display の項目
+ */
+export interface DisplayLike {
+  id: number
+  label?: string
+  bounds: DisplayRect
+  workArea: DisplayRect
+  scaleFactor: number
+}
+
+export declare const FULL_REGION: Readonly<DisplayRegion>
+
+export declare function toDisplayInfo(display: DisplayLike, index: number, primaryId: number): DisplayInfo
+
+export declare function parseDisplayRegion(value: unknown): DisplayRegion | null
+
+export declare function parseRegionSpec(value: string | undefined): DisplayRegion | null
+
+export declare function parseDisplaySelection(value: unknown): DisplaySelection | null
+
+export declare function applyDisplaySelection(current: DisplaySelection, update: unknown): DisplaySelection | null
+
+export declare function findDisplay<T extends { id: number }>(displays: readonly T[], displayId: number | null, primary: T): T
+
+export declare function resolveWindowBounds(workArea: DisplayRect, region?: DisplayRegion): DisplayRect
@@ -0,0 +1,103 @@
+// オーバーレイのウィンドウ（Electron）のグローバルショートカット
+// キーの割り当ては環境変数で変更できる（Electron の Accelerator 形式）
+
+// 操作ごとの既定のキーと環境変数
+const HOTKEY_ACTIONS = Object.freeze([
+  { action: 'toggleVisibility', env: 'OVERLAY_HOTKEY_TOGGLE', fallback: 'CommandOrControl+Alt+H' },
+  { action: 'togglePause', env: 'OVERLAY_HOTKEY_PAUSE', fallback: 'CommandOrControl+Alt+P' },
+  { action: 'clear', env: 'OVERLAY_HOTKEY_CLEAR', fallback: 'CommandOrControl+Alt+C' },
+  { action: 'panic', env: 'OVERLAY_HOTKEY_PANIC', fallback: 'CommandOrControl+Alt+Shift+Q' },
+])
+
+// 割り当てを無効にする値
+const DISABLED = 'none'
+
+const MODIFIERS = new Set([
+  'command', 'cmd', 'control', 'ctrl', 'commandorcontrol', 'cmdorctrl',
+  'alt', 'option', 'altgr', 'shift', 'super', 'meta',
+])
+
+const NAMED_KEYS = new Set([
+  'plus', 'space', 'tab', 'capslock', 'numlock', 'scrolllock', 'backspace', 'delete', 'insert',
+  'return', 'enter', 'up', 'down', 'left', 'right', 'home', 'end', 'pageup', 'pagedown',
+  'escape', 'esc', 'printscreen',
+])
+
+// 同じキーの別名（重複の判定に使用）
+const ALIASES = { cmd: 'command', ctrl: 'control', cmdorctrl: 'commandorcontrol', option: 'alt', esc: 'escape', return: 'enter' }
+
+// 修飾キーなしで割り当てられるキー（文字キーを奪うと入力できなくなるため、ファンクションキーのみ）
+const FUNCTION_KEY = /^f([1-9]|1[0-9]|2[0-4])$/
+
+function isKey(key) {
+  return /^[a-z0-9]$/.test(key)
+    || /^[)!@#$%^&*(:;<=>?_~{}|"'`,./\\[\]-]$/.test(key)
+    || FUNCTION_KEY.test(key)
+    || /^num([0-9]|dec|add|sub|mult|div)$/.test(key)
+    || NAMED_KEYS.has(key)
+}
+
+/**
+ * ショートカットキー（例: CommandOrControl+Alt+P）を検証する
+ * 修飾キーのあとにキーを1つ指定する。修飾キーなしはファンクションキーのみ受け付ける
+ * 不正な場合は null を返す
+ */
+function parseAccelerator(value) {
+  if (typeof value !== 'string') return null
+  const parts = value.split('+').map((part) => part.trim())
+  const key = parts.pop()
+  if (!key || parts.some((part) => !MODIFIERS.has(part.toLowerCase()))) return null
+  if (new Set(parts.map((part) => part.toLowerCase())).size !== parts.length) return null
+
+  const lowerKey = key.toLowerCase()
+  if (!isKey(lowerKey) || MODIFIERS.has(lowerKey)) return null
+  if (parts.length === 0 && !FUNCTION_KEY.test(lowerKey)) return null
+  return [...parts, key].join('+')
+}
+
+/**
+ * 重複の判定用に、別名と修飾キーの順序をそろえる
+ */
+function normalizeAccelerator(accelerator) {
+  const parts = accelerator.toLowerCase().split('+').map((part) => ALIASES[part] ?? part)
+  const key = parts.pop()
+  return [...parts.sort(), key].join('+')
+}
+
+/**
+ * 環境変数からショートカットキーの割り当てを読み込む
+ * - 未設定の場合は既定のキー、none の場合は割り当てない（null）
+ * - 不正な値や、ほかの操作と重複するキーは割り当てず、errors に理由を返す
+ */
+function loadHotkeys(env) {
+  const hotkeys = {}
+  const errors = []
+  const used = new Map()
+
+  for (const { action, env: name, fallback } of HOTKEY_ACTIONS) {
+    const value = env[name]?.trim() || fallback
+    hotkeys[action] = null
+    if (value.toLowerCase() === DISABLED) continue
+
+    const accelerator = parseAccelerator(value)
+    if (!accelerator) {
+      errors.push(`${name}: invalid shortcut "${value}"`)
+      continue
+    }
+    const normalized = normalizeAccelerator(accelerator)
+    if (used.has(normalized)) {
+      errors.push(`${name}: "${value}" is already used by ${used.get(normalized)}`)
+      continue
+    }
+    used.set(normalized, name)
+    hotkeys[action] = accelerator
+  }
+
+  return { hotkeys, errors }
+}
+
+module.exports = {
+  HOTKEY_ACTIONS,
+  parseAccelerator,
+  loadHotkeys,
+}
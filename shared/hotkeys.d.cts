@@ -0,0 +1,28 @@
+/**
+ * グローバルショートカットで実行する操作
+ * - toggleVisibility: オーバーレイの表示・非表示を切り替える
+ * - togglePause: 新しいコメントの表示を一時停止・再開する
+ * - clear: 表示中のコメントを消す
+ * - panic: オーバーレイを緊急停止する
+ */
+export type HotkeyAction = 'toggleVisibility' | 'togglePause' | 'clear' | 'panic'
+
+/**
+ * 操作ごとのショートカットキー（null の場合は割り当てない）
+ */
+export type HotkeyBindings = Record<HotkeyAction, string | null>
+
+export declare const HOTKEY_ACTIONS: readonly {
+  action: HotkeyAction
+  /** キーを変更する環境変数 */
+  env: string
+  /** 既定のキー */
+  fallback: string
+}[]
+
+export declare function parseAccelerator(value: unknown): string | null
+
+export declare function loadHotkeys(env: Record<string, string | undefined>): {
+  hotkeys: HotkeyBindings
+  errors: string[]
+}
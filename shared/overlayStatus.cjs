@@ -0,0 +1,51 @@
+// トレイアイコンに表示するオーバーレイの状態
+// オーバーレイサーバーの管理API（GET /api/admin/overlay）の応答を表示用の文字列にする
+
+const SLACK_STATE_LABELS = Object.freeze({
+  connecting: '接続中…',
+  connected: '接続済み',
+  reconnecting: '再接続中…',
+  error: '取得に失敗しています',
+  disconnected: '切断',
+})
+
+/**
+ * トレイアイコンのツールチップとメニューに表示する状態を作る
+ * state が null の場合は、error（取得できなかった理由）を表示する
+ */
+function describeOverlayStatus(state, error) {
+  if (!state) {
+    return {
+      tooltip: 'Comment Overlay',
+      lines: [error ?? 'オーバーレイサーバーに接続できません'],
+    }
+  }
+
+  const lines = []
+  if (state.threads.length === 0) {
+    lines.push('監視中のスレッド: なし')
+  } else if (state.threads.length === 1) {
+    const [thread] = state.threads
+    lines.push(`監視中: ${thread.label || thread.threadId}`)
+  } else {
+    lines.push(`監視中: ${state.threads.length}件のスレッド`)
+    for (const thread of state.threads) {
+      lines.push(`  ${thread.label || thread.threadId}: ${thread.count}件`)
+    }
+  }
+  lines.push(`コメント: ${state.count}件${state.paused ? '（一時停止中）' : ''}`)
+  if (state.slack) {
+    lines.push(`Slack: ${SLACK_STATE_LABELS[state.slack] ?? state.slack}`)
+  }
+
+  const alerts = []
+  if (state.paused) alerts.push('一時停止中')
+  if (state.slack && state.slack !== 'connected') alerts.push(`Slack ${SLACK_STATE_LABELS[state.slack] ?? state.slack}`)
+  const tooltip = `Comment Overlay - ${state.count}件${alerts.length > 0 ? `（${alerts.join('・')}）` : ''}`
+
+  return { tooltip, lines }
+}
+
+module.exports = {
+  describeOverlayStatus,
+}
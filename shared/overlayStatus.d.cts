@@ -0,0 +1,23 @@
+/**
+ * 管理APIで取得するオーバーレイの状態（src/types の AdminOverlayState と同じ形式）
+ */
+export interface OverlayStatusState {
+  paused: boolean
+  count: number
+  threads: { threadId: string, label: string, count: number }[]
+  slack: 'connecting' | 'connected' | 'reconnecting' | 'error' | 'disconnected' | null
+}
+
+/**
+ * トレイアイコンに表示する状態
+ */
+export interface OverlayStatusDescription {
+  tooltip: string
+  /** メニューに1行ずつ表示する */
+  lines: string[]
+}
+
+export declare function describeOverlayStatus(
+  state: OverlayStatusState | null,
+  error?: string,
+): OverlayStatusDescription
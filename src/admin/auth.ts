@@ -0,0 +1,36 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+/**
+ * トークンを定数時間で比較する
+ */
+function isSameToken(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  if (actualBuffer.length !== expectedBuffer.length) return false;
+  return timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+/**
+ * Authorization ヘッダーがコントロールトークンと一致するか判定
+ * 管理WebSocketの接続時にも使用する
+ */
+export function isValidControlToken(authorization: string | undefined, token: string): boolean {
+  const match = (authorization ?? '').match(/^Bearer (.+)$/);
+  return !!match?.[1] && isSameToken(match[1], token);
+}
+
+/**
+ * 管理APIの認証ミドルウェアを作成
+ * Authorization: Bearer <token> ヘッダーがコントロールトークンと一致する場合のみ通過させる
+ * @param token コントロールトークン（ProcessManager が起動時に発行）
+ */
+export function requireControlToken(token: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!isValidControlToken(req.headers.authorization, token)) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+}
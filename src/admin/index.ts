@@ -0,0 +1,5 @@
+export { requireControlToken, isValidControlToken } from './auth.js';
+export { createThreadAdminRouter } from './threadRoute.js';
+export { createModerationAdminRouter } from './moderationRoute.js';
+export { createReplayAdminRouter } from './replayRoute.js';
+export { createOverlayAdminRouter, type OverlayControl } from './overlayRoute.js';
@@ -0,0 +1,69 @@
+import { Router, type Request, type Response } from 'express';
+import type { AdminModerationResponse, ModerationSettings } from '../types/index.js';
+import type { ModerationQueue } from '../moderation/index.js';
+
+/**
+ * モデレーション操作用の管理ルーターを作成
+ * @param queue モデレーションキュー
+ */
+export function createModerationAdminRouter(queue: ModerationQueue): Router {
+  const router = Router();
+
+  /**
+   * GET /api/admin/moderation
+   * 設定と承認待ちのコメント一覧を取得
+   */
+  router.get('/moderation', (_req: Request, res: Response<AdminModerationResponse>) => {
+    res.json({ success: true, moderation: queue.snapshot() });
+  });
+
+  /**
+   * PUT /api/admin/moderation/settings
+   * モデレーション設定を更新
+   */
+  router.put('/moderation/settings', (req: Request, res: Response<AdminModerationResponse>) => {
+    const body = (req.body ?? {}) as Partial<ModerationSettings>;
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      res.status(400).json({ success: false, error: 'enabled must be a boolean' });
+      return;
+    }
+
+    try {
+      queue.updateSettings(body);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid request',
+      });
+      return;
+    }
+
+    res.json({ success: true, moderation: queue.snapshot() });
+  });
+
+  /**
+   * POST /api/admin/moderation/:id/approve
+   * コメントを承認してオーバーレイに表示
+   */
+  router.post('/moderation/:id/approve', (req: Request<{ id: string }>, res: Response<AdminModerationResponse>) => {
+    if (!queue.approve(req.params.id)) {
+      res.status(404).json({ success: false, error: 'Comment not found' });
+      return;
+    }
+    res.json({ success: true, moderation: queue.snapshot() });
+  });
+
+  /**
+   * POST /api/admin/moderation/:id/reject
+   * コメントを却下
+   */
+  router.post('/moderation/:id/reject', (req: Request<{ id: string }>, res: Response<AdminModerationResponse>) => {
+    if (!queue.reject(req.params.id)) {
+      res.status(404).json({ success: false, error: 'Comment not found' });
+      return;
+    }
+    res.json({ success: true, moderation: queue.snapshot() });
+  });
+
+  return router;
+}
@@ -0,0 +1,56 @@
+import { Router, type Request, type Response } from 'express';
+import type { AdminOverlayResponse, AdminOverlayState } from '../types/index.js';
+
+/**
+ * オーバーレイの表示の操作（ショートカットキーなどから使用）
+ */
+export interface OverlayControl {
+  /** 現在の操作状態 */
+  state: () => AdminOverlayState;
+  /** 新しいコメントの表示を一時停止・再開する */
+  setPaused: (paused: boolean) => void;
+  /** 表示中のコメントを消す */
+  clear: () => void;
+}
+
+/**
+ * オーバーレイの表示の操作用の管理ルーターを作成
+ * @param control オーバーレイの表示の操作
+ */
+export function createOverlayAdminRouter(control: OverlayControl): Router {
+  const router = Router();
+
+  /**
+   * GET /api/admin/overlay
+   * 操作状態を取得
+   */
+  router.get('/overlay', (_req: Request, res: Response<AdminOverlayResponse>) => {
+    res.json({ success: true, overlay: control.state() });
+  });
+
+  /**
+   * PUT /api/admin/overlay
+   * 新しいコメントの表示を一時停止・再開
+   */
+  router.put('/overlay', (req: Request, res: Response<AdminOverlayResponse>) => {
+    const body = (req.body ?? {}) as { paused?: unknown };
+    if (typeof body.paused !== 'boolean') {
+      res.status(400).json({ success: false, error: 'paused must be a boolean' });
+      return;
+    }
+
+    control.setPaused(body.paused);
+    res.json({ success: true, overlay: control.state() });
+  });
+
+  /**
+   * POST /api/admin/overlay/clear
+   * 表示中のコメントを消す
+   */
+  router.post('/overlay/clear', (_req: Request, res: Response<AdminOverlayResponse>) => {
+    control.clear();
+    res.json({ success: true, overlay: control.state() });
+  });
+
+  return router;
+}
@@ -0,0 +1,113 @@
+import { Router, type Request, type Response } from 'express';
+import type {
+  AdminReplayLoadRequest,
+  AdminReplayResponse,
+  ReplaySourceInput,
+  ReplayStatus,
+} from '../types/index.js';
+import { ReplayError, validateReplaySpeed, type LoadedReplay, type ReplayPlayer } from '../replay/index.js';
+
+/**
+ * リプレイ操作用の管理ルーターを作成
+ * @param player リプレイプレイヤー
+ * @param loadSource 再生元の指定からリプレイを読み込む関数
+ */
+export function createReplayAdminRouter(
+  player: ReplayPlayer,
+  loadSource: (input: ReplaySourceInput) => Promise<LoadedReplay>
+): Router {
+  const router = Router();
+
+  /**
+   * プレイヤーを操作し、エラーをステータスコードに変換して返す
+   */
+  async function handle(
+    res: Response<AdminReplayResponse>,
+    operation: () => ReplayStatus | Promise<ReplayStatus>
+  ): Promise<void> {
+    try {
+      res.json({ success: true, replay: await operation() });
+    } catch (error) {
+      if (error instanceof ReplayError) {
+        res.status(error.status).json({ success: false, error: error.message });
+      } else {
+        console.error('Replay error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    }
+  }
+
+  /**
+   * GET /api/admin/replay
+   * 再生状況を取得
+   */
+  router.get('/replay', (_req: Request, res: Response<AdminReplayResponse>) => {
+    res.json({ success: true, replay: player.status() });
+  });
+
+  /**
+   * POST /api/admin/replay
+   * 再生元（既存スレッドまたはセッションログ）を読み込む
+   */
+  router.post('/replay', async (req: Request, res: Response<AdminReplayResponse>) => {
+    const body = (req.body ?? {}) as Partial<AdminReplayLoadRequest>;
+    await handle(res, async () => {
+      const speed = body.speed === undefined ? undefined : validateReplaySpeed(body.speed);
+      const { source, items } = await loadSource(body.source as ReplaySourceInput);
+      player.load(items, source);
+      return speed === undefined ? player.status() : player.setSpeed(speed);
+    });
+  });
+
+  /**
+   * POST /api/admin/replay/play
+   * 再生を開始・再開
+   */
+  router.post('/replay/play', async (_req: Request, res: Response<AdminReplayResponse>) => {
+    await handle(res, () => player.play());
+  });
+
+  /**
+   * POST /api/admin/replay/pause
+   * 一時停止
+   */
+  router.post('/replay/pause', async (_req: Request, res: Response<AdminReplayResponse>) => {
+    await handle(res, () => player.pause());
+  });
+
+  /**
+   * POST /api/admin/replay/stop
+   * 再生を終了
+   */
+  router.post('/replay/stop', async (_req: Request, res: Response<AdminReplayResponse>) => {
+    await handle(res, () => player.stop());
+  });
+
+  /**
+   * PUT /api/admin/replay/position
+   * 再生位置を移動
+   */
+  router.put('/replay/position', async (req: Request, res: Response<AdminReplayResponse>) => {
+    const body = (req.body ?? {}) as { positionMs?: unknown };
+    await handle(res, () => {
+      if (typeof body.positionMs !== 'number') {
+        throw new ReplayError('positionMs must be a number');
+      }
+      return player.seek(body.positionMs);
+    });
+  });
+
+  /**
+   * PUT /api/admin/replay/speed
+   * 再生速度を変更
+   */
+  router.put('/replay/speed', async (req: Request, res: Response<AdminReplayResponse>) => {
+    const body = (req.body ?? {}) as { speed?: unknown };
+    await handle(res, () => player.setSpeed(body.speed as number));
+  });
+
+  return router;
+}
@@ -0,0 +1,122 @@
+import { Router, type Request, type Response } from 'express';
+import type {
+  AdminReplaceThreadsRequest,
+  AdminThreadInput,
+  AdminThreadsResponse,
+  WatchTarget,
+} from '../types/index.js';
+import { createThreadId, createWatchTarget, type ThreadRegistry } from '../thread/index.js';
+
+/**
+ * リクエストボディの指定を検証して監視対象に変換
+ * @throws Error 形式が不正な場合
+ */
+function toWatchTarget(input: AdminThreadInput | undefined): WatchTarget {
+  if (!input || typeof input.threadUrl !== 'string') {
+    throw new Error('Thread URL is required');
+  }
+  if (input.label !== undefined && typeof input.label !== 'string') {
+    throw new Error('Label must be a string');
+  }
+  if (input.includeReplies !== undefined && typeof input.includeReplies !== 'boolean') {
+    throw new Error('includeReplies must be a boolean');
+  }
+  return createWatchTarget(input.threadUrl, input.label, input.includeReplies);
+}
+
+/**
+ * 監視対象（スレッド・チャンネル）操作用の管理ルーターを作成
+ * @param registry スレッドレジストリ
+ * @param onThreadsChanged 監視対象が変更された際のコールバック（追加された監視対象を受け取る）
+ */
+export function createThreadAdminRouter(
+  registry: ThreadRegistry,
+  onThreadsChanged: (added: WatchTarget[]) => void
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/admin/threads
+   * 監視中のスレッド一覧を取得
+   */
+  router.get('/threads', (_req: Request, res: Response<AdminThreadsResponse>) => {
+    res.json({ success: true, threads: registry.getThreadCounts() });
+  });
+
+  /**
+   * POST /api/admin/threads
+   * 監視スレッドを追加
+   */
+  router.post('/threads', (req: Request, res: Response<AdminThreadsResponse>) => {
+    let thread: WatchTarget;
+    try {
+      thread = toWatchTarget(req.body as AdminThreadInput);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid request',
+      });
+      return;
+    }
+
+    const isNew = !registry.list().some((watched) => watched.id === thread.id);
+    registry.add(thread);
+    onThreadsChanged(isNew ? [thread] : []);
+
+    res.json({ success: true, threads: registry.getThreadCounts() });
+  });
+
+  /**
+   * PUT /api/admin/threads
+   * 監視スレッドを置き換え（スレッドの切り替え）
+   */
+  router.put('/threads', (req: Request, res: Response<AdminThreadsResponse>) => {
+    const body = req.body as AdminReplaceThreadsRequest;
+    let threads: WatchTarget[];
+    try {
+      if (!Array.isArray(body?.threads) || body.threads.length === 0) {
+        throw new Error('At least one thread is required');
+      }
+      threads = body.threads.map(toWatchTarget);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid request',
+      });
+      return;
+    }
+
+    const nextIds = new Set(threads.map((thread) => thread.id));
+    const currentIds = new Set(registry.list().map((thread) => thread.id));
+    for (const id of currentIds) {
+      if (!nextIds.has(id)) registry.remove(id);
+    }
+    for (const thread of threads) {
+      registry.add(thread);
+    }
+    onThreadsChanged(threads.filter((thread) => !currentIds.has(thread.id)));
+
+    res.json({ success: true, threads: registry.getThreadCounts() });
+  });
+
+  /**
+   * DELETE /api/admin/threads/:channelId/:threadTs?
+   * 監視対象を削除（threadTs を省略した場合はチャンネル指定を削除）
+   */
+  router.delete('/threads/:channelId/:threadTs?', (
+    req: Request<{ channelId: string; threadTs?: string }>,
+    res: Response<AdminThreadsResponse>
+  ) => {
+    const { channelId, threadTs } = req.params;
+    const threadId = threadTs ? createThreadId(channelId, threadTs) : channelId;
+    if (!registry.remove(threadId)) {
+      res.status(404).json({ success: false, error: 'Thread not found' });
+      return;
+    }
+    onThreadsChanged([]);
+
+    res.json({ success: true, threads: registry.getThreadCounts() });
+  });
+
+  return router;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCommentLayout } from './commentLayout.js';
+import { calculateLaneY, FIXED_DISPLAY_DURATION, FLOW_DURATION_MS } from './laneManager.js';
+
+const viewport = { width: 1000, height: 800 };
+
+describe('createCommentLayout', () => {
+  let time: number;
+  const now = (): number => time;
+
+  beforeEach(() => {
+    time = 0;
+    // 空きレーンのうち最初のレーンを選ぶ
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  describe('getFontSize', () => {
+    it('文字数に応じたサイズにサイズコマンドの倍率を掛ける', () => {
+      const layout = createCommentLayout();
+      expect(layout.getFontSize('short')).toBe(40);
+      expect(layout.getFontSize('short', 'big')).toBe(60);
+      expect(layout.getFontSize('a'.repeat(31), 'small')).toBe(14);
+    });
+  });
+
+  describe('place', () => {
+    it('流れるコメントは前のコメントに追いつかないレーンに配置する', () => {
+      const layout = createCommentLayout({ laneCount: 3, now });
+
+      const first = layout.place({ width: 200 }, viewport);
+      const second = layout.place({ width: 200 }, viewport);
+
+      expect(first).toEqual({ kind: 'flow', lane: 0, y: calculateLaneY(0, 3, 800), duration: FLOW_DURATION_MS });
+      expect(second.lane).toBe(1);
+    });
+
+    it('前のコメントが画面に入りきった後は同じレーンを再利用する', () => {
+      const layout = createCommentLayout({ laneCount: 3, now });
+
+      layout.place({ width: 200 }, viewport);
+      time = 3000;
+      expect(layout.place({ width: 200 }, viewport).lane).toBe(0);
+    });
+
+    it('固定表示のコメントは上部・下部から積み重ね、流れるコメントと重ならない', () => {
+      const layout = createCommentLayout({ laneCount: 3, now });
+
+      const top = layout.place({ width: 100, style: { position: 'top' } }, viewport);
+      const bottom = layout.place({ width: 100, style: { position: 'bottom' } }, viewport);
+      const flow = layout.place({ width: 100 }, viewport);
+
+      expect(top).toMatchObject({ kind: 'fixed', position: 'top', lane: 0, duration: FIXED_DISPLAY_DURATION });
+      expect(bottom).toMatchObject({ kind: 'fixed', position: 'bottom', lane: 2 });
+      expect(flow).toMatchObject({ kind: 'flow', lane: 1 });
+    });
+
+    it('固定表示のコメントは流れるコメントが通過中のレーンを避ける', () => {
+      const layout = createCommentLayout({ laneCount: 3, now });
+
+      const flow = layout.place({ width: 200 }, viewport);
+      time = 1000;
+      const top = layout.place({ width: 100, style: { position: 'top' } }, viewport);
+
+      expect(flow).toMatchObject({ kind: 'flow', lane: 0 });
+      expect(top).toMatchObject({ kind: 'fixed', position: 'top', lane: 1 });
+
+      // 流れるコメントが画面を抜けた後は上端のレーンに戻る
+      time = FLOW_DURATION_MS;
+      expect(layout.place({ width: 100, style: { position: 'top' } }, viewport).lane).toBe(0);
+    });
+
+    it('configure でレーン数・表示範囲・表示時間を変更できる', () => {
+      const layout = createCommentLayout({ laneCount: 3, now });
+      layout.place({ width: 200 }, viewport);
+
+      const usableRange = { start: 0, end: 0.5 };
+      layout.configure({ laneCount: 2, usableRange, flowDuration: 5000 });
+
+      // レーン数が変わったためレーンの状態を初期化する
+      expect(layout.place({ width: 200 }, viewport)).toEqual({
+        kind: 'flow',
+        lane: 0,
+        y: calculateLaneY(0, 2, 800, usableRange),
+        duration: 5000,
+      });
+    });
+
+    it('除外範囲を避けてコメントを配置する', () => {
+      const exclusions = [{ x: 0.75, y: 0.5, width: 0.25, height: 0.5 }];
+      const layout = createCommentLayout({ laneCount: 2, usableRange: { start: 0, end: 1 }, exclusions, now });
+
+      const first = layout.place({ width: 200 }, viewport);
+      const second = layout.place({ width: 200 }, viewport);
+
+      // 下半分（ワイプの高さ）を除いた上半分にレーンを並べる
+      expect([first.y, second.y]).toEqual([100, 300]);
+
+      layout.configure({ exclusions: [] });
+      time = 3000;
+      expect(layout.place({ width: 200 }, viewport).y).toBe(200);
+    });
+
+    it('固定表示の時間が過ぎたレーンは解放する', () => {
+      const layout = createCommentLayout({ laneCount: 3, now });
+
+      layout.place({ width: 100, style: { position: 'top' } }, viewport);
+      expect(layout.place({ width: 100, style: { position: 'top' } }, viewport).lane).toBe(1);
+
+      time = FIXED_DISPLAY_DURATION;
+      expect(layout.place({ width: 100, style: { position: 'top' } }, viewport).lane).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * コメントレイアウトモジュール
+ *
+ * オーバーレイに表示するコメントの文字サイズ・レーン・表示時間を決める。
+ * DOMに依存しないため、描画（public/js/src/app.ts）と分けて単体テストできる
+ */
+import type { CommentPosition, CommentSize, CommentStyle, ExclusionArea } from './types/index.js';
+import { getFontSize } from './getFontSize.js';
+import {
+  type FixedLaneState,
+  type FlowLaneState,
+  type UsableRange,
+  LANE_COUNT,
+  USABLE_RANGE_START,
+  USABLE_RANGE_END,
+  FIXED_DISPLAY_DURATION,
+  FLOW_DURATION_MS,
+  calculateLaneY,
+  createLaneState,
+  occupyFixedLane,
+  occupyFlowLane,
+  releaseExpiredFixedLanes,
+  selectFixedLane,
+  selectFlowLane,
+} from './laneManager.js';
+
+/** サイズコマンド（[big] / [small]）の文字サイズの倍率 */
+export const SIZE_SCALE: Readonly<Record<CommentSize, number>> = {
+  big: 1.5,
+  small: 0.6,
+};
+
+/**
+ * 画面の大きさ（ピクセル）
+ */
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+/**
+ * レイアウトの設定オプション
+ */
+export interface CommentLayoutOptions {
+  /** レーン数（デフォルト: LANE_COUNT） */
+  laneCount?: number;
+  /** コメントを表示する縦方向の範囲（デフォルト: USABLE_RANGE_START〜USABLE_RANGE_END） */
+  usableRange?: UsableRange;
+  /** コメントを表示しない矩形（画面に対する割合、デフォルト: なし） */
+  exclusions?: readonly ExclusionArea[];
+  /** 流れるコメントが画面を横切る時間（ミリ秒、デフォルト: FLOW_DURATION_MS） */
+  flowDuration?: number;
+  /** 固定表示の時間（ミリ秒、デフォルト: FIXED_DISPLAY_DURATION） */
+  fixedDuration?: number;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * 配置するコメント
+ */
+export interface CommentLayoutInput {
+  /** 描画したコメントの幅（ピクセル）。流れるコメントのレーン選択に使用する */
+  width: number;
+  style?: CommentStyle;
+}
+
+/**
+ * コメントの配置
+ * - flow: 右から左に流れる
+ * - fixed: 上部・下部に中央揃えで静止する
+ */
+export type CommentPlacement =
+  | { kind: 'flow'; lane: number; y: number; duration: number }
+  | { kind: 'fixed'; position: CommentPosition; lane: number; y: number; duration: number };
+
+/**
+ * コメントレイアウト
+ */
+export interface CommentLayout {
+  /** コメントの文字サイズ（px）。文字数に応じたサイズにサイズコマンドの倍率を掛ける */
+  getFontSize: (text: string, size?: CommentSize) => number;
+  /** コメントのレーンを選んで占有し、配置を返す */
+  place: (input: CommentLayoutInput, viewport: Viewport) => CommentPlacement;
+  /** レーン数・表示範囲・除外範囲・表示時間を変更する（レーン数が変わった場合はレーンの状態を初期化する） */
+  configure: (options: Omit<CommentLayoutOptions, 'now'>) => void;
+}
+
+// ============================================
+// コメントレイアウト - ファクトリ関数
+// ============================================
+
+/**
+ * 流れるレーンと固定レーンの状態を保持するコメントレイアウトを生成
+ */
+export function createCommentLayout(options: CommentLayoutOptions = {}): CommentLayout {
+  let laneCount = options.laneCount ?? LANE_COUNT;
+  let usableRange = options.usableRange ?? { start: USABLE_RANGE_START, end: USABLE_RANGE_END };
+  let exclusions = options.exclusions ?? [];
+  let flowDuration = options.flowDuration ?? FLOW_DURATION_MS;
+  let fixedDuration = options.fixedDuration ?? FIXED_DISPLAY_DURATION;
+  const now = options.now ?? Date.now;
+
+  let fixedLanes: FixedLaneState = createLaneState(laneCount).fixed;
+  // 流れるレーンは幅を考慮して選ぶため、占有開始時刻とあわせてコメントの幅も記録する
+  let flowLanes: FlowLaneState = new Array(laneCount).fill(null);
+
+  function place(input: CommentLayoutInput, viewport: Viewport): CommentPlacement {
+    const current = now();
+    fixedLanes = releaseExpiredFixedLanes(fixedLanes, current);
+
+    const position = input.style?.position;
+    if (position) {
+      const lane = selectFixedLane(fixedLanes, position, flowLanes, current, flowDuration);
+      fixedLanes = occupyFixedLane(fixedLanes, lane, current + fixedDuration);
+      return {
+        kind: 'fixed',
+        position,
+        lane,
+        y: calculateLaneY(lane, laneCount, viewport.height, usableRange, exclusions),
+        duration: fixedDuration,
+      };
+    }
+
+    const geometry = { viewportWidth: viewport.width, duration: flowDuration };
+    const lane = selectFlowLane(flowLanes, input.width, current, geometry, fixedLanes);
+    flowLanes = occupyFlowLane(flowLanes, lane, { startedAt: current, width: input.width });
+    return {
+      kind: 'flow',
+      lane,
+      y: calculateLaneY(lane, laneCount, viewport.height, usableRange, exclusions),
+      duration: flowDuration,
+    };
+  }
+
+  function configure(next: Omit<CommentLayoutOptions, 'now'>): void {
+    if (next.laneCount !== undefined && next.laneCount !== laneCount) {
+      // 表示中のコメントのレーンは引き継げないため、空きの状態から割り当て直す
+      fixedLanes = createLaneState(next.laneCount).fixed;
+      flowLanes = new Array(next.laneCount).fill(null);
+      laneCount = next.laneCount;
+    }
+    usableRange = next.usableRange ?? usableRange;
+    exclusions = next.exclusions ?? exclusions;
+    flowDuration = next.flowDuration ?? flowDuration;
+    fixedDuration = next.fixedDuration ?? fixedDuration;
+  }
+
+  return {
+    getFontSize: (text, size) => Math.round(getFontSize(text) * (size ? SIZE_SCALE[size] : 1)),
+    place,
+    configure,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { loadJsonFile, parseJsonContent, watchConfigFile, type ConfigFileWatcher, type JsonFileFormat } from './configFile.js';
+
+class SampleConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SampleConfigError';
+  }
+}
+
+const format: JsonFileFormat<{ value: number }> = {
+  fallback: { value: 0 },
+  parse: (raw) => {
+    const value = (raw as Record<string, unknown> | null)?.['value'];
+    if (typeof value !== 'number') throw new SampleConfigError('value must be a number');
+    return { value };
+  },
+  invalidJson: (filePath) => new SampleConfigError(`Sample config is not valid JSON: ${filePath}`),
+};
+
+const load = (filePath: string) => loadJsonFile(filePath, format);
+
+describe('設定ファイル', () => {
+  let dir: string;
+  let filePath: string;
+  let watcher: ConfigFileWatcher<{ value: number }> | undefined;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'config-file-'));
+    filePath = path.join(dir, 'sample.json');
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('loadJsonFile', () => {
+    it('ファイルが存在しない場合は fallback を返す', async () => {
+      expect(await load(filePath)).toEqual({ value: 0 });
+    });
+
+    it('JSONを解析して検証する', async () => {
+      await writeFile(filePath, '{"value": 3}');
+      expect(await load(filePath)).toEqual({ value: 3 });
+
+      await writeFile(filePath, '{"value": "3"}');
+      await expect(load(filePath)).rejects.toThrow('value must be a number');
+    });
+
+    it('JSONとして不正な場合は invalidJson の例外を投げる', async () => {
+      await writeFile(filePath, '{');
+      await expect(load(filePath)).rejects.toThrow(SampleConfigError);
+      await expect(load(filePath)).rejects.toThrow(`Sample config is not valid JSON: ${filePath}`);
+    });
+  });
+
+  describe('parseJsonContent', () => {
+    it('JSON文字列を解析し、不正な場合は指定元を含む invalidJson の例外を投げる', () => {
+      expect(parseJsonContent('{"value": 3}', 'SAMPLE_CONFIG', format)).toEqual({ value: 3 });
+      expect(() => parseJsonContent('{', 'SAMPLE_CONFIG', format)).toThrow('Sample config is not valid JSON: SAMPLE_CONFIG');
+    });
+  });
+
+  describe('watchConfigFile', () => {
+    it('ファイルの変更を検知して再読み込みする', async () => {
+      await writeFile(filePath, '{"value": 1}');
+      const onChange = vi.fn();
+      watcher = await watchConfigFile({ filePath, load, initial: format.fallback, onChange, debounceMs: 10 });
+      expect(watcher.current()).toEqual({ value: 1 });
+
+      await writeFile(filePath, '{"value": 2}');
+      await vi.waitFor(() => expect(watcher!.current()).toEqual({ value: 2 }));
+      expect(onChange).toHaveBeenLastCalledWith({ value: 2 });
+    });
+
+    it('読み込みに失敗した場合は直前の値を使い続ける', async () => {
+      await writeFile(filePath, '{"value": 1}');
+      const onError = vi.fn();
+      watcher = await watchConfigFile({ filePath, load, initial: format.fallback, onError, debounceMs: 10 });
+
+      await writeFile(filePath, '{');
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.any(SampleConfigError)));
+      expect(watcher.current()).toEqual({ value: 1 });
+    });
+
+    it('ディレクトリが存在しない場合は例外を投げず、作成されたファイルを読み込む', async () => {
+      const missingPath = path.join(dir, 'missing', 'sample.json');
+      const onError = vi.fn();
+      watcher = await watchConfigFile({
+        filePath: missingPath,
+        load,
+        initial: format.fallback,
+        onError,
+        debounceMs: 10,
+        pollInterval: 20,
+      });
+      expect(watcher.current()).toEqual({ value: 0 });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'ENOENT' }));
+
+      await mkdir(path.dirname(missingPath));
+      await writeFile(missingPath, '{"value": 5}');
+      await vi.waitFor(() => expect(watcher!.current()).toEqual({ value: 5 }), { timeout: 2000 });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { watch, unwatchFile, watchFile, type FSWatcher } from 'fs';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * JSON設定ファイルの形式
+ */
+export interface JsonFileFormat<T> {
+  /** ファイルが存在しない場合の値 */
+  fallback: T;
+  /** JSONの内容を検証する（不正な場合は例外を投げる） */
+  parse: (raw: unknown) => T;
+  /** JSONとして不正な場合の例外を作成する（source はファイルのパス・環境変数名） */
+  invalidJson: (source: string) => Error;
+}
+
+/**
+ * JSON設定ファイルを読み込む
+ * ファイルが存在しない場合は format.fallback を返す
+ * @throws JSONとして不正な場合は format.invalidJson の例外、内容が不正な場合は format.parse の例外
+ */
+export async function loadJsonFile<T>(filePath: string, format: JsonFileFormat<T>): Promise<T> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return format.fallback;
+    }
+    throw error;
+  }
+
+  return parseJsonContent(content, filePath, format);
+}
+
+/**
+ * JSON文字列を解析して検証する（環境変数などファイル以外で指定した設定に使用）
+ * @param source エラーメッセージに使う指定元（ファイルのパス・環境変数名）
+ * @throws JSONとして不正な場合は format.invalidJson の例外、内容が不正な場合は format.parse の例外
+ */
+export function parseJsonContent<T>(content: string, source: string, format: JsonFileFormat<T>): T {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw format.invalidJson(source);
+  }
+  return format.parse(raw);
+}
+
+/**
+ * ConfigFileWatcherの設定オプション
+ */
+export interface ConfigFileWatcherOptions<T> {
+  /** 設定ファイルのパス */
+  filePath: string;
+  /** 設定ファイルを読み込む */
+  load: (filePath: string) => Promise<T>;
+  /** 最初の読み込みに失敗した場合の値 */
+  initial: T;
+  /** 再読み込みした値を受け取るコールバック */
+  onChange?: (value: T) => void;
+  /** 読み込み・監視に失敗した場合のコールバック（直前の値を使い続ける） */
+  onError?: (error: unknown) => void;
+  /** 変更検知から再読み込みまでの待ち時間（ミリ秒） */
+  debounceMs?: number;
+  /** ディレクトリを監視できない場合に、ファイルの変更を確認する間隔（ミリ秒） */
+  pollInterval?: number;
+}
+
+// ============================================
+// 設定ファイルの監視 - インターフェース
+// ============================================
+export interface ConfigFileWatcher<T> {
+  /** 現在の値を取得 */
+  current: () => T;
+  /** 設定ファイルを再読み込みする */
+  reload: () => Promise<void>;
+  /** 監視を終了する */
+  close: () => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+const DEFAULT_POLL_INTERVAL = 1000;
+
+// ============================================
+// 設定ファイルの監視 - ファクトリ関数
+// ============================================
+
+/**
+ * 設定ファイルを監視し、変更されたら再起動せずに値を差し替える
+ * エディタの保存方式（置き換え・リネーム）に対応するため、ディレクトリごと監視する
+ * ディレクトリが存在しない・監視中にエラーになった場合は、ファイルの更新日時の確認に切り替える
+ */
+export async function watchConfigFile<T>(options: ConfigFileWatcherOptions<T>): Promise<ConfigFileWatcher<T>> {
+  const { filePath } = options;
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const fileName = path.basename(filePath);
+  let value = options.initial;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let watcher: FSWatcher | null = null;
+  let polling = false;
+  let closed = false;
+
+  const reload = async (): Promise<void> => {
+    try {
+      value = await options.load(filePath);
+      options.onChange?.(value);
+    } catch (error) {
+      options.onError?.(error);
+    }
+  };
+
+  const scheduleReload = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void reload();
+    }, debounceMs);
+  };
+
+  const startPolling = (): void => {
+    if (polling || closed) return;
+    polling = true;
+    watchFile(filePath, { interval: options.pollInterval ?? DEFAULT_POLL_INTERVAL }, scheduleReload);
+  };
+
+  await reload();
+
+  try {
+    watcher = watch(path.dirname(filePath), (_eventType, changed) => {
+      if (changed !== null && changed !== fileName) return;
+      scheduleReload();
+    });
+    // 監視中のディレクトリが削除された場合など
+    watcher.on('error', (error) => {
+      options.onError?.(error);
+      watcher?.close();
+      watcher = null;
+      startPolling();
+    });
+  } catch (error) {
+    options.onError?.(error);
+    startPolling();
+  }
+
+  return {
+    current: () => value,
+    reload,
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watcher?.close();
+      if (polling) unwatchFile(filePath, scheduleReload);
+    },
+  };
+}
@@ -0,0 +1,2 @@
+export type { ConfigFileWatcher, ConfigFileWatcherOptions, JsonFileFormat } from './configFile.js';
+export { loadJsonFile, parseJsonContent, watchConfigFile } from './configFile.js';
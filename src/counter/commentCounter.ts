@@ -4,6 +4,7 @@
 export interface CommentCounter {
   getCount: () => number;
   increment: () => number;
+  decrement: () => number;
   set: (value: number) => void;
   reset: () => void;
 }
@@ -21,6 +22,10 @@ export function createCommentCounter(): CommentCounter {
   return {
     getCount: () => count,
     increment: () => ++count,
+    decrement: () => {
+      count = Math.max(0, count - 1);
+      return count;
+    },
     set: (value: number) => {
       count = value;
     },
@@ -50,6 +55,14 @@ export function incrementCommentCount(): number {
   return commentCount;
 }
 
+/**
+ * コメント数をデクリメントし、新しい値を返す（0未満にはならない）
+ */
+export function decrementCommentCount(): number {
+  commentCount = Math.max(0, commentCount - 1);
+  return commentCount;
+}
+
 /**
  * コメント数をリセット（テスト用）
  */
@@ -1,6 +1,7 @@
 export type { CommentCounter } from './commentCounter.js';
 export {
   createCommentCounter,
+  decrementCommentCount,
   getCommentCount,
   incrementCommentCount,
   resetCommentCount,
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FULL_REGION,
+  findDisplay,
+  parseDisplayRegion,
+  parseDisplaySelection,
+  applyDisplaySelection,
+  parseRegionSpec,
+  resolveWindowBounds,
+  toDisplayInfo,
+} from '../shared/displaySelection.cjs'
+
+const primary = {
+  id: 1,
+  label: 'Built-in Retina Display',
+  bounds: { x: 0, y: 0, width: 1440, height: 900 },
+  workArea: { x: 0, y: 25, width: 1440, height: 875 },
+  scaleFactor: 2,
+}
+const projector = {
+  id: 2,
+  label: '',
+  bounds: { x: 1440, y: 0, width: 1920, height: 1080 },
+  workArea: { x: 1440, y: 0, width: 1920, height: 1080 },
+  scaleFactor: 1,
+}
+
+describe('toDisplayInfo', () => {
+  it('プライマリディスプレイを判定し、名前がない場合は番号で表示する', () => {
+    expect(toDisplayInfo(primary, 0, 1)).toMatchObject({ id: 1, label: 'Built-in Retina Display', primary: true })
+    expect(toDisplayInfo(projector, 1, 1)).toMatchObject({ id: 2, label: 'ディスプレイ 2', primary: false })
+  })
+})
+
+describe('parseDisplayRegion', () => {
+  it('省略した場合は全体', () => {
+    expect(parseDisplayRegion(undefined)).toEqual(FULL_REGION)
+    expect(parseDisplayRegion(null)).toEqual(FULL_REGION)
+  })
+
+  it('作業領域に収まる範囲を受け付ける', () => {
+    expect(parseDisplayRegion({ x: 0.5, y: 0, width: 0.5, height: 1 })).toEqual({ x: 0.5, y: 0, width: 0.5, height: 1 })
+    expect(parseDisplayRegion({ x: 0.1, y: 0.7, width: 0.2, height: 0.3 })).not.toBeNull()
+  })
+
+  it.each([
+    { x: 0.6, y: 0, width: 0.5, height: 1 },
+    { x: 0, y: 0, width: 0, height: 1 },
+    { x: -0.1, y: 0, width: 0.5, height: 1 },
+    { x: 0, y: 0, width: '1', height: 1 },
+    'full',
+  ])('不正な範囲 %j は null', (value) => {
+    expect(parseDisplayRegion(value)).toBeNull()
+  })
+})
+
+describe('parseRegionSpec', () => {
+  it('未設定の場合は全体', () => {
+    expect(parseRegionSpec(undefined)).toEqual(FULL_REGION)
+    expect(parseRegionSpec(' ')).toEqual(FULL_REGION)
+  })
+
+  it('"x,y,width,height" の割合を範囲にする', () => {
+    expect(parseRegionSpec('0, 0.5, 1, 0.5')).toEqual({ x: 0, y: 0.5, width: 1, height: 0.5 })
+  })
+
+  it.each(['0,0,1', '0,0,1,', 'a,0,1,1', '0.5,0,0.6,1'])('不正な値 %j は null', (value) => {
+    expect(parseRegionSpec(value)).toBeNull()
+  })
+})
+
+describe('parseDisplaySelection', () => {
+  it('ディスプレイIDを省略した場合はプライマリディスプレイ', () => {
+    expect(parseDisplaySelection({})).toEqual({ displayId: null, region: FULL_REGION })
+  })
+
+  it('不正な値は null', () => {
+    expect(parseDisplaySelection(null)).toBeNull()
+    expect(parseDisplaySelection({ displayId: '2' })).toBeNull()
+    expect(parseDisplaySelection({ displayId: 2, region: { x: 1, y: 0, width: 1, height: 1 } })).toBeNull()
+  })
+})
+
+describe('applyDisplaySelection', () => {
+  const current = { displayId: 2, region: { x: 0, y: 0.5, width: 1, height: 0.5 } }
+
+  it('指定しなかった項目は現在の選択のままにする', () => {
+    expect(applyDisplaySelection(current, { displayId: 3 })).toEqual({ ...current, displayId: 3 })
+    expect(applyDisplaySelection(current, { region: FULL_REGION })).toEqual({ displayId: 2, region: FULL_REGION })
+    expect(applyDisplaySelection(current, {})).toEqual(current)
+  })
+
+  it('displayId に null を指定した場合はプライマリディスプレイ', () => {
+    expect(applyDisplaySelection(current, { displayId: null })).toEqual({ ...current, displayId: null })
+  })
+
+  it('不正な値は null', () => {
+    expect(applyDisplaySelection(current, null)).toBeNull()
+    expect(applyDisplaySelection(current, { displayId: '3' })).toBeNull()
+    expect(applyDisplaySelection(current, { region: { x: 1, y: 0, width: 1, height: 1 } })).toBeNull()
+  })
+})
+
+describe('findDisplay', () => {
+  it('選択したディスプレイを返し、取り外された場合はプライマリディスプレイを返す', () => {
+    expect(findDisplay([primary, projector], 2, primary)).toBe(projector)
+    expect(findDisplay([primary], 2, primary)).toBe(primary)
+    expect(findDisplay([primary, projector], null, primary)).toBe(primary)
+  })
+})
+
+describe('resolveWindowBounds', () => {
+  it('全体の場合は作業領域と同じ', () => {
+    expect(resolveWindowBounds(primary.workArea)).toEqual(primary.workArea)
+  })
+
+  it('範囲をディスプレイの座標に変換する', () => {
+    expect(resolveWindowBounds(projector.workArea, { x: 0.5, y: 0, width: 0.5, height: 0.25 })).toEqual({
+      x: 2400,
+      y: 0,
+      width: 960,
+      height: 270,
+    })
+  })
+
+  it('丸めても隣り合う範囲に隙間ができない', () => {
+    const workArea = { x: 0, y: 0, width: 1001, height: 1001 }
+    const left = resolveWindowBounds(workArea, { x: 0, y: 0, width: 1 / 3, height: 1 })
+    const right = resolveWindowBounds(workArea, { x: 1 / 3, y: 0, width: 2 / 3, height: 1 })
+    expect(left.x + left.width).toBe(right.x)
+    expect(right.x + right.width).toBe(1001)
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { createCommentFilter, FilterConfigError, parseFilterConfig } from './commentFilter.js';
+
+describe('parseFilterConfig', () => {
+  it('正しい設定を読み込む', () => {
+    expect(parseFilterConfig({
+      rules: [
+        { pattern: 'foo', action: 'drop' },
+        { pattern: 'b.r', regex: true, caseSensitive: true, action: 'mask' },
+      ],
+    })).toEqual({
+      rules: [
+        { pattern: 'foo', action: 'drop' },
+        { pattern: 'b.r', regex: true, caseSensitive: true, action: 'mask' },
+      ],
+    });
+  });
+
+  it('rules 配列がない場合はエラー', () => {
+    expect(() => parseFilterConfig({})).toThrow(FilterConfigError);
+    expect(() => parseFilterConfig(null)).toThrow(FilterConfigError);
+  });
+
+  it('不正なルールはエラー', () => {
+    expect(() => parseFilterConfig({ rules: [{ pattern: '', action: 'drop' }] })).toThrow('rules[0].pattern');
+    expect(() => parseFilterConfig({ rules: [{ pattern: 'a', action: 'ban' }] })).toThrow('rules[0].action');
+    expect(() => parseFilterConfig({ rules: [{ pattern: '(', regex: true, action: 'drop' }] })).toThrow('Invalid regular expression');
+  });
+});
+
+describe('createCommentFilter', () => {
+  it('一致しない場合はそのまま通す', () => {
+    const filter = createCommentFilter({ rules: [{ pattern: 'spam', action: 'drop' }] });
+    expect(filter.apply('hello')).toEqual({ action: 'pass', text: 'hello' });
+  });
+
+  it('NGワードは部分一致・大文字小文字を区別せずに判定する', () => {
+    const filter = createCommentFilter({ rules: [{ pattern: 'spam', action: 'drop' }] });
+    expect(filter.apply('これはSPAMです').action).toBe('drop');
+  });
+
+  it('caseSensitive の場合は大文字小文字を区別する', () => {
+    const filter = createCommentFilter({ rules: [{ pattern: 'spam', caseSensitive: true, action: 'drop' }] });
+    expect(filter.apply('SPAM').action).toBe('pass');
+  });
+
+  it('NGワード内の記号は正規表現として解釈しない', () => {
+    const filter = createCommentFilter({ rules: [{ pattern: 'a.b', action: 'drop' }] });
+    expect(filter.apply('axb').action).toBe('pass');
+    expect(filter.apply('a.b').action).toBe('drop');
+  });
+
+  it('一致した部分を文字数分の * でマスクする', () => {
+    const filter = createCommentFilter({
+      rules: [
+        { pattern: 'ばか', action: 'mask' },
+        { pattern: '\\d{3,}', regex: true, action: 'mask' },
+      ],
+    });
+    expect(filter.apply('ばかばか 090-1234')).toEqual({ action: 'pass', text: '**** ***-****' });
+  });
+
+  it('複数のルールに一致した場合は drop > hold の順に優先し、マスクも適用する', () => {
+    const filter = createCommentFilter({
+      rules: [
+        { pattern: 'bad', action: 'mask' },
+        { pattern: 'check', action: 'hold' },
+        { pattern: 'spam', action: 'drop' },
+      ],
+    });
+    expect(filter.apply('bad check')).toEqual({ action: 'hold', text: '*** check' });
+    expect(filter.apply('check spam')).toEqual({ action: 'drop', text: 'check spam' });
+  });
+
+  it('マスクのルールが先にあっても、除外・保留は元のテキストで判定する', () => {
+    const filter = createCommentFilter({
+      rules: [
+        { pattern: 'idiot', action: 'mask' },
+        { pattern: 'you idiot', action: 'drop' },
+        { pattern: 'idiot!', action: 'hold' },
+      ],
+    });
+    expect(filter.apply('you idiot')).toEqual({ action: 'drop', text: 'you *****' });
+    expect(filter.apply('idiot!')).toEqual({ action: 'hold', text: '*****!' });
+    expect(filter.apply('idiot')).toEqual({ action: 'pass', text: '*****' });
+  });
+
+  it('設定のコピーを返す', () => {
+    const config = { rules: [{ pattern: 'a', action: 'drop' as const }] };
+    const filter = createCommentFilter(config);
+    filter.getConfig().rules[0]!.pattern = 'changed';
+    expect(filter.getConfig()).toEqual(config);
+  });
+});
@@ -0,0 +1,135 @@
+import type { FilterAction, FilterConfig, FilterRule } from '../types/index.js';
+
+/**
+ * フィルター設定が不正な場合にスローされるエラー
+ */
+export class FilterConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterConfigError';
+  }
+}
+
+/**
+ * フィルターの適用結果
+ * - pass: そのまま（またはマスクして）表示
+ * - drop: 表示しない
+ * - hold: 承認待ちにする
+ */
+export interface FilterResult {
+  action: 'pass' | Exclude<FilterAction, 'mask'>;
+  /** マスク適用後のテキスト */
+  text: string;
+}
+
+// ============================================
+// コメントフィルター - インターフェース
+// ============================================
+export interface CommentFilter {
+  /** テキストにルールを適用する */
+  apply: (text: string) => FilterResult;
+  /** フィルターの元になった設定 */
+  getConfig: () => FilterConfig;
+}
+
+const FILTER_ACTIONS: readonly FilterAction[] = ['drop', 'mask', 'hold'];
+
+// 優先度: drop > hold > mask
+const ACTION_PRIORITY: Record<FilterResult['action'], number> = {
+  pass: 0,
+  hold: 1,
+  drop: 2,
+};
+
+/**
+ * 正規表現の特殊文字をエスケープ
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * ルールを正規表現に変換
+ * 日本語には単語境界がないため、NGワードは部分一致で判定する
+ * @throws FilterConfigError 正規表現が不正な場合
+ */
+function compileRule(rule: FilterRule): RegExp {
+  const source = rule.regex ? rule.pattern : escapeRegExp(rule.pattern);
+  const flags = rule.caseSensitive ? 'gu' : 'giu';
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new FilterConfigError(
+      `Invalid regular expression "${rule.pattern}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * 不明な値をフィルター設定として検証する
+ * @throws FilterConfigError 形式が不正な場合
+ */
+export function parseFilterConfig(raw: unknown): FilterConfig {
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as FilterConfig).rules)) {
+    throw new FilterConfigError('Filter config must have a "rules" array');
+  }
+
+  const rules = (raw as { rules: unknown[] }).rules.map((value, index): FilterRule => {
+    const rule = value as Partial<FilterRule> | null;
+    if (typeof rule !== 'object' || rule === null) {
+      throw new FilterConfigError(`rules[${index}] must be an object`);
+    }
+    if (typeof rule.pattern !== 'string' || rule.pattern === '') {
+      throw new FilterConfigError(`rules[${index}].pattern must be a non-empty string`);
+    }
+    if (!FILTER_ACTIONS.includes(rule.action as FilterAction)) {
+      throw new FilterConfigError(`rules[${index}].action must be one of ${FILTER_ACTIONS.join(', ')}`);
+    }
+
+    const parsed: FilterRule = { pattern: rule.pattern, action: rule.action as FilterAction };
+    if (rule.regex !== undefined) parsed.regex = rule.regex === true;
+    if (rule.caseSensitive !== undefined) parsed.caseSensitive = rule.caseSensitive === true;
+    compileRule(parsed);
+    return parsed;
+  });
+
+  return { rules };
+}
+
+// ============================================
+// コメントフィルター - ファクトリ関数
+// ============================================
+
+/**
+ * NGワード・正規表現でコメントを判定するフィルターを生成
+ * Slack記法を除去した後の（画面に表示される）テキストに適用する
+ * @throws FilterConfigError 正規表現が不正な場合
+ */
+export function createCommentFilter(config: FilterConfig): CommentFilter {
+  const compiled = config.rules.map((rule) => ({ action: rule.action, pattern: compileRule(rule) }));
+
+  return {
+    apply: (text) => {
+      // 除外・保留は元のテキストで判定する（先にマスクしたテキストで判定すると、ルールの順序によって一致しなくなるため）
+      let action: FilterResult['action'] = 'pass';
+      for (const rule of compiled) {
+        if (rule.action === 'mask' || ACTION_PRIORITY[rule.action] <= ACTION_PRIORITY[action]) continue;
+        rule.pattern.lastIndex = 0;
+        if (rule.pattern.test(text)) {
+          action = rule.action;
+        }
+      }
+
+      // 判定後にマスクを適用する
+      let filtered = text;
+      for (const rule of compiled) {
+        if (rule.action !== 'mask') continue;
+        // 一致した文字数分の * に置き換える（絵文字などのサロゲートペアも1文字として数える）
+        filtered = filtered.replace(rule.pattern, (match) => '*'.repeat(Array.from(match).length));
+      }
+
+      return { action, text: filtered };
+    },
+    getConfig: () => ({ rules: config.rules.map((rule) => ({ ...rule })) }),
+  };
+}
@@ -0,0 +1,39 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import type { FilterConfig } from '../types/index.js';
+import { loadJsonFile } from '../configFile/index.js';
+import { FilterConfigError, parseFilterConfig } from './commentFilter.js';
+
+// フィルター設定ファイルのデフォルトパス（カレントディレクトリからの相対パス）
+const DEFAULT_FILTER_CONFIG_PATH = 'filters.json';
+
+/**
+ * フィルター設定ファイルのパスを取得
+ * FILTER_CONFIG_PATH で変更可能。セットアップサーバーとオーバーレイサーバーで同じファイルを参照する
+ */
+export function resolveFilterConfigPath(env: NodeJS.ProcessEnv): string {
+  return path.resolve(env['FILTER_CONFIG_PATH'] || DEFAULT_FILTER_CONFIG_PATH);
+}
+
+/**
+ * フィルター設定ファイルを読み込む
+ * ファイルが存在しない場合はルールなしとして扱う
+ * @throws FilterConfigError 内容が不正な場合
+ */
+export async function loadFilterConfig(filePath: string): Promise<FilterConfig> {
+  return loadJsonFile(filePath, {
+    fallback: { rules: [] },
+    parse: parseFilterConfig,
+    invalidJson: (file) => new FilterConfigError(`Filter config is not valid JSON: ${file}`),
+  });
+}
+
+/**
+ * フィルター設定ファイルを書き込む
+ * @throws FilterConfigError 内容が不正な場合（ファイルは変更しない）
+ */
+export async function saveFilterConfig(filePath: string, config: unknown): Promise<FilterConfig> {
+  const parsed = parseFilterConfig(config);
+  await writeFile(filePath, JSON.stringify(parsed, null, 2) + '\n', 'utf-8');
+  return parsed;
+}
@@ -0,0 +1,38 @@
+import { createCommentFilter, type CommentFilter } from './commentFilter.js';
+import { loadFilterConfig } from './filterConfig.js';
+import { watchConfigFile, type ConfigFileWatcher } from '../configFile/index.js';
+
+/**
+ * FilterWatcherの設定オプション
+ */
+export interface FilterWatcherOptions {
+  /** フィルター設定ファイルのパス */
+  filePath: string;
+  /** 読み込み・監視に失敗した場合のコールバック（直前のフィルターを使い続ける） */
+  onError?: (error: unknown) => void;
+  /** 変更検知から再読み込みまでの待ち時間（ミリ秒） */
+  debounceMs?: number;
+}
+
+// ============================================
+// フィルター設定の監視 - インターフェース
+// ============================================
+export type FilterWatcher = ConfigFileWatcher<CommentFilter>;
+
+// ============================================
+// フィルター設定の監視 - ファクトリ関数
+// ============================================
+
+/**
+ * フィルター設定ファイルを監視し、変更されたら再起動せずにフィルターを差し替える
+ */
+export async function watchFilterConfig(options: FilterWatcherOptions): Promise<FilterWatcher> {
+  return watchConfigFile({
+    ...options,
+    load: async (filePath) => createCommentFilter(await loadFilterConfig(filePath)),
+    initial: createCommentFilter({ rules: [] }),
+    onChange: (filter) => {
+      console.log(`Filter rules loaded: ${filter.getConfig().rules.length} rule(s)`);
+    },
+  });
+}
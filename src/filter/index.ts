@@ -0,0 +1,5 @@
+export type { CommentFilter, FilterResult } from './commentFilter.js';
+export { createCommentFilter, parseFilterConfig, FilterConfigError } from './commentFilter.js';
+export { resolveFilterConfigPath, loadFilterConfig, saveFilterConfig } from './filterConfig.js';
+export type { FilterWatcher, FilterWatcherOptions } from './filterWatcher.js';
+export { watchFilterConfig } from './filterWatcher.js';
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { loadHotkeys, parseAccelerator } from '../shared/hotkeys.cjs'
+
+describe('parseAccelerator', () => {
+  it.each([
+    ['CommandOrControl+Alt+P', 'CommandOrControl+Alt+P'],
+    [' Ctrl + Shift + F5 ', 'Ctrl+Shift+F5'],
+    ['F9', 'F9'],
+    ['Alt+Space', 'Alt+Space'],
+  ])('有効なショートカット %j', (value, expected) => {
+    expect(parseAccelerator(value)).toBe(expected)
+  })
+
+  it.each([
+    'P',
+    'Ctrl+',
+    'Ctrl+Alt',
+    'Ctrl+Ctrl+P',
+    'Hyper+P',
+    'Ctrl+PP',
+    'F25',
+    '',
+  ])('不正なショートカット %j は null', (value) => {
+    expect(parseAccelerator(value)).toBeNull()
+  })
+})
+
+describe('loadHotkeys', () => {
+  it('未設定の場合は既定のキーを割り当てる', () => {
+    const { hotkeys, errors } = loadHotkeys({})
+    expect(hotkeys).toEqual({
+      toggleVisibility: 'CommandOrControl+Alt+H',
+      togglePause: 'CommandOrControl+Alt+P',
+      clear: 'CommandOrControl+Alt+C',
+      panic: 'CommandOrControl+Alt+Shift+Q',
+    })
+    expect(errors).toEqual([])
+  })
+
+  it('環境変数でキーを変更し、none で割り当てを無効にする', () => {
+    const { hotkeys } = loadHotkeys({ OVERLAY_HOTKEY_CLEAR: 'F9', OVERLAY_HOTKEY_TOGGLE: 'none' })
+    expect(hotkeys.clear).toBe('F9')
+    expect(hotkeys.toggleVisibility).toBeNull()
+  })
+
+  it('不正な値と重複するキーは割り当てない', () => {
+    const { hotkeys, errors } = loadHotkeys({
+      OVERLAY_HOTKEY_CLEAR: 'C',
+      OVERLAY_HOTKEY_PANIC: 'alt+cmdorctrl+p',
+    })
+    expect(hotkeys.clear).toBeNull()
+    expect(hotkeys.panic).toBeNull()
+    expect(hotkeys.togglePause).toBe('CommandOrControl+Alt+P')
+    expect(errors).toHaveLength(2)
+  })
+})
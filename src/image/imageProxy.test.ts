@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SlackFile } from '../types/index.js';
+import { createImageProxy, ImageProxyError, selectThumbnail, type FetchFn } from './imageProxy.js';
+
+const file: SlackFile = {
+  id: 'F1',
+  name: 'photo.png',
+  mimetype: 'image/png',
+  url_private: 'https://files.slack.com/files-pri/T1-F1/photo.png',
+  original_w: 2000,
+  original_h: 1500,
+  thumb_360: 'https://files.slack.com/files-tmb/T1-F1/photo_360.png',
+  thumb_360_w: 360,
+  thumb_360_h: 270,
+  thumb_720: 'https://files.slack.com/files-tmb/T1-F1/photo_720.png',
+  thumb_720_w: 720,
+  thumb_720_h: 540,
+};
+
+function png(width: number, height: number): Buffer<ArrayBuffer> {
+  const data = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+  data.write('IHDR', 12, 'latin1');
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+}
+
+const thumbnail = png(360, 270);
+
+function imageResponse(contentType = 'image/png', body: string | Uint8Array<ArrayBuffer> = thumbnail): Response {
+  return new Response(body, { status: 200, headers: { 'content-type': contentType } });
+}
+
+describe('selectThumbnail', () => {
+  it('最大サイズ以下で最も大きいサムネイルを選択する', () => {
+    expect(selectThumbnail(file, 480)).toEqual({ url: file.thumb_360, width: 360, height: 270 });
+    expect(selectThumbnail(file, 1024)).toEqual({ url: file.thumb_720, width: 720, height: 540 });
+  });
+
+  it('サムネイルのない小さな画像は元画像を使用する', () => {
+    const small: SlackFile = { id: 'F2', url_private: 'https://files.slack.com/a.png', original_w: 100, original_h: 80 };
+    expect(selectThumbnail(small, 480)).toEqual({ url: small.url_private, width: 100, height: 80 });
+  });
+
+  it('大きすぎる画像でサムネイルがない場合は undefined', () => {
+    expect(selectThumbnail({ id: 'F3', url_private: 'https://files.slack.com/a.png', original_w: 4000 }, 480)).toBeUndefined();
+  });
+});
+
+describe('createImageProxy', () => {
+  it('画像を登録し、推測できないキーのURLを返す', () => {
+    const proxy = createImageProxy({ token: 'xoxb-test', fetch: vi.fn<FetchFn>() });
+    const image = proxy.register(file);
+
+    expect(image).toEqual({ url: expect.stringMatching(/^\/images\/[0-9a-f]{32}$/), width: 360, height: 270, name: 'photo.png' });
+  });
+
+  it('画像以外のファイルやSlack以外のURLは登録しない', () => {
+    const proxy = createImageProxy({ token: 'xoxb-test', fetch: vi.fn<FetchFn>() });
+
+    expect(proxy.register({ ...file, mimetype: 'application/pdf' })).toBeUndefined();
+    expect(proxy.register({ ...file, mimetype: 'image/svg+xml' })).toBeUndefined();
+    expect(proxy.register({ ...file, thumb_360: 'https://evil.example.com/a.png' })).toBeUndefined();
+  });
+
+  it('Bot Token付きで取得し、同じ画像の取得をまとめる', async () => {
+    const fetchFn = vi.fn<FetchFn>().mockResolvedValue(imageResponse());
+    const proxy = createImageProxy({ token: 'xoxb-test', fetch: fetchFn });
+    const key = proxy.register(file)!.url.replace('/images/', '');
+
+    const [first, second] = await Promise.all([proxy.get(key), proxy.get(key)]);
+
+    expect(first).toEqual({ contentType: 'image/png', data: thumbnail });
+    expect(second).toBe(first);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn).toHaveBeenCalledWith(file.thumb_360, { headers: { 'Authorization': 'Bearer xoxb-test' } });
+  });
+
+  it('未登録・期限切れのキーは undefined', async () => {
+    let now = 0;
+    const proxy = createImageProxy({ token: 'xoxb-test', ttl: 1000, now: () => now, fetch: vi.fn<FetchFn>().mockResolvedValue(imageResponse()) });
+    const key = proxy.register(file)!.url.replace('/images/', '');
+
+    expect(await proxy.get('unknown')).toBeUndefined();
+    now = 1000;
+    expect(await proxy.get(key)).toBeUndefined();
+  });
+
+  it('画像以外のレスポンスはエラー', async () => {
+    const proxy = createImageProxy({
+      token: 'xoxb-test',
+      fetch: vi.fn<FetchFn>().mockResolvedValue(imageResponse('text/html', '<html></html>')),
+    });
+    const key = proxy.register(file)!.url.replace('/images/', '');
+
+    await expect(proxy.get(key)).rejects.toThrow(ImageProxyError);
+  });
+
+  it('サイズ上限を超える画像はエラー', async () => {
+    const proxy = createImageProxy({
+      token: 'xoxb-test',
+      maxBytes: 2,
+      fetch: vi.fn<FetchFn>().mockResolvedValue(imageResponse()),
+    });
+    const key = proxy.register(file)!.url.replace('/images/', '');
+
+    await expect(proxy.get(key)).rejects.toThrow('Image is too large');
+  });
+
+  it('最大サイズを超える画像は中継しない', async () => {
+    const proxy = createImageProxy({
+      token: 'xoxb-test',
+      fetch: vi.fn<FetchFn>().mockResolvedValue(imageResponse('image/png', png(2000, 1500))),
+    });
+    const key = proxy.register(file)!.url.replace('/images/', '');
+
+    await expect(proxy.get(key)).rejects.toThrow('Image is too large: 2000x1500');
+  });
+
+  it('大きさを確認できない画像は中継しない', async () => {
+    const proxy = createImageProxy({
+      token: 'xoxb-test',
+      fetch: vi.fn<FetchFn>().mockResolvedValue(imageResponse('image/heic', 'heic')),
+    });
+    const key = proxy.register(file)!.url.replace('/images/', '');
+
+    await expect(proxy.get(key)).rejects.toThrow('Unsupported image format: image/heic');
+  });
+});
@@ -0,0 +1,224 @@
+import { randomBytes } from 'crypto';
+import { Router, type Request, type Response } from 'express';
+import type { CommentImage, SlackFile } from '../types/index.js';
+import { readImageSize } from './imageSize.js';
+
+/**
+ * fetch関数の型定義
+ */
+export type FetchFn = typeof fetch;
+
+/**
+ * ImageProxyの設定オプション
+ */
+export interface ImageProxyOptions {
+  /** Slack Bot Token（files:read スコープが必要） */
+  token: string;
+  /** 表示する画像の最大サイズ（長辺のピクセル数、超える画像は中継しない） */
+  maxSize?: number;
+  /** 取得する画像の最大バイト数 */
+  maxBytes?: number;
+  /** 保持する画像の件数の上限 */
+  cacheSize?: number;
+  /** 登録した画像を保持する時間（ミリ秒） */
+  ttl?: number;
+  /** fetch関数（テスト用にDI可能） */
+  fetch?: FetchFn;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * プロキシ経由で取得した画像
+ */
+export interface ProxiedImage {
+  contentType: string;
+  data: Buffer;
+}
+
+// ============================================
+// 画像プロキシ - インターフェース
+// ============================================
+export interface ImageProxy {
+  /** 添付ファイルを登録し、オーバーレイに渡す画像情報を返す（画像でない場合は undefined） */
+  register: (file: SlackFile) => CommentImage | undefined;
+  /** 登録済みの画像を取得する（未登録・期限切れの場合は undefined） */
+  get: (key: string) => Promise<ProxiedImage | undefined>;
+}
+
+/**
+ * 画像の取得に失敗した際にスローされるエラー
+ */
+export class ImageProxyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProxyError';
+  }
+}
+
+const DEFAULT_MAX_SIZE = 480;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_CACHE_SIZE = 50;
+const DEFAULT_TTL = 10 * 60 * 1000;
+
+// Slackが生成するサムネイルのサイズ（長辺のピクセル数）
+const THUMBNAIL_SIZES = [1024, 960, 800, 720, 480, 360, 160, 80, 64];
+
+// セキュリティ: Bot Token を付けて取得するのは Slack のファイル配信ホストのみ
+const SLACK_FILE_URL_PATTERN = /^https:\/\/files\.slack\.com\//;
+
+/**
+ * 表示サイズに合ったサムネイルを選択
+ * 最大サイズ以下で最も大きいサムネイルを使い、縮小はSlackが生成した画像に任せる（プロキシでは縮小しない）
+ */
+export function selectThumbnail(
+  file: SlackFile,
+  maxSize: number
+): { url: string; width?: number; height?: number } | undefined {
+  for (const size of THUMBNAIL_SIZES) {
+    if (size > maxSize) continue;
+    const url = file[`thumb_${size}`];
+    if (url) {
+      return { url, width: file[`thumb_${size}_w`], height: file[`thumb_${size}_h`] };
+    }
+  }
+
+  // サムネイルがない小さな画像は元画像を使用
+  const longSide = Math.max(file.original_w ?? Infinity, file.original_h ?? Infinity);
+  if (file.url_private && longSide <= maxSize) {
+    return { url: file.url_private, width: file.original_w, height: file.original_h };
+  }
+  return undefined;
+}
+
+// ============================================
+// 画像プロキシ - ファクトリ関数
+// ============================================
+
+/**
+ * Slackの添付画像をBot Token付きで取得し、オーバーレイに中継する画像プロキシを生成
+ * オーバーレイには推測できないキーのURL（/images/:key）のみを渡し、Slackのトークンや元URLは公開しない
+ */
+export function createImageProxy(options: ImageProxyOptions): ImageProxy {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const fetchFn = options.fetch ?? fetch;
+  const now = options.now ?? Date.now;
+
+  const entries = new Map<string, { sourceUrl: string; expiresAt: number; image?: Promise<ProxiedImage> }>();
+
+  const prune = (): void => {
+    const current = now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= current) entries.delete(key);
+    }
+    // 上限を超えた場合は古いものから削除
+    while (entries.size > cacheSize) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  const download = async (sourceUrl: string): Promise<ProxiedImage> => {
+    const response = await fetchFn(sourceUrl, {
+      headers: { 'Authorization': `Bearer ${options.token}` },
+    });
+    if (!response.ok) {
+      throw new ImageProxyError(`Slack responded with ${response.status}`);
+    }
+
+    // 権限がない場合、Slackは200でログインページ（HTML）を返すため Content-Type を確認する
+    // セキュリティ: スクリプトを含められるSVGは中継しない
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType.startsWith('image/') || contentType.startsWith('image/svg')) {
+      throw new ImageProxyError(`Unexpected content type: ${contentType || '(none)'}`);
+    }
+    if (Number(response.headers.get('content-length') ?? 0) > maxBytes) {
+      throw new ImageProxyError('Image is too large');
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > maxBytes) {
+      throw new ImageProxyError('Image is too large');
+    }
+
+    // 縮小はSlackが生成したサムネイルに任せるため、実際の画像が最大サイズに収まっているかを確認する
+    // 大きさを確認できない形式も中継しない
+    const size = readImageSize(data);
+    if (!size) {
+      throw new ImageProxyError(`Unsupported image format: ${contentType}`);
+    }
+    if (Math.max(size.width, size.height) > maxSize) {
+      throw new ImageProxyError(`Image is too large: ${size.width}x${size.height}`);
+    }
+    return { contentType, data };
+  };
+
+  return {
+    register: (file) => {
+      if (!file.mimetype?.startsWith('image/') || file.mimetype.startsWith('image/svg')) return undefined;
+
+      const thumbnail = selectThumbnail(file, maxSize);
+      if (!thumbnail || !SLACK_FILE_URL_PATTERN.test(thumbnail.url)) return undefined;
+
+      const key = randomBytes(16).toString('hex');
+      entries.set(key, { sourceUrl: thumbnail.url, expiresAt: now() + ttl });
+      prune();
+
+      return {
+        url: `/images/${key}`,
+        width: thumbnail.width,
+        height: thumbnail.height,
+        name: file.name,
+      };
+    },
+    get: async (key) => {
+      prune();
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      // 同じ画像への同時リクエストは1回の取得にまとめる
+      entry.image ??= download(entry.sourceUrl);
+      try {
+        return await entry.image;
+      } catch (error) {
+        // 失敗した取得はキャッシュしない
+        entry.image = undefined;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * 画像プロキシのルーターを作成
+ * @param proxy 画像プロキシ
+ */
+export function createImageRouter(proxy: ImageProxy): Router {
+  const router = Router();
+
+  /**
+   * GET /images/:key
+   * 登録済みの添付画像を返す
+   */
+  router.get('/images/:key', async (req: Request<{ key: string }>, res: Response) => {
+    try {
+      const image = await proxy.get(req.params.key);
+      if (!image) {
+        res.status(404).end();
+        return;
+      }
+      res.set('Content-Type', image.contentType);
+      res.set('Cache-Control', 'private, max-age=600');
+      res.send(image.data);
+    } catch (error) {
+      console.error('Failed to proxy image:', error);
+      res.status(502).end();
+    }
+  });
+
+  return router;
+}
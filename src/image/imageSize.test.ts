@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { readImageSize } from './imageSize.js';
+
+function png(width: number, height: number): Buffer {
+  const data = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+  data.writeUInt32BE(13, 8);
+  data.write('IHDR', 12, 'latin1');
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+}
+
+function gif(width: number, height: number): Buffer {
+  const data = Buffer.alloc(10);
+  data.write('GIF89a', 0, 'latin1');
+  data.writeUInt16LE(width, 6);
+  data.writeUInt16LE(height, 8);
+  return data;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  return Buffer.from([
+    0xff, 0xd8,
+    // APP0（長さ4）
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    // SOF2（プログレッシブ）
+    0xff, 0xc2, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff,
+  ]);
+}
+
+function webp(chunk: string, fill: (data: Buffer) => void): Buffer {
+  const data = Buffer.alloc(30);
+  data.write('RIFF', 0, 'latin1');
+  data.write('WEBP', 8, 'latin1');
+  data.write(chunk, 12, 'latin1');
+  fill(data);
+  return data;
+}
+
+describe('readImageSize', () => {
+  it('PNG・GIF・JPEGの大きさを読み取る', () => {
+    expect(readImageSize(png(360, 270))).toEqual({ width: 360, height: 270 });
+    expect(readImageSize(gif(80, 64))).toEqual({ width: 80, height: 64 });
+    expect(readImageSize(jpeg(1024, 768))).toEqual({ width: 1024, height: 768 });
+  });
+
+  it('WebPの大きさを読み取る', () => {
+    const lossy = webp('VP8 ', (data) => {
+      data.writeUInt16LE(480, 26);
+      data.writeUInt16LE(320, 28);
+    });
+    const lossless = webp('VP8L', (data) => {
+      data.writeUInt32LE((480 - 1) | ((320 - 1) << 14), 21);
+    });
+    const extended = webp('VP8X', (data) => {
+      data.writeUIntLE(480 - 1, 24, 3);
+      data.writeUIntLE(320 - 1, 27, 3);
+    });
+
+    expect(readImageSize(lossy)).toEqual({ width: 480, height: 320 });
+    expect(readImageSize(lossless)).toEqual({ width: 480, height: 320 });
+    expect(readImageSize(extended)).toEqual({ width: 480, height: 320 });
+  });
+
+  it('対応していない形式・壊れたデータは undefined', () => {
+    expect(readImageSize(Buffer.from('<html></html>'))).toBeUndefined();
+    expect(readImageSize(png(360, 270).subarray(0, 20))).toBeUndefined();
+    expect(readImageSize(jpeg(1024, 768).subarray(0, 12))).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * 画像の幅と高さ（ピクセル数）
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// JPEGのSOFマーカー（DHT・JPG・DACを除くC0〜CF）
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function readPngSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) return undefined;
+  if (data.toString('latin1', 12, 16) !== 'IHDR') return undefined;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function readGifSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 10) return undefined;
+  const signature = data.toString('latin1', 0, 6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') return undefined;
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+function readWebpSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 30 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP') {
+    return undefined;
+  }
+  switch (data.toString('latin1', 12, 16)) {
+    case 'VP8 ':
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    default:
+      return undefined;
+  }
+}
+
+function readJpegSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1]!;
+    // マーカー前の埋め草（0xFF）を読み飛ばす
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    // 長さを持たないマーカー（TEM・RSTn）
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      if (offset + 9 > data.length) return undefined;
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * 画像データのヘッダーから幅と高さを読み取る（PNG・GIF・JPEG・WebPに対応）
+ * @returns 対応していない形式・壊れたデータの場合は undefined
+ */
+export function readImageSize(data: Buffer): ImageSize | undefined {
+  return readPngSize(data) ?? readGifSize(data) ?? readJpegSize(data) ?? readWebpSize(data);
+}
@@ -0,0 +1,2 @@
+export type { ImageProxy, ImageProxyOptions, ProxiedImage } from './imageProxy.js';
+export { createImageProxy, createImageRouter, selectThumbnail, ImageProxyError } from './imageProxy.js';
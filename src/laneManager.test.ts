@@ -11,6 +11,19 @@ import {
   occupyLane,
   releaseLane,
   calculateLaneY,
+  getLaneSegments,
+  type FixedLaneState,
+  selectFixedLane,
+  occupyFixedLane,
+  releaseExpiredFixedLanes,
+  type FlowGeometry,
+  type FlowLaneState,
+  MIN_COMMENT_GAP,
+  getFlowSpeed,
+  getLaneClearTime,
+  canEnterLane,
+  selectFlowLane,
+  occupyFlowLane,
 } from './laneManager.js';
 
 describe('createLaneState', () => {
@@ -25,6 +38,11 @@ describe('createLaneState', () => {
     expect(state.lanes).toHaveLength(LANE_COUNT);
   });
 
+  it('同じ数の固定レーン（全てnull）も作成する', () => {
+    const state = createLaneState(3);
+    expect(state.fixed).toEqual([null, null, null]);
+  });
+
   it('0以下の値はエラーを投げる', () => {
     expect(() => createLaneState(0)).toThrow('Lane count must be greater than 0');
     expect(() => createLaneState(-1)).toThrow('Lane count must be greater than 0');
@@ -88,6 +106,83 @@ describe('selectLane', () => {
     const lanes: LaneState = [3000, 1000, 2000];
     expect(selectLane(lanes)).toBe(1); // 最古（1000）のインデックス
   });
+  it('固定表示中のレーンには割り当てない', () => {
+    const lanes: LaneState = [null, null, null];
+    const fixed: FixedLaneState = [9000, null, 9000];
+    vi.mocked(Math.random).mockReturnValue(0.99);
+    expect(selectLane(lanes, fixed)).toBe(1);
+  });
+
+  it('固定表示中でないレーンが全て使用中の場合、その中で最古のレーンを選択する', () => {
+    const lanes: LaneState = [1000, 3000, null];
+    const fixed: FixedLaneState = [9000, null, 9000];
+    expect(selectLane(lanes, fixed)).toBe(1);
+  });
+
+  it('全て固定表示中の場合は固定レーンを考慮せずに選択する', () => {
+    const lanes: LaneState = [3000, 1000, 2000];
+    const fixed: FixedLaneState = [9000, 9000, 9000];
+    expect(selectLane(lanes, fixed)).toBe(1);
+  });
+});
+
+describe('selectFixedLane', () => {
+  it('top は上から順に空きレーンを選んで積み重ねる', () => {
+    expect(selectFixedLane([null, null, null], 'top')).toBe(0);
+    expect(selectFixedLane([5000, null, null], 'top')).toBe(1);
+  });
+
+  it('bottom は下から順に空きレーンを選んで積み重ねる', () => {
+    expect(selectFixedLane([null, null, null], 'bottom')).toBe(2);
+    expect(selectFixedLane([null, null, 5000], 'bottom')).toBe(1);
+  });
+
+  it('全て固定表示中の場合、最も早く表示が終わるレーンを選択する', () => {
+    expect(selectFixedLane([5000, 3000, 3000], 'top')).toBe(1);
+    expect(selectFixedLane([3000, 3000, 5000], 'bottom')).toBe(1);
+  });
+
+  it('流れるコメントが画面を抜けていないレーンを避ける', () => {
+    const flowLanes: FlowLaneState = [{ startedAt: 0, width: 100 }, null, null];
+    expect(selectFixedLane([null, null, null], 'top', flowLanes, 1000, 8000)).toBe(1);
+    // 画面を抜けた後は使用できる
+    expect(selectFixedLane([null, null, null], 'top', flowLanes, 8000, 8000)).toBe(0);
+  });
+
+  it('空きがない場合、固定表示中でないレーンのうち流れるコメントが最も古いレーンを選択する', () => {
+    const flowLanes: FlowLaneState = [
+      { startedAt: 2000, width: 100 },
+      { startedAt: 1000, width: 100 },
+      { startedAt: 0, width: 100 },
+    ];
+    expect(selectFixedLane([null, null, null], 'top', flowLanes, 3000, 8000)).toBe(2);
+    expect(selectFixedLane([null, null, 9000], 'top', flowLanes, 3000, 8000)).toBe(1);
+    expect(selectFixedLane([9000, 5000, 7000], 'top', flowLanes, 3000, 8000)).toBe(1);
+  });
+});
+
+describe('occupyFixedLane', () => {
+  it('指定したレーンに表示終了時刻を設定する（イミュータブル）', () => {
+    const fixed: FixedLaneState = [null, null];
+    const newFixed = occupyFixedLane(fixed, 1, 5000);
+    expect(newFixed).toEqual([null, 5000]);
+    expect(fixed).toEqual([null, null]);
+  });
+
+  it('範囲外のインデックスはエラーを投げる', () => {
+    expect(() => occupyFixedLane([null], 1, 5000)).toThrow('Invalid lane index');
+  });
+});
+
+describe('releaseExpiredFixedLanes', () => {
+  it('表示終了時刻を過ぎたレーンを解放する', () => {
+    expect(releaseExpiredFixedLanes([1000, 2000, null, 3000], 2000)).toEqual([null, null, null, 3000]);
+  });
+
+  it('解放するレーンがない場合は同じ配列を返す', () => {
+    const fixed: FixedLaneState = [3000, null];
+    expect(releaseExpiredFixedLanes(fixed, 2000)).toBe(fixed);
+  });
 });
 
 describe('occupyLane', () => {
@@ -132,6 +227,107 @@ describe('releaseLane', () => {
   });
 });
 
+// 画面幅 1000px、10秒で横切る
+const geometry: FlowGeometry = { viewportWidth: 1000, duration: 10000 };
+
+describe('getFlowSpeed', () => {
+  it('長いコメントほど速く流れる', () => {
+    expect(getFlowSpeed(0, geometry)).toBe(0.1);
+    expect(getFlowSpeed(1000, geometry)).toBe(0.2);
+  });
+});
+
+describe('getLaneClearTime', () => {
+  it('空きレーンはいつでも流せる', () => {
+    expect(getLaneClearTime(null, 100, geometry)).toBe(-Infinity);
+  });
+
+  it('同じ幅のコメントは前のコメントの末尾が画面に入りきってから流せる', () => {
+    // 幅 100px は 0.11px/ms。末尾と間隔の 116px を進むまで待つ
+    const clearTime = getLaneClearTime({ startedAt: 0, width: 100 }, 100, geometry);
+    expect(clearTime).toBeCloseTo((100 + MIN_COMMENT_GAP) / 0.11, 5);
+  });
+
+  it('前のコメントより長い（速い）コメントは追いつかなくなるまで待つ', () => {
+    // 短いコメント（0.1px/ms）の後に長いコメント（0.2px/ms）
+    const clearTime = getLaneClearTime({ startedAt: 0, width: 0 }, 1000, geometry);
+    // 前のコメントが左端を抜ける 10000ms に、先頭が MIN_COMMENT_GAP の位置にある
+    expect(clearTime).toBeCloseTo(10000 - (1000 - MIN_COMMENT_GAP) / 0.2, 5);
+  });
+
+  it('流し始めた後に前のコメントとの間隔が MIN_COMMENT_GAP を下回らない', () => {
+    const previous = { startedAt: 0, width: 200 };
+    const width = 600;
+    const startedAt = getLaneClearTime(previous, width, geometry);
+    for (let t = startedAt; t <= previous.startedAt + geometry.duration; t += 100) {
+      const previousTail = geometry.viewportWidth - getFlowSpeed(previous.width, geometry) * (t - previous.startedAt) + previous.width;
+      const nextHead = geometry.viewportWidth - getFlowSpeed(width, geometry) * (t - startedAt);
+      expect(nextHead - previousTail).toBeGreaterThanOrEqual(MIN_COMMENT_GAP - 1e-9);
+    }
+  });
+});
+
+describe('canEnterLane', () => {
+  it('流し始められる時刻以降は true を返す', () => {
+    const previous = { startedAt: 0, width: 100 };
+    const clearTime = getLaneClearTime(previous, 100, geometry);
+    expect(canEnterLane(previous, 100, clearTime - 1, geometry)).toBe(false);
+    expect(canEnterLane(previous, 100, clearTime, geometry)).toBe(true);
+  });
+});
+
+describe('selectFlowLane', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  it('前のコメントに追いつかないレーンから選択する', () => {
+    const lanes: FlowLaneState = [
+      { startedAt: 0, width: 100 }, // 末尾が入りきっていない
+      { startedAt: -2000, width: 0 }, // 左端を抜ける前に追いついてしまう
+      { startedAt: -6000, width: 400 },
+    ];
+    expect(selectFlowLane(lanes, 1000, 0, geometry)).toBe(2);
+  });
+
+  it('流せるレーンがない場合、最も早く流せるようになるレーンを選択する', () => {
+    const lanes: FlowLaneState = [
+      { startedAt: 0, width: 100 },
+      { startedAt: -500, width: 100 },
+    ];
+    expect(selectFlowLane(lanes, 100, 0, geometry)).toBe(1);
+  });
+
+  it('固定表示中のレーンには割り当てない', () => {
+    const lanes: FlowLaneState = [null, null, null];
+    expect(selectFlowLane(lanes, 100, 0, geometry, [5000, 5000, null])).toBe(2);
+  });
+
+  it('固定表示中でないレーンに流せるレーンがない場合、その中で最も早く流せるレーンを選択する', () => {
+    const lanes: FlowLaneState = [
+      null,
+      { startedAt: -500, width: 100 },
+      { startedAt: 0, width: 100 },
+    ];
+    expect(selectFlowLane(lanes, 100, 0, geometry, [5000, null, null])).toBe(1);
+  });
+
+  it('全て固定表示中の場合は固定レーンを考慮せずに選択する', () => {
+    const lanes: FlowLaneState = [{ startedAt: 0, width: 100 }, null];
+    expect(selectFlowLane(lanes, 100, 0, geometry, [5000, 5000])).toBe(1);
+  });
+});
+
+describe('occupyFlowLane', () => {
+  it('指定したレーンにコメントを設定する（イミュータブル）', () => {
+    const lanes: FlowLaneState = [null, null];
+    const newLanes = occupyFlowLane(lanes, 0, { startedAt: 1000, width: 50 });
+    expect(newLanes).toEqual([{ startedAt: 1000, width: 50 }, null]);
+    expect(lanes).toEqual([null, null]);
+    expect(() => occupyFlowLane(lanes, 2, { startedAt: 0, width: 0 })).toThrow('Invalid lane index');
+  });
+});
+
 describe('calculateLaneY', () => {
   it('使用可能範囲内でY座標を計算する', () => {
     const viewportHeight = 800;
@@ -166,6 +362,62 @@ describe('calculateLaneY', () => {
       expect(y).toBeLessThanOrEqual(maxY);
     }
   });
+
+  it('除外範囲の高さにはレーンを置かない', () => {
+    const range = { start: 0, end: 1 };
+    // 上部20%のスライドのタイトルを避ける
+    const exclusions = [{ x: 0.1, y: 0, width: 0.8, height: 0.2 }];
+
+    expect(calculateLaneY(0, 4, 1000, range, exclusions)).toBeCloseTo(300);
+    expect(calculateLaneY(3, 4, 1000, range, exclusions)).toBeCloseTo(900);
+  });
+});
+
+describe('getLaneSegments', () => {
+  const range = { start: 0, end: 1 };
+
+  it('除外範囲がない場合は使用可能範囲全体', () => {
+    expect(getLaneSegments(10, range)).toEqual([{ start: 0, end: 1, laneCount: 10 }]);
+  });
+
+  it('除外範囲で分かれた区間に、高さに比例してレーンを割り振る', () => {
+    const segments = getLaneSegments(10, range, [{ x: 0.75, y: 0.25, width: 0.25, height: 0.5 }]);
+    expect(segments).toEqual([
+      { start: 0, end: 0.25, laneCount: 5 },
+      { start: 0.75, end: 1, laneCount: 5 },
+    ]);
+  });
+
+  it('重なる除外範囲をまとめ、使用可能範囲の外は無視する', () => {
+    const segments = getLaneSegments(
+      6,
+      { start: 0.1, end: 0.9 },
+      [
+        { x: 0, y: 0, width: 1, height: 0.2 },
+        { x: 0.5, y: 0.5, width: 0.5, height: 0.3 },
+        { x: 0, y: 0.6, width: 0.2, height: 0.3 },
+      ]
+    );
+    expect(segments).toEqual([{ start: 0.2, end: 0.5, laneCount: 6 }]);
+  });
+
+  it('端数は大きい順に配り、レーン数の合計を保つ', () => {
+    const segments = getLaneSegments(3, range, [
+      { x: 0, y: 0.3, width: 1, height: 0.1 },
+      { x: 0, y: 0.6, width: 1, height: 0.1 },
+    ]);
+    expect(segments.map((segment) => segment.laneCount)).toEqual([1, 1, 1]);
+
+    // 狭い区間にはレーンを割り振らない
+    const narrow = getLaneSegments(4, range, [{ x: 0, y: 0.05, width: 1, height: 0.15 }]);
+    expect(narrow).toEqual([{ start: 0.2, end: 1, laneCount: 4 }]);
+  });
+
+  it('除外範囲が使用可能範囲を全て覆う場合は除外範囲を考慮しない', () => {
+    expect(getLaneSegments(5, range, [{ x: 0, y: 0, width: 0.1, height: 1 }])).toEqual([
+      { start: 0, end: 1, laneCount: 5 },
+    ]);
+  });
 });
 
 describe('定数の値', () => {
@@ -2,11 +2,63 @@
  * レーン管理モジュール
  *
  * コメントの重なりを防ぐため、Y座標をレーン単位で管理する純粋関数群
+ *
+ * レーンには2つの種類がある
+ * - 流れるレーン: 右から左に流れるコメント。占有開始時刻（LaneState）、または最後に入ったコメントの
+ *   流れ始めた時刻と幅（FlowLaneState）を記録する
+ * - 固定レーン: 上部・下部に中央揃えで静止するコメント（[ue] / [shita]）。表示終了時刻を記録し、期限切れで解放する
+ * どちらも同じY座標のレーンを使い、固定表示中のレーンには流れるコメントを、流れるコメントが
+ * 画面を抜けていないレーンには固定表示のコメントを、それぞれできるだけ割り当てない
+ *
+ * 流れるコメントは幅によって速さが変わる（画面幅 + コメント幅を一定時間で移動する）ため、
+ * 幅と速さを考慮して、前のコメントに追いつかないレーンを選ぶ（selectFlowLane、オーバーレイで使用）。
+ * 幅を考慮しない selectLane は、占有開始時刻のみのレーン状態で空き・最古のレーンを選ぶ
+ *
+ * 除外範囲（スライドのタイトルやワイプなど）を指定した場合、レーンは使用可能範囲のうち
+ * 除外範囲と重ならない区間にだけ配置する（getLaneSegments）。流れるコメントは画面の幅全体を
+ * 横切るため、除外範囲の横方向の位置に関わらず、その高さの区間にはレーンを置かない
  */
+import type { CommentPosition, ExclusionArea } from './types/index.js';
 
 /** レーン状態: 各要素は使用中の場合タイムスタンプ、空きの場合null */
 export type LaneState = (number | null)[];
 
+/** 固定レーンの状態: 各要素は固定表示中の場合その表示終了時刻、空きの場合null */
+export type FixedLaneState = (number | null)[];
+
+/** コメントを表示する縦方向の範囲（画面高さに対する割合） */
+export interface UsableRange {
+  start: number;
+  end: number;
+}
+
+/** レーンを配置する縦方向の区間（画面高さに対する割合） */
+export interface LaneSegment {
+  start: number;
+  end: number;
+  /** 区間に配置するレーン数 */
+  laneCount: number;
+}
+
+/** レーンを流れているコメント */
+export interface FlowingComment {
+  /** 画面右端から流れ始めた時刻（ミリ秒） */
+  startedAt: number;
+  /** コメントの幅（ピクセル） */
+  width: number;
+}
+
+/** 幅を考慮したレーン状態: 各要素はレーンに最後に入ったコメント、空きの場合null */
+export type FlowLaneState = (FlowingComment | null)[];
+
+/** 流れるコメントの移動条件 */
+export interface FlowGeometry {
+  /** 画面の幅（ピクセル） */
+  viewportWidth: number;
+  /** 画面右端から左端を抜けるまでの時間（ミリ秒） */
+  duration: number;
+}
+
 /** デフォルトのレーン数 */
 export const LANE_COUNT = 10;
 
@@ -16,16 +68,25 @@ export const USABLE_RANGE_START = 0.1;
 /** 使用可能範囲の終了位置（画面高さに対する割合） */
 export const USABLE_RANGE_END = 0.9;
 
+/** 固定表示の時間（ミリ秒） */
+export const FIXED_DISPLAY_DURATION = 4000;
+
+/** 流れるコメントが画面を横切る時間（ミリ秒） */
+export const FLOW_DURATION_MS = 8000;
+
+/** 同じレーンを流れるコメント同士の最小の間隔（ピクセル） */
+export const MIN_COMMENT_GAP = 16;
+
 /**
  * レーン状態を初期化する
  * @param count レーン数（1以上）
- * @returns 全てnullで初期化されたレーン状態
+ * @returns 全てnullで初期化された流れるレーンと固定レーンの状態
  */
-export function createLaneState(count: number): { lanes: LaneState } {
+export function createLaneState(count: number): { lanes: LaneState; fixed: FixedLaneState } {
   if (count <= 0) {
     throw new Error('Lane count must be greater than 0');
   }
-  return { lanes: new Array(count).fill(null) };
+  return { lanes: new Array(count).fill(null), fixed: new Array(count).fill(null) };
 }
 
 /**
@@ -67,19 +128,25 @@ export function findOldestLane(lanes: LaneState): number {
  * 使用するレーンを選択する
  * - 空きレーンがある場合: ランダムに選択
  * - 全て使用中の場合: 最古のレーンを選択
+ * - fixed を指定した場合: 固定表示中のレーンを除いて選択する（全て固定表示中の場合は除かない）
  * @param lanes 現在のレーン状態
+ * @param fixed 固定レーンの状態（期限切れのレーンは releaseExpiredFixedLanes で解放しておく）
  * @returns 選択されたレーンのインデックス
  */
-export function selectLane(lanes: LaneState): number {
-  const available = getAvailableLanes(lanes);
+export function selectLane(lanes: LaneState, fixed: FixedLaneState = []): number {
+  const blocked = lanes.map((_, index) => fixed[index] != null);
+  // 全て固定表示中の場合は重なりを避けられないため、固定レーンを考慮しない
+  const candidates = blocked.every(Boolean) ? lanes.map(() => false) : blocked;
 
+  const available = getAvailableLanes(lanes).filter((index) => !candidates[index]);
   if (available.length > 0) {
     const randomIndex = Math.floor(Math.random() * available.length);
     // available.length > 0 を確認済みなので必ず存在する
     return available[randomIndex]!;
   }
 
-  return findOldestLane(lanes);
+  // 固定表示中のレーンは最古として選ばれないよう Infinity に置き換える
+  return findOldestLane(lanes.map((timestamp, index) => (candidates[index] ? Infinity : timestamp)));
 }
 
 /**
@@ -113,18 +180,279 @@ export function releaseLane(lanes: LaneState, index: number): LaneState {
   return newLanes;
 }
 
+/**
+ * 使用可能範囲から除外範囲と重なる部分を除いた区間を求め、各区間にレーンを割り振る
+ * - レーン数は区間の高さに比例して割り振る（端数は大きい順に配り、合計は laneCount になる）
+ * - 割り振られたレーンが0の区間は含めない
+ * - 除外範囲が使用可能範囲を全て覆う場合は、除外範囲を考慮しない
+ * @param laneCount 総レーン数
+ * @param range 使用可能範囲
+ * @param exclusions 除外範囲（画面に対する割合）
+ * @returns 上から順の区間
+ */
+export function getLaneSegments(
+  laneCount: number,
+  range: UsableRange = { start: USABLE_RANGE_START, end: USABLE_RANGE_END },
+  exclusions: readonly ExclusionArea[] = []
+): LaneSegment[] {
+  // 除外範囲を使用可能範囲内の縦方向の区間にして、上から順に空いている区間を取り出す
+  const blocked = exclusions
+    .map((area) => ({ start: Math.max(area.y, range.start), end: Math.min(area.y + area.height, range.end) }))
+    .filter((interval) => interval.start < interval.end)
+    .sort((a, b) => a.start - b.start);
+
+  const free: UsableRange[] = [];
+  let cursor = range.start;
+  for (const interval of blocked) {
+    if (interval.start > cursor) {
+      free.push({ start: cursor, end: interval.start });
+    }
+    cursor = Math.max(cursor, interval.end);
+  }
+  if (cursor < range.end) {
+    free.push({ start: cursor, end: range.end });
+  }
+
+  const total = free.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+  if (total <= 0) {
+    return [{ ...range, laneCount }];
+  }
+
+  const quotas = free.map((segment) => (laneCount * (segment.end - segment.start)) / total);
+  const counts = quotas.map(Math.floor);
+  let remaining = laneCount - counts.reduce((sum, count) => sum + count, 0);
+  const byRemainder = quotas
+    .map((quota, index) => ({ index, remainder: quota - Math.floor(quota) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    counts[index]! += 1;
+    remaining--;
+  }
+
+  return free
+    .map((segment, index) => ({ ...segment, laneCount: counts[index]! }))
+    .filter((segment) => segment.laneCount > 0);
+}
+
 /**
  * レーンのY座標を計算する
+ * 除外範囲を指定した場合は、getLaneSegments の区間に上から順にレーンを並べる
  * @param laneIndex レーンのインデックス
  * @param laneCount 総レーン数
  * @param viewportHeight ビューポートの高さ
+ * @param range 使用可能範囲（画面高さに対する割合、デフォルト: USABLE_RANGE_START〜USABLE_RANGE_END）
+ * @param exclusions 除外範囲（画面に対する割合）
  * @returns Y座標（ピクセル）
  */
-export function calculateLaneY(laneIndex: number, laneCount: number, viewportHeight: number): number {
-  const usableHeight = viewportHeight * (USABLE_RANGE_END - USABLE_RANGE_START);
-  const laneHeight = usableHeight / laneCount;
-  const startY = viewportHeight * USABLE_RANGE_START;
+export function calculateLaneY(
+  laneIndex: number,
+  laneCount: number,
+  viewportHeight: number,
+  range: UsableRange = { start: USABLE_RANGE_START, end: USABLE_RANGE_END },
+  exclusions: readonly ExclusionArea[] = []
+): number {
+  const segments = getLaneSegments(laneCount, range, exclusions);
+
+  let index = laneIndex;
+  for (const segment of segments) {
+    if (index < segment.laneCount) {
+      const laneHeight = (viewportHeight * (segment.end - segment.start)) / segment.laneCount;
+      // 各レーンの中央にY座標を設定
+      return viewportHeight * segment.start + laneHeight * (index + 0.5);
+    }
+    index -= segment.laneCount;
+  }
+
+  // 範囲外のインデックスは除外範囲がない場合と同じ位置にする
+  const laneHeight = (viewportHeight * (range.end - range.start)) / laneCount;
+  return viewportHeight * range.start + laneHeight * (laneIndex + 0.5);
+}
+
+/**
+ * 固定表示のコメントを置くレーンを選択する
+ * - top: 上から順に、固定表示・流れるコメントのどちらもない最初のレーン（上部に積み重ねる）
+ * - bottom: 下から順に、同様の最初のレーン（下部に積み重ねる）
+ * - 空きがない場合: 固定表示中でないレーンのうち、流れるコメントが最も古いレーン（最も早く画面を抜ける）
+ * - 全て固定表示中の場合: 最も早く表示が終わるレーン
+ * @param fixed 固定レーンの状態（期限切れのレーンは releaseExpiredFixedLanes で解放しておく）
+ * @param position 固定表示の位置
+ * @param flowLanes 流れるレーンの状態（画面を抜けていないコメントがあるレーンは使用中とみなす）
+ * @param now 現在時刻
+ * @param flowDuration 流れるコメントが画面を横切る時間（ミリ秒）
+ * @returns 選択されたレーンのインデックス
+ */
+export function selectFixedLane(
+  fixed: FixedLaneState,
+  position: CommentPosition,
+  flowLanes: FlowLaneState = [],
+  now = 0,
+  flowDuration = FLOW_DURATION_MS
+): number {
+  const order = fixed.map((_, index) => index);
+  if (position === 'bottom') {
+    order.reverse();
+  }
+
+  // 流れるコメントが画面を抜ける時刻（流れていない場合は -Infinity）
+  const flowExitAt = (index: number): number => {
+    const flowing = flowLanes[index];
+    return flowing ? flowing.startedAt + flowDuration : -Infinity;
+  };
+
+  const unfixed = order.filter((index) => fixed[index] == null);
+  const free = unfixed.find((index) => flowExitAt(index) <= now);
+  if (free !== undefined) {
+    return free;
+  }
+
+  // 流れるコメントとの重なりは通り過ぎるまでの間だけのため、固定表示同士の重なりより優先する
+  // 積み重ねる方向の順に比較し、同じ時刻なら端に近いレーンを選ぶ
+  const candidates = unfixed.length > 0 ? unfixed : order;
+  const busyUntil = (index: number): number => (unfixed.length > 0 ? flowExitAt(index) : fixed[index] ?? Infinity);
+  let earliestIndex = candidates[0] ?? 0;
+  let earliestTime = Infinity;
+  for (const index of candidates) {
+    const time = busyUntil(index);
+    if (time < earliestTime) {
+      earliestTime = time;
+      earliestIndex = index;
+    }
+  }
+  return earliestIndex;
+}
+
+/**
+ * 固定レーンを占有する（イミュータブル）
+ * @param fixed 現在の固定レーンの状態
+ * @param index 占有するレーンのインデックス
+ * @param expiresAt 表示終了時刻
+ * @returns 新しい固定レーンの状態
+ */
+export function occupyFixedLane(fixed: FixedLaneState, index: number, expiresAt: number): FixedLaneState {
+  if (index < 0 || index >= fixed.length) {
+    throw new Error('Invalid lane index');
+  }
+  const newFixed = [...fixed];
+  newFixed[index] = expiresAt;
+  return newFixed;
+}
+
+/**
+ * 表示が終わった固定レーンを解放する（イミュータブル）
+ * @param fixed 現在の固定レーンの状態
+ * @param now 現在時刻
+ * @returns 新しい固定レーンの状態（変化がない場合は同じ配列）
+ */
+export function releaseExpiredFixedLanes(fixed: FixedLaneState, now: number): FixedLaneState {
+  if (!fixed.some((expiresAt) => expiresAt !== null && expiresAt <= now)) {
+    return fixed;
+  }
+  return fixed.map((expiresAt) => (expiresAt !== null && expiresAt <= now ? null : expiresAt));
+}
+
+/**
+ * 流れるコメントの速さを返す
+ * 画面幅 + コメント幅を duration で移動するため、長いコメントほど速い
+ * @returns 速さ（ピクセル/ミリ秒）
+ */
+export function getFlowSpeed(width: number, geometry: FlowGeometry): number {
+  return (geometry.viewportWidth + width) / geometry.duration;
+}
+
+/**
+ * レーンに次のコメントを流し始められる最も早い時刻を返す
+ * 次のコメントが、前のコメントの末尾と MIN_COMMENT_GAP 以上の間隔を保ったまま画面を抜けられる時刻
+ * - 前のコメントの末尾が画面右端から MIN_COMMENT_GAP 離れていること（流れ始めで重ならない）
+ * - 前のコメントが画面左端を抜けるとき、次のコメントの先頭が MIN_COMMENT_GAP 以上後ろにあること（追いつかない）
+ * @param previous レーンに最後に入ったコメント（null の場合は空き）
+ * @param width 次のコメントの幅
+ * @returns 流し始められる時刻（空きの場合は -Infinity）
+ */
+export function getLaneClearTime(previous: FlowingComment | null, width: number, geometry: FlowGeometry): number {
+  if (!previous) {
+    return -Infinity;
+  }
+  const previousSpeed = getFlowSpeed(previous.width, geometry);
+  const nextSpeed = getFlowSpeed(width, geometry);
+
+  // 前のコメントの末尾が画面右端から MIN_COMMENT_GAP だけ進む時刻
+  const enteredAt = previous.startedAt + (previous.width + MIN_COMMENT_GAP) / previousSpeed;
+  // 前のコメントが画面左端を抜ける時刻に、次のコメントの先頭が MIN_COMMENT_GAP の位置にあるよう流し始める時刻
+  const exitedAt = previous.startedAt + geometry.duration;
+  const noCatchUpAt = exitedAt - (geometry.viewportWidth - MIN_COMMENT_GAP) / nextSpeed;
+
+  return Math.max(enteredAt, noCatchUpAt);
+}
+
+/**
+ * 次のコメントがレーンに入れるか判定する
+ * @param previous レーンに最後に入ったコメント
+ * @param width 次のコメントの幅
+ * @param now 現在時刻
+ */
+export function canEnterLane(
+  previous: FlowingComment | null,
+  width: number,
+  now: number,
+  geometry: FlowGeometry
+): boolean {
+  return getLaneClearTime(previous, width, geometry) <= now;
+}
 
-  // 各レーンの中央にY座標を設定
-  return startY + laneHeight * (laneIndex + 0.5);
+/**
+ * 幅を考慮して流れるコメントのレーンを選択する
+ * - 前のコメントに追いつかずに流せるレーンがある場合: その中からランダムに選択
+ * - ない場合: 最も早く流せるようになるレーン（重なりが最も短いレーン）を選択
+ * - fixed を指定した場合: 固定表示中のレーンを除いて選択する（全て固定表示中の場合は除かない）
+ * @param lanes 現在のレーン状態
+ * @param width 次のコメントの幅
+ * @param now 現在時刻
+ * @param fixed 固定レーンの状態（期限切れのレーンは releaseExpiredFixedLanes で解放しておく）
+ * @returns 選択されたレーンのインデックス
+ */
+export function selectFlowLane(
+  lanes: FlowLaneState,
+  width: number,
+  now: number,
+  geometry: FlowGeometry,
+  fixed: FixedLaneState = []
+): number {
+  const indexes = lanes.map((_, index) => index);
+  const unfixed = indexes.filter((index) => fixed[index] == null);
+  const candidates = unfixed.length > 0 ? unfixed : indexes;
+
+  const clearTimes = new Map(candidates.map((index) => [index, getLaneClearTime(lanes[index] ?? null, width, geometry)]));
+  const available = candidates.filter((index) => clearTimes.get(index)! <= now);
+  if (available.length > 0) {
+    const randomIndex = Math.floor(Math.random() * available.length);
+    return available[randomIndex]!;
+  }
+
+  let earliestIndex = candidates[0] ?? 0;
+  let earliestTime = Infinity;
+  for (const index of candidates) {
+    const clearTime = clearTimes.get(index)!;
+    if (clearTime < earliestTime) {
+      earliestTime = clearTime;
+      earliestIndex = index;
+    }
+  }
+  return earliestIndex;
+}
+
+/**
+ * 流れるコメントでレーンを占有する（イミュータブル）
+ * @param lanes 現在のレーン状態
+ * @param index 占有するレーンのインデックス
+ * @param comment レーンに入るコメント
+ * @returns 新しいレーン状態
+ */
+export function occupyFlowLane(lanes: FlowLaneState, index: number, comment: FlowingComment): FlowLaneState {
+  if (index < 0 || index >= lanes.length) {
+    throw new Error('Invalid lane index');
+  }
+  const newLanes = [...lanes];
+  newLanes[index] = comment;
+  return newLanes;
 }
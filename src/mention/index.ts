@@ -0,0 +1,6 @@
+export {
+  clearChannelNameCache,
+  extractMentionIds,
+  getChannelName,
+  resolveMentions,
+} from './mentionResolver.js';
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SlackClient } from '../types/index.js';
+import { clearUserCache } from '../user/index.js';
+import {
+  clearChannelNameCache,
+  extractMentionIds,
+  getChannelName,
+  resolveMentions,
+} from './mentionResolver.js';
+
+function createMockClient(): SlackClient {
+  return {
+    users: {
+      info: vi.fn().mockImplementation(({ user }: { user: string }) => Promise.resolve({
+        ok: true,
+        user: { profile: { display_name: `name-${user}` } },
+      })),
+    },
+    conversations: {
+      replies: vi.fn(),
+      info: vi.fn().mockResolvedValue({ ok: true, channel: { name: 'general' } }),
+    },
+    emoji: {
+      list: vi.fn(),
+    },
+  };
+}
+
+describe('extractMentionIds', () => {
+  it('ユーザーと、名前のないチャンネルのIDを重複なく抽出する', () => {
+    expect(extractMentionIds('<@U1> <@U2|old> <@U1> <#C1|general> <#C2|> <#C3> <!here>')).toEqual({
+      users: ['U1', 'U2'],
+      channels: ['C2', 'C3'],
+    });
+  });
+
+  it('テキストがない場合は空', () => {
+    expect(extractMentionIds(undefined)).toEqual({ users: [], channels: [] });
+  });
+});
+
+describe('resolveMentions', () => {
+  beforeEach(() => {
+    clearUserCache();
+    clearChannelNameCache();
+  });
+
+  it('ユーザーの表示名とチャンネル名を解決する', async () => {
+    const client = createMockClient();
+
+    await expect(resolveMentions(client, '<@U1> <#C1>')).resolves.toEqual({
+      users: { U1: 'name-U1' },
+      channels: { C1: 'general' },
+    });
+  });
+
+  it('メンションがない場合はAPIを呼ばない', async () => {
+    const client = createMockClient();
+
+    await resolveMentions(client, 'hello');
+
+    expect(client.users.info).not.toHaveBeenCalled();
+    expect(client.conversations.info).not.toHaveBeenCalled();
+  });
+});
+
+describe('getChannelName', () => {
+  beforeEach(() => {
+    clearChannelNameCache();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('取得したチャンネル名をキャッシュする', async () => {
+    const client = createMockClient();
+
+    await getChannelName(client, 'C1');
+    await expect(getChannelName(client, 'C1')).resolves.toBe('general');
+
+    expect(client.conversations.info).toHaveBeenCalledTimes(1);
+  });
+
+  it('取得に失敗した場合は undefined を返す', async () => {
+    const client = createMockClient();
+    vi.mocked(client.conversations.info!).mockRejectedValue(new Error('missing_scope'));
+
+    await expect(getChannelName(client, 'C1')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import type { MentionNames, SlackClient } from '../types/index.js';
+import { getUserDisplayName } from '../user/index.js';
+
+// ============================================
+// チャンネル名キャッシュ
+// ============================================
+const channelNameCache = new Map<string, string>();
+
+/**
+ * キャッシュをクリア（テスト用）
+ */
+export function clearChannelNameCache(): void {
+  channelNameCache.clear();
+}
+
+/**
+ * チャンネルIDからチャンネル名を取得
+ * キャッシュがあればキャッシュから、なければSlack APIから取得
+ * @returns チャンネル名。取得できない場合は undefined
+ */
+export async function getChannelName(
+  client: SlackClient,
+  channelId: string
+): Promise<string | undefined> {
+  const cached = channelNameCache.get(channelId);
+  if (cached) {
+    return cached;
+  }
+
+  if (!client.conversations.info) {
+    return undefined;
+  }
+
+  try {
+    const result = await client.conversations.info({ channel: channelId });
+    const name = result.channel?.name;
+    if (name) {
+      channelNameCache.set(channelId, name);
+    }
+    return name;
+  } catch (error) {
+    console.error(`Failed to fetch channel info for ${channelId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * テキスト内のメンションから、名前の解決が必要なIDを抽出
+ * - ユーザー: 全て（記法内のラベルは旧形式のユーザー名のため表示名で置き換える）
+ * - チャンネル: 記法内にチャンネル名がないもののみ
+ */
+export function extractMentionIds(text: string | undefined): { users: string[]; channels: string[] } {
+  const users = new Set<string>();
+  const channels = new Set<string>();
+
+  for (const match of (text ?? '').matchAll(/<([@#])([A-Z0-9]+)(?:\|([^>]*))?>/gi)) {
+    const [, kind, id, label] = match;
+    if (!id) continue;
+    if (kind === '@') {
+      users.add(id.toUpperCase());
+    } else if (!label) {
+      channels.add(id.toUpperCase());
+    }
+  }
+
+  return { users: Array.from(users), channels: Array.from(channels) };
+}
+
+/**
+ * テキスト内のメンションの表示名を Slack API で解決する
+ * 結果は processMessage の mentions オプションに渡す
+ */
+export async function resolveMentions(
+  client: SlackClient,
+  text: string | undefined
+): Promise<MentionNames> {
+  const { users, channels } = extractMentionIds(text);
+  const userNames: Record<string, string> = {};
+  const channelNames: Record<string, string> = {};
+
+  await Promise.all([
+    ...users.map(async (userId) => {
+      userNames[userId] = await getUserDisplayName(client, userId);
+    }),
+    ...channels.map(async (channelId) => {
+      const name = await getChannelName(client, channelId);
+      if (name) channelNames[channelId] = name;
+    }),
+  ]);
+
+  return { users: userNames, channels: channelNames };
+}
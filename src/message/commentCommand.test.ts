@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { CommentCommandError, loadAllowedCommentCommands, parseCommentCommands } from './commentCommand.js';
+import { processMessage } from './parser.js';
+
+const ALL = ['position', 'color', 'size'] as const;
+
+describe('parseCommentCommands', () => {
+  it('先頭のコマンドを除去して表示スタイルに変換する', () => {
+    expect(parseCommentCommands('[ue][red][big] こんにちは', ALL)).toEqual({
+      text: 'こんにちは',
+      style: { position: 'top', color: '#FF0000', size: 'big' },
+    });
+  });
+
+  it('空白区切りでまとめて指定できる（大文字小文字を区別しない）', () => {
+    expect(parseCommentCommands('[Shita Blue small]質問です', ALL)).toEqual({
+      text: '質問です',
+      style: { position: 'bottom', color: '#0000FF', size: 'small' },
+    });
+  });
+
+  it('同じ種類は後のコマンドを優先し、naka・medium で既定に戻す', () => {
+    expect(parseCommentCommands('[ue red][shita green] a', ALL).style).toEqual({ position: 'bottom', color: '#00FF00' });
+    expect(parseCommentCommands('[ue big][naka medium] a', ALL).style).toEqual({});
+  });
+
+  it('不明な語を含む角括弧とそれ以降はテキストとして扱う', () => {
+    expect(parseCommentCommands('[red][速報] 開始', ALL)).toEqual({ text: '[速報] 開始', style: { color: '#FF0000' } });
+    expect(parseCommentCommands('[red foo] a', ALL)).toEqual({ text: '[red foo] a', style: {} });
+    expect(parseCommentCommands('[] a', ALL)).toEqual({ text: '[] a', style: {} });
+    expect(parseCommentCommands('a [red]', ALL)).toEqual({ text: 'a [red]', style: {} });
+  });
+
+  it('Objectのプロパティ名をコマンドとみなさない', () => {
+    expect(parseCommentCommands('[constructor] a', ALL)).toEqual({ text: '[constructor] a', style: {} });
+  });
+
+  it('許可されていない種類のコマンドは除去のみ行う', () => {
+    expect(parseCommentCommands('[ue red big] a', ['color'])).toEqual({ text: 'a', style: { color: '#FF0000' } });
+  });
+});
+
+describe('processMessage（コメントコマンド）', () => {
+  const emojiMap = new Map<string, string>();
+
+  it('allowedCommands を指定した場合はコマンドを style に変換する', () => {
+    expect(processMessage('[ue red] *告知* です', emojiMap, { allowedCommands: ALL })).toEqual({
+      sanitizedText: '告知 です',
+      emojis: {},
+      style: { position: 'top', color: '#FF0000' },
+    });
+  });
+
+  it('コマンドがない場合は style を含めない', () => {
+    expect(processMessage('hello', emojiMap, { allowedCommands: ALL })).toEqual({ sanitizedText: 'hello', emojis: {} });
+  });
+
+  it('allowedCommands を指定しない場合はテキストのまま表示する', () => {
+    expect(processMessage('[ue] hello', emojiMap)).toEqual({ sanitizedText: '[ue] hello', emojis: {} });
+  });
+
+  it('リンクの置換結果をコマンドとみなさない', () => {
+    expect(processMessage('<https://example.com> [red]', emojiMap, { allowedCommands: ALL }).sanitizedText)
+      .toBe('[リンク] [red]');
+  });
+});
+
+describe('loadAllowedCommentCommands', () => {
+  it('未設定の場合はコマンドを解析しない', () => {
+    expect(loadAllowedCommentCommands({})).toBeUndefined();
+    expect(loadAllowedCommentCommands({ COMMENT_COMMANDS: '  ' })).toBeUndefined();
+  });
+
+  it('すべての種類を指定できる', () => {
+    expect(loadAllowedCommentCommands({ COMMENT_COMMANDS: 'position,color,size' })).toEqual(['position', 'color', 'size']);
+  });
+
+  it('カンマ区切りで有効にする種類を指定できる', () => {
+    expect(loadAllowedCommentCommands({ COMMENT_COMMANDS: 'color, size,color' })).toEqual(['color', 'size']);
+  });
+
+  it('none の場合はコマンドを解析しない', () => {
+    expect(loadAllowedCommentCommands({ COMMENT_COMMANDS: 'none' })).toBeUndefined();
+  });
+
+  it('不明な種類や空の指定はエラーにする', () => {
+    expect(() => loadAllowedCommentCommands({ COMMENT_COMMANDS: 'color,font' })).toThrow(CommentCommandError);
+    expect(() => loadAllowedCommentCommands({ COMMENT_COMMANDS: ',' })).toThrow(CommentCommandError);
+  });
+});
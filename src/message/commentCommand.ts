@@ -0,0 +1,144 @@
+import type {
+  CommentCommandCategory,
+  CommentPosition,
+  CommentSize,
+  CommentStyle,
+} from '../types/index.js';
+
+export const COMMENT_COMMAND_CATEGORIES: readonly CommentCommandCategory[] = ['position', 'color', 'size'];
+
+/**
+ * 色コマンドの色（ニコニコ動画の一般会員向けの色に合わせる）
+ */
+export const COMMENT_COLORS: Readonly<Record<string, string>> = {
+  white: '#FFFFFF',
+  red: '#FF0000',
+  pink: '#FF8080',
+  orange: '#FFC000',
+  yellow: '#FFFF00',
+  green: '#00FF00',
+  cyan: '#00FFFF',
+  blue: '#0000FF',
+  purple: '#C000FF',
+  black: '#000000',
+};
+
+// 位置コマンド（naka は既定の流れるコメントに戻す）
+const POSITION_COMMANDS: Readonly<Record<string, CommentPosition | null>> = {
+  ue: 'top',
+  shita: 'bottom',
+  naka: null,
+};
+
+// サイズコマンド（medium は既定のサイズに戻す）
+const SIZE_COMMANDS: Readonly<Record<string, CommentSize | null>> = {
+  big: 'big',
+  small: 'small',
+  medium: null,
+};
+
+/**
+ * コメントコマンドの設定が不正な場合にスローされるエラー
+ */
+export class CommentCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentCommandError';
+  }
+}
+
+/**
+ * コメントコマンドの解析結果
+ */
+export interface ParsedCommentCommands {
+  /** コマンドを除去したテキスト */
+  text: string;
+  style: CommentStyle;
+}
+
+/**
+ * コマンドを style に反映する
+ * @returns コマンドとして認識できた場合 true（許可されていない種類も除去の対象にする）
+ */
+function applyCommand(
+  command: string,
+  style: CommentStyle,
+  allowed: readonly CommentCommandCategory[]
+): boolean {
+  if (Object.hasOwn(POSITION_COMMANDS, command)) {
+    if (allowed.includes('position')) {
+      const position = POSITION_COMMANDS[command];
+      if (position) style.position = position;
+      else delete style.position;
+    }
+    return true;
+  }
+  if (Object.hasOwn(SIZE_COMMANDS, command)) {
+    if (allowed.includes('size')) {
+      const size = SIZE_COMMANDS[command];
+      if (size) style.size = size;
+      else delete style.size;
+    }
+    return true;
+  }
+  if (Object.hasOwn(COMMENT_COLORS, command)) {
+    if (allowed.includes('color')) style.color = COMMENT_COLORS[command];
+    return true;
+  }
+  return false;
+}
+
+/**
+ * テキスト先頭のコメントコマンドを解析して除去する
+ * - [ue] [red] [big] のように角括弧で囲み、[ue red big] のように空白区切りでまとめて指定できる
+ * - 角括弧内に不明な語を含む場合はコマンドとみなさず、それ以降はテキストとして扱う
+ * - 同じ種類のコマンドを複数指定した場合は後のものを優先する
+ * @param allowed 反映するコマンドの種類（それ以外のコマンドは除去のみ行う）
+ */
+export function parseCommentCommands(
+  text: string,
+  allowed: readonly CommentCommandCategory[]
+): ParsedCommentCommands {
+  let style: CommentStyle = {};
+  const pattern = /^\s*\[([^[\]\n]*)\]/;
+  let rest = text;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(rest)) !== null) {
+    const commands = (match[1] ?? '').trim().toLowerCase().split(/\s+/);
+    // 解析前の状態に戻せるよう、コピーに反映してから確定する
+    const next = { ...style };
+    if (!commands.every((command) => applyCommand(command, next, allowed))) break;
+    style = next;
+    rest = rest.slice(match[0].length);
+  }
+
+  return { text: rest === text ? text : rest.trimStart(), style };
+}
+
+/**
+ * 環境変数から有効にするコメントコマンドの種類を読み込む
+ * - COMMENT_COMMANDS: position・color・size をカンマ区切りで指定する
+ * - 未設定または none の場合はコマンドを解析せずテキストのまま表示する（既存の表示を変えないよう、明示的に有効にする）
+ * @returns 有効にする種類（未設定・none の場合は undefined）
+ * @throws CommentCommandError 不明な種類の場合、種類を1つも指定していない場合
+ */
+export function loadAllowedCommentCommands(env: NodeJS.ProcessEnv): CommentCommandCategory[] | undefined {
+  const value = env['COMMENT_COMMANDS']?.trim();
+  if (!value || value === 'none') return undefined;
+
+  const allowed: CommentCommandCategory[] = [];
+  for (const name of value.split(',').map((item) => item.trim()).filter((item) => item !== '')) {
+    const category = COMMENT_COMMAND_CATEGORIES.find((candidate) => candidate === name);
+    if (!category) {
+      throw new CommentCommandError(
+        `Unknown comment command: ${name} (expected ${COMMENT_COMMAND_CATEGORIES.join(', ')} or none)`
+      );
+    }
+    if (!allowed.includes(category)) allowed.push(category);
+  }
+  if (allowed.length === 0) {
+    throw new CommentCommandError('COMMENT_COMMANDS must include at least one command or be none');
+  }
+  return allowed;
+}
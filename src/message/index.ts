@@ -1,5 +1,14 @@
 export {
   parseThreadUrl,
+  parseChannelUrl,
   sanitizeMessage,
   processMessage,
 } from './parser.js';
+export {
+  COMMENT_COMMAND_CATEGORIES,
+  COMMENT_COLORS,
+  CommentCommandError,
+  parseCommentCommands,
+  loadAllowedCommentCommands,
+  type ParsedCommentCommands,
+} from './commentCommand.js';
@@ -1,5 +1,12 @@
-import type { ThreadInfo, ProcessedMessage } from '../types/index.js';
+import type {
+  CommentStyle,
+  ThreadInfo,
+  MentionNames,
+  ProcessedMessage,
+  ProcessMessageOptions,
+} from '../types/index.js';
 import { getStandardEmojiMap } from '../emoji/index.js';
+import { parseCommentCommands } from './commentCommand.js';
 
 // ============================================
 // スレッドURL解析
@@ -25,6 +32,25 @@ export function parseThreadUrl(url: string): ThreadInfo {
   return { channelId, threadTs };
 }
 
+// ============================================
+// チャンネルURL解析
+// ============================================
+
+/**
+ * チャンネルURLまたはチャンネルIDを解析する
+ * - https://xxx.slack.com/archives/C1234567890
+ * - C1234567890
+ */
+export function parseChannelUrl(input: string): { channelId: string } {
+  const trimmed = input.trim();
+  const match = trimmed.match(/^(?:https:\/\/[\w-]+\.slack\.com\/archives\/)?([CG][A-Z0-9]{2,})\/?$/i);
+  const channelId = match?.[1];
+  if (!channelId) {
+    throw new Error('Invalid Slack channel URL. Expected format: https://xxx.slack.com/archives/CHANNEL_ID or CHANNEL_ID');
+  }
+  return { channelId: channelId.toUpperCase() };
+}
+
 // ============================================
 // メッセージ変換（Slack記法の除去）- 未使用だが将来の拡張用に保持
 // ============================================
@@ -45,18 +71,69 @@ export function sanitizeMessage(text: string | undefined): string {
     .trim();
 }
 
+// ============================================
+// メンション変換
+// ============================================
+
+// 特殊メンション <!here> などの表示
+const SPECIAL_MENTIONS: Record<string, string> = {
+  here: '@here',
+  channel: '@channel',
+  everyone: '@everyone',
+};
+
+/**
+ * メンション記法を読みやすい表記に変換
+ * - <@U123> / <@U123|name> → @表示名
+ * - <#C123|general> / <#C123> → #チャンネル名
+ * - <!subteam^S123|@group> → @group
+ * - <!here> / <!channel> / <!everyone> → @here / @channel / @everyone
+ * - <!date^...|fallback> → fallback
+ * @returns 変換後の表記。メンション記法でない場合は undefined
+ */
+function formatMention(tag: string, mentions: MentionNames): string | undefined {
+  const [body = '', label] = tag.split('|', 2);
+
+  if (body.startsWith('@')) {
+    const userId = body.slice(1).toUpperCase();
+    const name = mentions.users?.[userId] ?? label;
+    return `@${name || 'Unknown User'}`;
+  }
+
+  if (body.startsWith('#')) {
+    const channelId = body.slice(1).toUpperCase();
+    const name = label || mentions.channels?.[channelId];
+    return `#${name || 'unknown-channel'}`;
+  }
+
+  if (body.startsWith('!')) {
+    const command = body.slice(1);
+    const special = SPECIAL_MENTIONS[command];
+    if (special) return special;
+    if (command.startsWith('subteam^')) {
+      return label ? `@${label.replace(/^@/, '')}` : '@unknown-group';
+    }
+    // 日付などはフォールバック表記を使用
+    return label ?? '';
+  }
+
+  return undefined;
+}
+
 // ============================================
 // メッセージ処理（絵文字URL抽出付き）
 // ============================================
 
 /**
  * メッセージを処理し、サニタイズされたテキストと絵文字URLマップを返す
- * - メンション、リンクを除去
+ * - メンションは表示名に変換、リンクは [リンク] に置換
  * - 絵文字はテキスト内に保持し、URLマップを生成
+ * - allowedCommands を指定した場合、先頭のコメントコマンド（[ue] [red] など）を除去して style に変換
  */
 export function processMessage(
   text: string | undefined,
-  emojiMap: Map<string, string>
+  emojiMap: Map<string, string>,
+  options: ProcessMessageOptions = {}
 ): ProcessedMessage {
   if (!text) {
     return { sanitizedText: '', emojis: {} };
@@ -64,6 +141,16 @@ export function processMessage(
 
   let processed = text;
 
+  // 0. コメントコマンド → 除去して表示スタイルに変換（[リンク] などの置換結果をコマンドとみなさないよう最初に行う）
+  let style: CommentStyle | undefined;
+  if (options.allowedCommands) {
+    const parsed = parseCommentCommands(processed, options.allowedCommands);
+    processed = parsed.text;
+    if (Object.keys(parsed.style).length > 0) {
+      style = parsed.style;
+    }
+  }
+
   // 1. コードブロック → [コード] に置換（最優先：内部の装飾記号を保護）
   processed = processed.replace(/```[\s\S]*?```/g, '[コード]');
 
@@ -76,10 +163,18 @@ export function processMessage(
   // リンク（テキストなし）<http://example.com>
   processed = processed.replace(/<https?:\/\/[^>]+>/g, '[リンク]');
 
-  // 4. メンション <@U1234567890> → 除去（将来的に@ユーザー名に変換予定）
-  processed = processed.replace(/<@[A-Z0-9]+>/gi, '');
+  // 4. メンション・チャンネルリンク → 表示名に変換してプレースホルダに退避
+  // 表示名に含まれる * _ ~ : などがテキスト装飾・絵文字として処理されないよう保護する
+  const mentionPlaceholders: string[] = [];
+  processed = processed.replace(/<([@#!][^>]*)>/g, (match, tag: string) => {
+    const formatted = formatMention(tag, options.mentions ?? {});
+    if (formatted === undefined) return match;
+    if (formatted === '') return '';
+    mentionPlaceholders.push(formatted);
+    return `\x00MENTION${mentionPlaceholders.length - 1}\x00`;
+  });
 
-  // 5. 残りの山括弧タグを除去（チャンネルリンクなど）
+  // 5. 残りの山括弧タグを除去
   processed = processed.replace(/<[^>]+>/g, '');
 
   // 6. ブロック引用 >>> を処理
@@ -164,5 +259,10 @@ export function processMessage(
     }
   }
 
-  return { sanitizedText: processed, emojis };
+  // プレースホルダからメンションを復元（表示名内の :xxx: は絵文字として扱わない）
+  processed = processed.replace(/\x00MENTION(\d+)\x00/g, (_, index) => {
+    return mentionPlaceholders[Number(index)] ?? '';
+  });
+
+  return style ? { sanitizedText: processed, emojis, style } : { sanitizedText: processed, emojis };
 }
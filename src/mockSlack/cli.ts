@@ -0,0 +1,84 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { createMockSlackServer } from './mockSlackServer.js';
+import { getScenarioThreadUrl, parseScenario, runScenario, setupScenario } from './scenario.js';
+
+/**
+ * モックSlackサーバーを起動してシナリオを実行する
+ * 使用方法: npm run mock-slack -- scenarios/basic.json [--transport events|polling] [--port 9000]
+ *          [--events-url http://localhost:8000/slack/events] [--speed 1] [--wait 10]
+ */
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      transport: { type: 'string', default: 'events' },
+      port: { type: 'string', default: '9000' },
+      'events-url': { type: 'string', default: 'http://localhost:8000/slack/events' },
+      'signing-secret': { type: 'string', default: 'mock-signing-secret' },
+      speed: { type: 'string', default: '1' },
+      wait: { type: 'string', default: '10' },
+    },
+  });
+
+  const scenarioPath = positionals[0];
+  if (!scenarioPath) {
+    console.error('Usage: npm run mock-slack -- <scenario.json> [--transport events|polling] [--port 9000] [--speed 1] [--wait 10]');
+    process.exit(1);
+  }
+  if (values.transport !== 'events' && values.transport !== 'polling') {
+    console.error('Error: --transport must be events or polling');
+    process.exit(1);
+  }
+
+  const scenario = parseScenario(JSON.parse(await readFile(scenarioPath, 'utf-8')));
+  const signingSecret = values['signing-secret'];
+  const server = createMockSlackServer({
+    signingSecret,
+    // ポーリングの場合はオーバーレイサーバーが Web API で取得するため、イベントを送信しない
+    eventsUrl: values.transport === 'events' ? values['events-url'] : undefined,
+  });
+  setupScenario(server, scenario);
+  await server.listen(Number(values.port));
+
+  const env = [
+    `SLACK_TRANSPORT=${values.transport}`,
+    `SLACK_API_URL=${server.apiUrl}`,
+    'SLACK_BOT_TOKEN=xoxb-mock',
+    ...(values.transport === 'events' ? [`SLACK_SIGNING_SECRET=${signingSecret}`] : []),
+  ].join(' ');
+  console.log(`Mock Slack API: ${server.apiUrl}`);
+  console.log(`Scenario: ${scenario.name} (${scenario.steps.length} steps)`);
+  console.log('');
+  console.log('Start the overlay server with:');
+  console.log(`  ${env} npx tsx src/server.ts "${getScenarioThreadUrl(scenario)}"`);
+  console.log('');
+
+  const close = (): void => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', close);
+  process.on('SIGTERM', close);
+
+  // オーバーレイサーバーを起動するまで待ってからシナリオを開始
+  const waitSeconds = Number(values.wait);
+  console.log(`Running scenario in ${waitSeconds} seconds...`);
+  await new Promise((resolve) => setTimeout(resolve, waitSeconds * 1000));
+
+  try {
+    await runScenario(server, scenario, {
+      speed: Number(values.speed) || 1,
+      onStep: (step, index) => {
+        console.log(`[${index + 1}/${scenario.steps.length}] ${step.action}`);
+      },
+    });
+    console.log('Scenario finished. Press Ctrl+C to stop the mock Slack server.');
+  } catch (err) {
+    console.error('Scenario failed:', err);
+  }
+}
+
+main().catch((err: unknown) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
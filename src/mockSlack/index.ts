@@ -0,0 +1,4 @@
+export type { FetchFn, MockMessage, MockPostInput, MockSlackServer, MockSlackServerOptions } from './mockSlackServer.js';
+export { createMockSlackServer, MockSlackError, signSlackRequest } from './mockSlackServer.js';
+export type { RunScenarioOptions, Scenario, ScenarioStep } from './scenario.js';
+export { getScenarioThreadUrl, parseScenario, runScenario, ScenarioError, setupScenario } from './scenario.js';
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { webApi } from '@slack/bolt';
+import { createMockSlackServer, MockSlackError, type FetchFn, type MockSlackServer } from './mockSlackServer.js';
+import { createEventsApiReceiver } from '../transport/index.js';
+
+const signingSecret = 'mock-signing-secret';
+const now = () => 1705200000 * 1000;
+
+describe('createMockSlackServer', () => {
+  let server: MockSlackServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('Slack WebClient から users.info・emoji.list・conversations.replies を呼び出せる', async () => {
+    server = createMockSlackServer({ signingSecret, botToken: 'xoxb-mock', now });
+    server.addUser('U1', 'alice');
+    server.addEmoji('party', 'https://emoji.slack-edge.com/T1/party/1.gif');
+    server.seedMessage({ channel: 'C1', user: 'U1', text: 'parent', ts: '1705100000.000000' });
+    server.seedMessage({ channel: 'C1', user: 'U1', text: 'one', threadTs: '1705100000.000000' });
+    server.seedMessage({ channel: 'C1', user: 'U1', text: 'two', threadTs: '1705100000.000000' });
+    await server.listen(0);
+    const client = new webApi.WebClient('xoxb-mock', { slackApiUrl: server.apiUrl });
+
+    expect((await client.users.info({ user: 'U1' })).user?.profile?.display_name).toBe('alice');
+    expect((await client.emoji.list()).emoji).toEqual({ party: 'https://emoji.slack-edge.com/T1/party/1.gif' });
+
+    const replies = await client.conversations.replies({ channel: 'C1', ts: '1705100000.000000', limit: 2 });
+    expect(replies.messages?.map((message) => message.text)).toEqual(['parent', 'one']);
+    expect(replies.has_more).toBe(true);
+    const next = await client.conversations.replies({
+      channel: 'C1',
+      ts: '1705100000.000000',
+      cursor: replies.response_metadata?.next_cursor,
+    });
+    expect(next.messages?.map((message) => message.text)).toEqual(['two']);
+    expect(server.calls).toEqual(['users.info', 'emoji.list', 'conversations.replies', 'conversations.replies']);
+  });
+
+  it('Bot Token が一致しない場合は invalid_auth', async () => {
+    server = createMockSlackServer({ signingSecret, botToken: 'xoxb-mock', now });
+    await server.listen(0);
+    const response = await fetch(`${server.apiUrl}auth.test`, { method: 'POST', headers: { Authorization: 'Bearer xoxb-wrong' } });
+
+    expect(await response.json()).toEqual({ ok: false, error: 'invalid_auth' });
+  });
+
+  it('投稿・編集・削除・リアクションを署名付きの Events API リクエストとして送信する', async () => {
+    const receiver = createEventsApiReceiver({ signingSecret, now });
+    const received: unknown[] = [];
+    const fetchFn = vi.fn<FetchFn>(async (_url, init) => {
+      const headers = Object.fromEntries(
+        Object.entries(init?.headers as Record<string, string>).map(([key, value]) => [key.toLowerCase(), value])
+      );
+      const result = receiver.receive(String(init?.body), headers);
+      received.push(result.event);
+      return new Response(null, { status: result.status });
+    });
+    server = createMockSlackServer({ signingSecret, eventsUrl: 'http://localhost:8000/slack/events', fetch: fetchFn, now });
+
+    const ts = await server.postMessage({ channel: 'C1', user: 'U1', text: 'hello', threadTs: '1705100000.000000' });
+    await server.editMessage('C1', ts, 'hello!');
+    await server.addReaction('C1', ts, 'U2', 'clap');
+    await server.deleteMessage('C1', ts);
+
+    expect(ts).toBe('1705200000.000000');
+    expect(fetchFn).toHaveBeenCalledWith('http://localhost:8000/slack/events', expect.objectContaining({ method: 'POST' }));
+    expect(received).toEqual([
+      expect.objectContaining({ type: 'message', channel: 'C1', ts, thread_ts: '1705100000.000000', text: 'hello' }),
+      expect.objectContaining({ subtype: 'message_changed', message: expect.objectContaining({ ts, text: 'hello!' }) }),
+      expect.objectContaining({ type: 'reaction_added', reaction: 'clap', item: { type: 'message', channel: 'C1', ts } }),
+      expect.objectContaining({ subtype: 'message_deleted', deleted_ts: ts, previous_message: expect.objectContaining({ text: 'hello!' }) }),
+    ]);
+  });
+
+  it('存在しないメッセージの操作はエラー', async () => {
+    server = createMockSlackServer({ signingSecret, now });
+
+    await expect(server.editMessage('C1', '1.000000', 'x')).rejects.toThrow(MockSlackError);
+  });
+});
@@ -0,0 +1,412 @@
+import { createHmac } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import express, { type Request, type Response } from 'express';
+import type { SlackReplyMessage } from '../types/index.js';
+
+/**
+ * fetch関数の型定義
+ */
+export type FetchFn = typeof fetch;
+
+/**
+ * モックSlackに保存するメッセージ
+ */
+export interface MockMessage extends SlackReplyMessage {
+  ts: string;
+  channel: string;
+  reactions?: { name: string; users: string[] }[];
+}
+
+/**
+ * MockSlackServerの設定オプション
+ */
+export interface MockSlackServerOptions {
+  /** Events API の署名に使う Signing Secret */
+  signingSecret: string;
+  /** Events API の送信先（オーバーレイサーバーの /slack/events）。未指定の場合はイベントを送信しない */
+  eventsUrl?: string;
+  /** 受け付ける Bot Token（未指定の場合は任意のトークンを受け付ける） */
+  botToken?: string;
+  /** fetch関数（テスト用にDI可能） */
+  fetch?: FetchFn;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * 投稿するメッセージ
+ */
+export interface MockPostInput {
+  channel: string;
+  user: string;
+  text: string;
+  /** スレッドの親メッセージのts（スレッド返信の場合） */
+  threadTs?: string;
+  /** 投稿のts（省略時は現在時刻から生成） */
+  ts?: string;
+}
+
+// ============================================
+// モックSlackサーバー - インターフェース
+// ============================================
+export interface MockSlackServer {
+  /** Slack Web API のURL（SLACK_API_URL に指定する、末尾は /api/） */
+  readonly apiUrl: string;
+  /** サーバーを起動（port に 0 を指定すると空いているポートを使用） */
+  listen: (port?: number) => Promise<void>;
+  /** サーバーを停止 */
+  close: () => Promise<void>;
+  /** Events API の送信先を変更 */
+  setEventsUrl: (url: string | undefined) => void;
+  /** ユーザーを登録 */
+  addUser: (id: string, displayName: string) => void;
+  /** カスタム絵文字を登録 */
+  addEmoji: (name: string, url: string) => void;
+  /** チャンネルを登録 */
+  addChannel: (id: string, name: string) => void;
+  /** メッセージを投稿し、message イベントを送信する（ts を返す） */
+  postMessage: (input: MockPostInput) => Promise<string>;
+  /** メッセージを保存のみ行う（イベントは送信しない。起動前の返信の用意に使用） */
+  seedMessage: (input: MockPostInput) => string;
+  /** メッセージを編集し、message_changed イベントを送信する */
+  editMessage: (channel: string, ts: string, text: string) => Promise<void>;
+  /** メッセージを削除し、message_deleted イベントを送信する */
+  deleteMessage: (channel: string, ts: string) => Promise<void>;
+  /** リアクションを追加し、reaction_added イベントを送信する */
+  addReaction: (channel: string, ts: string, user: string, reaction: string) => Promise<void>;
+  /** 呼び出された Web API のメソッド名（テスト用） */
+  readonly calls: string[];
+}
+
+/**
+ * モックSlackの操作が不正な場合にスローされるエラー
+ */
+export class MockSlackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MockSlackError';
+  }
+}
+
+/**
+ * Events API のリクエストに署名する（Slackと同じ v0 形式）
+ */
+export function signSlackRequest(signingSecret: string, timestamp: number, body: string): string {
+  const hash = createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex');
+  return `v0=${hash}`;
+}
+
+/**
+ * マイクロ秒をSlackのts形式に変換
+ */
+function toSlackTs(micros: number): string {
+  return `${Math.floor(micros / 1e6)}.${String(micros % 1e6).padStart(6, '0')}`;
+}
+
+/**
+ * Slackのtsをマイクロ秒に変換
+ */
+function toMicros(ts: string): number {
+  const [seconds = '0', fraction = ''] = ts.split('.');
+  return Number(seconds) * 1e6 + Number(fraction.padEnd(6, '0').slice(0, 6));
+}
+
+function stringParam(params: Record<string, unknown>, key: string): string | undefined {
+  const value = params[key];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Web API のレスポンスの形に変換（channel は含めない）
+ */
+function toApiMessage(message: MockMessage): Omit<MockMessage, 'channel'> {
+  const result: Omit<MockMessage, 'channel'> = { ts: message.ts, user: message.user, text: message.text };
+  if (message.thread_ts) result.thread_ts = message.thread_ts;
+  if (message.reactions) result.reactions = message.reactions.map((entry) => ({ ...entry, users: [...entry.users] }));
+  return result;
+}
+
+/**
+ * ページネーション（cursor はメッセージの位置）
+ */
+function paginate(messages: MockMessage[], params: Record<string, unknown>): Record<string, unknown> {
+  const limit = Math.max(1, Number(stringParam(params, 'limit') ?? 100) || 100);
+  const start = Number(stringParam(params, 'cursor') ?? 0) || 0;
+  const page = messages.slice(start, start + limit);
+  const hasMore = start + limit < messages.length;
+  return {
+    ok: true,
+    messages: page.map(toApiMessage),
+    has_more: hasMore,
+    response_metadata: { next_cursor: hasMore ? String(start + limit) : '' },
+  };
+}
+
+// ============================================
+// モックSlackサーバー - ファクトリ関数
+// ============================================
+
+/**
+ * オフラインでの動作確認・E2Eテスト用のモックSlackサーバーを生成
+ * - Web API: auth.test / users.info / emoji.list / conversations.replies / conversations.history / conversations.info
+ * - Events API: 投稿・編集・削除・リアクションを署名付きで eventsUrl に送信
+ */
+export function createMockSlackServer(options: MockSlackServerOptions): MockSlackServer {
+  const fetchFn = options.fetch ?? fetch;
+  const now = options.now ?? Date.now;
+  let eventsUrl = options.eventsUrl;
+
+  const users = new Map<string, string>();
+  const emoji: Record<string, string> = {};
+  const channels = new Map<string, string>();
+  const messages = new Map<string, MockMessage[]>();
+  const calls: string[] = [];
+  let lastMicros = 0;
+  let eventCount = 0;
+  // イベントを投稿順に送信する
+  let delivery: Promise<void> = Promise.resolve();
+
+  let server: Server | undefined;
+  let apiUrl = '';
+
+  const nextTs = (): string => {
+    lastMicros = Math.max(lastMicros + 1, now() * 1000);
+    return toSlackTs(lastMicros);
+  };
+
+  const channelMessages = (channel: string): MockMessage[] => {
+    let list = messages.get(channel);
+    if (!list) {
+      list = [];
+      messages.set(channel, list);
+    }
+    return list;
+  };
+
+  const findMessage = (channel: string, ts: string): MockMessage => {
+    const message = messages.get(channel)?.find((candidate) => candidate.ts === ts);
+    if (!message) {
+      throw new MockSlackError(`Message not found: ${channel}/${ts}`);
+    }
+    return message;
+  };
+
+  const deliver = (event: Record<string, unknown>): Promise<void> => {
+    const url = eventsUrl;
+    if (!url) return Promise.resolve();
+
+    eventCount += 1;
+    const body = JSON.stringify({
+      type: 'event_callback',
+      event_id: `Ev${String(eventCount).padStart(8, '0')}`,
+      event_time: Math.floor(now() / 1000),
+      event,
+    });
+    const send = async (): Promise<void> => {
+      const timestamp = Math.floor(now() / 1000);
+      const response = await fetchFn(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Slack-Request-Timestamp': String(timestamp),
+          'X-Slack-Signature': signSlackRequest(options.signingSecret, timestamp, body),
+        },
+        body,
+      });
+      if (!response.ok) {
+        throw new MockSlackError(`Event delivery failed with ${response.status}`);
+      }
+    };
+    delivery = delivery.catch(() => undefined).then(send);
+    return delivery;
+  };
+
+  const seedMessage = (input: MockPostInput): string => {
+    const ts = input.ts ?? nextTs();
+    if (input.ts) {
+      lastMicros = Math.max(lastMicros, toMicros(input.ts));
+    }
+    const message: MockMessage = { channel: input.channel, ts, user: input.user, text: input.text };
+    if (input.threadTs) {
+      message.thread_ts = input.threadTs;
+    }
+    const list = channelMessages(input.channel);
+    list.push(message);
+    list.sort((a, b) => toMicros(a.ts) - toMicros(b.ts));
+    return ts;
+  };
+
+  // Slack Web API（https://slack.com/api/<method> 相当）
+  const app = express();
+  app.use(express.urlencoded({ extended: false }), express.json());
+  app.all('/api/:method', (req: Request<{ method: string }>, res: Response) => {
+    const method = req.params.method;
+    calls.push(method);
+
+    if (options.botToken && req.headers.authorization !== `Bearer ${options.botToken}`) {
+      res.json({ ok: false, error: 'invalid_auth' });
+      return;
+    }
+    const params: Record<string, unknown> = { ...req.query, ...(req.body ?? {}) };
+
+    switch (method) {
+      case 'auth.test':
+        res.json({ ok: true, user_id: 'UMOCKBOT', team_id: 'TMOCK' });
+        return;
+      case 'users.info': {
+        const id = stringParam(params, 'user') ?? '';
+        const name = users.get(id);
+        if (name === undefined) {
+          res.json({ ok: false, error: 'user_not_found' });
+          return;
+        }
+        res.json({ ok: true, user: { id, name, profile: { display_name: name, real_name: name } } });
+        return;
+      }
+      case 'emoji.list':
+        res.json({ ok: true, emoji });
+        return;
+      case 'conversations.info': {
+        const id = stringParam(params, 'channel') ?? '';
+        const name = channels.get(id);
+        res.json(name === undefined ? { ok: false, error: 'channel_not_found' } : { ok: true, channel: { id, name } });
+        return;
+      }
+      case 'conversations.replies': {
+        const threadTs = stringParam(params, 'ts');
+        const oldest = stringParam(params, 'oldest');
+        const thread = (messages.get(stringParam(params, 'channel') ?? '') ?? [])
+          .filter((message) => message.ts === threadTs || message.thread_ts === threadTs);
+        if (thread.length === 0) {
+          res.json({ ok: false, error: 'thread_not_found' });
+          return;
+        }
+        res.json(paginate(thread.filter((message) => !oldest || toMicros(message.ts) > toMicros(oldest)), params));
+        return;
+      }
+      case 'conversations.history': {
+        const oldest = stringParam(params, 'oldest');
+        // 新しい順（Slackと同じ）。スレッド返信は含めない
+        const history = (messages.get(stringParam(params, 'channel') ?? '') ?? [])
+          .filter((message) => !message.thread_ts || message.thread_ts === message.ts)
+          .filter((message) => !oldest || toMicros(message.ts) > toMicros(oldest))
+          .reverse();
+        res.json(paginate(history, params));
+        return;
+      }
+      default:
+        res.json({ ok: false, error: 'unknown_method' });
+    }
+  });
+
+  return {
+    get apiUrl() {
+      return apiUrl;
+    },
+    calls,
+    listen: (port = 0) =>
+      new Promise((resolve, reject) => {
+        const httpServer = createServer(app);
+        httpServer.once('error', reject);
+        httpServer.listen(port, '127.0.0.1', () => {
+          const address = httpServer.address() as AddressInfo;
+          apiUrl = `http://127.0.0.1:${address.port}/api/`;
+          server = httpServer;
+          resolve();
+        });
+      }),
+    close: () =>
+      new Promise((resolve, reject) => {
+        if (!server) {
+          resolve();
+          return;
+        }
+        server.close((err) => (err ? reject(err) : resolve()));
+        server.closeAllConnections();
+        server = undefined;
+      }),
+    setEventsUrl: (url) => {
+      eventsUrl = url;
+    },
+    addUser: (id, displayName) => {
+      users.set(id, displayName);
+    },
+    addEmoji: (name, url) => {
+      emoji[name] = url;
+    },
+    addChannel: (id, name) => {
+      channels.set(id, name);
+    },
+    seedMessage,
+    postMessage: async (input) => {
+      const ts = seedMessage(input);
+      const event: Record<string, unknown> = {
+        type: 'message',
+        channel: input.channel,
+        channel_type: 'channel',
+        user: input.user,
+        text: input.text,
+        ts,
+        event_ts: ts,
+      };
+      if (input.threadTs) {
+        event['thread_ts'] = input.threadTs;
+      }
+      await deliver(event);
+      return ts;
+    },
+    editMessage: async (channel, ts, text) => {
+      const message = findMessage(channel, ts);
+      const previous = toApiMessage(message);
+      message.text = text;
+      const eventTs = nextTs();
+      await deliver({
+        type: 'message',
+        subtype: 'message_changed',
+        channel,
+        hidden: true,
+        ts: eventTs,
+        event_ts: eventTs,
+        message: { ...toApiMessage(message), edited: { user: message.user, ts: eventTs } },
+        previous_message: previous,
+      });
+    },
+    deleteMessage: async (channel, ts) => {
+      const message = findMessage(channel, ts);
+      const list = channelMessages(channel);
+      list.splice(list.indexOf(message), 1);
+      const previous = toApiMessage(message);
+      const eventTs = nextTs();
+      await deliver({
+        type: 'message',
+        subtype: 'message_deleted',
+        channel,
+        hidden: true,
+        ts: eventTs,
+        event_ts: eventTs,
+        deleted_ts: ts,
+        previous_message: previous,
+      });
+    },
+    addReaction: async (channel, ts, user, reaction) => {
+      const message = findMessage(channel, ts);
+      message.reactions ??= [];
+      const existing = message.reactions.find((entry) => entry.name === reaction);
+      if (existing) {
+        existing.users.push(user);
+      } else {
+        message.reactions.push({ name: reaction, users: [user] });
+      }
+      const eventTs = nextTs();
+      await deliver({
+        type: 'reaction_added',
+        user,
+        reaction,
+        item: { type: 'message', channel, ts },
+        item_user: message.user,
+        event_ts: eventTs,
+      });
+    },
+  };
+}
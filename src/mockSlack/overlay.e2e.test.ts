@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawn, type ChildProcess } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import WebSocket from 'ws';
+import type { WebSocketMessage } from '../types/index.js';
+import { createMockSlackServer, type MockSlackServer } from './mockSlackServer.js';
+import { getScenarioThreadUrl, parseScenario, runScenario, setupScenario } from './scenario.js';
+
+const signingSecret = 'e2e-signing-secret';
+
+const scenario = parseScenario({
+  name: 'e2e',
+  channel: 'C0E2E00001',
+  threadTs: '1705100000.000000',
+  users: { U0E2E00001: 'alice', U0E2E00002: 'bob' },
+  history: [
+    { user: 'U0E2E00001', text: 'before 1' },
+    { user: 'U0E2E00002', text: 'before 2' },
+  ],
+  // イベントは並行して処理されるため、前のイベントの処理が終わるよう間隔を空ける
+  steps: [
+    { action: 'post', user: 'U0E2E00001', text: 'hello <@U0E2E00002>', ref: 'hello' },
+    { action: 'edit', after: 500, ref: 'hello', text: 'hello again' },
+    { action: 'react', after: 500, ref: 'hello', user: 'U0E2E00002', reaction: 'clap' },
+    { action: 'delete', after: 500, ref: 'hello' },
+  ],
+});
+
+/**
+ * 空いているポート番号を取得
+ */
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * 条件を満たすまで待つ
+ */
+async function waitUntil(condition: () => boolean, timeoutMs = 20000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe('オーバーレイサーバー（モックSlack経由のE2E）', () => {
+  let mockSlack: MockSlackServer;
+  let overlay: ChildProcess;
+  let overlayLog = '';
+  let ws: WebSocket;
+  let logDir: string;
+  const received: WebSocketMessage[] = [];
+
+  beforeAll(async () => {
+    const port = await getFreePort();
+    logDir = await mkdtemp(path.join(tmpdir(), 'overlay-e2e-'));
+
+    mockSlack = createMockSlackServer({ signingSecret, eventsUrl: `http://127.0.0.1:${port}/slack/events` });
+    setupScenario(mockSlack, scenario);
+    await mockSlack.listen(0);
+
+    // テスト時は main() を実行しないため、VITEST を除いた環境変数で起動する
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    delete env['VITEST'];
+    // npx を経由せずに起動し、終了時にサーバープロセスへ確実にシグナルを届ける
+    const tsxCli = path.join('node_modules', 'tsx', 'dist', 'cli.mjs');
+    overlay = spawn(process.execPath, [tsxCli, 'src/server.ts', getScenarioThreadUrl(scenario)], {
+      env: {
+        ...env,
+        SLACK_TRANSPORT: 'events',
+        SLACK_API_URL: mockSlack.apiUrl,
+        SLACK_BOT_TOKEN: 'xoxb-e2e',
+        SLACK_SIGNING_SECRET: signingSecret,
+        OVERLAY_PORT: String(port),
+        TRANSCRIPT_DIR: logDir,
+        FILTER_CONFIG_PATH: path.join(logDir, 'filters.json'),
+        COMMENT_SOURCES: 'slack',
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    overlay.stdout?.on('data', (data: Buffer) => {
+      overlayLog += data.toString();
+    });
+    overlay.stderr?.on('data', (data: Buffer) => {
+      overlayLog += data.toString();
+    });
+
+    await waitUntil(() => overlayLog.includes('Server running on') && overlayLog.includes('Comment source started: slack'));
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    ws.on('message', (data) => {
+      received.push(JSON.parse(data.toString()) as WebSocketMessage);
+    });
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+  });
+
+  afterAll(async () => {
+    ws?.close();
+    if (overlay && overlay.exitCode === null) {
+      const exited = new Promise((resolve) => overlay.once('exit', resolve));
+      overlay.kill();
+      await exited;
+    }
+    await mockSlack?.close();
+    if (logDir) await rm(logDir, { recursive: true, force: true });
+  });
+
+  it('Slackのイベントがコメント・編集・リアクション・削除としてオーバーレイに届く', async () => {
+    // 起動前の返信数がカウンターの初期値になる
+    await waitUntil(() => received.some((message) => message.type === 'counter' && message.count === 2));
+
+    await runScenario(mockSlack, scenario);
+
+    await waitUntil(() => received.some((message) => message.type === 'comment_retract'));
+    const comment = received.find((message) => message.type === 'comment');
+    expect(comment).toMatchObject({ type: 'comment', text: 'hello @bob', userName: 'alice' });
+    expect(received).toContainEqual(expect.objectContaining({ type: 'comment_update', id: comment?.id, text: 'hello again' }));
+    expect(received).toContainEqual(expect.objectContaining({ type: 'reaction', messageId: comment?.id, emoji: 'clap' }));
+    expect(received).toContainEqual({ type: 'comment_retract', id: comment?.id });
+
+    // 新しい返信で 3、削除で 2 に戻る
+    const counts = received.flatMap((message) => (message.type === 'counter' ? [message.count] : []));
+    expect(counts).toContain(3);
+    expect(counts.at(-1)).toBe(2);
+    expect(mockSlack.calls).toContain('users.info');
+  });
+});
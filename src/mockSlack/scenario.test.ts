@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getScenarioThreadUrl, parseScenario, runScenario, ScenarioError, setupScenario } from './scenario.js';
+import { createMockSlackServer } from './mockSlackServer.js';
+import { parseWatchSpec } from '../thread/index.js';
+
+const base = {
+  name: 'test',
+  channel: 'C0MOCK00001',
+  threadTs: '1705100000.000000',
+  users: { U1: 'alice', U2: 'bob' },
+};
+
+describe('parseScenario', () => {
+  it('ステップの既定値を補う', () => {
+    const scenario = parseScenario({
+      ...base,
+      steps: [
+        { action: 'post', user: 'U1', text: 'hi', ref: 'm1' },
+        { action: 'bot', users: ['U1'], texts: ['a'] },
+      ],
+    });
+
+    expect(scenario.history).toEqual([]);
+    expect(scenario.emoji).toEqual({});
+    expect(scenario.steps).toEqual([
+      { action: 'post', after: 0, user: 'U1', text: 'hi', ref: 'm1' },
+      { action: 'bot', after: 0, count: 10, interval: 1000, users: ['U1'], texts: ['a'] },
+    ]);
+  });
+
+  it('不正なシナリオはエラー', () => {
+    expect(() => parseScenario({ ...base, channel: 'general', steps: [] })).toThrow(ScenarioError);
+    expect(() => parseScenario({ ...base, steps: [{ action: 'edit', ref: 'missing', text: 'x' }] })).toThrow('unknown ref "missing"');
+    expect(() => parseScenario({ ...base, steps: [{ action: 'post', user: 'U1', text: 'x', after: -1 }] })).toThrow('"after"');
+    expect(() => parseScenario({ ...base, steps: [{ action: 'jump' }] })).toThrow('unknown action');
+  });
+
+  it('スレッドURLはオーバーレイサーバーの監視対象として解析できる', () => {
+    const target = parseWatchSpec(getScenarioThreadUrl(parseScenario({ ...base, steps: [] })));
+
+    expect(target).toMatchObject({ kind: 'thread', channelId: 'C0MOCK00001', threadTs: '1705100000.000000' });
+  });
+});
+
+describe('runScenario', () => {
+  it('ステップを順番に実行し、速度に応じて待機する', async () => {
+    const server = createMockSlackServer({ signingSecret: 'secret', now: () => 1705200000 * 1000 });
+    const scenario = parseScenario({
+      ...base,
+      history: [{ user: 'U2', text: 'before' }],
+      steps: [
+        { action: 'post', after: 1000, user: 'U1', text: 'hello', ref: 'm1' },
+        { action: 'react', after: 500, ref: 'm1', user: 'U2', reaction: 'clap' },
+        { action: 'edit', after: 0, ref: 'm1', text: 'hello!' },
+        { action: 'bot', after: 0, count: 3, interval: 200, users: ['U1', 'U2'], texts: ['a', 'b'] },
+      ],
+    });
+    setupScenario(server, scenario);
+    const postMessage = vi.spyOn(server, 'postMessage');
+    const editMessage = vi.spyOn(server, 'editMessage');
+    const addReaction = vi.spyOn(server, 'addReaction');
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    await runScenario(server, scenario, { speed: 2, sleep });
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([500, 250, 100, 100]);
+    expect(postMessage.mock.calls.map(([input]) => `${input.user}:${input.text}`)).toEqual(['U1:hello', 'U1:a', 'U2:b', 'U1:a']);
+    const ts = await postMessage.mock.results[0]!.value;
+    expect(addReaction).toHaveBeenCalledWith('C0MOCK00001', ts, 'U2', 'clap');
+    expect(editMessage).toHaveBeenCalledWith('C0MOCK00001', ts, 'hello!');
+  });
+});
@@ -0,0 +1,282 @@
+import type { MockSlackServer } from './mockSlackServer.js';
+
+/**
+ * シナリオの1ステップ
+ * after は前のステップからの待ち時間（ミリ秒）。ref で投稿に名前を付け、編集・削除・リアクションで参照する
+ * - post: スレッドに返信する
+ * - edit: 投稿を編集する
+ * - delete: 投稿を削除する
+ * - react: 投稿にリアクションする
+ * - bot: texts を順番に count 件、interval ミリ秒ごとに投稿する（リハーサル用の自動投稿）
+ */
+export type ScenarioStep =
+  | { action: 'post'; after: number; user: string; text: string; ref?: string }
+  | { action: 'edit'; after: number; ref: string; text: string }
+  | { action: 'delete'; after: number; ref: string }
+  | { action: 'react'; after: number; ref: string; user: string; reaction: string }
+  | { action: 'bot'; after: number; count: number; interval: number; users: string[]; texts: string[] };
+
+/**
+ * シナリオファイルの内容
+ */
+export interface Scenario {
+  name: string;
+  /** チャンネルID */
+  channel: string;
+  /** スレッドの親メッセージのts */
+  threadTs: string;
+  /** ユーザーID → 表示名 */
+  users: Record<string, string>;
+  /** カスタム絵文字名 → 画像URL */
+  emoji: Record<string, string>;
+  /** 起動前からある返信 */
+  history: { user: string; text: string }[];
+  steps: ScenarioStep[];
+}
+
+/**
+ * シナリオの実行オプション
+ */
+export interface RunScenarioOptions {
+  /** 再生速度（2 で待ち時間が半分になる） */
+  speed?: number;
+  /** 待機関数（テスト用にDI可能） */
+  sleep?: (ms: number) => Promise<void>;
+  /** 各ステップの実行後に呼ばれるコールバック */
+  onStep?: (step: ScenarioStep, index: number) => void;
+}
+
+/**
+ * シナリオの内容が不正な場合にスローされるエラー
+ */
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+const CHANNEL_ID_PATTERN = /^[A-Z0-9]+$/;
+const TS_PATTERN = /^\d+\.\d{6}$/;
+
+// 自動投稿の件数の上限
+const MAX_BOT_COUNT = 10000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(record: Record<string, unknown>, key: string, context: string): string {
+  const value = record[key];
+  if (typeof value !== 'string' || value === '') {
+    throw new ScenarioError(`${context}: "${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireStringArray(record: Record<string, unknown>, key: string, context: string): string[] {
+  const value = record[key];
+  if (!Array.isArray(value) || value.length === 0 || !value.every((item) => typeof item === 'string' && item !== '')) {
+    throw new ScenarioError(`${context}: "${key}" must be a non-empty array of strings`);
+  }
+  return value as string[];
+}
+
+function optionalNumber(record: Record<string, unknown>, key: string, context: string, fallback: number): number {
+  const value = record[key] ?? fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ScenarioError(`${context}: "${key}" must be a non-negative number`);
+  }
+  return value;
+}
+
+function requireStringMap(record: Record<string, unknown>, key: string): Record<string, string> {
+  const value = record[key] ?? {};
+  if (!isRecord(value) || !Object.values(value).every((item) => typeof item === 'string')) {
+    throw new ScenarioError(`"${key}" must be an object of strings`);
+  }
+  return value as Record<string, string>;
+}
+
+function parseStep(value: unknown, index: number, refs: Set<string>): ScenarioStep {
+  const context = `steps[${index}]`;
+  if (!isRecord(value)) {
+    throw new ScenarioError(`${context} must be an object`);
+  }
+  const after = optionalNumber(value, 'after', context, 0);
+
+  // 参照先の投稿が前のステップで定義されていることを確認
+  const requireRef = (): string => {
+    const ref = requireString(value, 'ref', context);
+    if (!refs.has(ref)) {
+      throw new ScenarioError(`${context}: unknown ref "${ref}"`);
+    }
+    return ref;
+  };
+
+  switch (value['action']) {
+    case 'post': {
+      const step: ScenarioStep = {
+        action: 'post',
+        after,
+        user: requireString(value, 'user', context),
+        text: requireString(value, 'text', context),
+      };
+      if (value['ref'] !== undefined) {
+        step.ref = requireString(value, 'ref', context);
+        refs.add(step.ref);
+      }
+      return step;
+    }
+    case 'edit':
+      return { action: 'edit', after, ref: requireRef(), text: requireString(value, 'text', context) };
+    case 'delete':
+      return { action: 'delete', after, ref: requireRef() };
+    case 'react':
+      return {
+        action: 'react',
+        after,
+        ref: requireRef(),
+        user: requireString(value, 'user', context),
+        reaction: requireString(value, 'reaction', context),
+      };
+    case 'bot': {
+      const count = optionalNumber(value, 'count', context, 10);
+      if (!Number.isInteger(count) || count > MAX_BOT_COUNT) {
+        throw new ScenarioError(`${context}: "count" must be an integer up to ${MAX_BOT_COUNT}`);
+      }
+      return {
+        action: 'bot',
+        after,
+        count,
+        interval: optionalNumber(value, 'interval', context, 1000),
+        users: requireStringArray(value, 'users', context),
+        texts: requireStringArray(value, 'texts', context),
+      };
+    }
+    default:
+      throw new ScenarioError(`${context}: unknown action ${JSON.stringify(value['action'])}`);
+  }
+}
+
+/**
+ * シナリオファイルの内容を検証
+ * @throws ScenarioError 内容が不正な場合
+ */
+export function parseScenario(value: unknown): Scenario {
+  if (!isRecord(value)) {
+    throw new ScenarioError('Scenario must be an object');
+  }
+  const channel = requireString(value, 'channel', 'scenario');
+  if (!CHANNEL_ID_PATTERN.test(channel)) {
+    throw new ScenarioError('scenario: "channel" must be a channel ID (e.g. C0123456789)');
+  }
+  const threadTs = requireString(value, 'threadTs', 'scenario');
+  if (!TS_PATTERN.test(threadTs)) {
+    throw new ScenarioError('scenario: "threadTs" must be a Slack timestamp (e.g. 1705200000.000000)');
+  }
+
+  const history = value['history'] ?? [];
+  if (!Array.isArray(history)) {
+    throw new ScenarioError('"history" must be an array');
+  }
+  const steps = value['steps'];
+  if (!Array.isArray(steps)) {
+    throw new ScenarioError('"steps" must be an array');
+  }
+
+  const refs = new Set<string>();
+  return {
+    name: typeof value['name'] === 'string' ? value['name'] : 'scenario',
+    channel,
+    threadTs,
+    users: requireStringMap(value, 'users'),
+    emoji: requireStringMap(value, 'emoji'),
+    history: history.map((item: unknown, index) => {
+      if (!isRecord(item)) {
+        throw new ScenarioError(`history[${index}] must be an object`);
+      }
+      return {
+        user: requireString(item, 'user', `history[${index}]`),
+        text: requireString(item, 'text', `history[${index}]`),
+      };
+    }),
+    steps: steps.map((step: unknown, index) => parseStep(step, index, refs)),
+  };
+}
+
+/**
+ * シナリオのスレッドURL（オーバーレイサーバーの監視対象に指定する）
+ */
+export function getScenarioThreadUrl(scenario: Scenario): string {
+  return `https://mock.slack.com/archives/${scenario.channel}/p${scenario.threadTs.replace('.', '')}`;
+}
+
+/**
+ * シナリオのユーザー・絵文字・スレッドをモックSlackに登録
+ * スレッドの親メッセージと起動前からある返信は、イベントを送信せずに保存する
+ */
+export function setupScenario(server: MockSlackServer, scenario: Scenario): void {
+  for (const [id, name] of Object.entries(scenario.users)) {
+    server.addUser(id, name);
+  }
+  for (const [name, url] of Object.entries(scenario.emoji)) {
+    server.addEmoji(name, url);
+  }
+  const author = Object.keys(scenario.users)[0] ?? 'UMOCKHOST';
+  server.seedMessage({ channel: scenario.channel, user: author, text: scenario.name, ts: scenario.threadTs });
+  for (const reply of scenario.history) {
+    server.seedMessage({ channel: scenario.channel, threadTs: scenario.threadTs, ...reply });
+  }
+}
+
+const defaultSleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * シナリオのステップを順番に実行し、モックSlackからイベントを送信する
+ */
+export async function runScenario(
+  server: MockSlackServer,
+  scenario: Scenario,
+  options: RunScenarioOptions = {}
+): Promise<void> {
+  const speed = options.speed ?? 1;
+  const sleep = options.sleep ?? defaultSleep;
+  const wait = (ms: number): Promise<void> | undefined => (ms > 0 ? sleep(ms / speed) : undefined);
+  const { channel, threadTs } = scenario;
+  // ref → 投稿のts
+  const posted = new Map<string, string>();
+  const lookup = (ref: string): string => posted.get(ref)!;
+
+  for (const [index, step] of scenario.steps.entries()) {
+    await wait(step.after);
+    switch (step.action) {
+      case 'post': {
+        const ts = await server.postMessage({ channel, threadTs, user: step.user, text: step.text });
+        if (step.ref) posted.set(step.ref, ts);
+        break;
+      }
+      case 'edit':
+        await server.editMessage(channel, lookup(step.ref), step.text);
+        break;
+      case 'delete':
+        await server.deleteMessage(channel, lookup(step.ref));
+        break;
+      case 'react':
+        await server.addReaction(channel, lookup(step.ref), step.user, step.reaction);
+        break;
+      case 'bot':
+        for (let i = 0; i < step.count; i++) {
+          if (i > 0) await wait(step.interval);
+          await server.postMessage({
+            channel,
+            threadTs,
+            user: step.users[i % step.users.length]!,
+            text: step.texts[i % step.texts.length]!,
+          });
+        }
+        break;
+    }
+    options.onStep?.(step, index);
+  }
+}
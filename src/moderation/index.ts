@@ -0,0 +1,4 @@
+export type { ModerationQueue, ModerationQueueOptions } from './moderationQueue.js';
+export { createModerationQueue, loadModerationSettings } from './moderationQueue.js';
+export type { PauseBuffer, PauseBufferOptions } from './pauseBuffer.js';
+export { createPauseBuffer } from './pauseBuffer.js';
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createModerationQueue, loadModerationSettings } from './moderationQueue.js';
+import type { CommentMessage } from '../types/index.js';
+
+function createComment(id: string, text = 'hello'): CommentMessage {
+  return {
+    type: 'comment',
+    id,
+    text,
+    userName: 'alice',
+    userColor: '#FF6B6B',
+    threadId: 'C1/0',
+    threadLabel: '',
+  };
+}
+
+describe('loadModerationSettings', () => {
+  it('環境変数から設定を読み込む', () => {
+    expect(loadModerationSettings({
+      MODERATION_ENABLED: 'true',
+      MODERATION_AUTO_APPROVE_SECONDS: '10',
+    })).toEqual({ enabled: true, autoApproveSeconds: 10 });
+  });
+
+  it('未設定・不正な値の場合は無効・自動承認なしになる', () => {
+    expect(loadModerationSettings({})).toEqual({ enabled: false, autoApproveSeconds: null });
+    expect(loadModerationSettings({ MODERATION_AUTO_APPROVE_SECONDS: '-1' }).autoApproveSeconds).toBeNull();
+    expect(loadModerationSettings({ MODERATION_AUTO_APPROVE_SECONDS: '1.5' }).autoApproveSeconds).toBeNull();
+  });
+});
+
+describe('createModerationQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('承認したコメントのみ onApprove に渡す', () => {
+    const onApprove = vi.fn();
+    const queue = createModerationQueue({ settings: { enabled: true }, onApprove });
+    queue.enqueue(createComment('C1/1'));
+    queue.enqueue(createComment('C1/2'));
+
+    expect(queue.approve('C1/1')).toBe(true);
+    expect(queue.reject('C1/2')).toBe(true);
+
+    expect(onApprove).toHaveBeenCalledTimes(1);
+    expect(onApprove).toHaveBeenCalledWith(createComment('C1/1'));
+    expect(queue.snapshot().items).toEqual([]);
+  });
+
+  it('存在しないコメントの承認・却下は false を返す', () => {
+    const queue = createModerationQueue({ onApprove: vi.fn() });
+
+    expect(queue.approve('C1/1')).toBe(false);
+    expect(queue.reject('C1/1')).toBe(false);
+  });
+
+  it('指定秒数が経過したコメントを自動承認する', () => {
+    const onApprove = vi.fn();
+    const queue = createModerationQueue({
+      settings: { enabled: true, autoApproveSeconds: 5 },
+      onApprove,
+    });
+    queue.enqueue(createComment('C1/1'));
+
+    expect(queue.snapshot().items[0]?.autoApproveAt).toBe(Date.now() + 5000);
+    vi.advanceTimersByTime(4999);
+    expect(onApprove).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onApprove).toHaveBeenCalledTimes(1);
+    expect(queue.snapshot().items).toEqual([]);
+  });
+
+  it('NGワードで保留したコメントは自動承認しない', () => {
+    const onApprove = vi.fn();
+    const queue = createModerationQueue({
+      settings: { enabled: true, autoApproveSeconds: 5 },
+      onApprove,
+    });
+    queue.enqueue(createComment('C1/1'), 'filter');
+    queue.enqueue(createComment('C1/2'));
+
+    expect(queue.snapshot().items[0]?.autoApproveAt).toBeNull();
+    vi.advanceTimersByTime(10000);
+    expect(onApprove).toHaveBeenCalledTimes(1);
+    expect(onApprove).toHaveBeenCalledWith(expect.objectContaining({ id: 'C1/2' }));
+    expect(queue.snapshot().items.map((item) => item.id)).toEqual(['C1/1']);
+
+    // 設定を変更しても自動承認しない
+    queue.updateSettings({ autoApproveSeconds: 1 });
+    vi.advanceTimersByTime(10000);
+    expect(queue.snapshot().items.map((item) => item.id)).toEqual(['C1/1']);
+  });
+
+  it('自動承認の設定変更を承認待ちのコメントにも適用する', () => {
+    const onApprove = vi.fn();
+    const queue = createModerationQueue({ settings: { enabled: true }, onApprove });
+    queue.enqueue(createComment('C1/1'));
+
+    vi.advanceTimersByTime(3000);
+    queue.updateSettings({ autoApproveSeconds: 5 });
+    vi.advanceTimersByTime(1999);
+    expect(onApprove).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onApprove).toHaveBeenCalledTimes(1);
+
+    queue.enqueue(createComment('C1/2'));
+    queue.updateSettings({ autoApproveSeconds: null });
+    vi.advanceTimersByTime(10000);
+    expect(onApprove).toHaveBeenCalledTimes(1);
+    expect(queue.snapshot().items[0]?.autoApproveAt).toBeNull();
+  });
+
+  it('不正な自動承認秒数はエラーになり設定を変更しない', () => {
+    const queue = createModerationQueue({ onApprove: vi.fn() });
+
+    expect(() => queue.updateSettings({ enabled: true, autoApproveSeconds: 0 })).toThrow();
+    expect(queue.getSettings()).toEqual({ enabled: false, autoApproveSeconds: null });
+  });
+
+  it('承認待ちのコメントの編集・削除を反映する', () => {
+    const onApprove = vi.fn();
+    const queue = createModerationQueue({ settings: { enabled: true }, onApprove });
+    queue.enqueue(createComment('C1/1'));
+    queue.enqueue(createComment('C1/2'));
+
+    expect(queue.update('C1/1', 'edited')).toBe(true);
+    expect(queue.remove('C1/2')).toBe(true);
+    expect(queue.update('C1/2', 'edited')).toBe(false);
+
+    queue.approve('C1/1');
+    expect(onApprove).toHaveBeenCalledWith(createComment('C1/1', 'edited'));
+  });
+
+  it('状態が変化するたびに onChange を呼ぶ', () => {
+    const onChange = vi.fn();
+    const queue = createModerationQueue({ settings: { enabled: true }, onApprove: vi.fn(), onChange });
+    queue.enqueue(createComment('C1/1'));
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      settings: { enabled: true, autoApproveSeconds: null },
+      items: [expect.objectContaining({ id: 'C1/1' })],
+    });
+
+    queue.approve('C1/1');
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ items: [] }));
+  });
+
+  it('dispose 後は自動承認しない', () => {
+    const onApprove = vi.fn();
+    const queue = createModerationQueue({
+      settings: { enabled: true, autoApproveSeconds: 1 },
+      onApprove,
+    });
+    queue.enqueue(createComment('C1/1'));
+    queue.dispose();
+    vi.advanceTimersByTime(5000);
+
+    expect(onApprove).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,190 @@
+import type {
+  CommentMessage,
+  ModerationItem,
+  ModerationReason,
+  ModerationSettings,
+  ModerationSnapshot,
+} from '../types/index.js';
+
+// ============================================
+// モデレーションキュー - インターフェース
+// ============================================
+export interface ModerationQueue {
+  /** 新しいコメントをキューに保留するか */
+  isEnabled: () => boolean;
+  /** 現在の設定を取得 */
+  getSettings: () => ModerationSettings;
+  /** 設定を更新（自動承認の時刻は既存のコメントにも再適用する） */
+  updateSettings: (settings: Partial<ModerationSettings>) => ModerationSettings;
+  /** コメントを承認待ちにする（設定が無効でも保留する） */
+  enqueue: (comment: CommentMessage, reason?: ModerationReason) => void;
+  /** 承認してオーバーレイに表示する */
+  approve: (id: string) => boolean;
+  /** 却下する（表示しない） */
+  reject: (id: string) => boolean;
+  /** 承認待ちのコメントを編集後の内容に更新する */
+  update: (id: string, text: string, emojis?: Record<string, string>) => boolean;
+  /** 承認待ちのコメントを取り除く（Slack側で削除された場合など） */
+  remove: (id: string) => boolean;
+  /** キューの状態を取得 */
+  snapshot: () => ModerationSnapshot;
+  /** 自動承認タイマーを全て解除する */
+  dispose: () => void;
+}
+
+/**
+ * ModerationQueueの設定オプション
+ */
+export interface ModerationQueueOptions {
+  /** 初期設定 */
+  settings?: Partial<ModerationSettings>;
+  /** 承認されたコメントを受け取るコールバック */
+  onApprove: (comment: CommentMessage) => void;
+  /** キューの状態が変化した際のコールバック */
+  onChange?: (snapshot: ModerationSnapshot) => void;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * 環境変数からモデレーション設定を読み込む
+ * - MODERATION_ENABLED=true で有効
+ * - MODERATION_AUTO_APPROVE_SECONDS に正の整数を指定すると自動承認
+ */
+export function loadModerationSettings(env: NodeJS.ProcessEnv): ModerationSettings {
+  const seconds = Number(env['MODERATION_AUTO_APPROVE_SECONDS']);
+  return {
+    enabled: env['MODERATION_ENABLED'] === 'true',
+    autoApproveSeconds: Number.isInteger(seconds) && seconds > 0 ? seconds : null,
+  };
+}
+
+/**
+ * 自動承認秒数を検証する
+ * @throws Error 正の整数または null 以外の場合
+ */
+function validateAutoApproveSeconds(value: unknown): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value;
+  throw new Error('autoApproveSeconds must be a positive integer or null');
+}
+
+// ============================================
+// モデレーションキュー - ファクトリ関数
+// ============================================
+
+/**
+ * オーバーレイに表示する前にコメントを保留するモデレーションキューを生成
+ */
+export function createModerationQueue(options: ModerationQueueOptions): ModerationQueue {
+  const now = options.now ?? Date.now;
+  let settings: ModerationSettings = {
+    enabled: options.settings?.enabled ?? false,
+    autoApproveSeconds: options.settings?.autoApproveSeconds ?? null,
+  };
+  const items = new Map<string, ModerationItem>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const snapshot = (): ModerationSnapshot => ({
+    settings: { ...settings },
+    items: Array.from(items.values(), (item) => ({ ...item })),
+  });
+
+  const notify = (): void => {
+    options.onChange?.(snapshot());
+  };
+
+  const clearTimer = (id: string): void => {
+    const timer = timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(id);
+    }
+  };
+
+  // 自動承認の時刻を設定し、タイマーを張り直す
+  // NGワードで保留したコメントは必ず人が確認するため、自動承認しない
+  const schedule = (item: ModerationItem): void => {
+    clearTimer(item.id);
+    if (settings.autoApproveSeconds === null || item.reason === 'filter') {
+      item.autoApproveAt = null;
+      return;
+    }
+    item.autoApproveAt = item.receivedAt + settings.autoApproveSeconds * 1000;
+    const delay = Math.max(0, item.autoApproveAt - now());
+    timers.set(item.id, setTimeout(() => {
+      timers.delete(item.id);
+      approve(item.id);
+    }, delay));
+  };
+
+  const take = (id: string): ModerationItem | undefined => {
+    const item = items.get(id);
+    if (!item) return undefined;
+    clearTimer(id);
+    items.delete(id);
+    return item;
+  };
+
+  function approve(id: string): boolean {
+    const item = take(id);
+    if (!item) return false;
+    options.onApprove(item.comment);
+    notify();
+    return true;
+  }
+
+  return {
+    isEnabled: () => settings.enabled,
+    getSettings: () => ({ ...settings }),
+    updateSettings: (next) => {
+      settings = {
+        enabled: next.enabled ?? settings.enabled,
+        autoApproveSeconds: next.autoApproveSeconds === undefined
+          ? settings.autoApproveSeconds
+          : validateAutoApproveSeconds(next.autoApproveSeconds),
+      };
+      for (const item of items.values()) {
+        schedule(item);
+      }
+      notify();
+      return { ...settings };
+    },
+    enqueue: (comment, reason = 'moderation') => {
+      const item: ModerationItem = {
+        id: comment.id,
+        comment,
+        reason,
+        receivedAt: now(),
+        autoApproveAt: null,
+      };
+      items.set(item.id, item);
+      schedule(item);
+      notify();
+    },
+    approve,
+    reject: (id) => {
+      if (!take(id)) return false;
+      notify();
+      return true;
+    },
+    update: (id, text, emojis) => {
+      const item = items.get(id);
+      if (!item) return false;
+      item.comment = { ...item.comment, text, emojis: emojis ?? item.comment.emojis };
+      notify();
+      return true;
+    },
+    remove: (id) => {
+      if (!take(id)) return false;
+      notify();
+      return true;
+    },
+    snapshot,
+    dispose: () => {
+      for (const id of timers.keys()) {
+        clearTimer(id);
+      }
+    },
+  };
+}
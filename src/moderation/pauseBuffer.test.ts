@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPauseBuffer } from './pauseBuffer.js';
+import { createModerationQueue } from './moderationQueue.js';
+import type { CommentMessage, WebSocketMessage } from '../types/index.js';
+
+function createComment(id: string, text = 'hello'): CommentMessage {
+  return {
+    type: 'comment',
+    id,
+    text,
+    userName: 'alice',
+    userColor: '#FF6B6B',
+    threadId: 'C1/0',
+    threadLabel: '',
+  };
+}
+
+describe('createPauseBuffer', () => {
+  it('一時停止中でなければ保留しない', () => {
+    const buffer = createPauseBuffer({ onRelease: vi.fn() });
+
+    expect(buffer.isPaused()).toBe(false);
+    expect(buffer.hold(createComment('C1/1'))).toBe(false);
+    expect(buffer.size()).toBe(0);
+  });
+
+  it('一時停止中のコメントを保留し、再開時に届いた順に配信する', () => {
+    const onRelease = vi.fn();
+    const buffer = createPauseBuffer({ onRelease });
+
+    expect(buffer.setPaused(true)).toBe(true);
+    expect(buffer.hold(createComment('C1/1'))).toBe(true);
+    expect(buffer.hold(createComment('C1/2'))).toBe(true);
+    expect(onRelease).not.toHaveBeenCalled();
+
+    expect(buffer.setPaused(false)).toBe(true);
+    expect(onRelease.mock.calls.map(([comment]) => comment.id)).toEqual(['C1/1', 'C1/2']);
+    expect(buffer.size()).toBe(0);
+  });
+
+  it('状態が変わらない場合は false を返す', () => {
+    const onRelease = vi.fn();
+    const buffer = createPauseBuffer({ onRelease });
+
+    expect(buffer.setPaused(false)).toBe(false);
+    buffer.setPaused(true);
+    buffer.hold(createComment('C1/1'));
+    expect(buffer.setPaused(true)).toBe(false);
+    expect(onRelease).not.toHaveBeenCalled();
+  });
+
+  it('保留中のコメントの編集・削除を反映する', () => {
+    const onRelease = vi.fn();
+    const buffer = createPauseBuffer({ onRelease });
+    buffer.setPaused(true);
+    buffer.hold(createComment('C1/1'));
+    buffer.hold(createComment('C1/2'));
+
+    expect(buffer.hold({ type: 'comment_update', id: 'C1/1', text: 'edited' })).toBe(true);
+    expect(buffer.hold({ type: 'comment_retract', id: 'C1/2' })).toBe(true);
+    // 表示済みのコメントの編集・削除はそのまま配信する
+    expect(buffer.hold({ type: 'comment_update', id: 'C1/0', text: 'edited' })).toBe(false);
+    expect(buffer.hold({ type: 'comment_retract', id: 'C1/0' })).toBe(false);
+
+    buffer.setPaused(false);
+    expect(onRelease).toHaveBeenCalledTimes(1);
+    expect(onRelease).toHaveBeenCalledWith(expect.objectContaining({ id: 'C1/1', text: 'edited' }));
+  });
+
+  it('コメント以外のメッセージは保留しない', () => {
+    const buffer = createPauseBuffer({ onRelease: vi.fn() });
+    buffer.setPaused(true);
+
+    expect(buffer.hold({ type: 'counter', count: 1 })).toBe(false);
+    expect(buffer.hold({ type: 'clear' })).toBe(false);
+  });
+
+  it('上限を超えた場合は古いコメントから破棄する', () => {
+    const onRelease = vi.fn();
+    const buffer = createPauseBuffer({ onRelease, maxSize: 2 });
+    buffer.setPaused(true);
+    buffer.hold(createComment('C1/1'));
+    buffer.hold(createComment('C1/2'));
+    buffer.hold(createComment('C1/3'));
+
+    buffer.setPaused(false);
+    expect(onRelease.mock.calls.map(([comment]) => comment.id)).toEqual(['C1/2', 'C1/3']);
+  });
+
+  it('一時停止中に承認したコメントを再開時に配信する', () => {
+    const sent: WebSocketMessage[] = [];
+    const broadcast = (message: WebSocketMessage): void => {
+      if (buffer.hold(message)) return;
+      sent.push(message);
+    };
+    const buffer = createPauseBuffer({ onRelease: broadcast });
+    const queue = createModerationQueue({ settings: { enabled: true }, onApprove: broadcast });
+    queue.enqueue(createComment('C1/1'));
+
+    buffer.setPaused(true);
+    expect(queue.approve('C1/1')).toBe(true);
+    expect(sent).toEqual([]);
+
+    buffer.setPaused(false);
+    expect(sent).toEqual([createComment('C1/1')]);
+  });
+});
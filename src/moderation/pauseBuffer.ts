@@ -0,0 +1,87 @@
+import type { CommentMessage, WebSocketMessage } from '../types/index.js';
+
+// ============================================
+// 一時停止中のコメントの保留 - インターフェース
+// ============================================
+export interface PauseBuffer {
+  /** 一時停止中か */
+  isPaused: () => boolean;
+  /**
+   * 一時停止・再開する（再開時は保留したコメントを届いた順に onRelease に渡す）
+   * @returns 状態が変化した場合は true
+   */
+  setPaused: (paused: boolean) => boolean;
+  /**
+   * 一時停止中ならコメント関連のメッセージを保留する
+   * 保留中のコメントの編集・削除は保留中のコメントに反映する
+   * @returns 保留した（配信しない）場合は true
+   */
+  hold: (message: WebSocketMessage) => boolean;
+  /** 保留中のコメント数 */
+  size: () => number;
+}
+
+/**
+ * PauseBufferの設定オプション
+ */
+export interface PauseBufferOptions {
+  /** 再開時に保留したコメントを受け取るコールバック */
+  onRelease: (comment: CommentMessage) => void;
+  /** 保留するコメントの上限（超えた場合は古いものから破棄する） */
+  maxSize?: number;
+}
+
+const DEFAULT_MAX_SIZE = 200;
+
+// ============================================
+// 一時停止中のコメントの保留 - ファクトリ関数
+// ============================================
+
+/**
+ * 一時停止中に届いた（承認された）コメントを保留し、再開時に配信するバッファを生成
+ */
+export function createPauseBuffer(options: PauseBufferOptions): PauseBuffer {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  // 挿入順を保持するため Map を使用する
+  const comments = new Map<string, CommentMessage>();
+  let paused = false;
+
+  return {
+    isPaused: () => paused,
+    setPaused: (next) => {
+      if (next === paused) return false;
+      paused = next;
+      if (!paused) {
+        const released = Array.from(comments.values());
+        comments.clear();
+        for (const comment of released) {
+          options.onRelease(comment);
+        }
+      }
+      return true;
+    },
+    hold: (message) => {
+      switch (message.type) {
+        case 'comment':
+          if (!paused) return false;
+          comments.set(message.id, message);
+          if (comments.size > maxSize) {
+            const [oldest] = comments.keys();
+            comments.delete(oldest!);
+          }
+          return true;
+        case 'comment_update': {
+          const comment = comments.get(message.id);
+          if (!comment) return false;
+          comments.set(message.id, { ...comment, text: message.text, emojis: message.emojis ?? comment.emojis });
+          return true;
+        }
+        case 'comment_retract':
+          return comments.delete(message.id);
+        default:
+          return false;
+      }
+    },
+    size: () => comments.size,
+  };
+}
@@ -0,0 +1,22 @@
+export {
+  COUNTER_POSITIONS,
+  DEFAULT_OVERLAY_CONFIG,
+  OverlayConfigError,
+  getCounterColor,
+  parseOverlayConfig,
+} from './overlayConfig.js';
+export type { OverlayConfigWatcher, OverlayConfigWatcherOptions } from './overlayConfigFile.js';
+export {
+  loadOverlayConfig,
+  loadOverlayConfigFromEnv,
+  resolveOverlayConfigPath,
+  saveOverlayConfig,
+  watchOverlayConfig,
+} from './overlayConfigFile.js';
+export {
+  deleteOverlayPreset,
+  loadOverlayPresets,
+  parsePresetName,
+  resolveOverlayPresetsPath,
+  saveOverlayPreset,
+} from './overlayPresets.js';
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_OVERLAY_CONFIG,
+  OverlayConfigError,
+  getCounterColor,
+  parseOverlayConfig,
+} from './overlayConfig.js';
+import { loadOverlayConfigFromEnv } from './overlayConfigFile.js';
+import { FIXED_DISPLAY_DURATION, FLOW_DURATION_MS, LANE_COUNT, USABLE_RANGE_END, USABLE_RANGE_START } from '../laneManager.js';
+
+describe('parseOverlayConfig', () => {
+  it('省略した項目をデフォルト値で補う', () => {
+    expect(parseOverlayConfig({})).toEqual(DEFAULT_OVERLAY_CONFIG);
+    expect(parseOverlayConfig({ laneCount: 6, font: { outlineWidth: 3 } })).toEqual({
+      ...DEFAULT_OVERLAY_CONFIG,
+      laneCount: 6,
+      font: { ...DEFAULT_OVERLAY_CONFIG.font, outlineWidth: 3 },
+    });
+  });
+
+  it('カウンターの閾値を count の昇順に並べる', () => {
+    const config = parseOverlayConfig({
+      counter: {
+        position: 'top-right',
+        thresholds: [
+          { count: 10, color: '#FF0000' },
+          { count: 0, color: '#FFFFFF' },
+        ],
+      },
+    });
+    expect(config.counter).toEqual({
+      visible: true,
+      position: 'top-right',
+      thresholds: [
+        { count: 0, color: '#FFFFFF' },
+        { count: 10, color: '#FF0000' },
+      ],
+    });
+  });
+
+  it('除外範囲を受け付ける', () => {
+    const exclusions = [{ x: 0.75, y: 0.7, width: 0.25, height: 0.3 }];
+    expect(parseOverlayConfig({ exclusions }).exclusions).toEqual(exclusions);
+  });
+
+  it.each([
+    ['オブジェクト以外', []],
+    ['レーン数が範囲外', { laneCount: 0 }],
+    ['レーン数が整数でない', { laneCount: 2.5 }],
+    ['表示範囲の開始が終了以降', { usableRange: { start: 0.8, end: 0.2 } }],
+    ['除外範囲が配列でない', { exclusions: { x: 0, y: 0, width: 1, height: 1 } }],
+    ['除外範囲の大きさが未指定', { exclusions: [{ x: 0, y: 0, width: 0.5 }] }],
+    ['除外範囲が画面からはみ出す', { exclusions: [{ x: 0.8, y: 0, width: 0.5, height: 0.2 }] }],
+    ['除外範囲の大きさが0', { exclusions: [{ x: 0, y: 0, width: 0, height: 0.2 }] }],
+    ['流れる秒数が数値でない', { flowDurationSeconds: '8' }],
+    ['色の形式が不正', { font: { outlineColor: 'red' } }],
+    ['フォント名に使えない文字', { font: { family: 'a; } body { display: none' } }],
+    ['カウンターの位置が不明', { counter: { position: 'center' } }],
+    ['閾値の色が未指定', { counter: { thresholds: [{ count: 0 }] } }],
+    ['閾値が空', { counter: { thresholds: [] } }],
+  ])('不正な内容はエラーにする（%s）', (_name, value) => {
+    expect(() => parseOverlayConfig(value)).toThrow(OverlayConfigError);
+  });
+});
+
+describe('DEFAULT_OVERLAY_CONFIG', () => {
+  it('レーンと表示時間はオーバーレイの既定値と一致する', () => {
+    expect(DEFAULT_OVERLAY_CONFIG.laneCount).toBe(LANE_COUNT);
+    expect(DEFAULT_OVERLAY_CONFIG.usableRange).toEqual({ start: USABLE_RANGE_START, end: USABLE_RANGE_END });
+    expect(DEFAULT_OVERLAY_CONFIG.flowDurationSeconds * 1000).toBe(FLOW_DURATION_MS);
+    expect(DEFAULT_OVERLAY_CONFIG.fixedDurationSeconds * 1000).toBe(FIXED_DISPLAY_DURATION);
+  });
+});
+
+describe('getCounterColor', () => {
+  const thresholds = DEFAULT_OVERLAY_CONFIG.counter.thresholds;
+
+  it('コメント数が閾値以上の最後の色を返す', () => {
+    expect(getCounterColor(0, thresholds)).toBe('#4CAF50');
+    expect(getCounterColor(24, thresholds)).toBe('#4CAF50');
+    expect(getCounterColor(25, thresholds)).toBe('#FFEB3B');
+    expect(getCounterColor(100, thresholds)).toBe('#FFD700');
+  });
+
+  it('最小の閾値未満の場合は最初の色を返す', () => {
+    expect(getCounterColor(1, [{ count: 5, color: '#FF0000' }])).toBe('#FF0000');
+  });
+});
+
+describe('loadOverlayConfigFromEnv', () => {
+  it('OVERLAY_CONFIG のJSONを読み込む', () => {
+    expect(loadOverlayConfigFromEnv({ OVERLAY_CONFIG: '{"laneCount": 5}' })?.laneCount).toBe(5);
+  });
+
+  it('未設定の場合は undefined を返す', () => {
+    expect(loadOverlayConfigFromEnv({})).toBeUndefined();
+  });
+
+  it('JSONとして不正な場合はエラーにする', () => {
+    expect(() => loadOverlayConfigFromEnv({ OVERLAY_CONFIG: '{' })).toThrow(OverlayConfigError);
+    expect(() => loadOverlayConfigFromEnv({ OVERLAY_CONFIG: '{' })).toThrow('Overlay config is not valid JSON: OVERLAY_CONFIG');
+  });
+});
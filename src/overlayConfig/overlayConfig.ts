@@ -0,0 +1,215 @@
+import type { CounterPosition, CounterThreshold, ExclusionArea, OverlayConfig } from '../types/index.js';
+import {
+  FIXED_DISPLAY_DURATION,
+  FLOW_DURATION_MS,
+  LANE_COUNT,
+  USABLE_RANGE_END,
+  USABLE_RANGE_START,
+} from '../laneManager.js';
+
+/**
+ * オーバーレイの表示設定が不正な場合にスローされるエラー
+ */
+export class OverlayConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OverlayConfigError';
+  }
+}
+
+export const COUNTER_POSITIONS: readonly CounterPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/**
+ * デフォルトの表示設定（設定ファイルで省略した項目に使用）
+ * レーンと表示時間はオーバーレイの既定値（laneManager）と揃える
+ */
+export const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
+  laneCount: LANE_COUNT,
+  usableRange: { start: USABLE_RANGE_START, end: USABLE_RANGE_END },
+  exclusions: [],
+  flowDurationSeconds: FLOW_DURATION_MS / 1000,
+  fixedDurationSeconds: FIXED_DISPLAY_DURATION / 1000,
+  font: {
+    family: "'Noto Sans JP', sans-serif",
+    weight: 700,
+    outlineWidth: 2,
+    outlineColor: '#000000',
+    opacity: 1,
+  },
+  counter: {
+    visible: true,
+    position: 'bottom-left',
+    thresholds: [
+      { count: 0, color: '#4CAF50' }, // 平穏
+      { count: 25, color: '#FFEB3B' }, // 盛り上がり開始
+      { count: 50, color: '#FF9800' }, // 熱くなってきた
+      { count: 100, color: '#FFD700' }, // 最高潮
+    ],
+  },
+};
+
+const MAX_LANE_COUNT = 30;
+const MAX_DURATION_SECONDS = 60;
+const MAX_OUTLINE_WIDTH = 10;
+const MAX_COUNTER_THRESHOLDS = 10;
+const MAX_EXCLUSIONS = 10;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+// セキュリティ: CSSとして解釈される値のため、フォント名に使う文字のみ許可
+const FONT_FAMILY_PATTERN = /^[\p{L}\p{N} _,'"-]{1,200}$/u;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 省略可能なオブジェクトの項目を取得
+ */
+function optionalRecord(record: Record<string, unknown>, key: string): Record<string, unknown> {
+  const value = record[key] ?? {};
+  if (!isRecord(value)) {
+    throw new OverlayConfigError(`"${key}" must be an object`);
+  }
+  return value;
+}
+
+function numberInRange(value: unknown, name: string, min: number, max: number, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new OverlayConfigError(`"${name}" must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function integerInRange(value: unknown, name: string, min: number, max: number, fallback: number): number {
+  const result = numberInRange(value, name, min, max, fallback);
+  if (!Number.isInteger(result)) {
+    throw new OverlayConfigError(`"${name}" must be an integer`);
+  }
+  return result;
+}
+
+function color(value: unknown, name: string, fallback: string): string {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+    throw new OverlayConfigError(`"${name}" must be a color like #RRGGBB`);
+  }
+  return value;
+}
+
+function parseThresholds(value: unknown): CounterThreshold[] {
+  if (value === undefined) return [...DEFAULT_OVERLAY_CONFIG.counter.thresholds];
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_COUNTER_THRESHOLDS) {
+    throw new OverlayConfigError(`"counter.thresholds" must be an array of 1 to ${MAX_COUNTER_THRESHOLDS} items`);
+  }
+  return value
+    .map((item: unknown, index) => {
+      if (!isRecord(item)) {
+        throw new OverlayConfigError(`"counter.thresholds[${index}]" must be an object`);
+      }
+      // count と color は省略できないため、未指定を null として検証する
+      return {
+        count: integerInRange(item['count'] ?? null, `counter.thresholds[${index}].count`, 0, Number.MAX_SAFE_INTEGER, 0),
+        color: color(item['color'] ?? null, `counter.thresholds[${index}].color`, ''),
+      };
+    })
+    .sort((a, b) => a.count - b.count);
+}
+
+function parseExclusions(value: unknown): ExclusionArea[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_EXCLUSIONS) {
+    throw new OverlayConfigError(`"exclusions" must be an array of up to ${MAX_EXCLUSIONS} items`);
+  }
+  return value.map((item: unknown, index) => {
+    if (!isRecord(item)) {
+      throw new OverlayConfigError(`"exclusions[${index}]" must be an object`);
+    }
+    // 位置と大きさは省略できないため、未指定を null として検証する
+    const area = {
+      x: numberInRange(item['x'] ?? null, `exclusions[${index}].x`, 0, 1, 0),
+      y: numberInRange(item['y'] ?? null, `exclusions[${index}].y`, 0, 1, 0),
+      width: numberInRange(item['width'] ?? null, `exclusions[${index}].width`, 0, 1, 0),
+      height: numberInRange(item['height'] ?? null, `exclusions[${index}].height`, 0, 1, 0),
+    };
+    // 浮動小数点の誤差を許容する
+    if (area.width === 0 || area.height === 0 || area.x + area.width > 1 + 1e-9 || area.y + area.height > 1 + 1e-9) {
+      throw new OverlayConfigError(`"exclusions[${index}]" must be a non-empty area inside the screen`);
+    }
+    return area;
+  });
+}
+
+/**
+ * 表示設定を検証し、省略した項目をデフォルト値で補う
+ * @throws OverlayConfigError 内容が不正な場合
+ */
+export function parseOverlayConfig(value: unknown): OverlayConfig {
+  if (!isRecord(value)) {
+    throw new OverlayConfigError('Overlay config must be an object');
+  }
+  const defaults = DEFAULT_OVERLAY_CONFIG;
+
+  const range = optionalRecord(value, 'usableRange');
+  const usableRange = {
+    start: numberInRange(range['start'], 'usableRange.start', 0, 1, defaults.usableRange.start),
+    end: numberInRange(range['end'], 'usableRange.end', 0, 1, defaults.usableRange.end),
+  };
+  if (usableRange.start >= usableRange.end) {
+    throw new OverlayConfigError('"usableRange.start" must be less than "usableRange.end"');
+  }
+
+  const font = optionalRecord(value, 'font');
+  const family = font['family'] ?? defaults.font.family;
+  if (typeof family !== 'string' || !FONT_FAMILY_PATTERN.test(family)) {
+    throw new OverlayConfigError('"font.family" must be a list of font names');
+  }
+
+  const counter = optionalRecord(value, 'counter');
+  const visible = counter['visible'] ?? defaults.counter.visible;
+  if (typeof visible !== 'boolean') {
+    throw new OverlayConfigError('"counter.visible" must be a boolean');
+  }
+  const position = counter['position'] ?? defaults.counter.position;
+  if (!COUNTER_POSITIONS.includes(position as CounterPosition)) {
+    throw new OverlayConfigError(`"counter.position" must be one of ${COUNTER_POSITIONS.join(', ')}`);
+  }
+
+  return {
+    laneCount: integerInRange(value['laneCount'], 'laneCount', 1, MAX_LANE_COUNT, defaults.laneCount),
+    usableRange,
+    exclusions: parseExclusions(value['exclusions']),
+    flowDurationSeconds: numberInRange(
+      value['flowDurationSeconds'], 'flowDurationSeconds', 1, MAX_DURATION_SECONDS, defaults.flowDurationSeconds
+    ),
+    fixedDurationSeconds: numberInRange(
+      value['fixedDurationSeconds'], 'fixedDurationSeconds', 1, MAX_DURATION_SECONDS, defaults.fixedDurationSeconds
+    ),
+    font: {
+      family,
+      weight: integerInRange(font['weight'], 'font.weight', 100, 900, defaults.font.weight),
+      outlineWidth: numberInRange(font['outlineWidth'], 'font.outlineWidth', 0, MAX_OUTLINE_WIDTH, defaults.font.outlineWidth),
+      outlineColor: color(font['outlineColor'], 'font.outlineColor', defaults.font.outlineColor),
+      opacity: numberInRange(font['opacity'], 'font.opacity', 0.1, 1, defaults.font.opacity),
+    },
+    counter: {
+      visible,
+      position: position as CounterPosition,
+      thresholds: parseThresholds(counter['thresholds']),
+    },
+  };
+}
+
+/**
+ * コメント数に応じたカウンターの文字色を返す
+ * @param thresholds count の昇順に並んだ閾値
+ */
+export function getCounterColor(count: number, thresholds: readonly CounterThreshold[]): string {
+  let result = thresholds[0]?.color ?? DEFAULT_OVERLAY_CONFIG.counter.thresholds[0]!.color;
+  for (const threshold of thresholds) {
+    if (count >= threshold.count) {
+      result = threshold.color;
+    }
+  }
+  return result;
+}
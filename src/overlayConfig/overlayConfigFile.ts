@@ -0,0 +1,87 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import type { OverlayConfig } from '../types/index.js';
+import { loadJsonFile, parseJsonContent, watchConfigFile, type ConfigFileWatcher, type JsonFileFormat } from '../configFile/index.js';
+import { DEFAULT_OVERLAY_CONFIG, OverlayConfigError, parseOverlayConfig } from './overlayConfig.js';
+
+// 表示設定ファイルのデフォルトパス（カレントディレクトリからの相対パス）
+const DEFAULT_OVERLAY_CONFIG_PATH = 'overlay.json';
+
+/**
+ * 表示設定ファイルのパスを取得
+ * OVERLAY_CONFIG_PATH で変更可能。イベントごとに別のファイルを指定して切り替える
+ */
+export function resolveOverlayConfigPath(env: NodeJS.ProcessEnv): string {
+  return path.resolve(env['OVERLAY_CONFIG_PATH'] || DEFAULT_OVERLAY_CONFIG_PATH);
+}
+
+// 表示設定ファイル・環境変数 OVERLAY_CONFIG のJSONの形式
+const OVERLAY_CONFIG_FORMAT: JsonFileFormat<OverlayConfig> = {
+  fallback: DEFAULT_OVERLAY_CONFIG,
+  parse: parseOverlayConfig,
+  invalidJson: (source) => new OverlayConfigError(`Overlay config is not valid JSON: ${source}`),
+};
+
+/**
+ * 環境変数 OVERLAY_CONFIG にJSONで指定した表示設定を読み込む
+ * @returns 未設定の場合は undefined（設定ファイルを使用する）
+ * @throws OverlayConfigError 内容が不正な場合
+ */
+export function loadOverlayConfigFromEnv(env: NodeJS.ProcessEnv): OverlayConfig | undefined {
+  const content = env['OVERLAY_CONFIG'];
+  return content ? parseJsonContent(content, 'OVERLAY_CONFIG', OVERLAY_CONFIG_FORMAT) : undefined;
+}
+
+/**
+ * 表示設定ファイルを読み込む
+ * ファイルが存在しない場合はデフォルトの表示設定として扱う
+ * @throws OverlayConfigError 内容が不正な場合
+ */
+export async function loadOverlayConfig(filePath: string): Promise<OverlayConfig> {
+  return loadJsonFile(filePath, OVERLAY_CONFIG_FORMAT);
+}
+
+/**
+ * 表示設定ファイルを書き込む
+ * 実行中のオーバーレイサーバーはファイルの変更を検知して反映する
+ * @throws OverlayConfigError 内容が不正な場合（ファイルは変更しない）
+ */
+export async function saveOverlayConfig(filePath: string, config: unknown): Promise<OverlayConfig> {
+  const parsed = parseOverlayConfig(config);
+  await writeFile(filePath, JSON.stringify(parsed, null, 2) + '\n', 'utf-8');
+  return parsed;
+}
+
+/**
+ * OverlayConfigWatcherの設定オプション
+ */
+export interface OverlayConfigWatcherOptions {
+  /** 表示設定ファイルのパス */
+  filePath: string;
+  /** 再読み込みした表示設定を受け取るコールバック */
+  onChange?: (config: OverlayConfig) => void;
+  /** 読み込み・監視に失敗した場合のコールバック（直前の表示設定を使い続ける） */
+  onError?: (error: unknown) => void;
+  /** 変更検知から再読み込みまでの待ち時間（ミリ秒） */
+  debounceMs?: number;
+}
+
+// ============================================
+// 表示設定の監視 - インターフェース
+// ============================================
+export type OverlayConfigWatcher = ConfigFileWatcher<OverlayConfig>;
+
+// ============================================
+// 表示設定の監視 - ファクトリ関数
+// ============================================
+
+/**
+ * 表示設定ファイルを監視し、変更されたら再起動せずに表示設定を差し替える
+ */
+export async function watchOverlayConfig(options: OverlayConfigWatcherOptions): Promise<OverlayConfigWatcher> {
+  return watchConfigFile({
+    ...options,
+    load: loadOverlayConfig,
+    initial: DEFAULT_OVERLAY_CONFIG,
+  });
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DEFAULT_OVERLAY_CONFIG, OverlayConfigError } from './overlayConfig.js';
+import { loadOverlayConfig, saveOverlayConfig } from './overlayConfigFile.js';
+import { deleteOverlayPreset, loadOverlayPresets, parsePresetName, saveOverlayPreset } from './overlayPresets.js';
+
+describe('parsePresetName', () => {
+  it('前後の空白を除いた名前を返す', () => {
+    expect(parsePresetName('  配信用  ')).toBe('配信用');
+  });
+
+  it('空の名前・長すぎる名前はエラー', () => {
+    expect(() => parsePresetName('   ')).toThrow(OverlayConfigError);
+    expect(() => parsePresetName(undefined)).toThrow(OverlayConfigError);
+    expect(() => parsePresetName('a'.repeat(51))).toThrow(OverlayConfigError);
+  });
+});
+
+describe('表示設定・プリセットの保存', () => {
+  let dir: string;
+  let presetsPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'overlay-presets-'));
+    presetsPath = path.join(dir, 'overlay-presets.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('表示設定を検証してから書き込み、省略した項目はデフォルト値で補う', async () => {
+    const configPath = path.join(dir, 'overlay.json');
+
+    const saved = await saveOverlayConfig(configPath, { laneCount: 12 });
+
+    expect(saved).toEqual({ ...DEFAULT_OVERLAY_CONFIG, laneCount: 12 });
+    expect(await loadOverlayConfig(configPath)).toEqual(saved);
+    await expect(saveOverlayConfig(configPath, { laneCount: 0 })).rejects.toThrow(OverlayConfigError);
+    expect(await loadOverlayConfig(configPath)).toEqual(saved);
+  });
+
+  it('ファイルが存在しない場合はプリセットなし', async () => {
+    expect(await loadOverlayPresets(presetsPath)).toEqual([]);
+  });
+
+  it('同じ名前のプリセットは上書きし、それ以外は追加する', async () => {
+    await saveOverlayPreset(presetsPath, '配信用', { laneCount: 8 });
+    await saveOverlayPreset(presetsPath, '会議用', { laneCount: 4 });
+    const presets = await saveOverlayPreset(presetsPath, '配信用', { laneCount: 16 });
+
+    expect(presets.map((preset) => [preset.name, preset.config.laneCount])).toEqual([
+      ['配信用', 16],
+      ['会議用', 4],
+    ]);
+    expect(await loadOverlayPresets(presetsPath)).toEqual(presets);
+  });
+
+  it('不正な表示設定は保存しない', async () => {
+    await saveOverlayPreset(presetsPath, '配信用', {});
+
+    await expect(saveOverlayPreset(presetsPath, '不正', { font: { opacity: 2 } })).rejects.toThrow(OverlayConfigError);
+    expect((await loadOverlayPresets(presetsPath)).map((preset) => preset.name)).toEqual(['配信用']);
+  });
+
+  it('プリセットを削除し、存在しない場合は null を返す', async () => {
+    await saveOverlayPreset(presetsPath, '配信用', {});
+    await saveOverlayPreset(presetsPath, '会議用', {});
+
+    const presets = await deleteOverlayPreset(presetsPath, '配信用');
+
+    expect(presets?.map((preset) => preset.name)).toEqual(['会議用']);
+    expect(await deleteOverlayPreset(presetsPath, '配信用')).toBeNull();
+  });
+
+  it('ファイルの内容が不正な場合はエラー', async () => {
+    await writeFile(presetsPath, '{', 'utf-8');
+    await expect(loadOverlayPresets(presetsPath)).rejects.toThrow(OverlayConfigError);
+
+    await writeFile(presetsPath, JSON.stringify({ presets: {} }), 'utf-8');
+    await expect(loadOverlayPresets(presetsPath)).rejects.toThrow(OverlayConfigError);
+  });
+
+  it('プリセットファイルは presets 配列を持つJSONとして書き込む', async () => {
+    await saveOverlayPreset(presetsPath, '配信用', {});
+
+    const content = JSON.parse(await readFile(presetsPath, 'utf-8')) as unknown;
+    expect(content).toEqual({ presets: [{ name: '配信用', config: DEFAULT_OVERLAY_CONFIG }] });
+  });
+});
@@ -0,0 +1,98 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import type { OverlayPreset } from '../types/index.js';
+import { loadJsonFile } from '../configFile/index.js';
+import { OverlayConfigError, parseOverlayConfig } from './overlayConfig.js';
+
+// プリセットファイルのデフォルトパス（カレントディレクトリからの相対パス）
+const DEFAULT_OVERLAY_PRESETS_PATH = 'overlay-presets.json';
+
+const MAX_PRESET_NAME_LENGTH = 50;
+const MAX_PRESETS = 50;
+
+/**
+ * 表示設定のプリセットファイルのパスを取得
+ * OVERLAY_PRESETS_PATH で変更可能
+ */
+export function resolveOverlayPresetsPath(env: NodeJS.ProcessEnv): string {
+  return path.resolve(env['OVERLAY_PRESETS_PATH'] || DEFAULT_OVERLAY_PRESETS_PATH);
+}
+
+/**
+ * プリセット名を検証する（前後の空白は除く）
+ * @throws OverlayConfigError 空の場合、長すぎる場合
+ */
+export function parsePresetName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (name === '' || name.length > MAX_PRESET_NAME_LENGTH) {
+    throw new OverlayConfigError(`Preset name must be 1 to ${MAX_PRESET_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+/**
+ * プリセットファイルの内容を検証する
+ * @throws OverlayConfigError 内容が不正な場合
+ */
+function parseOverlayPresets(value: unknown): OverlayPreset[] {
+  const presets = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)['presets'] : undefined;
+  if (!Array.isArray(presets)) {
+    throw new OverlayConfigError('Overlay presets must have a "presets" array');
+  }
+  return presets.map((item: unknown) => {
+    const preset = (item ?? {}) as Record<string, unknown>;
+    return { name: parsePresetName(preset['name']), config: parseOverlayConfig(preset['config']) };
+  });
+}
+
+/**
+ * プリセットファイルを読み込む
+ * ファイルが存在しない場合はプリセットなしとして扱う
+ * @throws OverlayConfigError 内容が不正な場合
+ */
+export async function loadOverlayPresets(filePath: string): Promise<OverlayPreset[]> {
+  return loadJsonFile(filePath, {
+    fallback: [],
+    parse: parseOverlayPresets,
+    invalidJson: (file) => new OverlayConfigError(`Overlay presets file is not valid JSON: ${file}`),
+  });
+}
+
+async function writeOverlayPresets(filePath: string, presets: OverlayPreset[]): Promise<void> {
+  await writeFile(filePath, JSON.stringify({ presets }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * 表示設定をプリセットとして保存する（同じ名前のプリセットは上書きする）
+ * @returns 保存後のプリセット一覧
+ * @throws OverlayConfigError 名前・表示設定が不正な場合、プリセットが多すぎる場合（ファイルは変更しない）
+ */
+export async function saveOverlayPreset(filePath: string, name: unknown, config: unknown): Promise<OverlayPreset[]> {
+  const preset = { name: parsePresetName(name), config: parseOverlayConfig(config) };
+  const presets = await loadOverlayPresets(filePath);
+
+  const index = presets.findIndex((item) => item.name === preset.name);
+  if (index >= 0) {
+    presets[index] = preset;
+  } else if (presets.length >= MAX_PRESETS) {
+    throw new OverlayConfigError(`Cannot save more than ${MAX_PRESETS} presets`);
+  } else {
+    presets.push(preset);
+  }
+
+  await writeOverlayPresets(filePath, presets);
+  return presets;
+}
+
+/**
+ * プリセットを削除する
+ * @returns 削除後のプリセット一覧（該当するプリセットがない場合は null）
+ */
+export async function deleteOverlayPreset(filePath: string, name: string): Promise<OverlayPreset[] | null> {
+  const presets = await loadOverlayPresets(filePath);
+  const remaining = presets.filter((item) => item.name !== name);
+  if (remaining.length === presets.length) return null;
+
+  await writeOverlayPresets(filePath, remaining);
+  return remaining;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { describeOverlayStatus, type OverlayStatusState } from '../shared/overlayStatus.cjs'
+
+const baseState: OverlayStatusState = {
+  paused: false,
+  count: 12,
+  threads: [{ threadId: 'C123-1700000000.000100', label: '#general', count: 12 }],
+  slack: 'connected',
+}
+
+describe('describeOverlayStatus', () => {
+  it('スレッド・コメント数・Slack の接続状態を表示する', () => {
+    expect(describeOverlayStatus(baseState)).toEqual({
+      tooltip: 'Comment Overlay - 12件',
+      lines: ['監視中: #general', 'コメント: 12件', 'Slack: 接続済み'],
+    })
+  })
+
+  it('ラベルがないスレッドはスレッドIDを表示する', () => {
+    const state = { ...baseState, threads: [{ threadId: 'C123-1700000000.000100', label: '', count: 12 }] }
+    expect(describeOverlayStatus(state).lines[0]).toBe('監視中: C123-1700000000.000100')
+  })
+
+  it('複数のスレッドはスレッドごとの件数を表示する', () => {
+    const state = {
+      ...baseState,
+      threads: [
+        { threadId: 't1', label: '#general', count: 8 },
+        { threadId: 't2', label: '#random', count: 4 },
+      ],
+    }
+    expect(describeOverlayStatus(state).lines).toEqual([
+      '監視中: 2件のスレッド',
+      '  #general: 8件',
+      '  #random: 4件',
+      'コメント: 12件',
+      'Slack: 接続済み',
+    ])
+  })
+
+  it('スレッドがない場合', () => {
+    expect(describeOverlayStatus({ ...baseState, threads: [], count: 0 }).lines[0]).toBe('監視中のスレッド: なし')
+  })
+
+  it('一時停止中と Slack の異常をツールチップに表示する', () => {
+    const status = describeOverlayStatus({ ...baseState, paused: true, slack: 'reconnecting' })
+    expect(status.tooltip).toBe('Comment Overlay - 12件（一時停止中・Slack 再接続中…）')
+    expect(status.lines).toContain('コメント: 12件（一時停止中）')
+    expect(status.lines).toContain('Slack: 再接続中…')
+  })
+
+  it('Slack を使用しない場合は接続状態を表示しない', () => {
+    const status = describeOverlayStatus({ ...baseState, slack: null })
+    expect(status.tooltip).toBe('Comment Overlay - 12件')
+    expect(status.lines).toEqual(['監視中: #general', 'コメント: 12件'])
+  })
+
+  it('状態を取得できない場合は理由を表示する', () => {
+    expect(describeOverlayStatus(null, 'オーバーレイサーバーに接続できません')).toEqual({
+      tooltip: 'Comment Overlay',
+      lines: ['オーバーレイサーバーに接続できません'],
+    })
+  })
+})
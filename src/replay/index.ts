@@ -0,0 +1,4 @@
+export type { ReplayItem, ReplayPlayer, ReplayPlayerOptions } from './replayPlayer.js';
+export { createReplayPlayer, ReplayError, validateReplaySpeed } from './replayPlayer.js';
+export type { LoadedReplay, ReplaySourceLoaderOptions } from './replaySources.js';
+export { createReplaySourceLoader, createTranscriptReplay, loadThreadReplay } from './replaySources.js';
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { WebSocketMessage } from '../types/index.js';
+import { createReplayPlayer, ReplayError, type ReplayItem } from './replayPlayer.js';
+
+function retract(id: string): WebSocketMessage {
+  return { type: 'comment_retract', id };
+}
+
+const items: ReplayItem[] = [
+  { offsetMs: 0, message: retract('a') },
+  { offsetMs: 1000, message: retract('b') },
+  { offsetMs: 3000, message: retract('c') },
+];
+
+describe('createReplayPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function setup(): { player: ReturnType<typeof createReplayPlayer>; played: () => string[]; onChange: ReturnType<typeof vi.fn> } {
+    const onMessage = vi.fn<(message: WebSocketMessage) => void>();
+    const onChange = vi.fn();
+    const player = createReplayPlayer({ onMessage, onChange });
+    const played = (): string[] => onMessage.mock.calls.map(([message]) => (message as { id: string }).id);
+    return { player, played, onChange };
+  }
+
+  it('読み込み直後は先頭で一時停止している', () => {
+    const { player, played } = setup();
+
+    expect(player.load(items, 'C1/1.0')).toEqual({
+      state: 'paused',
+      source: 'C1/1.0',
+      positionMs: 0,
+      durationMs: 3000,
+      speed: 1,
+      played: 0,
+      total: 3,
+    });
+    expect(played()).toEqual([]);
+  });
+
+  it('元の間隔どおりに配信し、最後まで再生すると ended になる', () => {
+    const { player, played, onChange } = setup();
+    player.load(items, 'C1/1.0');
+
+    player.play();
+    expect(played()).toEqual(['a']);
+    vi.advanceTimersByTime(999);
+    expect(played()).toEqual(['a']);
+    vi.advanceTimersByTime(1);
+    expect(played()).toEqual(['a', 'b']);
+    vi.advanceTimersByTime(2000);
+
+    expect(played()).toEqual(['a', 'b', 'c']);
+    expect(player.status()).toMatchObject({ state: 'ended', positionMs: 3000, played: 3 });
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ state: 'ended' }));
+  });
+
+  it('速度倍率に合わせて間隔を詰める', () => {
+    const { player, played } = setup();
+    player.load(items, 'C1/1.0');
+    player.setSpeed(4);
+
+    player.play();
+    vi.advanceTimersByTime(250);
+    expect(played()).toEqual(['a', 'b']);
+    vi.advanceTimersByTime(500);
+    expect(played()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('一時停止中は配信せず、再開すると続きから再生する', () => {
+    const { player, played } = setup();
+    player.load(items, 'C1/1.0');
+    player.play();
+    vi.advanceTimersByTime(500);
+
+    expect(player.pause()).toMatchObject({ state: 'paused', positionMs: 500 });
+    vi.advanceTimersByTime(5000);
+    expect(played()).toEqual(['a']);
+
+    player.play();
+    vi.advanceTimersByTime(500);
+    expect(played()).toEqual(['a', 'b']);
+  });
+
+  it('移動先より前のメッセージは配信しない', () => {
+    const { player, played } = setup();
+    player.load(items, 'C1/1.0');
+
+    player.seek(2000);
+    player.play();
+    vi.advanceTimersByTime(1000);
+
+    expect(played()).toEqual(['c']);
+  });
+
+  it('最後まで再生した後に再生すると先頭から再生する', () => {
+    const { player, played } = setup();
+    player.load(items, 'C1/1.0');
+    player.play();
+    vi.advanceTimersByTime(3000);
+
+    player.play();
+
+    expect(played()).toEqual(['a', 'b', 'c', 'a']);
+    expect(player.status().state).toBe('playing');
+  });
+
+  it('終了すると読み込んだメッセージを破棄する', () => {
+    const { player, played } = setup();
+    player.load(items, 'C1/1.0');
+    player.play();
+
+    expect(player.stop()).toMatchObject({ state: 'idle', source: null, total: 0 });
+    vi.advanceTimersByTime(5000);
+    expect(played()).toEqual(['a']);
+  });
+
+  it('不正な操作はエラー', () => {
+    const { player } = setup();
+
+    expect(() => player.play()).toThrow(ReplayError);
+    expect(() => player.load([], 'empty')).toThrow('No comments to replay');
+    player.load(items, 'C1/1.0');
+    expect(() => player.seek(3001)).toThrow(ReplayError);
+    expect(() => player.setSpeed(0)).toThrow(ReplayError);
+  });
+});
@@ -0,0 +1,225 @@
+import type { ReplayState, ReplayStatus, WebSocketMessage } from '../types/index.js';
+
+/**
+ * リプレイで配信するメッセージ
+ */
+export interface ReplayItem {
+  /** 最初のメッセージからの経過時間（ミリ秒） */
+  offsetMs: number;
+  message: WebSocketMessage;
+}
+
+// ============================================
+// リプレイプレイヤー - インターフェース
+// ============================================
+export interface ReplayPlayer {
+  /** 再生するメッセージを読み込む（先頭で一時停止した状態になる） */
+  load: (items: ReplayItem[], source: string) => ReplayStatus;
+  /** 再生を開始・再開する（最後まで再生した場合は先頭から） */
+  play: () => ReplayStatus;
+  /** 一時停止する */
+  pause: () => ReplayStatus;
+  /** 再生位置を移動する（移動先より前のメッセージは配信しない） */
+  seek: (positionMs: number) => ReplayStatus;
+  /** 再生速度を変更する */
+  setSpeed: (speed: number) => ReplayStatus;
+  /** 再生を終了し、読み込んだメッセージを破棄する */
+  stop: () => ReplayStatus;
+  /** 再生状況を取得 */
+  status: () => ReplayStatus;
+  /** タイマーを解除する */
+  dispose: () => void;
+}
+
+/**
+ * ReplayPlayerの設定オプション
+ */
+export interface ReplayPlayerOptions {
+  /** 再生したメッセージを受け取るコールバック */
+  onMessage: (message: WebSocketMessage) => void;
+  /** 再生状況が変化した際のコールバック（再生位置の進行では呼ばない） */
+  onChange?: (status: ReplayStatus) => void;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * リプレイの操作が不正な場合にスローされるエラー
+ */
+export class ReplayError extends Error {
+  /** 管理APIで返すHTTPステータス */
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ReplayError';
+    this.status = status;
+  }
+}
+
+// 再生速度の上限（録画用に投稿間隔を詰める用途を想定）
+const MAX_SPEED = 100;
+
+/**
+ * 再生速度を検証する
+ * @throws ReplayError 正の数でない場合、または上限を超える場合
+ */
+export function validateReplaySpeed(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_SPEED) {
+    return value;
+  }
+  throw new ReplayError(`speed must be a positive number up to ${MAX_SPEED}`);
+}
+
+// ============================================
+// リプレイプレイヤー - ファクトリ関数
+// ============================================
+
+/**
+ * 記録済みのメッセージを元の間隔（または速度倍率で詰めた間隔）で配信するプレイヤーを生成
+ */
+export function createReplayPlayer(options: ReplayPlayerOptions): ReplayPlayer {
+  const now = options.now ?? Date.now;
+
+  let items: ReplayItem[] = [];
+  let source: string | null = null;
+  let state: ReplayState = 'idle';
+  let speed = 1;
+  // 次に配信するメッセージのインデックス
+  let index = 0;
+  // 再生開始（または一時停止・位置移動）時点の再生位置と時刻
+  let basePosition = 0;
+  let baseTime = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const duration = (): number => items.at(-1)?.offsetMs ?? 0;
+
+  const position = (): number => {
+    if (state !== 'playing') return basePosition;
+    return Math.min(basePosition + (now() - baseTime) * speed, duration());
+  };
+
+  const status = (): ReplayStatus => ({
+    state,
+    source,
+    positionMs: Math.round(position()),
+    durationMs: duration(),
+    speed,
+    played: index,
+    total: items.length,
+  });
+
+  const notify = (): ReplayStatus => {
+    const current = status();
+    options.onChange?.(current);
+    return current;
+  };
+
+  const clearTimer = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  // 再生位置までのメッセージを配信し、次のメッセージの時刻にタイマーを設定する
+  const tick = (): void => {
+    clearTimer();
+    const current = position();
+    while (index < items.length && items[index]!.offsetMs <= current) {
+      options.onMessage(items[index]!.message);
+      index += 1;
+    }
+
+    if (index >= items.length) {
+      basePosition = duration();
+      state = 'ended';
+      notify();
+      return;
+    }
+    timer = setTimeout(tick, (items[index]!.offsetMs - current) / speed);
+  };
+
+  const requireLoaded = (): void => {
+    if (state === 'idle') {
+      throw new ReplayError('No replay loaded', 409);
+    }
+  };
+
+  const moveTo = (positionMs: number): void => {
+    basePosition = positionMs;
+    baseTime = now();
+    index = items.findIndex((item) => item.offsetMs >= positionMs);
+    if (index === -1) index = items.length;
+  };
+
+  return {
+    load: (newItems, newSource) => {
+      if (newItems.length === 0) {
+        throw new ReplayError('No comments to replay');
+      }
+      clearTimer();
+      items = [...newItems].sort((a, b) => a.offsetMs - b.offsetMs);
+      source = newSource;
+      state = 'paused';
+      moveTo(0);
+      return notify();
+    },
+    play: () => {
+      requireLoaded();
+      if (state === 'playing') return status();
+      if (state === 'ended') moveTo(0);
+      state = 'playing';
+      baseTime = now();
+      tick();
+      // 最後まで配信した場合は tick で通知済み
+      return state === 'playing' ? notify() : status();
+    },
+    pause: () => {
+      requireLoaded();
+      if (state !== 'playing') return status();
+      clearTimer();
+      basePosition = position();
+      state = 'paused';
+      return notify();
+    },
+    seek: (positionMs) => {
+      requireLoaded();
+      if (!Number.isFinite(positionMs) || positionMs < 0 || positionMs > duration()) {
+        throw new ReplayError(`positionMs must be between 0 and ${duration()}`);
+      }
+      clearTimer();
+      moveTo(positionMs);
+      if (state === 'ended') state = 'paused';
+      if (state === 'playing') {
+        tick();
+        if (state !== 'playing') return status();
+      }
+      return notify();
+    },
+    setSpeed: (value) => {
+      const validated = validateReplaySpeed(value);
+      if (state === 'playing') {
+        basePosition = position();
+        baseTime = now();
+        speed = validated;
+        tick();
+        if (state !== 'playing') return status();
+      } else {
+        speed = validated;
+      }
+      return notify();
+    },
+    stop: () => {
+      clearTimer();
+      items = [];
+      source = null;
+      state = 'idle';
+      index = 0;
+      basePosition = 0;
+      return notify();
+    },
+    status,
+    dispose: clearTimer,
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SlackClient, TranscriptEntry } from '../types/index.js';
+import { clearEmojiCache } from '../emoji/index.js';
+import { clearUserCache } from '../user/index.js';
+import { createCommentFilter } from '../filter/index.js';
+import { createTranscriptReplay, loadThreadReplay } from './replaySources.js';
+
+describe('loadThreadReplay', () => {
+  beforeEach(() => {
+    clearEmojiCache();
+    clearUserCache();
+  });
+
+  function createMockClient(): SlackClient {
+    return {
+      users: {
+        info: vi.fn().mockResolvedValue({ ok: true, user: { profile: { display_name: '田中' } } }),
+      },
+      conversations: {
+        replies: vi.fn().mockResolvedValue({
+          ok: true,
+          messages: [
+            { ts: '1705200000.000000', user: 'U1', text: '親メッセージ' },
+            { ts: '1705200010.000000', user: 'U1', text: '*最初*' },
+            { ts: '1705200011.000000', user: 'U1', text: 'joined', subtype: 'channel_join' },
+            { ts: '1705200012.500000', user: 'U2', text: 'spam です' },
+            { ts: '1705200020.000000', user: 'U2', text: 'bad' },
+          ],
+        }),
+      },
+      emoji: {
+        list: vi.fn().mockResolvedValue({ ok: true, emoji: {} }),
+      },
+    };
+  }
+
+  const thread = {
+    kind: 'thread' as const,
+    id: 'C1/1705200000.000000',
+    label: 'A',
+    channelId: 'C1',
+    threadTs: '1705200000.000000',
+  };
+
+  it('返信を処理済みのコメントに変換し、最初の返信からの経過時間を付ける', async () => {
+    const items = await loadThreadReplay(createMockClient(), thread);
+
+    expect(items.map((item) => item.offsetMs)).toEqual([0, 2500, 10000]);
+    expect(items[0]?.message).toEqual({
+      type: 'comment',
+      id: 'C1/1705200010.000000',
+      text: '最初',
+      userName: '田中',
+      userColor: expect.stringMatching(/^hsl\(/),
+      emojis: {},
+      threadId: 'C1/1705200000.000000',
+      threadLabel: 'A',
+    });
+  });
+
+  it('NGワードフィルターを適用する', async () => {
+    const filter = createCommentFilter({
+      rules: [
+        { pattern: 'spam', action: 'drop' },
+        { pattern: 'bad', action: 'mask' },
+      ],
+    });
+
+    const items = await loadThreadReplay(createMockClient(), thread, filter);
+
+    expect(items.map((item) => (item.message as { text: string }).text)).toEqual(['最初', '***']);
+  });
+});
+
+describe('createTranscriptReplay', () => {
+  it('カウンター以外のメッセージを記録した時刻の間隔で再生する', () => {
+    const entries: TranscriptEntry[] = [
+      { loggedAt: '2025-01-14T03:00:00.000Z', message: { type: 'counter', count: 0 } },
+      { loggedAt: '2025-01-14T03:00:01.000Z', message: { type: 'comment_retract', id: 'a' } },
+      { loggedAt: '2025-01-14T03:00:03.500Z', message: { type: 'reaction', messageId: 'a', emoji: 'tada', url: 'https://example.com/tada.png', threadId: 'T', threadLabel: '' } },
+    ];
+
+    expect(createTranscriptReplay(entries)).toEqual([
+      { offsetMs: 0, message: entries[1]?.message },
+      { offsetMs: 2500, message: entries[2]?.message },
+    ]);
+  });
+});
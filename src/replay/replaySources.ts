@@ -0,0 +1,154 @@
+import type {
+  CommentCommandCategory,
+  CommentMessage,
+  ReplaySourceInput,
+  SlackClient,
+  TranscriptEntry,
+  WatchedThread,
+  WatchTarget,
+  WebSocketMessage,
+} from '../types/index.js';
+import { getEmojiList } from '../emoji/index.js';
+import { generateUserColor, getUserDisplayName } from '../user/index.js';
+import { processMessage } from '../message/index.js';
+import { resolveMentions } from '../mention/index.js';
+import { createWatchTarget } from '../thread/index.js';
+import { createCommentId } from '../tracker/index.js';
+import { fetchThreadReplies } from '../slack/index.js';
+import { readTranscript } from '../transcript/index.js';
+import type { CommentFilter } from '../filter/index.js';
+import { ReplayError, type ReplayItem } from './replayPlayer.js';
+
+/**
+ * 読み込んだリプレイ
+ */
+export interface LoadedReplay {
+  /** 再生元の表示名 */
+  source: string;
+  items: ReplayItem[];
+}
+
+/**
+ * Slackのtsをミリ秒に変換
+ */
+function tsToMillis(ts: string): number {
+  return Math.floor(Number(ts) * 1000);
+}
+
+/**
+ * 既存スレッドの返信履歴からリプレイを作成
+ * 新規メッセージと同じくSlack記法・コメントコマンドの変換とNGワードフィルターを適用する（除外・保留に一致した返信は再生しない）
+ */
+export async function loadThreadReplay(
+  client: SlackClient,
+  thread: WatchedThread,
+  filter?: CommentFilter,
+  allowedCommands?: readonly CommentCommandCategory[]
+): Promise<ReplayItem[]> {
+  const replies = await fetchThreadReplies(client, thread.channelId, thread.threadTs);
+  const emojiMap = await getEmojiList(client);
+  const startedAt = replies[0] ? tsToMillis(replies[0].ts) : 0;
+
+  const items: ReplayItem[] = [];
+  for (const reply of replies) {
+    const mentions = await resolveMentions(client, reply.text);
+    const { sanitizedText, emojis, style } = processMessage(reply.text, emojiMap, { mentions, allowedCommands });
+    if (!sanitizedText) continue;
+
+    const filtered = filter?.apply(sanitizedText) ?? { action: 'pass', text: sanitizedText };
+    if (filtered.action !== 'pass') continue;
+
+    const comment: CommentMessage = {
+      type: 'comment',
+      id: createCommentId(thread.channelId, reply.ts),
+      text: filtered.text,
+      userName: await getUserDisplayName(client, reply.user),
+      userColor: generateUserColor(reply.user),
+      emojis,
+      threadId: thread.id,
+      threadLabel: thread.label,
+    };
+    if (style) {
+      comment.style = style;
+    }
+    items.push({ offsetMs: tsToMillis(reply.ts) - startedAt, message: comment });
+  }
+  return items;
+}
+
+// セッションログから再生するメッセージの種類（カウンターは現在の値を上書きしないよう除外）
+const REPLAYABLE_TYPES = new Set<WebSocketMessage['type']>([
+  'comment',
+  'comment_update',
+  'comment_retract',
+  'reaction',
+]);
+
+/**
+ * セッションログからリプレイを作成
+ * 記録した時刻の間隔で、配信したときの内容をそのまま再生する
+ */
+export function createTranscriptReplay(entries: TranscriptEntry[]): ReplayItem[] {
+  const replayable = entries.filter((entry) => REPLAYABLE_TYPES.has(entry.message.type));
+  const startedAt = replayable[0] ? Date.parse(replayable[0].loggedAt) : 0;
+  return replayable.map((entry) => ({
+    offsetMs: Date.parse(entry.loggedAt) - startedAt,
+    message: entry.message,
+  }));
+}
+
+/**
+ * ReplaySourceLoaderの設定オプション
+ */
+export interface ReplaySourceLoaderOptions {
+  /** Slack Web API クライアント（Slackに接続していない場合はスレッドを再生できない） */
+  client?: SlackClient;
+  /** セッションログの保存先ディレクトリ */
+  transcriptDir: string;
+  /** 現在のNGワードフィルターを取得 */
+  getFilter?: () => CommentFilter;
+  /** 有効にするコメントコマンドの種類 */
+  allowedCommands?: readonly CommentCommandCategory[];
+}
+
+/**
+ * 再生元の指定からリプレイを読み込む関数を作成
+ * @throws ReplayError 指定が不正な場合、または再生元が見つからない場合
+ */
+export function createReplaySourceLoader(
+  options: ReplaySourceLoaderOptions
+): (input: ReplaySourceInput) => Promise<LoadedReplay> {
+  return async (input) => {
+    if (input?.type === 'thread' && typeof input.threadUrl === 'string') {
+      let thread: WatchTarget;
+      try {
+        thread = createWatchTarget(input.threadUrl);
+      } catch (error) {
+        throw new ReplayError(error instanceof Error ? error.message : 'Invalid thread URL');
+      }
+      if (thread.kind !== 'thread') {
+        throw new ReplayError('Replay requires a thread URL');
+      }
+      if (!options.client) {
+        throw new ReplayError('Slack is not connected', 409);
+      }
+      return {
+        source: thread.id,
+        items: await loadThreadReplay(options.client, thread, options.getFilter?.(), options.allowedCommands),
+      };
+    }
+
+    if (input?.type === 'transcript' && typeof input.sessionId === 'string') {
+      const entries = await readTranscript(options.transcriptDir, input.sessionId);
+      if (!entries) {
+        throw new ReplayError('Transcript not found', 404);
+      }
+      return {
+        source: input.sessionId,
+        items: createTranscriptReplay(entries),
+      };
+    }
+
+    throw new ReplayError('source must be a thread URL or a session ID');
+  };
+}
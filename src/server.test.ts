@@ -5,6 +5,7 @@ import {
   generateUserColor,
   getCommentCount,
   incrementCommentCount,
+  decrementCommentCount,
   resetCommentCount,
   setCommentCount,
   fetchInitialCommentCount,
@@ -15,6 +16,7 @@ import {
   isStandardEmojiMapInitialized,
   type SlackClient,
 } from './server.js';
+import { fetchInitialHistory } from './slack/index.js';
 
 // モック用のヘルパー関数
 function createMockClient(): SlackClient & { users: { info: Mock } } {
@@ -177,6 +179,19 @@ describe('Comment Counter', () => {
     });
   });
 
+  describe('decrementCommentCount', () => {
+    it('カウントをデクリメントして新しい値を返す', () => {
+      setCommentCount(2);
+      expect(decrementCommentCount()).toBe(1);
+      expect(decrementCommentCount()).toBe(0);
+    });
+
+    it('0未満にはならない', () => {
+      expect(decrementCommentCount()).toBe(0);
+      expect(getCommentCount()).toBe(0);
+    });
+  });
+
   describe('resetCommentCount', () => {
     it('カウントを0にリセットする', () => {
       incrementCommentCount();
@@ -351,6 +366,38 @@ describe('fetchInitialCommentCount', () => {
   });
 });
 
+describe('fetchInitialHistory', () => {
+  it('返信数と直近の返信を返す', async () => {
+    const mockClient = createMockClientWithReplies();
+    mockClient.conversations.replies.mockResolvedValue({
+      ok: true,
+      messages: [
+        { ts: '1705200000.000000', thread_ts: '1705200000.000000', user: 'U1', text: '親' },
+        { ts: '1705200001.000001', thread_ts: '1705200000.000000', user: 'U2', text: '返信1' },
+        { ts: '1705200002.000002', thread_ts: '1705200000.000000', user: 'U3', text: '返信2' },
+        { ts: '1705200003.000003', thread_ts: '1705200000.000000', user: 'U4', text: '返信3' },
+      ],
+      has_more: false,
+    });
+
+    const history = await fetchInitialHistory(mockClient, 'C123', '1705200000.000000', 2);
+
+    expect(history.count).toBe(3);
+    expect(history.recent.map((reply) => reply.text)).toEqual(['返信2', '返信3']);
+  });
+
+  it('件数を指定しない場合は直近の返信を返さない', async () => {
+    const mockClient = createMockClientWithReplies();
+    mockClient.conversations.replies.mockResolvedValue({
+      ok: true,
+      messages: [{ ts: '1705200001.000001', thread_ts: '1705200000.000000', user: 'U2', text: '返信1' }],
+      has_more: false,
+    });
+
+    expect(await fetchInitialHistory(mockClient, 'C123', '1705200000.000000')).toEqual({ count: 1, recent: [] });
+  });
+});
+
 describe('getEmojiList', () => {
   let mockClient: ReturnType<typeof createMockClientWithEmoji>;
 
@@ -488,16 +535,17 @@ describe('processMessage', () => {
     expect(result.emojis['nonexistent']).toBeUndefined();
   });
 
-  it('メンションは除去し、リンクは[リンク]に変換する', () => {
+  it('メンションは表示名に変換し、リンクは[リンク]に変換する', () => {
     const emojiMap = new Map([
       ['thumbsup', 'https://example.com/thumbsup.png'],
     ]);
     const result = processMessage(
       '<@U12345> Check this <http://example.com|link> :thumbsup:',
-      emojiMap
+      emojiMap,
+      { mentions: { users: { U12345: '田中太郎' } } }
     );
 
-    expect(result.sanitizedText).toBe('Check this [リンク] :thumbsup:');
+    expect(result.sanitizedText).toBe('@田中太郎 Check this [リンク] :thumbsup:');
     expect(result.emojis).toEqual({
       thumbsup: 'https://example.com/thumbsup.png',
     });
@@ -629,6 +677,42 @@ describe('processMessage', () => {
     });
   });
 
+  describe('メンション変換', () => {
+    const emojiMap = new Map<string, string>();
+
+    it('表示名が解決できないユーザーメンションはラベルか既定の表記にする', () => {
+      expect(processMessage('<@U1|taro> hi', emojiMap).sanitizedText).toBe('@taro hi');
+      expect(processMessage('<@U1> hi', emojiMap).sanitizedText).toBe('@Unknown User hi');
+    });
+
+    it('チャンネルリンクを #チャンネル名 に変換する', () => {
+      expect(processMessage('see <#C123|general>', emojiMap).sanitizedText).toBe('see #general');
+      expect(processMessage('see <#C123|>', emojiMap, {
+        mentions: { channels: { C123: 'random' } },
+      }).sanitizedText).toBe('see #random');
+      expect(processMessage('see <#C123>', emojiMap).sanitizedText).toBe('see #unknown-channel');
+    });
+
+    it('ユーザーグループと特殊メンションを読みやすい表記にする', () => {
+      expect(processMessage('<!subteam^S123|@devs> <!here> <!channel> <!everyone>', emojiMap).sanitizedText)
+        .toBe('@devs @here @channel @everyone');
+    });
+
+    it('日付はフォールバック表記を使用する', () => {
+      expect(processMessage('<!date^1392734382^{date}|2014年2月18日> 開催', emojiMap).sanitizedText)
+        .toBe('2014年2月18日 開催');
+    });
+
+    it('表示名の記号はテキスト装飾・絵文字として処理しない', () => {
+      const result = processMessage('<@U1> <@U2>', new Map([['x', 'https://example.com/x.png']]), {
+        mentions: { users: { U1: '_taro_', U2: 'a:x:b' } },
+      });
+
+      expect(result.sanitizedText).toBe('@_taro_ @a:x:b');
+      expect(result.emojis).toEqual({});
+    });
+  });
+
   it('リンク（表示テキストなし）を[リンク]に変換する', () => {
     const emojiMap = new Map<string, string>();
     const result = processMessage('Check <http://example.com>', emojiMap);
@@ -1,8 +1,8 @@
-import pkg from '@slack/bolt';
-const { App } = pkg;
 import express from 'express';
 import helmet from 'helmet';
-import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { createServer, type IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
 import WebSocket, { WebSocketServer } from 'ws';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -10,9 +10,12 @@ import resolvePort from '../shared/resolvePort.cjs';
 
 // 型定義をインポート
 import type {
-  ThreadInfo,
+  CommentCommandCategory,
+  OverlayConfig,
+  WatchTarget,
   WebSocketMessage,
-  SlackClient,
+  AdminEventMessage,
+  SlackMessageEvent,
   ProcessedMessage,
 } from './types/index.js';
 
@@ -32,29 +35,79 @@ import {
 } from './user/index.js';
 
 // メッセージモジュールをインポート
-import {
-  parseThreadUrl,
-  processMessage,
-} from './message/index.js';
+import { loadAllowedCommentCommands, processMessage } from './message/index.js';
 
-// カウンターモジュールをインポート
+// スレッドモジュールをインポート
 import {
-  getCommentCount,
-  incrementCommentCount,
-  resetCommentCount,
-  setCommentCount,
-} from './counter/index.js';
+  createCounterMessage,
+  createThreadRegistry,
+  parseWatchSpec,
+} from './thread/index.js';
+
+// トラッカーモジュールをインポート
+import { createCommentTracker } from './tracker/index.js';
+
+// モデレーションモジュールをインポート
+import { createModerationQueue, createPauseBuffer, loadModerationSettings } from './moderation/index.js';
+
+// フィルターモジュールをインポート
+import { resolveFilterConfigPath, watchFilterConfig } from './filter/index.js';
+
+// 表示設定モジュールをインポート
+import { loadOverlayConfigFromEnv, resolveOverlayConfigPath, watchOverlayConfig } from './overlayConfig/index.js';
+
+// セッションログモジュールをインポート
+import { createTranscriptWriter, getTranscriptFileName, resolveTranscriptDir } from './transcript/index.js';
+
+// リプレイモジュールをインポート
+import { createReplayPlayer, createReplaySourceLoader } from './replay/index.js';
+
+// 画像モジュールをインポート
+import { createImageProxy, createImageRouter } from './image/index.js';
 
 // Slackモジュールをインポート
-import { fetchInitialCommentCount } from './slack/index.js';
+import {
+  createMessageHandler,
+  createReactionHandler,
+  createSlackEventHandler,
+  fetchInitialHistory,
+  loadBackfillCount,
+  scheduleBackfill,
+  toBackfillEvent,
+} from './slack/index.js';
+
+// 接続方式モジュールをインポート
+import { createSlackTransport, loadSlackTransportConfig, type SlackTransportConfig } from './transport/index.js';
+
+// コメント取得元モジュールをインポート
+import {
+  createCommentIngest,
+  createFileTailSource,
+  createStreamSource,
+  createWebhookSource,
+  loadCommentSourceConfig,
+  type CommentSource,
+  type CommentSourceConfig,
+} from './source/index.js';
+
+// 管理APIモジュールをインポート
+import {
+  createModerationAdminRouter,
+  createOverlayAdminRouter,
+  createReplayAdminRouter,
+  createThreadAdminRouter,
+  isValidControlToken,
+  requireControlToken,
+} from './admin/index.js';
 
 // 後方互換性のため型と関数を再エクスポート
 export type { SlackClient, ProcessedMessage } from './types/index.js';
 export { getStandardEmojiUrl, isStandardEmojiMapInitialized, getEmojiList, clearEmojiCache } from './emoji/index.js';
 export { clearUserCache, generateUserColor, getUserDisplayName } from './user/index.js';
 export { processMessage } from './message/index.js';
-export { getCommentCount, incrementCommentCount, resetCommentCount, setCommentCount } from './counter/index.js';
+export { getCommentCount, incrementCommentCount, decrementCommentCount, resetCommentCount, setCommentCount } from './counter/index.js';
 export { fetchInitialCommentCount } from './slack/index.js';
+export { createCounterMessage, createThreadRegistry, parseWatchSpec } from './thread/index.js';
 
 // ESM用の __dirname 代替
 const __filename = fileURLToPath(import.meta.url);
@@ -69,28 +122,56 @@ try {
   // .env は任意
 }
 
+/**
+ * 監視対象をログに出力
+ */
+function logWatchTarget(target: WatchTarget): void {
+  const label = target.label || '(none)';
+  if (target.kind === 'thread') {
+    console.log(`Monitoring thread: channel=${target.channelId}, thread_ts=${target.threadTs}, label=${label}`);
+  } else {
+    console.log(`Monitoring channel: channel=${target.channelId}, replies=${target.includeReplies}, label=${label}`);
+  }
+}
+
 // ============================================
 // メイン処理
 // ============================================
 async function main(): Promise<void> {
-  // CLI引数からスレッドURLを取得
-  const threadUrl = process.argv[2];
-  if (!threadUrl) {
-    console.error('Usage: npm run dev "https://xxx.slack.com/archives/CHANNEL_ID/pTIMESTAMP"');
+  // 環境変数チェック
+  // COMMENT_SOURCES で取得元を選び、Slackを使う場合は SLACK_TRANSPORT に応じた認証情報が必要
+  let sourceConfig: CommentSourceConfig;
+  let transportConfig: SlackTransportConfig | undefined;
+  let allowedCommands: CommentCommandCategory[] | undefined;
+  let envOverlayConfig: OverlayConfig | undefined;
+  try {
+    sourceConfig = loadCommentSourceConfig(process.env);
+    allowedCommands = loadAllowedCommentCommands(process.env);
+    envOverlayConfig = loadOverlayConfigFromEnv(process.env);
+    if (sourceConfig.kinds.includes('slack')) {
+      transportConfig = loadSlackTransportConfig(process.env);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
     process.exit(1);
   }
 
-  // 環境変数チェック
-  const slackBotToken = process.env['SLACK_BOT_TOKEN'];
-  const slackAppToken = process.env['SLACK_APP_TOKEN'];
-  if (!slackBotToken || !slackAppToken) {
-    console.error('Error: SLACK_BOT_TOKEN and SLACK_APP_TOKEN must be set');
+  // CLI引数から監視対象の指定を取得（複数指定可、"ラベル=URL" 形式でラベル付け）
+  // Slackを使わない場合は省略できる
+  const watchSpecs = process.argv.slice(2);
+  if (transportConfig && watchSpecs.length === 0) {
+    console.error('Usage: npm run dev "[LABEL=]https://xxx.slack.com/archives/CHANNEL_ID/pTIMESTAMP" ...');
+    console.error('       npm run dev "[LABEL=]https://xxx.slack.com/archives/CHANNEL_ID[?replies=true]" ...');
     process.exit(1);
   }
 
-  // スレッドURL解析
-  const { channelId, threadTs } = parseThreadUrl(threadUrl);
-  console.log(`Monitoring thread: channel=${channelId}, thread_ts=${threadTs}`);
+  // 監視対象の指定を解析してレジストリに登録
+  const registry = createThreadRegistry();
+  for (const spec of watchSpecs) {
+    const target = parseWatchSpec(spec);
+    registry.add(target);
+    logWatchTarget(target);
+  }
 
   // Express + HTTP サーバー
   const expressApp = express();
@@ -103,6 +184,7 @@ async function main(): Promise<void> {
         defaultSrc: ["'self'"],
         scriptSrc: ["'self'"],
         styleSrc: ["'self'", "'unsafe-inline'"],
+        // 添付画像は Bot Token が必要なため、Slack から直接ではなく画像プロキシ（'self'）経由で表示する
         imgSrc: ["'self'", "data:", "https://emoji.slack-edge.com", "https://cdn.jsdelivr.net"],
         connectSrc: ["'self'", "ws://localhost:*", "wss://localhost:*"],
       },
@@ -110,12 +192,27 @@ async function main(): Promise<void> {
   }));
 
   expressApp.use(express.static(path.join(__dirname, '../public')));
+
+  // 添付画像の表示（SHOW_IMAGES=true の場合のみ、files:read スコープが必要）
+  const imageProxy = process.env['SHOW_IMAGES'] === 'true' && transportConfig
+    ? createImageProxy({ token: transportConfig.botToken })
+    : undefined;
+  if (imageProxy) {
+    expressApp.use(createImageRouter(imageProxy));
+  }
+  console.log(`Show images: ${imageProxy ? 'enabled' : 'disabled'}`);
+  console.log(`Comment commands: ${allowedCommands?.join(', ') || 'disabled'}`);
   const httpServer = createServer(expressApp);
 
-  // WebSocket サーバー
+  // 管理API（コントロールチャネル）のトークン
+  // セキュリティ: ProcessManager が発行したトークンを持つリクエストのみ受け付ける。
+  // トークン未設定（単体起動）の場合は管理APIを無効にする。
+  const controlToken = process.env['OVERLAY_CONTROL_TOKEN'];
+
+  // WebSocket サーバー（パスごとに upgrade を振り分ける）
   // セキュリティ: Originヘッダーを検証してlocalhostからの接続のみ許可
   const wss = new WebSocketServer({
-    server: httpServer,
+    noServer: true,
     verifyClient: (info: { origin?: string }) => {
       const origin = info.origin ?? '';
       // localhost、127.0.0.1、file://（Electron）からの接続を許可
@@ -135,8 +232,12 @@ async function main(): Promise<void> {
     clients.add(ws);
     console.log(`WebSocket client connected (total: ${clients.size})`);
 
-    // 新規クライアントに現在のカウントを送信
-    ws.send(JSON.stringify({ type: 'counter', count: getCommentCount() }));
+    // 新規クライアントに表示設定と現在のカウントを送信
+    ws.send(JSON.stringify({ type: 'config', config: getOverlayConfig() } satisfies WebSocketMessage));
+    ws.send(JSON.stringify(createCounterMessage(registry)));
+    if (pauseBuffer.isPaused()) {
+      ws.send(JSON.stringify({ type: 'pause', paused: true } satisfies WebSocketMessage));
+    }
 
     ws.on('close', () => {
       clients.delete(ws);
@@ -144,56 +245,264 @@ async function main(): Promise<void> {
     });
   });
 
+  // 管理用 WebSocket サーバー（/ws/admin）
+  // セットアップサーバーにモデレーションキューの変化などを通知する
+  const adminWss = new WebSocketServer({ noServer: true });
+  const adminClients = new Set<WebSocket>();
+
+  adminWss.on('connection', (ws: WebSocket) => {
+    adminClients.add(ws);
+    ws.send(JSON.stringify({ type: 'moderation', data: moderation.snapshot() } satisfies AdminEventMessage));
+    ws.send(JSON.stringify({ type: 'replay', data: replay.status() } satisfies AdminEventMessage));
+    ws.on('close', () => {
+      adminClients.delete(ws);
+    });
+  });
+
+  httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (pathname === '/ws/admin') {
+      if (!controlToken || !isValidControlToken(req.headers.authorization, controlToken)) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      adminWss.handleUpgrade(req, socket, head, (ws) => adminWss.emit('connection', ws, req));
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
   // 全クライアントにブロードキャスト
-  function broadcast(message: WebSocketMessage): void {
+  function sendToAll(targets: Set<WebSocket>, message: WebSocketMessage | AdminEventMessage): void {
     const data = JSON.stringify(message);
-    for (const client of clients) {
+    for (const client of targets) {
       if (client.readyState === WebSocket.OPEN) {
         client.send(data);
       }
     }
   }
 
-  // Slack Bolt App（Socket Mode）
-  const slackApp = new App({
-    token: slackBotToken,
-    appToken: slackAppToken,
-    socketMode: true,
+  // セッションログ（配信したメッセージをセッションごとのJSONLファイルに記録）
+  // セットアップ画面から起動した場合は ProcessManager が発行したセッションIDを使用する
+  const sessionId = process.env['OVERLAY_SESSION_ID'] || randomUUID();
+  const transcriptDir = resolveTranscriptDir(process.env);
+  const transcript = createTranscriptWriter({
+    dir: transcriptDir,
+    sessionId,
+    onError: (err: unknown) => {
+      console.error('Failed to write transcript:', err);
+    },
   });
+  console.log(`Transcript: ${path.join(transcriptDir, getTranscriptFileName(sessionId))}`);
 
-  // メッセージイベントをリッスン
-  slackApp.event('message', async ({ event, client }) => {
-    // 対象チャンネルかつ対象スレッドのメッセージのみ処理
-    if (event.channel !== channelId) return;
-    if (!('thread_ts' in event) || event.thread_ts !== threadTs) return;
+  // 新しいコメントの表示の一時停止（ショートカットキーなどから操作）
+  // 一時停止中に届いた（承認された）コメントは保留し、再開時に配信する
+  const pauseBuffer = createPauseBuffer({
+    onRelease: (comment) => {
+      broadcast(comment);
+    },
+  });
 
-    // サブタイプがあるメッセージ（編集、削除等）はスキップ
-    if ('subtype' in event && event.subtype) return;
+  function broadcast(message: WebSocketMessage): void {
+    if (pauseBuffer.hold(message)) return;
+    transcript.write(message);
+    sendToAll(clients, message);
+  }
 
-    // ユーザーIDを取得（型安全に）
-    const userId = 'user' in event ? event.user : undefined;
-    if (!userId) return;
+  // モデレーションキュー
+  // 有効な場合、新しいコメントは承認されるまでオーバーレイに配信しない
+  const tracker = createCommentTracker();
+  const moderation = createModerationQueue({
+    settings: loadModerationSettings(process.env),
+    onApprove: (comment) => {
+      // 保留中にトラッカーの記録が期限切れになっていても、表示後の編集・削除を反映できるよう記録し直す
+      tracker.track({ id: comment.id, targetId: comment.threadId, text: comment.text });
+      broadcast(comment);
+    },
+    onChange: (snapshot) => {
+      sendToAll(adminClients, { type: 'moderation', data: snapshot });
+    },
+  });
+  console.log(`Moderation: enabled=${moderation.getSettings().enabled}, autoApproveSeconds=${moderation.getSettings().autoApproveSeconds ?? '(none)'}`);
+
+  // コメント関連のメッセージをモデレーションキュー経由で配信
+  function publish(message: WebSocketMessage): void {
+    switch (message.type) {
+      case 'comment':
+        if (moderation.isEnabled()) {
+          moderation.enqueue(message);
+          return;
+        }
+        break;
+      case 'comment_update':
+        if (moderation.update(message.id, message.text, message.emojis)) return;
+        break;
+      case 'comment_retract':
+        if (moderation.remove(message.id)) return;
+        break;
+    }
+    broadcast(message);
+  }
 
-    // 絵文字リストを取得
-    const emojiMap = await getEmojiList(client as SlackClient);
+  // NGワードフィルター（設定ファイルの変更を監視して再起動せずに反映）
+  const filterConfigPath = resolveFilterConfigPath(process.env);
+  const filterWatcher = await watchFilterConfig({
+    filePath: filterConfigPath,
+    onError: (err: unknown) => {
+      console.error(`Failed to load filter config (${filterConfigPath}):`, err);
+    },
+  });
+
+  // オーバーレイの表示設定
+  // OVERLAY_CONFIG で直接指定しない場合は、設定ファイルの変更を監視して再起動せずに接続中のオーバーレイへ反映する
+  // 表示設定はセッションログに記録しない
+  let getOverlayConfig: () => OverlayConfig;
+  if (envOverlayConfig) {
+    const config = envOverlayConfig;
+    getOverlayConfig = () => config;
+    console.log('Overlay config: OVERLAY_CONFIG');
+  } else {
+    const overlayConfigPath = resolveOverlayConfigPath(process.env);
+    const overlayConfigWatcher = await watchOverlayConfig({
+      filePath: overlayConfigPath,
+      onChange: (config) => {
+        sendToAll(clients, { type: 'config', config });
+      },
+      onError: (err: unknown) => {
+        console.error(`Failed to load overlay config (${overlayConfigPath}):`, err);
+      },
+    });
+    getOverlayConfig = overlayConfigWatcher.current;
+    console.log(`Overlay config: ${overlayConfigPath}`);
+  }
 
-    // テキストを処理（絵文字URLマップを含む）
-    const rawText = 'text' in event ? event.text : undefined;
-    const { sanitizedText, emojis } = processMessage(rawText, emojiMap);
-    if (!sanitizedText) return; // 空メッセージはスキップ
+  // メッセージイベントのハンドラー（新規投稿・編集・削除）
+  const handleMessage = createMessageHandler({
+    registry,
+    tracker,
+    broadcast: publish,
+    getFilter: filterWatcher.current,
+    hold: (comment) => moderation.enqueue(comment, 'filter'),
+    resolveImages: imageProxy && ((files) => files.flatMap((file) => imageProxy.register(file) ?? [])),
+    recordSource: transcript.recordSource,
+    allowedCommands,
+  });
 
-    // ユーザー名を取得
-    const userName = await getUserDisplayName(client as SlackClient, userId);
+  // リアクションのハンドラー（絵文字スタンプとして表示）
+  const handleReaction = createReactionHandler({ registry, broadcast });
 
-    const userColor = generateUserColor(userId);
-    console.log(`New comment from ${userName}: ${sanitizedText}`);
+  // Slackとの接続（Socket Mode / Events API / ポーリング）
+  // どの方式でも同じハンドラーでイベントを処理する
+  const transport = transportConfig && createSlackTransport(transportConfig, {
+    handleEvent: createSlackEventHandler({ handleMessage, handleReaction }),
+    registry,
+  });
+  const slackClient = transport?.client;
+
+  // Slack以外の取得元（Webhook・標準入力・ファイル）
+  // Slackのコメントと同じくフィルターとモデレーションを経由して配信する
+  const ingest = createCommentIngest({
+    publish,
+    getFilter: filterWatcher.current,
+    hold: (comment) => moderation.enqueue(comment, 'filter'),
+    recordSource: transcript.recordSource,
+    allowedCommands,
+  });
+  const sources: CommentSource[] = [];
+  if (transport) {
+    sources.push(transport);
+  }
+  if (sourceConfig.webhookToken) {
+    sources.push(createWebhookSource({ token: sourceConfig.webhookToken, onComment: ingest }));
+  }
+  if (sourceConfig.kinds.includes('stdin')) {
+    sources.push(createStreamSource({ name: 'stdin', input: process.stdin, onComment: ingest }));
+  }
+  if (sourceConfig.filePath) {
+    sources.push(createFileTailSource({ filePath: sourceConfig.filePath, onComment: ingest }));
+  }
+  for (const source of sources) {
+    if (source.router) {
+      expressApp.use(source.router);
+    }
+  }
 
-    // カウンターをインクリメントしてブロードキャスト
-    const newCount = incrementCommentCount();
-    broadcast({ type: 'comment', text: sanitizedText, userName, userColor, emojis });
-    broadcast({ type: 'counter', count: newCount });
+  // リプレイ（既存スレッドの返信履歴や保存済みのセッションログを再生）
+  // 再生したメッセージはモデレーションを経由せず、現在のセッションログにも記録しない
+  const replay = createReplayPlayer({
+    onMessage: (message) => sendToAll(clients, message),
+    onChange: (status) => {
+      sendToAll(adminClients, { type: 'replay', data: status });
+    },
+  });
+  const loadReplaySource = createReplaySourceLoader({
+    client: slackClient,
+    transcriptDir,
+    getFilter: filterWatcher.current,
+    allowedCommands,
   });
 
+  // 既存のスレッドメッセージ数を取得してカウンターを初期化し、最新のカウントを配信
+  // チャンネル指定は起動後の投稿のみを数える
+  // backfillCount を指定した場合は、表示する直近の返信を message イベントの形で返す
+  async function initializeThreadCounts(targets: WatchTarget[], backfillCount = 0): Promise<SlackMessageEvent[]> {
+    const histories = await Promise.all(targets.map(async (thread) => {
+      if (thread.kind !== 'thread' || !slackClient) return [];
+      const history = await fetchInitialHistory(slackClient, thread.channelId, thread.threadTs, backfillCount);
+      registry.setCount(thread.id, history.count);
+      console.log(`Initial comment count (${thread.id}): ${history.count}`);
+      return history.recent.map((reply) => toBackfillEvent(thread, reply));
+    }));
+    broadcast(createCounterMessage(registry));
+    return histories.flat();
+  }
+
+  // オーバーレイが接続するまで待つ（起動前の返信を表示する前に使用）
+  function waitForOverlayClient(): Promise<void> {
+    if (clients.size > 0) return Promise.resolve();
+    return new Promise((resolve) => {
+      wss.once('connection', () => resolve());
+    });
+  }
+
+  // 管理API（コントロールチャネル）
+  if (controlToken) {
+    expressApp.use(
+      '/api/admin',
+      express.json(),
+      requireControlToken(controlToken),
+      createThreadAdminRouter(registry, (added) => {
+        added.forEach(logWatchTarget);
+        initializeThreadCounts(added).catch((err: unknown) => {
+          console.error('Failed to initialize thread counts:', err);
+        });
+      }),
+      createModerationAdminRouter(moderation),
+      createReplayAdminRouter(replay, loadReplaySource),
+      createOverlayAdminRouter({
+        state: () => ({
+          paused: pauseBuffer.isPaused(),
+          count: registry.getTotalCount(),
+          threads: registry.getThreadCounts(),
+          slack: transport ? transport.connectionState() : null,
+        }),
+        setPaused: (next) => {
+          const held = pauseBuffer.size();
+          if (!pauseBuffer.setPaused(next)) return;
+          console.log(next ? 'Overlay paused' : `Overlay resumed (${held} held comments released)`);
+          sendToAll(clients, { type: 'pause', paused: next });
+        },
+        clear: () => {
+          // 表示の操作のため、セッションログには記録しない
+          sendToAll(clients, { type: 'clear' });
+        },
+      })
+    );
+  } else {
+    console.log('Admin API disabled (OVERLAY_CONTROL_TOKEN is not set)');
+  }
+
   // サーバー起動
   const PORT = resolvePort(process.env['OVERLAY_PORT'], 8000);
 
@@ -202,18 +511,32 @@ async function main(): Promise<void> {
     console.log(`Server running on http://localhost:${PORT}`);
   });
 
-  // Slack接続は後続処理として実行（時間がかかっても問題ない）
-  await slackApp.start();
-  console.log('Slack connection established (Socket Mode)');
-
-  // 既存のスレッドメッセージ数を取得してカウンターを初期化
-  const initialCount = await fetchInitialCommentCount(
-    slackApp.client as unknown as SlackClient,
-    channelId,
-    threadTs
-  );
-  setCommentCount(initialCount);
-  console.log(`Initial comment count: ${initialCount}`);
+  // Slack接続などの取得元の開始は後続処理として実行（時間がかかっても問題ない）
+  for (const source of sources) {
+    await source.start();
+    console.log(`Comment source started: ${source.name}`);
+  }
+  if (transport) {
+    console.log(`Slack connection established (${transport.kind})`);
+  }
+  if (transport?.kind === 'events') {
+    console.log(`Slack Events API request URL: <public URL of http://localhost:${PORT}>/slack/events`);
+  }
+  if (sourceConfig.webhookToken) {
+    console.log(`Comment webhook: POST http://localhost:${PORT}/api/comments`);
+  }
+
+  // 既存のスレッドメッセージ数を取得してスレッドごとのカウンターを初期化
+  // BACKFILL_COUNT を指定した場合は、直近の返信を新しい返信と同じ処理（フィルター・モデレーション）で少しずつ表示する
+  const backfillCount = loadBackfillCount(process.env);
+  const backfillEvents = await initializeThreadCounts(registry.list(), backfillCount);
+  if (slackClient && backfillEvents.length > 0) {
+    await waitForOverlayClient();
+    console.log(`Backfilling ${backfillEvents.length} recent replies`);
+    scheduleBackfill(backfillEvents, (event) =>
+      handleMessage(event, slackClient, { backfill: true })
+    );
+  }
 }
 
 // テスト時は main() を実行しない
@@ -1,10 +1,46 @@
 import { Router, type Request, type Response } from 'express';
 import type { ProcessManager } from '../services/processManager.js';
-import type { StartRequest, StartResponse, StopResponse } from '../types/index.js';
+import { formatWatchSpec } from '../../thread/watchSpec.js';
+import { OverlayControlError } from '../services/overlayControlClient.js';
+import { MAX_BACKFILL_COUNT } from '../../slack/backfill.js';
+import type { AdminThreadInput } from '../../types/index.js';
+import type {
+  StartRequest,
+  StartResponse,
+  StopResponse,
+  SwitchThreadRequest,
+  SwitchThreadResponse,
+} from '../types/index.js';
 
-// SlackスレッドURLの正規表現パターン
+// SlackスレッドURL・チャンネルURLの正規表現パターン
 const SLACK_THREAD_URL_PATTERN =
-  /^https:\/\/[\w-]+\.slack\.com\/archives\/[A-Z0-9]+\/p\d+$/;
+  /^https:\/\/[\w-]+\.slack\.com\/archives\/[A-Z0-9]+(\/p\d+)?$/;
+
+/**
+ * 起動時の監視対象を検証して取得
+ * threads を指定した場合はそのすべて、省略した場合は threadUrl の1つを監視する
+ * @throws Error 形式が不正な場合
+ */
+function toStartThreads(body: StartRequest): AdminThreadInput[] {
+  const threads = body.threads ?? [{ threadUrl: body.threadUrl ?? '', includeReplies: body.includeReplies }];
+  if (!Array.isArray(threads) || threads.length === 0) {
+    throw new Error('At least one thread is required');
+  }
+
+  return threads.map((thread) => {
+    if (!thread?.threadUrl || typeof thread.threadUrl !== 'string') {
+      throw new Error('Thread URL is required');
+    }
+    if (!SLACK_THREAD_URL_PATTERN.test(thread.threadUrl)) {
+      throw new Error('Invalid Slack thread or channel URL format');
+    }
+    // "ラベル=URL" 形式でオーバーレイサーバーに渡すため、ラベルに "=" は使えない
+    if (thread.label !== undefined && (typeof thread.label !== 'string' || thread.label.includes('='))) {
+      throw new Error('Label must be a string without "="');
+    }
+    return { threadUrl: thread.threadUrl, label: thread.label, includeReplies: thread.includeReplies === true };
+  });
+}
 
 /**
  * コントロール用ルーターを作成
@@ -25,35 +61,73 @@ export function createControlRouter(
     try {
       const body = req.body as StartRequest;
 
-      // スレッドURLの検証
-      if (!body.threadUrl || typeof body.threadUrl !== 'string') {
+      // 監視対象（スレッドURL・チャンネルURL）の検証
+      let threads: AdminThreadInput[];
+      try {
+        threads = toStartThreads(body);
+      } catch (error) {
         res.status(400).json({
           success: false,
-          error: 'Thread URL is required',
+          error: error instanceof Error ? error.message : 'Invalid request',
         });
         return;
       }
 
-      if (!SLACK_THREAD_URL_PATTERN.test(body.threadUrl)) {
+      // 環境変数の確認
+      const env = getDecryptedEnv();
+      if (!env) {
         res.status(400).json({
           success: false,
-          error: 'Invalid Slack thread URL format',
+          error: 'Environment variables not set. Please decrypt first.',
         });
         return;
       }
 
-      // 環境変数の確認
-      const env = getDecryptedEnv();
-      if (!env) {
+      // モデレーション設定の検証
+      const moderation = body.moderation;
+      const autoApproveSeconds = moderation?.autoApproveSeconds;
+      if (
+        autoApproveSeconds !== undefined &&
+        autoApproveSeconds !== null &&
+        !(Number.isInteger(autoApproveSeconds) && autoApproveSeconds > 0)
+      ) {
         res.status(400).json({
           success: false,
-          error: 'Environment variables not set. Please decrypt first.',
+          error: 'autoApproveSeconds must be a positive integer or null',
+        });
+        return;
+      }
+
+      // 起動時に表示する直近の返信の件数の検証
+      const backfillCount = body.backfillCount;
+      if (
+        backfillCount !== undefined &&
+        !(Number.isInteger(backfillCount) && backfillCount >= 0 && backfillCount <= MAX_BACKFILL_COUNT)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `backfillCount must be an integer between 0 and ${MAX_BACKFILL_COUNT}`,
         });
         return;
       }
 
+      // モデレーション・画像表示・直近の返信の表示の設定はオーバーレイサーバーに環境変数で渡す
+      const processEnv = new Map(env);
+      if (moderation?.enabled !== undefined) {
+        processEnv.set('MODERATION_ENABLED', String(moderation.enabled === true));
+      }
+      if (autoApproveSeconds !== undefined) {
+        processEnv.set('MODERATION_AUTO_APPROVE_SECONDS', autoApproveSeconds === null ? '' : String(autoApproveSeconds));
+      }
+      if (body.showImages !== undefined) {
+        processEnv.set('SHOW_IMAGES', String(body.showImages === true));
+      }
+      if (backfillCount !== undefined) {
+        processEnv.set('BACKFILL_COUNT', String(backfillCount));
+      }
+
       // 起動
-      const sessionId = await processManager.start(body.threadUrl, env);
+      const sessionId = await processManager.start(threads.map(formatWatchSpec), processEnv);
 
       res.json({
         success: true,
@@ -75,6 +149,60 @@ export function createControlRouter(
     }
   });
 
+  /**
+   * POST /api/switch
+   * 実行中のオーバーレイの監視スレッドを切り替え（Electronウィンドウは維持）
+   */
+  router.post('/switch', async (req: Request, res: Response<SwitchThreadResponse>) => {
+    try {
+      const body = req.body as SwitchThreadRequest;
+
+      // スレッドURLの検証
+      if (!body.threadUrl || typeof body.threadUrl !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Thread URL is required',
+        });
+        return;
+      }
+
+      if (!SLACK_THREAD_URL_PATTERN.test(body.threadUrl)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid Slack thread or channel URL format',
+        });
+        return;
+      }
+
+      await processManager.switchThread({
+        threadUrl: body.threadUrl,
+        includeReplies: body.includeReplies === true,
+      });
+
+      res.json({
+        success: true,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Process not running') {
+        res.status(409).json({
+          success: false,
+          error: 'Process not running',
+        });
+      } else if (error instanceof OverlayControlError) {
+        res.status(502).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        console.error('Switch error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    }
+  });
+
   /**
    * POST /api/stop
    * オーバーレイを停止
@@ -1,6 +1,12 @@
 import { Router, type Request, type Response } from 'express';
 import multer from 'multer';
 import { decryptEnvFile, DecryptError } from '../services/decryptService.js';
+import {
+  getRequiredSlackKeys,
+  resolveSlackTransportKind,
+  TransportConfigError,
+  type SlackTransportKind,
+} from '../../transport/transportConfig.js';
 import type { DecryptResponse } from '../types/index.js';
 
 // multerをmemoryStorageモードで設定（ディスク書き込みなし）
@@ -51,8 +57,19 @@ export function createDecryptRouter(
         // 復号化
         const envMap = decryptEnvFile(req.file.buffer, password);
 
-        // 必須の環境変数を検証
-        const requiredKeys = ['SLACK_BOT_TOKEN', 'SLACK_APP_TOKEN'];
+        // 必須の環境変数を検証（接続方式によって必要な認証情報が異なる）
+        let transportKind: SlackTransportKind;
+        try {
+          transportKind = resolveSlackTransportKind(envMap.get('SLACK_TRANSPORT') ?? process.env['SLACK_TRANSPORT']);
+        } catch (error) {
+          if (!(error instanceof TransportConfigError)) throw error;
+          res.status(400).json({
+            success: false,
+            error: error.message,
+          });
+          return;
+        }
+        const requiredKeys = getRequiredSlackKeys(transportKind);
         const missingKeys = requiredKeys.filter((key) => !envMap.has(key));
         if (missingKeys.length > 0) {
           res.status(400).json({
@@ -0,0 +1,73 @@
+import { Router, type Request, type Response } from 'express';
+import type { ProcessManager } from '../services/processManager.js';
+import { DisplayBridgeError, type DisplayBridgeClient } from '../services/displayBridgeClient.js';
+import type { DisplayBridgeResponse, DisplaySelectionRequest } from '../types/index.js';
+
+/**
+ * ディスプレイ選択用ルーターを作成
+ * 実行中のオーバーレイのウィンドウ（Electron）のディスプレイブリッジに中継する
+ * @param processManager プロセスマネージャー
+ */
+export function createDisplayRouter(processManager: ProcessManager): Router {
+  const router = Router();
+
+  /**
+   * ディスプレイブリッジを呼び出し、エラーをステータスコードに変換して返す
+   */
+  async function relay(
+    res: Response<DisplayBridgeResponse>,
+    label: string,
+    call: (client: DisplayBridgeClient) => Promise<DisplayBridgeResponse>
+  ): Promise<void> {
+    try {
+      const result = await call(processManager.getDisplayClient());
+      res.json({
+        success: true,
+        displays: result.displays,
+        selection: result.selection,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Process not running') {
+        res.status(409).json({
+          success: false,
+          error: 'Process not running',
+        });
+      } else if (error instanceof DisplayBridgeError) {
+        // 400（不正な選択）などはそのまま返す
+        res.status(error.status && error.status < 500 ? error.status : 502).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        console.error(`${label} error:`, error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    }
+  }
+
+  /**
+   * GET /api/displays
+   * ディスプレイ一覧と現在の選択を取得
+   */
+  router.get('/displays', async (_req: Request, res: Response<DisplayBridgeResponse>) => {
+    await relay(res, 'Displays', (client) => client.getDisplays());
+  });
+
+  /**
+   * PUT /api/display
+   * オーバーレイを表示するディスプレイと範囲を変更（省略した項目は変更しない）
+   */
+  router.put('/display', async (req: Request, res: Response<DisplayBridgeResponse>) => {
+    const body = (req.body ?? {}) as DisplaySelectionRequest;
+    const selection: DisplaySelectionRequest = {};
+    if (body.displayId !== undefined) selection.displayId = body.displayId;
+    if (body.region !== undefined) selection.region = body.region;
+
+    await relay(res, 'Select display', (client) => client.selectDisplay(selection));
+  });
+
+  return router;
+}
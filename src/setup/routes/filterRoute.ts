@@ -0,0 +1,69 @@
+import { Router, type Request, type Response } from 'express';
+import { FilterConfigError } from '../../filter/commentFilter.js';
+import { loadFilterConfig, saveFilterConfig } from '../../filter/filterConfig.js';
+import type { FilterConfigResponse } from '../types/index.js';
+
+/**
+ * NGワードフィルター設定用ルーターを作成
+ * 保存した設定は実行中のオーバーレイサーバーが設定ファイルの変更を検知して反映する
+ * @param configPath フィルター設定ファイルのパス
+ */
+export function createFilterRouter(configPath: string): Router {
+  const router = Router();
+
+  /**
+   * GET /api/filters
+   * フィルター設定を取得
+   */
+  router.get('/filters', async (_req: Request, res: Response<FilterConfigResponse>) => {
+    try {
+      const config = await loadFilterConfig(configPath);
+      res.json({
+        success: true,
+        config,
+      });
+    } catch (error) {
+      if (error instanceof FilterConfigError) {
+        res.status(500).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        console.error('Filter load error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to load filter config',
+        });
+      }
+    }
+  });
+
+  /**
+   * PUT /api/filters
+   * フィルター設定を保存
+   */
+  router.put('/filters', async (req: Request, res: Response<FilterConfigResponse>) => {
+    try {
+      const config = await saveFilterConfig(configPath, req.body);
+      res.json({
+        success: true,
+        config,
+      });
+    } catch (error) {
+      if (error instanceof FilterConfigError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        console.error('Filter save error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to save filter config',
+        });
+      }
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,91 @@
+import { Router, type Request, type Response } from 'express';
+import type { ProcessManager } from '../services/processManager.js';
+import { OverlayControlError, type OverlayControlClient } from '../services/overlayControlClient.js';
+import type {
+  ModerationResponse,
+  ModerationSettingsRequest,
+} from '../types/index.js';
+
+/**
+ * モデレーション用ルーターを作成
+ * 承認待ちのコメントの操作は実行中のオーバーレイサーバーの管理APIに中継する
+ * @param processManager プロセスマネージャー
+ */
+export function createModerationRouter(processManager: ProcessManager): Router {
+  const router = Router();
+
+  /**
+   * 管理APIを呼び出し、エラーをステータスコードに変換して返す
+   */
+  async function relay(
+    res: Response<ModerationResponse>,
+    label: string,
+    call: (client: OverlayControlClient) => Promise<ModerationResponse>
+  ): Promise<void> {
+    try {
+      const result = await call(processManager.getControlClient());
+      res.json({
+        success: true,
+        moderation: result.moderation,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Process not running') {
+        res.status(409).json({
+          success: false,
+          error: 'Process not running',
+        });
+      } else if (error instanceof OverlayControlError) {
+        // 404（対象のコメントが存在しない）などはそのまま返す
+        res.status(error.status && error.status < 500 ? error.status : 502).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        console.error(`${label} error:`, error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    }
+  }
+
+  /**
+   * GET /api/moderation
+   * 設定と承認待ちのコメント一覧を取得
+   */
+  router.get('/moderation', async (_req: Request, res: Response<ModerationResponse>) => {
+    await relay(res, 'Moderation', (client) => client.getModeration());
+  });
+
+  /**
+   * PUT /api/moderation/settings
+   * モデレーション設定を更新
+   */
+  router.put('/moderation/settings', async (req: Request, res: Response<ModerationResponse>) => {
+    const body = (req.body ?? {}) as ModerationSettingsRequest;
+    const settings: ModerationSettingsRequest = {};
+    if (body.enabled !== undefined) settings.enabled = body.enabled;
+    if (body.autoApproveSeconds !== undefined) settings.autoApproveSeconds = body.autoApproveSeconds;
+
+    await relay(res, 'Moderation settings', (client) => client.updateModerationSettings(settings));
+  });
+
+  /**
+   * POST /api/moderation/:id/approve
+   * コメントを承認してオーバーレイに表示
+   */
+  router.post('/moderation/:id/approve', async (req: Request<{ id: string }>, res: Response<ModerationResponse>) => {
+    await relay(res, 'Approve', (client) => client.approveComment(req.params.id));
+  });
+
+  /**
+   * POST /api/moderation/:id/reject
+   * コメントを却下
+   */
+  router.post('/moderation/:id/reject', async (req: Request<{ id: string }>, res: Response<ModerationResponse>) => {
+    await relay(res, 'Reject', (client) => client.rejectComment(req.params.id));
+  });
+
+  return router;
+}
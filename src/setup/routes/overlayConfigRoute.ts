@@ -0,0 +1,110 @@
+import { Router, type Request, type Response } from 'express';
+import { OverlayConfigError } from '../../overlayConfig/overlayConfig.js';
+import { loadOverlayConfig, saveOverlayConfig } from '../../overlayConfig/overlayConfigFile.js';
+import { deleteOverlayPreset, loadOverlayPresets, saveOverlayPreset } from '../../overlayConfig/overlayPresets.js';
+import type { OverlayConfigResponse, OverlayPresetsResponse } from '../types/index.js';
+
+/**
+ * エラーをステータスコードに変換して返す
+ * @param invalidStatus 表示設定が不正な場合のステータスコード
+ */
+function sendError(
+  res: Response<{ success: boolean; error?: string }>,
+  error: unknown,
+  label: string,
+  invalidStatus: number
+): void {
+  if (error instanceof OverlayConfigError) {
+    res.status(invalidStatus).json({
+      success: false,
+      error: error.message,
+    });
+  } else {
+    console.error(`${label} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: `Failed to ${label.toLowerCase()}`,
+    });
+  }
+}
+
+/**
+ * 表示設定（テーマ）用ルーターを作成
+ * 保存した設定は実行中のオーバーレイサーバーが設定ファイルの変更を検知して反映する
+ * @param configPath 表示設定ファイルのパス
+ * @param presetsPath プリセットファイルのパス
+ */
+export function createOverlayConfigRouter(configPath: string, presetsPath: string): Router {
+  const router = Router();
+
+  /**
+   * GET /api/overlay-config
+   * 表示設定を取得
+   */
+  router.get('/overlay-config', async (_req: Request, res: Response<OverlayConfigResponse>) => {
+    try {
+      const config = await loadOverlayConfig(configPath);
+      res.json({ success: true, config });
+    } catch (error) {
+      sendError(res, error, 'Load overlay config', 500);
+    }
+  });
+
+  /**
+   * PUT /api/overlay-config
+   * 表示設定を保存してオーバーレイに反映
+   */
+  router.put('/overlay-config', async (req: Request, res: Response<OverlayConfigResponse>) => {
+    try {
+      const config = await saveOverlayConfig(configPath, req.body);
+      res.json({ success: true, config });
+    } catch (error) {
+      sendError(res, error, 'Save overlay config', 400);
+    }
+  });
+
+  /**
+   * GET /api/overlay-presets
+   * プリセット一覧を取得
+   */
+  router.get('/overlay-presets', async (_req: Request, res: Response<OverlayPresetsResponse>) => {
+    try {
+      const presets = await loadOverlayPresets(presetsPath);
+      res.json({ success: true, presets });
+    } catch (error) {
+      sendError(res, error, 'Load overlay presets', 500);
+    }
+  });
+
+  /**
+   * PUT /api/overlay-presets/:name
+   * 表示設定をプリセットとして保存（同じ名前のプリセットは上書き）
+   */
+  router.put('/overlay-presets/:name', async (req: Request<{ name: string }>, res: Response<OverlayPresetsResponse>) => {
+    try {
+      const presets = await saveOverlayPreset(presetsPath, req.params.name, req.body);
+      res.json({ success: true, presets });
+    } catch (error) {
+      sendError(res, error, 'Save overlay preset', 400);
+    }
+  });
+
+  /**
+   * DELETE /api/overlay-presets/:name
+   * プリセットを削除
+   */
+  router.delete('/overlay-presets/:name', async (req: Request<{ name: string }>, res: Response<OverlayPresetsResponse>) => {
+    try {
+      const presets = await deleteOverlayPreset(presetsPath, req.params.name);
+      if (!presets) {
+        res.status(404).json({ success: false, error: 'Preset not found' });
+        return;
+      }
+      res.json({ success: true, presets });
+    } catch (error) {
+      sendError(res, error, 'Delete overlay preset', 500);
+    }
+  });
+
+  return router;
+}
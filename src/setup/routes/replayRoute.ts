@@ -0,0 +1,102 @@
+import { Router, type Request, type Response } from 'express';
+import type { ProcessManager } from '../services/processManager.js';
+import { OverlayControlError, type OverlayControlClient } from '../services/overlayControlClient.js';
+import type { ReplayLoadRequest, ReplayResponse } from '../types/index.js';
+
+/**
+ * リプレイ用ルーターを作成
+ * 再生の操作は実行中のオーバーレイサーバーの管理APIに中継する
+ * @param processManager プロセスマネージャー
+ */
+export function createReplayRouter(processManager: ProcessManager): Router {
+  const router = Router();
+
+  /**
+   * 管理APIを呼び出し、エラーをステータスコードに変換して返す
+   */
+  async function relay(
+    res: Response<ReplayResponse>,
+    label: string,
+    call: (client: OverlayControlClient) => Promise<ReplayResponse>
+  ): Promise<void> {
+    try {
+      const result = await call(processManager.getControlClient());
+      res.json({
+        success: true,
+        replay: result.replay,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Process not running') {
+        res.status(409).json({
+          success: false,
+          error: 'Process not running',
+        });
+      } else if (error instanceof OverlayControlError) {
+        // 400（指定が不正）や404（セッションログが存在しない）などはそのまま返す
+        res.status(error.status && error.status < 500 ? error.status : 502).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        console.error(`${label} error:`, error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    }
+  }
+
+  /**
+   * GET /api/replay
+   * 再生状況を取得
+   */
+  router.get('/replay', async (_req: Request, res: Response<ReplayResponse>) => {
+    await relay(res, 'Replay', (client) => client.getReplay());
+  });
+
+  /**
+   * POST /api/replay
+   * 再生元（既存スレッドまたはセッションログ）を読み込む
+   */
+  router.post('/replay', async (req: Request, res: Response<ReplayResponse>) => {
+    const body = (req.body ?? {}) as ReplayLoadRequest;
+    await relay(res, 'Replay load', (client) => client.loadReplay({ source: body.source, speed: body.speed }));
+  });
+
+  /**
+   * POST /api/replay/:action
+   * 再生・一時停止・終了
+   */
+  router.post('/replay/:action', async (req: Request<{ action: string }>, res: Response<ReplayResponse>) => {
+    const { action } = req.params;
+    if (action !== 'play' && action !== 'pause' && action !== 'stop') {
+      res.status(404).json({
+        success: false,
+        error: 'Unknown replay action',
+      });
+      return;
+    }
+    await relay(res, 'Replay control', (client) => client.controlReplay(action));
+  });
+
+  /**
+   * PUT /api/replay/position
+   * 再生位置を移動
+   */
+  router.put('/replay/position', async (req: Request, res: Response<ReplayResponse>) => {
+    const body = (req.body ?? {}) as { positionMs?: number };
+    await relay(res, 'Replay seek', (client) => client.seekReplay(body.positionMs as number));
+  });
+
+  /**
+   * PUT /api/replay/speed
+   * 再生速度を変更
+   */
+  router.put('/replay/speed', async (req: Request, res: Response<ReplayResponse>) => {
+    const body = (req.body ?? {}) as { speed?: number };
+    await relay(res, 'Replay speed', (client) => client.setReplaySpeed(body.speed as number));
+  });
+
+  return router;
+}
@@ -21,6 +21,7 @@ function mapProcessStatusToApiStatus(
   return {
     state,
     threadUrl: processStatus.threadUrl,
+    threadUrls: processStatus.threadUrls,
     sessionId: processStatus.sessionId,
     uptime: processStatus.uptime,
   };
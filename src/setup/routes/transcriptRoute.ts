@@ -0,0 +1,66 @@
+import { Router, type Request, type Response } from 'express';
+import {
+  getTranscriptFileName,
+  isValidSessionId,
+  listTranscripts,
+} from '../../transcript/transcriptLog.js';
+import type { TranscriptListResponse } from '../types/index.js';
+
+/**
+ * セッションログ（トランスクリプト）用ルーターを作成
+ * @param transcriptDir セッションログの保存先ディレクトリ
+ */
+export function createTranscriptRouter(transcriptDir: string): Router {
+  const router = Router();
+
+  /**
+   * GET /api/transcripts
+   * 保存済みのセッションログを新しい順に取得
+   */
+  router.get('/transcripts', async (_req: Request, res: Response<TranscriptListResponse>) => {
+    try {
+      const transcripts = await listTranscripts(transcriptDir);
+      res.json({
+        success: true,
+        transcripts,
+      });
+    } catch (error) {
+      console.error('Transcript list error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list transcripts',
+      });
+    }
+  });
+
+  /**
+   * GET /api/transcripts/:sessionId
+   * セッションログ（JSONL）をダウンロード
+   */
+  router.get('/transcripts/:sessionId', (req: Request<{ sessionId: string }>, res: Response) => {
+    const { sessionId } = req.params;
+    // セキュリティ: 保存先ディレクトリの外のファイルを指定できないようにする
+    if (!isValidSessionId(sessionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid session ID',
+      });
+      return;
+    }
+
+    const fileName = getTranscriptFileName(sessionId);
+    res.download(fileName, fileName, { root: transcriptDir }, (error) => {
+      if (!error || res.headersSent) return;
+      const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      if (!notFound) {
+        console.error('Transcript download error:', error);
+      }
+      res.status(notFound ? 404 : 500).json({
+        success: false,
+        error: notFound ? 'Transcript not found' : 'Failed to download transcript',
+      });
+    });
+  });
+
+  return router;
+}
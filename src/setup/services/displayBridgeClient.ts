@@ -0,0 +1,87 @@
+import type { DisplaySelection } from '../../../shared/displaySelection.cjs';
+import type { FetchFn } from './overlayControlClient.js';
+import type { DisplayBridgeResponse } from '../types/index.js';
+
+/**
+ * ディスプレイブリッジの呼び出しに失敗した際にスローされるエラー
+ */
+export class DisplayBridgeError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'DisplayBridgeError';
+  }
+}
+
+/**
+ * DisplayBridgeClientの設定オプション
+ */
+export interface DisplayBridgeClientOptions {
+  /** ディスプレイブリッジのポート */
+  port: number;
+  /** コントロールトークン */
+  token: string;
+  /** fetch関数（テスト用にDI可能） */
+  fetch?: FetchFn;
+}
+
+/**
+ * Electronのディスプレイブリッジのクライアント
+ * オーバーレイのウィンドウを表示するディスプレイと範囲を再起動せずに変更するために使用する
+ */
+export class DisplayBridgeClient {
+  private readonly baseUrl: string;
+  private readonly token: string;
+  private readonly fetchFn: FetchFn;
+
+  constructor(options: DisplayBridgeClientOptions) {
+    // セキュリティ: ホストは localhost 固定
+    this.baseUrl = `http://localhost:${options.port}`;
+    this.token = options.token;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  /**
+   * ディスプレイ一覧と現在の選択を取得する
+   */
+  getDisplays(): Promise<DisplayBridgeResponse> {
+    return this.request('GET', '/displays');
+  }
+
+  /**
+   * 表示するディスプレイと範囲を変更する
+   */
+  selectDisplay(selection: Partial<DisplaySelection>): Promise<DisplayBridgeResponse> {
+    return this.request('PUT', '/display', selection);
+  }
+
+  /**
+   * ディスプレイブリッジを呼び出す
+   * @throws DisplayBridgeError 通信エラー、または失敗レスポンスの場合
+   */
+  private async request(method: string, pathname: string, body?: unknown): Promise<DisplayBridgeResponse> {
+    let response: Response;
+    try {
+      response = await this.fetchFn(this.baseUrl + pathname, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new DisplayBridgeError(
+        `Overlay window is unreachable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const result = await response.json().catch(() => null) as DisplayBridgeResponse | null;
+    if (!response.ok || !result?.success) {
+      throw new DisplayBridgeError(
+        result?.error ?? `Overlay window responded with ${response.status}`,
+        response.status
+      );
+    }
+    return result;
+  }
+}
@@ -0,0 +1,216 @@
+import WebSocket from 'ws';
+import type {
+  AdminEventMessage,
+  AdminModerationResponse,
+  AdminReplayLoadRequest,
+  AdminReplayResponse,
+  AdminThreadInput,
+  AdminThreadsResponse,
+  ModerationSettings,
+} from '../../types/index.js';
+
+/**
+ * 管理APIの呼び出しに失敗した際にスローされるエラー
+ */
+export class OverlayControlError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'OverlayControlError';
+  }
+}
+
+/**
+ * fetch関数の型定義
+ */
+export type FetchFn = typeof fetch;
+
+/**
+ * 管理イベントを受け取るコールバック
+ */
+export type AdminEventCallback = (event: AdminEventMessage) => void;
+
+// 管理WebSocketが切断された際の再接続間隔
+const RECONNECT_INTERVAL = 1000;
+
+/**
+ * OverlayControlClientの設定オプション
+ */
+export interface OverlayControlClientOptions {
+  /** オーバーレイサーバーのポート */
+  port: number;
+  /** コントロールトークン */
+  token: string;
+  /** fetch関数（テスト用にDI可能） */
+  fetch?: FetchFn;
+}
+
+/**
+ * オーバーレイサーバーの管理API（コントロールチャネル）クライアント
+ * 実行中のオーバーレイを再起動せずに操作するために使用する
+ */
+export class OverlayControlClient {
+  private readonly baseUrl: string;
+  private readonly wsUrl: string;
+  private readonly token: string;
+  private readonly fetchFn: FetchFn;
+
+  constructor(options: OverlayControlClientOptions) {
+    // セキュリティ: ホストは localhost 固定
+    this.baseUrl = `http://localhost:${options.port}/api/admin`;
+    this.wsUrl = `ws://localhost:${options.port}/ws/admin`;
+    this.token = options.token;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  /**
+   * 監視スレッドを置き換える
+   */
+  replaceThreads(threads: AdminThreadInput[]): Promise<AdminThreadsResponse> {
+    return this.request('PUT', '/threads', { threads });
+  }
+
+  /**
+   * 監視スレッドを追加する
+   */
+  addThread(thread: AdminThreadInput): Promise<AdminThreadsResponse> {
+    return this.request('POST', '/threads', thread);
+  }
+
+  /**
+   * モデレーションキューの状態を取得する
+   */
+  getModeration(): Promise<AdminModerationResponse> {
+    return this.request('GET', '/moderation');
+  }
+
+  /**
+   * 承認待ちのコメントを承認する
+   */
+  approveComment(id: string): Promise<AdminModerationResponse> {
+    return this.request('POST', `/moderation/${encodeURIComponent(id)}/approve`);
+  }
+
+  /**
+   * 承認待ちのコメントを却下する
+   */
+  rejectComment(id: string): Promise<AdminModerationResponse> {
+    return this.request('POST', `/moderation/${encodeURIComponent(id)}/reject`);
+  }
+
+  /**
+   * モデレーション設定を更新する
+   */
+  updateModerationSettings(settings: Partial<ModerationSettings>): Promise<AdminModerationResponse> {
+    return this.request('PUT', '/moderation/settings', settings);
+  }
+
+  /**
+   * リプレイの再生状況を取得する
+   */
+  getReplay(): Promise<AdminReplayResponse> {
+    return this.request('GET', '/replay');
+  }
+
+  /**
+   * リプレイの再生元を読み込む
+   */
+  loadReplay(request: AdminReplayLoadRequest): Promise<AdminReplayResponse> {
+    return this.request('POST', '/replay', request);
+  }
+
+  /**
+   * リプレイを再生・一時停止・終了する
+   */
+  controlReplay(action: 'play' | 'pause' | 'stop'): Promise<AdminReplayResponse> {
+    return this.request('POST', `/replay/${action}`);
+  }
+
+  /**
+   * リプレイの再生位置を移動する
+   */
+  seekReplay(positionMs: number): Promise<AdminReplayResponse> {
+    return this.request('PUT', '/replay/position', { positionMs });
+  }
+
+  /**
+   * リプレイの再生速度を変更する
+   */
+  setReplaySpeed(speed: number): Promise<AdminReplayResponse> {
+    return this.request('PUT', '/replay/speed', { speed });
+  }
+
+  /**
+   * 管理WebSocketに接続してイベントを購読する
+   * オーバーレイサーバーの起動待ちや切断時は自動で再接続する
+   * @returns 購読を解除する関数
+   */
+  subscribe(callback: AdminEventCallback): () => void {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const connect = (): void => {
+      socket = new WebSocket(this.wsUrl, {
+        headers: { 'Authorization': `Bearer ${this.token}` },
+      });
+      socket.on('message', (data) => {
+        try {
+          callback(JSON.parse(data.toString()) as AdminEventMessage);
+        } catch {
+          // 不正なメッセージは無視
+        }
+      });
+      // 'close' で再接続するため、エラー自体は無視する
+      socket.on('error', () => {});
+      socket.on('close', () => {
+        socket = null;
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_INTERVAL);
+        }
+      });
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }
+
+  /**
+   * 管理APIを呼び出す
+   * @throws OverlayControlError 通信エラー、または失敗レスポンスの場合
+   */
+  private async request<T extends { success: boolean; error?: string }>(
+    method: string,
+    pathname: string,
+    body?: unknown
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchFn(this.baseUrl + pathname, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new OverlayControlError(
+        `Overlay server is unreachable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const result = await response.json().catch(() => null) as T | null;
+    if (!response.ok || !result?.success) {
+      throw new OverlayControlError(
+        result?.error ?? `Overlay server responded with ${response.status}`,
+        response.status
+      );
+    }
+    return result;
+  }
+}
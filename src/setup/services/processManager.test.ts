@@ -102,6 +102,31 @@ describe('ProcessManager', () => {
       expect(mockSpawn).toHaveBeenCalledTimes(2);
     });
 
+    it('複数の監視対象をサーバーの引数に渡す', async () => {
+      const threadUrls = [
+        'A=https://example.slack.com/archives/C123/p456',
+        'B=https://example.slack.com/archives/C789/p012',
+      ];
+
+      setTimeout(() => {
+        (mockServerProcess.stdout as EventEmitter).emit(
+          'data',
+          Buffer.from('Server running on http://localhost:8000')
+        );
+      }, 10);
+
+      await manager.start(threadUrls, new Map());
+
+      expect(mockSpawn).toHaveBeenNthCalledWith(1, 'npx', ['tsx', 'src/server.ts', ...threadUrls], expect.anything());
+      expect(manager.getStatus()).toMatchObject({ threadUrl: threadUrls[0], threadUrls });
+    });
+
+    it('監視対象がない場合はエラー', async () => {
+      await expect(manager.start([], new Map())).rejects.toThrow('At least one thread is required');
+      expect(mockSpawn).not.toHaveBeenCalled();
+      expect(manager.getStatus().state).toBe('idle');
+    });
+
     it('起動後の状態はrunningになる', async () => {
       const threadUrl = 'https://example.slack.com/archives/C123/p456';
       const env = new Map([['SLACK_BOT_TOKEN', 'xoxb-test']]);
@@ -215,6 +240,163 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('switchThread', () => {
+    const threadUrl = 'https://example.slack.com/archives/C123/p456';
+    const nextThreadUrl = 'https://example.slack.com/archives/C123/p789';
+
+    async function startManager(target: ProcessManager): Promise<void> {
+      setTimeout(() => {
+        (mockServerProcess.stdout as EventEmitter).emit(
+          'data',
+          Buffer.from('Server running on http://localhost:8000')
+        );
+      }, 10);
+      await target.start(threadUrl, new Map([['SLACK_BOT_TOKEN', 'xoxb-test']]));
+    }
+
+    it('管理APIでスレッドを置き換え、状態のthreadUrlを更新する', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, threads: [] }), { status: 200 })
+      );
+      const switchingManager = new ProcessManager({
+        spawn: mockSpawn,
+        fetch: mockFetch,
+        startTimeout: 1000,
+        stopTimeout: 500,
+      });
+      await startManager(switchingManager);
+      const callback = vi.fn();
+      switchingManager.onStatusChange(callback);
+
+      await switchingManager.switchThread({ threadUrl: nextThreadUrl });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('http://localhost:8000/api/admin/threads');
+      expect(init.method).toBe('PUT');
+      expect(JSON.parse(init.body as string)).toEqual({ threads: [{ threadUrl: nextThreadUrl }] });
+      expect((init.headers as Record<string, string>)['Authorization']).toMatch(/^Bearer [0-9a-f]{64}$/);
+
+      expect(switchingManager.getStatus().threadUrl).toBe(nextThreadUrl);
+      expect(switchingManager.getStatus().state).toBe('running');
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ threadUrl: nextThreadUrl }));
+      // サーバーとElectronは再起動しない
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+
+      mockServerProcess.emit('exit', 0, null);
+      mockElectronProcess.emit('exit', 0, null);
+    });
+
+    it('子プロセスにコントロールトークンを環境変数で渡す', async () => {
+      await startManager(manager);
+
+      const serverOptions = (mockSpawn as ReturnType<typeof vi.fn>).mock.calls[0]?.[2] as { env: NodeJS.ProcessEnv };
+      const electronOptions = (mockSpawn as ReturnType<typeof vi.fn>).mock.calls[1]?.[2] as { env: NodeJS.ProcessEnv };
+      expect(serverOptions.env['OVERLAY_CONTROL_TOKEN']).toMatch(/^[0-9a-f]{64}$/);
+      expect(electronOptions.env['OVERLAY_CONTROL_TOKEN']).toBe(serverOptions.env['OVERLAY_CONTROL_TOKEN']);
+    });
+
+    it('オーバーレイサーバーにセッションIDを環境変数で渡す', async () => {
+      await startManager(manager);
+
+      const serverOptions = (mockSpawn as ReturnType<typeof vi.fn>).mock.calls[0]?.[2] as { env: NodeJS.ProcessEnv };
+      expect(serverOptions.env['OVERLAY_SESSION_ID']).toBe(manager.getStatus().sessionId);
+    });
+
+    it('管理APIがエラーを返した場合はthreadUrlを変更しない', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: false, error: 'Invalid Slack thread URL' }), { status: 400 })
+      );
+      const switchingManager = new ProcessManager({
+        spawn: mockSpawn,
+        fetch: mockFetch,
+        startTimeout: 1000,
+        stopTimeout: 500,
+      });
+      await startManager(switchingManager);
+
+      await expect(switchingManager.switchThread({ threadUrl: nextThreadUrl })).rejects.toThrow('Invalid Slack thread URL');
+      expect(switchingManager.getStatus().threadUrl).toBe(threadUrl);
+
+      mockServerProcess.emit('exit', 0, null);
+      mockElectronProcess.emit('exit', 0, null);
+    });
+
+    it('実行中でない場合はエラーをスローする', async () => {
+      await expect(manager.switchThread({ threadUrl: nextThreadUrl })).rejects.toThrow('Process not running');
+    });
+  });
+
+  describe('getControlClient', () => {
+    it('実行中は管理APIクライアントを返す', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, moderation: { settings: { enabled: true, autoApproveSeconds: null }, items: [] } }), { status: 200 })
+      );
+      const controlManager = new ProcessManager({
+        spawn: mockSpawn,
+        fetch: mockFetch,
+        startTimeout: 1000,
+        stopTimeout: 500,
+      });
+      setTimeout(() => {
+        (mockServerProcess.stdout as EventEmitter).emit(
+          'data',
+          Buffer.from('Server running on http://localhost:8000')
+        );
+      }, 10);
+      await controlManager.start('https://example.slack.com/archives/C123/p456', new Map());
+
+      await controlManager.getControlClient().approveComment('C123/1705200000.000100');
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('http://localhost:8000/api/admin/moderation/C123%2F1705200000.000100/approve');
+      expect(init.method).toBe('POST');
+
+      mockServerProcess.emit('exit', 0, null);
+      mockElectronProcess.emit('exit', 0, null);
+    });
+
+    it('実行中でない場合はエラーをスローする', () => {
+      expect(() => manager.getControlClient()).toThrow('Process not running');
+    });
+  });
+
+  describe('getDisplayClient', () => {
+    it('実行中はコントロールトークン付きでディスプレイブリッジを呼び出す', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, displays: [], selection: { displayId: null, region: { x: 0, y: 0, width: 1, height: 1 } } }), { status: 200 })
+      );
+      const displayManager = new ProcessManager({
+        spawn: mockSpawn,
+        fetch: mockFetch,
+        startTimeout: 1000,
+        stopTimeout: 500,
+      });
+      setTimeout(() => {
+        (mockServerProcess.stdout as EventEmitter).emit(
+          'data',
+          Buffer.from('Server running on http://localhost:8000')
+        );
+      }, 10);
+      await displayManager.start('https://example.slack.com/archives/C123/p456', new Map());
+
+      await displayManager.getDisplayClient().selectDisplay({ displayId: 2 });
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const electronOptions = (mockSpawn as ReturnType<typeof vi.fn>).mock.calls[1]?.[2] as { env: NodeJS.ProcessEnv };
+      expect(url).toBe('http://localhost:8002/display');
+      expect(init.method).toBe('PUT');
+      expect(init.headers).toMatchObject({ 'Authorization': `Bearer ${electronOptions.env['OVERLAY_CONTROL_TOKEN']}` });
+
+      mockServerProcess.emit('exit', 0, null);
+      mockElectronProcess.emit('exit', 0, null);
+    });
+
+    it('実行中でない場合はエラーをスローする', () => {
+      expect(() => manager.getDisplayClient()).toThrow('Process not running');
+    });
+  });
+
   describe('onStatusChange', () => {
     it('状態変更時にコールバックが呼ばれる', async () => {
       const callback = vi.fn();
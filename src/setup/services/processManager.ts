@@ -1,5 +1,14 @@
 import { spawn as nodeSpawn, type ChildProcess, type SpawnOptions } from 'child_process';
-import { randomUUID } from 'crypto';
+import { randomBytes, randomUUID } from 'crypto';
+import resolvePort from '../../../shared/resolvePort.cjs';
+import {
+  OverlayControlClient,
+  type AdminEventCallback,
+  type FetchFn,
+} from './overlayControlClient.js';
+import { DisplayBridgeClient } from './displayBridgeClient.js';
+import { formatWatchSpec } from '../../thread/watchSpec.js';
+import type { AdminThreadInput } from '../../types/index.js';
 
 /**
  * プロセスの状態
@@ -11,7 +20,10 @@ export type ProcessState = 'idle' | 'starting' | 'running' | 'stopping';
  */
 export interface ProcessStatus {
   state: ProcessState;
+  /** 最初の監視対象（監視対象がない場合は null） */
   threadUrl: string | null;
+  /** 監視対象の指定文字列 */
+  threadUrls: string[];
   sessionId: string | null;
   startedAt: number | null;
   uptime: number;
@@ -36,6 +48,8 @@ export interface ProcessManagerOptions {
   stopTimeout?: number;
   /** spawn関数（テスト用にDI可能） */
   spawn?: SpawnFn;
+  /** 管理API呼び出し用のfetch関数（テスト用にDI可能） */
+  fetch?: FetchFn;
 }
 
 type StatusChangeCallback = (status: ProcessStatus) => void;
@@ -48,18 +62,23 @@ const DEFAULT_STOP_TIMEOUT = 5000;
  */
 export class ProcessManager {
   private state: ProcessState = 'idle';
-  private threadUrl: string | null = null;
+  private threadUrls: string[] = [];
   private sessionId: string | null = null;
   private startedAt: number | null = null;
 
   private serverProcess: ChildProcess | null = null;
   private electronProcess: ChildProcess | null = null;
+  private controlClient: OverlayControlClient | null = null;
+  private displayClient: DisplayBridgeClient | null = null;
+  private unsubscribeOverlay: (() => void) | null = null;
 
   private callbacks: Set<StatusChangeCallback> = new Set();
+  private overlayCallbacks: Set<AdminEventCallback> = new Set();
   private options: {
     startTimeout: number;
     stopTimeout: number;
     spawn: SpawnFn;
+    fetch: FetchFn | undefined;
   };
 
   constructor(options: ProcessManagerOptions = {}) {
@@ -67,6 +86,7 @@ export class ProcessManager {
       startTimeout: options.startTimeout ?? DEFAULT_START_TIMEOUT,
       stopTimeout: options.stopTimeout ?? DEFAULT_STOP_TIMEOUT,
       spawn: options.spawn ?? ((cmd, args, opts) => nodeSpawn(cmd, args, opts ?? {})),
+      fetch: options.fetch,
     };
   }
 
@@ -76,7 +96,8 @@ export class ProcessManager {
   getStatus(): ProcessStatus {
     return {
       state: this.state,
-      threadUrl: this.threadUrl,
+      threadUrl: this.threadUrls[0] ?? null,
+      threadUrls: [...this.threadUrls],
       sessionId: this.sessionId,
       startedAt: this.startedAt,
       uptime: this.startedAt ? Date.now() - this.startedAt : 0,
@@ -94,35 +115,89 @@ export class ProcessManager {
     };
   }
 
+  /**
+   * オーバーレイサーバーの管理イベント（モデレーションキューの変化など）のコールバックを登録
+   * 起動時に登録済みのコールバックがある場合のみ、管理WebSocketを購読する
+   * @returns 登録解除用の関数
+   */
+  onOverlayEvent(callback: AdminEventCallback): () => void {
+    this.overlayCallbacks.add(callback);
+    return () => {
+      this.overlayCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * 実行中のオーバーレイの管理APIクライアントを取得
+   * @throws Error オーバーレイが実行中でない場合
+   */
+  getControlClient(): OverlayControlClient {
+    if (this.state !== 'running' || !this.controlClient) {
+      throw new Error('Process not running');
+    }
+    return this.controlClient;
+  }
+
+  /**
+   * 実行中のオーバーレイのウィンドウ（Electron）のディスプレイブリッジクライアントを取得
+   * @throws Error オーバーレイが実行中でない場合
+   */
+  getDisplayClient(): DisplayBridgeClient {
+    if (this.state !== 'running' || !this.displayClient) {
+      throw new Error('Process not running');
+    }
+    return this.displayClient;
+  }
+
   /**
    * オーバーレイを起動
-   * @param threadUrl SlackスレッドのURL
+   * @param watchSpecs 監視対象の指定文字列（SlackスレッドのURL。チャンネル指定も可）。複数指定可
    * @param env 環境変数のMap
    * @returns セッションID
    */
   async start(
-    threadUrl: string,
+    watchSpecs: string | readonly string[],
     env: Map<string, string>
   ): Promise<string> {
     if (this.state !== 'idle') {
       throw new Error('Process already running');
     }
+    const threadUrls = typeof watchSpecs === 'string' ? [watchSpecs] : [...watchSpecs];
+    if (threadUrls.length === 0) {
+      throw new Error('At least one thread is required');
+    }
 
     this.setState('starting');
-    this.threadUrl = threadUrl;
+    this.threadUrls = threadUrls;
     this.sessionId = randomUUID();
 
     try {
       // 環境変数を準備
-      const processEnv = {
+      // 管理API用のコントロールトークンは起動ごとに発行し、子プロセスにのみ渡す
+      const controlToken = randomBytes(32).toString('hex');
+      const processEnv: NodeJS.ProcessEnv = {
         ...process.env,
         ...Object.fromEntries(env),
+        OVERLAY_CONTROL_TOKEN: controlToken,
+        // セッションログのファイル名に使用する
+        OVERLAY_SESSION_ID: this.sessionId,
       };
+      this.controlClient = new OverlayControlClient({
+        port: resolvePort(processEnv['OVERLAY_PORT'], 8000),
+        token: controlToken,
+        fetch: this.options.fetch,
+      });
+      // Electronのディスプレイブリッジにも同じトークンを使用する
+      this.displayClient = new DisplayBridgeClient({
+        port: resolvePort(processEnv['OVERLAY_BRIDGE_PORT'], 8002),
+        token: controlToken,
+        fetch: this.options.fetch,
+      });
 
       // サーバープロセスを起動
       this.serverProcess = this.options.spawn(
         'npx',
-        ['tsx', 'src/server.ts', threadUrl],
+        ['tsx', 'src/server.ts', ...threadUrls],
         {
           env: processEnv,
           stdio: ['ignore', 'pipe', 'pipe'],
@@ -132,6 +207,19 @@ export class ProcessManager {
       // サーバーが起動完了するまで待機
       await this.waitForServerReady();
 
+      // 管理イベントの購読を開始
+      if (this.overlayCallbacks.size > 0) {
+        this.unsubscribeOverlay = this.controlClient.subscribe((event) => {
+          for (const callback of this.overlayCallbacks) {
+            try {
+              callback(event);
+            } catch {
+              // コールバックエラーは無視
+            }
+          }
+        });
+      }
+
       // Electronプロセスを起動
       this.electronProcess = this.options.spawn(
         'npm',
@@ -156,6 +244,18 @@ export class ProcessManager {
     }
   }
 
+  /**
+   * 実行中のオーバーレイの監視対象を切り替える
+   * オーバーレイサーバーとElectronは再起動しない
+   * @param target 切り替え先のスレッドまたはチャンネル
+   */
+  async switchThread(target: AdminThreadInput): Promise<void> {
+    await this.getControlClient().replaceThreads([target]);
+
+    this.threadUrls = [formatWatchSpec(target)];
+    this.notifyStatusChange();
+  }
+
   /**
    * オーバーレイを停止
    */
@@ -262,7 +362,11 @@ export class ProcessManager {
   private async cleanup(): Promise<void> {
     this.serverProcess = null;
     this.electronProcess = null;
-    this.threadUrl = null;
+    this.unsubscribeOverlay?.();
+    this.unsubscribeOverlay = null;
+    this.controlClient = null;
+    this.displayClient = null;
+    this.threadUrls = [];
     this.sessionId = null;
     this.startedAt = null;
     this.setState('idle');
@@ -273,6 +377,13 @@ export class ProcessManager {
    */
   private setState(newState: ProcessState): void {
     this.state = newState;
+    this.notifyStatusChange();
+  }
+
+  /**
+   * 現在の状態でコールバックを呼び出す
+   */
+  private notifyStatusChange(): void {
     const status = this.getStatus();
     for (const callback of this.callbacks) {
       try {
@@ -8,8 +8,19 @@ import { existsSync } from 'fs';
 import { ProcessManager } from './services/processManager.js';
 import { createDecryptRouter } from './routes/decryptRoute.js';
 import { createControlRouter } from './routes/controlRoute.js';
+import { createModerationRouter } from './routes/moderationRoute.js';
+import { createReplayRouter } from './routes/replayRoute.js';
+import { createDisplayRouter } from './routes/displayRoute.js';
+import { createFilterRouter } from './routes/filterRoute.js';
+import { resolveFilterConfigPath } from '../filter/filterConfig.js';
+import { createOverlayConfigRouter } from './routes/overlayConfigRoute.js';
+import { resolveOverlayConfigPath } from '../overlayConfig/overlayConfigFile.js';
+import { resolveOverlayPresetsPath } from '../overlayConfig/overlayPresets.js';
+import { createTranscriptRouter } from './routes/transcriptRoute.js';
+import { resolveTranscriptDir } from '../transcript/transcriptLog.js';
 import { createStatusRouter, createStatusMessage } from './routes/statusRoute.js';
 import resolvePort from '../../shared/resolvePort.cjs';
+import type { WebSocketModerationMessage, WebSocketReplayMessage } from './types/index.js';
 
 // ESM用の __dirname 代替
 const __filename = fileURLToPath(import.meta.url);
@@ -63,7 +74,9 @@ async function main(): Promise<void> {
       directives: {
         defaultSrc: ["'self'"],
         scriptSrc: ["'self'", "https://cdn.tailwindcss.com"],
-        styleSrc: ["'self'", "'unsafe-inline'", "https://cdn.tailwindcss.com"],
+        styleSrc: ["'self'", "'unsafe-inline'", "https://cdn.tailwindcss.com", "https://fonts.googleapis.com"],
+        // 表示設定のプレビュー（オーバーレイ画面）で使用する Web フォント
+        fontSrc: ["'self'", "https://fonts.gstatic.com"],
         imgSrc: ["'self'", "data:"],
         connectSrc: ["'self'", "ws://localhost:*", "wss://localhost:*"],
       },
@@ -76,6 +89,9 @@ async function main(): Promise<void> {
   // 静的ファイル配信
   app.use(express.static(path.join(__dirname, '../../public/setup')));
 
+  // 表示設定のプレビュー用にオーバーレイ画面を配信（?preview を付けて iframe で埋め込む）
+  app.use('/preview', express.static(path.join(__dirname, '../../public')));
+
   // API ルート
   app.use('/api', createDecryptRouter((env) => {
     decryptedEnv = env;
@@ -88,6 +104,21 @@ async function main(): Promise<void> {
     () => decryptedEnv
   ));
 
+  app.use('/api', createModerationRouter(processManager));
+
+  app.use('/api', createReplayRouter(processManager));
+
+  app.use('/api', createDisplayRouter(processManager));
+
+  app.use('/api', createFilterRouter(resolveFilterConfigPath(process.env)));
+
+  app.use('/api', createOverlayConfigRouter(
+    resolveOverlayConfigPath(process.env),
+    resolveOverlayPresetsPath(process.env)
+  ));
+
+  app.use('/api', createTranscriptRouter(resolveTranscriptDir(process.env)));
+
   app.use('/api', createStatusRouter(
     processManager,
     () => decryptedEnv !== null
@@ -149,6 +180,16 @@ async function main(): Promise<void> {
     broadcastStatus();
   });
 
+  // オーバーレイサーバーのモデレーションキュー・リプレイの変化をセットアップ画面に中継
+  processManager.onOverlayEvent((event) => {
+    const data = JSON.stringify(event satisfies WebSocketModerationMessage | WebSocketReplayMessage);
+    for (const client of wsClients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    }
+  });
+
   // サーバー起動
   httpServer.listen(SETUP_PORT, () => {
     console.log('');
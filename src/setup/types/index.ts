@@ -2,6 +2,19 @@
  * Setup Server API 型定義
  */
 
+import type { DisplayInfo, DisplaySelection } from '../../../shared/displaySelection.cjs';
+import type {
+  AdminThreadInput,
+  FilterConfig,
+  ModerationSettings,
+  ModerationSnapshot,
+  OverlayConfig,
+  OverlayPreset,
+  ReplaySourceInput,
+  ReplayStatus,
+  TranscriptSummary,
+} from '../../types/index.js';
+
 /**
  * POST /api/decrypt のレスポンス
  */
@@ -15,7 +28,18 @@ export interface DecryptResponse {
  * POST /api/start のリクエスト
  */
 export interface StartRequest {
-  threadUrl: string;
+  /** スレッドURLまたはチャンネルURL（threads を指定した場合は無視） */
+  threadUrl?: string;
+  /** チャンネルURL指定時にスレッド返信も表示するか（threadUrl 用） */
+  includeReplies?: boolean;
+  /** 監視するスレッド・チャンネル（複数指定可） */
+  threads?: AdminThreadInput[];
+  /** モデレーション（承認後に表示）の初期設定 */
+  moderation?: Partial<ModerationSettings>;
+  /** 返信に添付された画像を表示するか */
+  showImages?: boolean;
+  /** 起動時に表示する直近の返信の件数（0 で表示しない） */
+  backfillCount?: number;
 }
 
 /**
@@ -27,6 +51,107 @@ export interface StartResponse {
   error?: string;
 }
 
+/**
+ * POST /api/switch のリクエスト
+ */
+export interface SwitchThreadRequest {
+  /** スレッドURLまたはチャンネルURL */
+  threadUrl: string;
+  /** チャンネルURL指定時にスレッド返信も表示するか */
+  includeReplies?: boolean;
+}
+
+/**
+ * POST /api/switch のレスポンス
+ */
+export interface SwitchThreadResponse {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * /api/moderation 系のレスポンス
+ */
+export interface ModerationResponse {
+  success: boolean;
+  moderation?: ModerationSnapshot;
+  error?: string;
+}
+
+/**
+ * PUT /api/moderation/settings のリクエスト
+ */
+export type ModerationSettingsRequest = Partial<ModerationSettings>;
+
+/**
+ * /api/replay 系のレスポンス
+ */
+export interface ReplayResponse {
+  success: boolean;
+  replay?: ReplayStatus;
+  error?: string;
+}
+
+/**
+ * POST /api/replay のリクエスト
+ */
+export interface ReplayLoadRequest {
+  source: ReplaySourceInput;
+  speed?: number;
+}
+
+/**
+ * GET・PUT /api/filters のレスポンス
+ */
+export interface FilterConfigResponse {
+  success: boolean;
+  config?: FilterConfig;
+  error?: string;
+}
+
+/**
+ * GET・PUT /api/overlay-config のレスポンス
+ */
+export interface OverlayConfigResponse {
+  success: boolean;
+  config?: OverlayConfig;
+  error?: string;
+}
+
+/**
+ * /api/overlay-presets 系のレスポンス
+ */
+export interface OverlayPresetsResponse {
+  success: boolean;
+  presets?: OverlayPreset[];
+  error?: string;
+}
+
+/**
+ * GET /api/displays・PUT /api/display のレスポンス（Electronのディスプレイブリッジのレスポンスと同じ形式）
+ */
+export interface DisplayBridgeResponse {
+  success: boolean;
+  displays?: DisplayInfo[];
+  selection?: DisplaySelection;
+  error?: string;
+}
+
+/**
+ * PUT /api/display のリクエスト
+ * 省略した項目（displayId・region）は現在の選択のままにする
+ */
+export type DisplaySelectionRequest = Partial<DisplaySelection>;
+
+/**
+ * GET /api/transcripts のレスポンス
+ */
+export interface TranscriptListResponse {
+  success: boolean;
+  transcripts?: TranscriptSummary[];
+  error?: string;
+}
+
 /**
  * POST /api/stop のレスポンス
  */
@@ -41,6 +166,7 @@ export interface StopResponse {
 export interface StatusResponse {
   state: 'idle' | 'ready' | 'starting' | 'running' | 'stopping';
   threadUrl: string | null;
+  threadUrls: string[];
   sessionId: string | null;
   uptime: number;
 }
@@ -52,3 +178,19 @@ export interface WebSocketStatusMessage {
   type: 'status';
   data: StatusResponse;
 }
+
+/**
+ * WebSocket メッセージ型（モデレーションキューの変化）
+ */
+export interface WebSocketModerationMessage {
+  type: 'moderation';
+  data: ModerationSnapshot;
+}
+
+/**
+ * WebSocket メッセージ型（リプレイの再生状況の変化）
+ */
+export interface WebSocketReplayMessage {
+  type: 'replay';
+  data: ReplayStatus;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { SlackClient, SlackMessageEvent, WebSocketMessage } from '../types/index.js';
+import { clearEmojiCache } from '../emoji/index.js';
+import { clearUserCache } from '../user/index.js';
+import { createThreadRegistry, parseWatchSpec } from '../thread/index.js';
+import { createCommentTracker } from '../tracker/index.js';
+import { loadBackfillCount, scheduleBackfill, toBackfillEvent } from './backfill.js';
+import { createMessageHandler } from './messageHandler.js';
+import { fetchInitialHistory } from './slackService.js';
+
+describe('loadBackfillCount', () => {
+  it('BACKFILL_COUNT の件数を読み込む（上限は50件）', () => {
+    expect(loadBackfillCount({ BACKFILL_COUNT: '10' })).toBe(10);
+    expect(loadBackfillCount({ BACKFILL_COUNT: '100' })).toBe(50);
+  });
+
+  it('未設定・不正な値の場合は 0', () => {
+    expect(loadBackfillCount({})).toBe(0);
+    expect(loadBackfillCount({ BACKFILL_COUNT: '-1' })).toBe(0);
+    expect(loadBackfillCount({ BACKFILL_COUNT: 'abc' })).toBe(0);
+  });
+});
+
+describe('toBackfillEvent', () => {
+  it('スレッドの返信を message イベントに変換する', () => {
+    const thread = { kind: 'thread' as const, id: 'C1/1.0', label: '', channelId: 'C1', threadTs: '1.0' };
+
+    expect(toBackfillEvent(thread, { ts: '2.0', user: 'U1', text: 'hi' })).toEqual({
+      type: 'message',
+      channel: 'C1',
+      ts: '2.0',
+      thread_ts: '1.0',
+      user: 'U1',
+      text: 'hi',
+    });
+  });
+});
+
+describe('画像のみの返信の表示', () => {
+  const THREAD_TS = '1705200000.000000';
+  const file = { id: 'F1', name: 'photo.png', mimetype: 'image/png' };
+  const image = { url: '/images/F1', width: 480, height: 360, name: 'photo.png' };
+
+  beforeEach(() => {
+    clearEmojiCache();
+    clearUserCache();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('新規メッセージと同じく画像を表示し、返信数には含めない', async () => {
+    const client: SlackClient = {
+      users: { info: vi.fn().mockResolvedValue({ ok: true, user: { profile: { display_name: '田中太郎' } } }) },
+      conversations: {
+        replies: vi.fn().mockResolvedValue({
+          ok: true,
+          messages: [
+            { ts: THREAD_TS, user: 'U9', text: '親' },
+            { ts: '1705200001.000000', user: 'U1', text: '返信' },
+            { ts: '1705200002.000000', user: 'U1', text: '', subtype: 'file_share', files: [file] },
+          ],
+        }),
+      },
+      emoji: { list: vi.fn().mockResolvedValue({ ok: true, emoji: {} }) },
+    };
+    const registry = createThreadRegistry();
+    registry.add(parseWatchSpec(`https://example.slack.com/archives/C111/p1705200000000000`));
+    const thread = registry.list()[0]!;
+    if (thread.kind !== 'thread') throw new Error('expected a thread');
+    const broadcast = vi.fn<(message: WebSocketMessage) => void>();
+    const handle = createMessageHandler({
+      registry,
+      tracker: createCommentTracker(),
+      broadcast,
+      resolveImages: (files) => files.map(() => image),
+    });
+
+    const history = await fetchInitialHistory(client, thread.channelId, thread.threadTs, 2);
+    const events = history.recent.map((reply) => toBackfillEvent(thread, reply));
+    for (const event of events) {
+      await handle(event, client, { backfill: true });
+    }
+
+    expect(history.count).toBe(1);
+    expect(events[1]).toMatchObject({ subtype: 'file_share', files: [file] });
+    expect(broadcast.mock.calls.map(([message]) => message)).toEqual([
+      expect.objectContaining({ type: 'comment', text: '返信' }),
+      expect.objectContaining({ type: 'comment', text: '', images: [image] }),
+    ]);
+  });
+});
+
+describe('scheduleBackfill', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function event(ts: string): SlackMessageEvent {
+    return { type: 'message', channel: 'C1', ts, user: 'U1', text: ts };
+  }
+
+  it('投稿順に一定間隔で処理する', () => {
+    const handle = vi.fn().mockResolvedValue(undefined);
+    scheduleBackfill([event('3.0'), event('1.0'), event('2.0')], handle, 1000);
+
+    vi.advanceTimersByTime(0);
+    expect(handle.mock.calls.map(([e]) => (e as SlackMessageEvent).ts)).toEqual(['1.0']);
+    vi.advanceTimersByTime(2000);
+    expect(handle.mock.calls.map(([e]) => (e as SlackMessageEvent).ts)).toEqual(['1.0', '2.0', '3.0']);
+  });
+
+  it('取り消すと未処理の返信は処理しない', () => {
+    const handle = vi.fn().mockResolvedValue(undefined);
+    const cancel = scheduleBackfill([event('1.0'), event('2.0')], handle, 1000);
+
+    vi.advanceTimersByTime(0);
+    cancel();
+    vi.advanceTimersByTime(5000);
+
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,62 @@
+import type { SlackMessageEvent, WatchedThread } from '../types/index.js';
+import type { ThreadReply } from './slackService.js';
+
+// 起動時に表示できる直近の返信の上限
+export const MAX_BACKFILL_COUNT = 50;
+
+// 起動前の返信を表示する間隔（ミリ秒）。まとめて流れないよう少しずつずらす
+const DEFAULT_BACKFILL_INTERVAL = 1500;
+
+/**
+ * 環境変数から起動時に表示する直近の返信の件数を読み込む
+ * - BACKFILL_COUNT に 0〜50 の整数を指定（未設定・不正な値の場合は表示しない）
+ */
+export function loadBackfillCount(env: NodeJS.ProcessEnv): number {
+  const count = Number(env['BACKFILL_COUNT']);
+  return Number.isInteger(count) && count > 0 ? Math.min(count, MAX_BACKFILL_COUNT) : 0;
+}
+
+/**
+ * スレッドの返信を message イベントの形に変換
+ * 新規メッセージと同じく表示・カウントできるよう、サブタイプ（ファイル共有）と添付ファイルも引き継ぐ
+ */
+export function toBackfillEvent(thread: WatchedThread, reply: ThreadReply): SlackMessageEvent {
+  const event: SlackMessageEvent = {
+    type: 'message',
+    channel: thread.channelId,
+    ts: reply.ts,
+    thread_ts: thread.threadTs,
+    user: reply.user,
+    text: reply.text,
+  };
+  if (reply.subtype) {
+    event.subtype = reply.subtype;
+  }
+  if (reply.files) {
+    event.files = reply.files;
+  }
+  return event;
+}
+
+/**
+ * 起動前の返信を投稿順に一定間隔で処理する
+ * @returns 未処理の返信を取り消す関数
+ */
+export function scheduleBackfill(
+  events: SlackMessageEvent[],
+  handle: (event: SlackMessageEvent) => Promise<void>,
+  interval = DEFAULT_BACKFILL_INTERVAL
+): () => void {
+  const sorted = [...events].sort((a, b) => Number(a.ts) - Number(b.ts));
+  const timers = sorted.map((event, index) => setTimeout(() => {
+    handle(event).catch((err: unknown) => {
+      console.error('Failed to backfill reply:', err);
+    });
+  }, index * interval));
+
+  return () => {
+    for (const timer of timers) {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import type { SlackClient, SlackMessageEvent, SlackReactionEvent } from '../types/index.js';
+import type { MessageHandler } from './messageHandler.js';
+import type { ReactionHandler } from './reactionHandler.js';
+
+/**
+ * コメントの取得元（Socket Mode / Events API / ポーリング）から受け取るイベント
+ */
+export type SlackEvent = SlackMessageEvent | SlackReactionEvent;
+
+export type SlackEventHandler = (event: SlackEvent, client: SlackClient) => Promise<void>;
+
+/**
+ * イベントハンドラーの依存
+ */
+export interface SlackEventHandlerDeps {
+  handleMessage: MessageHandler;
+  handleReaction: ReactionHandler;
+}
+
+/**
+ * イベントの種類に応じてメッセージ・リアクションのハンドラーに振り分けるハンドラーを作成
+ * どの方式でSlackと接続しても、同じハンドラーでコメントを処理する
+ */
+export function createSlackEventHandler(deps: SlackEventHandlerDeps): SlackEventHandler {
+  const { handleMessage, handleReaction } = deps;
+
+  return async (event, client) => {
+    switch (event.type) {
+      case 'message':
+        await handleMessage(event, client);
+        return;
+      case 'reaction_added':
+        await handleReaction(event, client);
+        return;
+      default:
+        // 購読していないイベントは無視
+        return;
+    }
+  };
+}
@@ -1 +1,9 @@
-export { fetchInitialCommentCount } from './slackService.js';
+export type { InitialHistory, ThreadReply } from './slackService.js';
+export { fetchInitialCommentCount, fetchInitialHistory, fetchThreadReplies } from './slackService.js';
+export type { MessageHandler, MessageHandlerDeps, MessageHandlerOptions } from './messageHandler.js';
+export { createMessageHandler } from './messageHandler.js';
+export type { ReactionHandler, ReactionHandlerDeps } from './reactionHandler.js';
+export { createReactionHandler, normalizeReactionName } from './reactionHandler.js';
+export { loadBackfillCount, MAX_BACKFILL_COUNT, scheduleBackfill, toBackfillEvent } from './backfill.js';
+export type { SlackEvent, SlackEventHandler, SlackEventHandlerDeps } from './eventHandler.js';
+export { createSlackEventHandler } from './eventHandler.js';
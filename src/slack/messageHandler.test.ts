@@ -0,0 +1,346 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { SlackClient, SlackMessageEvent, WebSocketMessage } from '../types/index.js';
+import { clearEmojiCache } from '../emoji/index.js';
+import { clearUserCache } from '../user/index.js';
+import { createThreadRegistry, parseWatchSpec, type ThreadRegistry } from '../thread/index.js';
+import { createCommentTracker } from '../tracker/index.js';
+import { createCommentFilter } from '../filter/index.js';
+import { createMessageHandler, type MessageHandler } from './messageHandler.js';
+import { fetchInitialHistory } from './slackService.js';
+
+const THREAD_URL = 'https://example.slack.com/archives/C111/p1705200000000000';
+const THREAD_TS = '1705200000.000000';
+
+function createMockClient(): SlackClient & { users: { info: Mock } } {
+  return {
+    users: {
+      info: vi.fn().mockResolvedValue({
+        ok: true,
+        user: { profile: { display_name: '田中太郎' } },
+      }),
+    },
+    conversations: {
+      replies: vi.fn(),
+    },
+    emoji: {
+      list: vi.fn().mockResolvedValue({ ok: true, emoji: {} }),
+    },
+  };
+}
+
+function reply(ts: string, text: string): SlackMessageEvent {
+  return { type: 'message', channel: 'C111', ts, thread_ts: THREAD_TS, user: 'U123', text };
+}
+
+describe('createMessageHandler', () => {
+  let client: ReturnType<typeof createMockClient>;
+  let registry: ThreadRegistry;
+  let broadcast: Mock<(message: WebSocketMessage) => void>;
+  let handle: MessageHandler;
+
+  beforeEach(() => {
+    clearEmojiCache();
+    clearUserCache();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    client = createMockClient();
+    registry = createThreadRegistry();
+    registry.add(parseWatchSpec(`A=${THREAD_URL}`));
+    broadcast = vi.fn();
+    handle = createMessageHandler({ registry, tracker: createCommentTracker(), broadcast });
+  });
+
+  function sentOfType<T extends WebSocketMessage['type']>(type: T): Extract<WebSocketMessage, { type: T }>[] {
+    return broadcast.mock.calls
+      .map(([message]) => message)
+      .filter((message): message is Extract<WebSocketMessage, { type: T }> => message.type === type);
+  }
+
+  describe('新規メッセージ', () => {
+    it('監視中スレッドへの返信をコメントとしてブロードキャストする', async () => {
+      await handle(reply('1705200001.000000', 'こんにちは'), client);
+
+      expect(sentOfType('comment')).toEqual([{
+        type: 'comment',
+        id: 'C111/1705200001.000000',
+        text: 'こんにちは',
+        userName: '田中太郎',
+        userColor: expect.stringMatching(/^hsl\(/),
+        emojis: {},
+        threadId: 'C111/1705200000.000000',
+        threadLabel: 'A',
+      }]);
+      expect(sentOfType('counter').at(-1)?.count).toBe(1);
+    });
+
+    it('セッションログ用に元のSlackメッセージを記録する', async () => {
+      const recordSource = vi.fn();
+      handle = createMessageHandler({ registry, tracker: createCommentTracker(), broadcast, recordSource });
+
+      await handle(reply('1705200001.000000', '*太字*'), client);
+
+      expect(recordSource).toHaveBeenCalledWith({
+        id: 'C111/1705200001.000000',
+        ts: '1705200001.000000',
+        userId: 'U123',
+        rawText: '*太字*',
+        processedText: '太字',
+      });
+    });
+
+    it('allowedCommands を指定した場合はコメントコマンドを表示スタイルに変換する', async () => {
+      handle = createMessageHandler({ registry, tracker: createCommentTracker(), broadcast, allowedCommands: ['position', 'color'] });
+
+      await handle(reply('1705200001.000000', '[shita cyan big] 質問です'), client);
+
+      expect(sentOfType('comment')[0]).toMatchObject({
+        text: '質問です',
+        style: { position: 'bottom', color: '#00FFFF' },
+      });
+    });
+
+    it('起動前の返信の表示（backfill）はカウントしない', async () => {
+      await handle(reply('1705200001.000000', '前の返信'), client, { backfill: true });
+
+      expect(sentOfType('comment')[0]?.text).toBe('前の返信');
+      expect(sentOfType('counter')).toEqual([]);
+    });
+
+    it('Slack記法を除くと空になる返信は表示しないが、起動時の初期値と同じくカウントする', async () => {
+      vi.mocked(client.conversations.replies).mockResolvedValue({
+        ok: true,
+        messages: [{ ts: THREAD_TS, user: 'U999', text: '親' }, { ts: '1705200001.000000', user: 'U123', text: '   ' }],
+      });
+      const history = await fetchInitialHistory(client, 'C111', THREAD_TS);
+
+      await handle(reply('1705200002.000000', '   '), client);
+
+      expect(history.count).toBe(1);
+      expect(sentOfType('comment')).toEqual([]);
+      expect(sentOfType('counter').at(-1)?.count).toBe(1);
+    });
+
+    it('監視対象外のスレッドは無視する', async () => {
+      await handle({ ...reply('1705200001.000000', 'hi'), thread_ts: '1705200099.000000' }, client);
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+
+    it('その他のサブタイプは無視する', async () => {
+      await handle({ ...reply('1705200001.000000', 'joined'), subtype: 'channel_join' }, client);
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('編集（message_changed）', () => {
+    it('表示中のコメントを更新する', async () => {
+      await handle(reply('1705200001.000000', 'typo'), client);
+      broadcast.mockClear();
+
+      await handle({
+        type: 'message',
+        subtype: 'message_changed',
+        channel: 'C111',
+        message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'fixed' },
+        previous_message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'typo' },
+      }, client);
+
+      expect(broadcast).toHaveBeenCalledWith({
+        type: 'comment_update',
+        id: 'C111/1705200001.000000',
+        text: 'fixed',
+        emojis: {},
+      });
+    });
+
+    it('表示内容が変わらない変更は無視する', async () => {
+      await handle(reply('1705200001.000000', 'same'), client);
+      broadcast.mockClear();
+
+      await handle({
+        type: 'message',
+        subtype: 'message_changed',
+        channel: 'C111',
+        message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'same' },
+      }, client);
+
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+
+    it('表示していないコメントの編集は無視する', async () => {
+      await handle({
+        type: 'message',
+        subtype: 'message_changed',
+        channel: 'C111',
+        message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'edited' },
+      }, client);
+
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('削除（message_deleted）', () => {
+    it('表示中のコメントを取り消し、カウンターをデクリメントする', async () => {
+      await handle(reply('1705200001.000000', 'oops'), client);
+      broadcast.mockClear();
+
+      await handle({
+        type: 'message',
+        subtype: 'message_deleted',
+        channel: 'C111',
+        deleted_ts: '1705200001.000000',
+        previous_message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'oops' },
+      }, client);
+
+      expect(broadcast).toHaveBeenCalledWith({ type: 'comment_retract', id: 'C111/1705200001.000000' });
+      expect(sentOfType('counter').at(-1)?.count).toBe(0);
+    });
+
+    it('起動前の返信が削除された場合もカウンターをデクリメントする', async () => {
+      const thread = registry.list()[0]!;
+      registry.setCount(thread.id, 5);
+
+      await handle({
+        type: 'message',
+        subtype: 'message_deleted',
+        channel: 'C111',
+        deleted_ts: '1705100000.000000',
+        previous_message: { ts: '1705100000.000000', thread_ts: THREAD_TS, user: 'U123', text: 'old' },
+      }, client);
+
+      expect(sentOfType('comment_retract')).toEqual([]);
+      expect(sentOfType('counter').at(-1)?.count).toBe(4);
+    });
+
+    it('チャンネル指定では監視開始前の投稿の削除をカウントしない', async () => {
+      const channelRegistry = createThreadRegistry(() => 1705200000_000);
+      channelRegistry.add(parseWatchSpec('C222'));
+      const channelHandle = createMessageHandler({
+        registry: channelRegistry,
+        tracker: createCommentTracker(),
+        broadcast,
+      });
+
+      await channelHandle({
+        type: 'message',
+        subtype: 'message_deleted',
+        channel: 'C222',
+        deleted_ts: '1705100000.000000',
+        previous_message: { ts: '1705100000.000000', user: 'U123', text: 'old' },
+      }, client);
+
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('NGワードフィルター', () => {
+    const filter = createCommentFilter({
+      rules: [
+        { pattern: 'spam', action: 'drop' },
+        { pattern: 'bad', action: 'mask' },
+        { pattern: '^review', regex: true, action: 'hold' },
+      ],
+    });
+    let hold: Mock;
+
+    beforeEach(() => {
+      hold = vi.fn();
+      handle = createMessageHandler({
+        registry,
+        tracker: createCommentTracker(),
+        broadcast,
+        getFilter: () => filter,
+        hold,
+      });
+    });
+
+    it('drop ルールに一致したコメントは表示しないがカウントする', async () => {
+      await handle(reply('1705200001.000000', 'buy SPAM now'), client);
+
+      expect(sentOfType('comment')).toEqual([]);
+      expect(sentOfType('counter').at(-1)?.count).toBe(1);
+    });
+
+    it('mask ルールに一致した部分を * に置き換える', async () => {
+      await handle(reply('1705200001.000000', 'so bad'), client);
+
+      expect(sentOfType('comment')[0]?.text).toBe('so ***');
+    });
+
+    it('hold ルールに一致したコメントは承認待ちにする', async () => {
+      await handle(reply('1705200001.000000', 'review me'), client);
+
+      expect(sentOfType('comment')).toEqual([]);
+      expect(hold).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'C111/1705200001.000000',
+        text: 'review me',
+      }));
+    });
+
+    it('編集でNGワードが追加された場合は表示中のコメントを取り消す', async () => {
+      await handle(reply('1705200001.000000', 'hello'), client);
+      broadcast.mockClear();
+
+      await handle({
+        type: 'message',
+        subtype: 'message_changed',
+        channel: 'C111',
+        message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'hello spam' },
+      }, client);
+
+      expect(broadcast).toHaveBeenCalledWith({ type: 'comment_retract', id: 'C111/1705200001.000000' });
+    });
+
+    it('編集後のテキストにもマスクを適用する', async () => {
+      await handle(reply('1705200001.000000', 'hello'), client);
+      broadcast.mockClear();
+
+      await handle({
+        type: 'message',
+        subtype: 'message_changed',
+        channel: 'C111',
+        message: { ts: '1705200001.000000', thread_ts: THREAD_TS, user: 'U123', text: 'hello bad' },
+      }, client);
+
+      expect(broadcast).toHaveBeenCalledWith({
+        type: 'comment_update',
+        id: 'C111/1705200001.000000',
+        text: 'hello ***',
+        emojis: {},
+      });
+    });
+  });
+
+  describe('添付画像', () => {
+    const image = { url: '/images/abc', width: 480, height: 360, name: 'photo.png' };
+    const file = { id: 'F1', name: 'photo.png', mimetype: 'image/png' };
+
+    beforeEach(() => {
+      handle = createMessageHandler({
+        registry,
+        tracker: createCommentTracker(),
+        broadcast,
+        resolveImages: (files) => files.map(() => image),
+      });
+    });
+
+    it('画像付きの返信は画像を添えて表示する', async () => {
+      await handle({ ...reply('1705200001.000000', '見て'), files: [file] }, client);
+
+      expect(sentOfType('comment')[0]).toMatchObject({ text: '見て', images: [image] });
+      expect(sentOfType('counter').at(-1)?.count).toBe(1);
+    });
+
+    it('画像のみのファイル共有も表示するがカウントしない', async () => {
+      await handle({ ...reply('1705200001.000000', ''), subtype: 'file_share', files: [file] }, client);
+
+      expect(sentOfType('comment')[0]).toMatchObject({ text: '', images: [image] });
+      expect(sentOfType('counter')).toEqual([]);
+    });
+
+    it('画像表示が無効の場合はファイル共有を無視する', async () => {
+      handle = createMessageHandler({ registry, tracker: createCommentTracker(), broadcast });
+      await handle({ ...reply('1705200001.000000', 'photo'), subtype: 'file_share', files: [file] }, client);
+
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+  });
+});
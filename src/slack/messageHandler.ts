@@ -0,0 +1,298 @@
+import type {
+  CommentCommandCategory,
+  CommentImage,
+  CommentMessage,
+  CommentStyle,
+  SlackClient,
+  SlackFile,
+  SlackMessageEvent,
+  TranscriptSource,
+  WatchTarget,
+  WebSocketMessage,
+} from '../types/index.js';
+import { getEmojiList } from '../emoji/index.js';
+import { generateUserColor, getUserDisplayName } from '../user/index.js';
+import { processMessage } from '../message/index.js';
+import { resolveMentions } from '../mention/index.js';
+import { createCounterMessage, type ThreadRegistry } from '../thread/index.js';
+import { createCommentId, type CommentTracker } from '../tracker/index.js';
+import type { CommentFilter, FilterResult } from '../filter/index.js';
+import { isCountableReply } from './slackService.js';
+
+/**
+ * メッセージハンドラーの依存
+ */
+export interface MessageHandlerDeps {
+  registry: ThreadRegistry;
+  tracker: CommentTracker;
+  broadcast: (message: WebSocketMessage) => void;
+  /** 現在のNGワードフィルターを取得（設定ファイルの再読み込みに追従するため関数で受け取る） */
+  getFilter?: () => CommentFilter;
+  /** フィルターの hold ルールに一致したコメントを承認待ちにする（未指定の場合は表示しない） */
+  hold?: (comment: CommentMessage) => void;
+  /** 添付画像をオーバーレイで表示できる形に変換（未指定の場合は画像を表示しない） */
+  resolveImages?: (files: SlackFile[]) => CommentImage[];
+  /** コメントの元になったSlackメッセージを記録（セッションログ用） */
+  recordSource?: (source: TranscriptSource) => void;
+  /** 有効にするコメントコマンドの種類（未指定の場合はコマンドを解析しない） */
+  allowedCommands?: readonly CommentCommandCategory[];
+}
+
+/**
+ * メッセージの処理オプション
+ */
+export interface MessageHandlerOptions {
+  /** 起動前の返信を表示する場合に指定（カウンターの初期値に含まれているため数えない） */
+  backfill?: boolean;
+}
+
+export type MessageHandler = (
+  event: SlackMessageEvent,
+  client: SlackClient,
+  options?: MessageHandlerOptions
+) => Promise<void>;
+
+/**
+ * Slackのtsをミリ秒に変換
+ */
+function tsToMillis(ts: string): number {
+  return Math.floor(Number(ts) * 1000);
+}
+
+/**
+ * 削除されたメッセージがコメントカウンターの対象だったか判定
+ * - 起動時の初期値・新規メッセージと同じ条件（isCountableReply）
+ * - チャンネル指定は監視開始後の投稿のみを数えているため、それ以前の投稿は対象外
+ */
+function wasCounted(
+  target: WatchTarget,
+  registry: ThreadRegistry,
+  ts: string,
+  previous: SlackMessageEvent['previous_message']
+): boolean {
+  if (!previous || !isCountableReply(previous)) return false;
+  if (target.kind === 'channel') {
+    const since = registry.getWatchingSince(target.id);
+    return since !== undefined && tsToMillis(ts) >= since;
+  }
+  return true;
+}
+
+/**
+ * Slackの message イベントを処理するハンドラーを作成
+ * - 新規メッセージ: コメントとしてブロードキャストし、カウンターをインクリメント
+ *   （NGワードフィルターに一致した場合は除外・マスク・承認待ちにする）
+ * - 編集（message_changed）: 表示中のコメントを更新（フィルターも再適用する、表示スタイルは変更しない）
+ * - 削除（message_deleted）: 表示中のコメントを取り消し、カウンターをデクリメント
+ */
+export function createMessageHandler(deps: MessageHandlerDeps): MessageHandler {
+  const { registry, tracker, broadcast, getFilter, hold, resolveImages, recordSource, allowedCommands } = deps;
+
+  // 添付画像を取得（画像表示が無効の場合は空）
+  function getImages(files: SlackFile[] | undefined): CommentImage[] {
+    return resolveImages && files?.length ? resolveImages(files) : [];
+  }
+
+  // Slack記法を除去した後のテキストにフィルターを適用する
+  function applyFilter(text: string): FilterResult {
+    const result = getFilter?.().apply(text) ?? { action: 'pass', text };
+    // 承認待ちにできない場合は表示しない
+    return result.action === 'hold' && !hold ? { ...result, action: 'drop' } : result;
+  }
+
+  async function createComment(
+    client: SlackClient,
+    id: string,
+    userId: string,
+    thread: WatchTarget,
+    text: string,
+    emojis: Record<string, string>,
+    images: CommentImage[],
+    style: CommentStyle | undefined
+  ): Promise<CommentMessage> {
+    const comment: CommentMessage = {
+      type: 'comment',
+      id,
+      text,
+      userName: await getUserDisplayName(client, userId),
+      userColor: generateUserColor(userId),
+      emojis,
+      threadId: thread.id,
+      threadLabel: thread.label,
+    };
+    if (images.length > 0) {
+      comment.images = images;
+    }
+    if (style) {
+      comment.style = style;
+    }
+    return comment;
+  }
+
+  async function handleNewMessage(
+    event: SlackMessageEvent,
+    client: SlackClient,
+    options: MessageHandlerOptions
+  ): Promise<void> {
+    // 監視中のスレッド・チャンネルのメッセージのみ処理
+    const thread = registry.match({
+      channel: event.channel,
+      ts: event.ts,
+      thread_ts: event.thread_ts,
+    });
+    if (!thread || !event.ts) return;
+
+    // ユーザーIDを取得
+    const userId = event.user;
+    if (!userId) return;
+
+    // 絵文字リストを取得
+    const emojiMap = await getEmojiList(client);
+
+    // テキストを処理（絵文字URLマップを含む、メンションは表示名に変換）
+    const mentions = await resolveMentions(client, event.text);
+    const { sanitizedText, emojis, style } = processMessage(event.text, emojiMap, { mentions, allowedCommands });
+    const images = getImages(event.files);
+
+    // フィルターで除外したコメントや、Slack記法を除くと空になるコメントもSlack上の返信数に合わせてカウントする
+    // 起動時の初期値（fetchInitialHistory）と同じ isCountableReply の条件で数える
+    const counted = !options.backfill && isCountableReply(event);
+    if (counted) {
+      registry.increment(thread.id);
+    }
+
+    if (!sanitizedText && images.length === 0) {
+      // 空メッセージは表示しない
+      if (counted) {
+        broadcast(createCounterMessage(registry));
+      }
+      return;
+    }
+
+    // コメントを作成（ユーザー名を取得）
+    const id = createCommentId(event.channel, event.ts);
+    const filtered = applyFilter(sanitizedText);
+    const comment = await createComment(client, id, userId, thread, filtered.text, emojis, images, style);
+    console.log(`New comment from ${comment.userName}: ${sanitizedText}${images.length > 0 ? ` (images: ${images.length})` : ''}`);
+    recordSource?.({ id, ts: event.ts, userId, rawText: event.text ?? '', processedText: sanitizedText });
+
+    if (filtered.action === 'drop') {
+      console.log(`Comment dropped by filter: ${id}`);
+    } else {
+      tracker.track({ id, targetId: thread.id, text: filtered.text });
+      if (filtered.action === 'hold') {
+        console.log(`Comment held by filter: ${id}`);
+        hold?.(comment);
+      } else {
+        broadcast(comment);
+      }
+    }
+
+    // スレッドのカウンターをブロードキャスト
+    if (counted) {
+      broadcast(createCounterMessage(registry));
+    }
+  }
+
+  async function handleMessageChanged(event: SlackMessageEvent, client: SlackClient): Promise<void> {
+    const message = event.message;
+    if (!message?.ts) return;
+
+    // 親メッセージが削除されて返信だけが残った場合は tombstone に置き換わる
+    if (message.subtype === 'tombstone') {
+      handleMessageDeleted({ ...event, deleted_ts: message.ts });
+      return;
+    }
+
+    const thread = registry.match({
+      channel: event.channel,
+      ts: message.ts,
+      thread_ts: message.thread_ts,
+    });
+    if (!thread) return;
+
+    // 表示中のコメントのみ更新する
+    const id = createCommentId(event.channel, message.ts);
+    const tracked = tracker.get(id);
+    if (!tracked) return;
+
+    const emojiMap = await getEmojiList(client);
+    const mentions = await resolveMentions(client, message.text);
+    const { sanitizedText, emojis, style } = processMessage(message.text, emojiMap, { mentions, allowedCommands });
+    const filtered = applyFilter(sanitizedText);
+    // 返信数の変化など、表示内容に影響しない変更は無視
+    if (filtered.action === 'pass' && filtered.text === tracked.text) return;
+
+    // 画像付きのコメントは本文が空になっても画像の表示を続ける
+    const hasImages = getImages(message.files).length > 0;
+    if ((!sanitizedText && !hasImages) || filtered.action === 'drop' || (filtered.action === 'hold' && !message.user)) {
+      tracker.remove(id);
+      broadcast({ type: 'comment_retract', id });
+      return;
+    }
+
+    console.log(`Comment edited: ${sanitizedText}`);
+    tracker.update(id, filtered.text);
+    if (message.user) {
+      recordSource?.({ id, ts: message.ts, userId: message.user, rawText: message.text ?? '', processedText: sanitizedText });
+    }
+
+    if (filtered.action === 'hold' && message.user) {
+      // 表示中のコメントは取り消し、編集後の内容で承認待ちにする
+      const comment = await createComment(client, id, message.user, thread, filtered.text, emojis, getImages(message.files), style);
+      broadcast({ type: 'comment_retract', id });
+      hold?.(comment);
+      return;
+    }
+
+    broadcast({ type: 'comment_update', id, text: filtered.text, emojis });
+  }
+
+  function handleMessageDeleted(event: SlackMessageEvent): void {
+    const previous = event.previous_message;
+    const ts = event.deleted_ts ?? previous?.ts;
+    if (!ts) return;
+
+    const thread = registry.match({
+      channel: event.channel,
+      ts,
+      thread_ts: previous?.thread_ts,
+    });
+    if (!thread) return;
+
+    const id = createCommentId(event.channel, ts);
+    if (tracker.remove(id)) {
+      console.log(`Comment retracted: ${id}`);
+      broadcast({ type: 'comment_retract', id });
+    }
+
+    if (wasCounted(thread, registry, ts, previous)) {
+      registry.decrement(thread.id);
+      broadcast(createCounterMessage(registry));
+    }
+  }
+
+  return async (event, client, options = {}) => {
+    switch (event.subtype) {
+      case undefined:
+      case '':
+        await handleNewMessage(event, client, options);
+        return;
+      case 'file_share':
+        // ファイル共有は画像表示が有効な場合のみ表示する
+        if (resolveImages) {
+          await handleNewMessage(event, client, options);
+        }
+        return;
+      case 'message_changed':
+        await handleMessageChanged(event, client);
+        return;
+      case 'message_deleted':
+        handleMessageDeleted(event);
+        return;
+      default:
+        // その他のサブタイプ（参加通知、ボット投稿等）はスキップ
+        return;
+    }
+  };
+}
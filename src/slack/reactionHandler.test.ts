@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { ReactionMessage, SlackClient, SlackReactionEvent } from '../types/index.js';
+import { clearEmojiCache } from '../emoji/index.js';
+import { createThreadRegistry, parseWatchSpec, type ThreadRegistry } from '../thread/index.js';
+import { createReactionHandler, normalizeReactionName, type ReactionHandler } from './reactionHandler.js';
+
+const THREAD_TS = '1705200000.000000';
+
+function createMockClient(): SlackClient & { conversations: { replies: Mock } } {
+  return {
+    users: {
+      info: vi.fn(),
+    },
+    conversations: {
+      replies: vi.fn().mockResolvedValue({
+        ok: true,
+        messages: [{ ts: THREAD_TS, thread_ts: THREAD_TS }],
+      }),
+    },
+    emoji: {
+      list: vi.fn().mockResolvedValue({
+        ok: true,
+        emoji: { partyparrot: 'https://emoji.slack-edge.com/T1/partyparrot/abc.gif' },
+      }),
+    },
+  };
+}
+
+function reaction(ts: string, name: string, channel = 'C111'): SlackReactionEvent {
+  return { type: 'reaction_added', user: 'U123', reaction: name, item: { type: 'message', channel, ts } };
+}
+
+describe('normalizeReactionName', () => {
+  it('スキントーン指定を取り除く', () => {
+    expect(normalizeReactionName('thumbsup::skin-tone-2')).toBe('thumbsup');
+    expect(normalizeReactionName('fire')).toBe('fire');
+  });
+});
+
+describe('createReactionHandler', () => {
+  let client: ReturnType<typeof createMockClient>;
+  let registry: ThreadRegistry;
+  let broadcast: Mock<(message: ReactionMessage) => void>;
+  let handle: ReactionHandler;
+
+  beforeEach(() => {
+    clearEmojiCache();
+    client = createMockClient();
+    registry = createThreadRegistry();
+    registry.add(parseWatchSpec(`A=https://example.slack.com/archives/C111/p1705200000000000`));
+    broadcast = vi.fn();
+    handle = createReactionHandler({ registry, broadcast });
+  });
+
+  it('スレッドの親メッセージへのリアクションをブロードキャストする', async () => {
+    await handle(reaction(THREAD_TS, 'partyparrot'), client);
+
+    expect(broadcast).toHaveBeenCalledWith({
+      type: 'reaction',
+      messageId: 'C111/1705200000.000000',
+      emoji: 'partyparrot',
+      url: 'https://emoji.slack-edge.com/T1/partyparrot/abc.gif',
+      threadId: 'C111/1705200000.000000',
+      threadLabel: 'A',
+    });
+    // 親メッセージはAPIで問い合わせない
+    expect(client.conversations.replies).not.toHaveBeenCalled();
+  });
+
+  it('返信へのリアクションはスレッドを問い合わせて判定し、結果をキャッシュする', async () => {
+    await handle(reaction('1705200001.000000', 'thumbsup::skin-tone-3'), client);
+    await handle(reaction('1705200001.000000', 'fire'), client);
+
+    expect(broadcast).toHaveBeenCalledTimes(2);
+    expect(broadcast.mock.calls[0]?.[0]).toMatchObject({
+      emoji: 'thumbsup',
+      url: expect.stringContaining('cdn.jsdelivr.net'),
+    });
+    expect(client.conversations.replies).toHaveBeenCalledTimes(1);
+  });
+
+  it('監視対象外のスレッドへのリアクションは無視する', async () => {
+    client.conversations.replies.mockResolvedValue({
+      ok: true,
+      messages: [{ ts: '1705200099.000000', thread_ts: '1705200099.000000' }],
+    });
+
+    await handle(reaction('1705200100.000000', 'fire'), client);
+
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('監視対象のないチャンネルはAPIを呼ばずに無視する', async () => {
+    await handle(reaction('1705200001.000000', 'fire', 'C999'), client);
+
+    expect(client.conversations.replies).not.toHaveBeenCalled();
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('画像が見つからない絵文字は無視する', async () => {
+    await handle(reaction(THREAD_TS, 'unknown_custom_emoji'), client);
+
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('チャンネル指定では対象の投稿へのリアクションをブロードキャストする', async () => {
+    const channelRegistry = createThreadRegistry();
+    channelRegistry.add(parseWatchSpec('C222'));
+    const channelHandle = createReactionHandler({ registry: channelRegistry, broadcast });
+    client.conversations.replies.mockResolvedValue({
+      ok: true,
+      messages: [{ ts: '1705200001.000000' }],
+    });
+
+    await channelHandle(reaction('1705200001.000000', 'fire', 'C222'), client);
+
+    expect(broadcast).toHaveBeenCalledWith(expect.objectContaining({ threadId: 'C222', emoji: 'fire' }));
+  });
+});
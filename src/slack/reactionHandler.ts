@@ -0,0 +1,106 @@
+import type {
+  ReactionMessage,
+  SlackClient,
+  SlackReactionEvent,
+  WatchTarget,
+} from '../types/index.js';
+import { getEmojiList, getStandardEmojiMap } from '../emoji/index.js';
+import type { ThreadRegistry } from '../thread/index.js';
+import { createCommentId } from '../tracker/index.js';
+
+/**
+ * リアクションハンドラーの依存
+ */
+export interface ReactionHandlerDeps {
+  registry: ThreadRegistry;
+  broadcast: (message: ReactionMessage) => void;
+}
+
+export type ReactionHandler = (event: SlackReactionEvent, client: SlackClient) => Promise<void>;
+
+// メッセージの所属スレッドを記録する件数の上限
+const THREAD_CACHE_LIMIT = 500;
+
+/**
+ * リアクション名から絵文字名を取り出す（スキントーン指定を除く）
+ */
+export function normalizeReactionName(reaction: string): string {
+  return reaction.split('::')[0]!.toLowerCase();
+}
+
+/**
+ * Slackの reaction_added イベントを処理するハンドラーを作成
+ * 監視中のスレッドの親メッセージ・返信（チャンネル指定の場合は対象の投稿）へのリアクションを、
+ * 絵文字画像のURLに解決してブロードキャストする
+ */
+export function createReactionHandler(deps: ReactionHandlerDeps): ReactionHandler {
+  const { registry, broadcast } = deps;
+  // メッセージID → スレッドの親ts（スレッド外の投稿は null）
+  const threadCache = new Map<string, string | null>();
+
+  /**
+   * メッセージが属するスレッドの親tsを取得
+   * reaction_added にはスレッドの情報が含まれないため、Slack APIで問い合わせてキャッシュする
+   */
+  async function lookupThreadTs(client: SlackClient, channel: string, ts: string): Promise<string | null> {
+    const id = createCommentId(channel, ts);
+    const cached = threadCache.get(id);
+    if (cached !== undefined) return cached;
+
+    // 返信のtsを指定するとスレッド全体が返り、先頭が親メッセージになる
+    const result = await client.conversations.replies({ channel, ts, limit: 1 });
+    const parent = result.messages?.[0];
+    const threadTs = parent?.thread_ts ?? null;
+
+    if (threadCache.size >= THREAD_CACHE_LIMIT) {
+      const oldest = threadCache.keys().next().value;
+      if (oldest !== undefined) threadCache.delete(oldest);
+    }
+    threadCache.set(id, threadTs);
+    return threadTs;
+  }
+
+  /**
+   * リアクションされたメッセージの監視対象を解決
+   */
+  async function resolveTarget(client: SlackClient, channel: string, ts: string): Promise<WatchTarget | undefined> {
+    const targets = registry.list().filter((target) => target.channelId === channel);
+    if (targets.length === 0) return undefined;
+
+    // 監視中スレッドの親メッセージ
+    const parentOf = targets.find((target) => target.kind === 'thread' && target.threadTs === ts);
+    if (parentOf) return parentOf;
+
+    const threadTs = await lookupThreadTs(client, channel, ts);
+    return registry.match({ channel, ts, thread_ts: threadTs ?? undefined });
+  }
+
+  return async (event, client) => {
+    const { channel, ts } = event.item;
+    if (event.item.type !== 'message' || !channel || !ts) return;
+
+    let target: WatchTarget | undefined;
+    try {
+      target = await resolveTarget(client, channel, ts);
+    } catch (error) {
+      console.error('Failed to resolve reaction target:', error);
+      return;
+    }
+    if (!target) return;
+
+    // カスタム絵文字を優先し、なければ標準絵文字を検索
+    const emoji = normalizeReactionName(event.reaction);
+    const emojiMap = await getEmojiList(client);
+    const url = emojiMap.get(emoji) ?? getStandardEmojiMap().get(emoji);
+    if (!url) return;
+
+    broadcast({
+      type: 'reaction',
+      messageId: createCommentId(channel, ts),
+      emoji,
+      url,
+      threadId: target.id,
+      threadLabel: target.label,
+    });
+  };
+}
@@ -1,50 +1,114 @@
-import type { SlackClient } from '../types/index.js';
+import type { SlackClient, SlackMessagePayload, SlackReplyMessage } from '../types/index.js';
 
 /**
- * 既存のスレッドメッセージ数を取得
- * ページネーションに対応し、メッセージイベントと同じフィルタリング条件を適用
+ * コメントとして扱うスレッド返信（画像のみの返信は text がない）
  */
-export async function fetchInitialCommentCount(
+export type ThreadReply = SlackReplyMessage & { ts: string; user: string };
+
+/**
+ * コメントカウンターの対象となる返信か判定する
+ * 通常の投稿（subtype なし）で、投稿者と本文があるもの。表示するかどうか（Slack記法を除いた本文が空、
+ * NGワードフィルター）には関わらず、起動時の初期値・新規メッセージ・削除で同じ条件を使う
+ */
+export function isCountableReply<T extends Pick<SlackMessagePayload, 'subtype' | 'user' | 'text'>>(
+  message: T
+): message is T & { user: string; text: string } {
+  return !message.subtype && !!message.user && !!message.text;
+}
+
+/**
+ * 新規メッセージとして表示の対象になる返信か判定する
+ * 通常の投稿とファイル共有（画像表示が有効な場合に表示する）のうち、投稿者と本文または添付ファイルがあるもの
+ */
+function isDisplayableReply(message: SlackReplyMessage): message is SlackReplyMessage & { user: string } {
+  if (message.subtype && message.subtype !== 'file_share') return false;
+  return !!message.user && (!!message.text || (message.files?.length ?? 0) > 0);
+}
+
+/**
+ * スレッドの返信を古い順に取得
+ * ページネーションに対応し、新規メッセージと同じく表示の対象になる返信（ファイル共有を含む）に絞り込む
+ * 返信数として数えるかは isCountableReply で判定する
+ * @throws Slack APIの呼び出しに失敗した場合
+ */
+export async function fetchThreadReplies(
   client: SlackClient,
   channelId: string,
   threadTs: string
-): Promise<number> {
-  let count = 0;
+): Promise<ThreadReply[]> {
+  const replies: ThreadReply[] = [];
   let cursor: string | undefined;
 
+  do {
+    const params: { channel: string; ts: string; limit: number; cursor?: string } = {
+      channel: channelId,
+      ts: threadTs,
+      limit: 100,
+    };
+    if (cursor) {
+      params.cursor = cursor;
+    }
+
+    const result = await client.conversations.replies(params);
+    const messages = result.messages ?? [];
+
+    for (const msg of messages) {
+      // 親メッセージを除外（ts === thread_ts）
+      if (!msg.ts || msg.ts === threadTs) continue;
+      // 参加通知などのサブタイプ、user がない、本文も添付ファイルもないメッセージを除外
+      if (!isDisplayableReply(msg)) continue;
+
+      replies.push({ ...msg, ts: msg.ts, user: msg.user });
+    }
+
+    cursor = result.has_more ? result.response_metadata?.next_cursor : undefined;
+  } while (cursor);
+
+  return replies;
+}
+
+/**
+ * 起動時に取得するスレッドの状態
+ */
+export interface InitialHistory {
+  /** 既存の返信数（コメントカウンターの初期値） */
+  count: number;
+  /** 直近の返信（古い順、起動時に表示する分のみ） */
+  recent: ThreadReply[];
+}
+
+/**
+ * 既存のスレッドの返信数と直近の返信を取得
+ * 取得に失敗した場合は返信なしとして扱う
+ * @param recentCount 取得する直近の返信の件数
+ */
+export async function fetchInitialHistory(
+  client: SlackClient,
+  channelId: string,
+  threadTs: string,
+  recentCount = 0
+): Promise<InitialHistory> {
   try {
-    do {
-      const params: { channel: string; ts: string; limit: number; cursor?: string } = {
-        channel: channelId,
-        ts: threadTs,
-        limit: 100,
-      };
-      if (cursor) {
-        params.cursor = cursor;
-      }
-
-      const result = await client.conversations.replies(params);
-      const messages = result.messages ?? [];
-
-      for (const msg of messages) {
-        // 親メッセージを除外（ts === thread_ts）
-        if (msg.ts === threadTs) continue;
-        // subtype があるメッセージを除外
-        if (msg.subtype) continue;
-        // user がないメッセージを除外
-        if (!msg.user) continue;
-        // text が空のメッセージを除外
-        if (!msg.text) continue;
-
-        count += 1;
-      }
-
-      cursor = result.has_more ? result.response_metadata?.next_cursor : undefined;
-    } while (cursor);
+    const replies = await fetchThreadReplies(client, channelId, threadTs);
+    return {
+      count: replies.filter(isCountableReply).length,
+      recent: recentCount > 0 ? replies.slice(-recentCount) : [],
+    };
   } catch (error) {
     console.error('Failed to fetch initial comment count:', error);
-    return 0;
+    return { count: 0, recent: [] };
   }
+}
 
+/**
+ * 既存のスレッドメッセージ数を取得
+ * 取得に失敗した場合は 0 を返す
+ */
+export async function fetchInitialCommentCount(
+  client: SlackClient,
+  channelId: string,
+  threadTs: string
+): Promise<number> {
+  const { count } = await fetchInitialHistory(client, channelId, threadTs);
   return count;
 }
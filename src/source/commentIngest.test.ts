@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createCommentIngest } from './commentIngest.js';
+import { createCommentFilter } from '../filter/index.js';
+import { generateUserColor } from '../user/index.js';
+
+describe('createCommentIngest', () => {
+  const now = () => 1705200000000;
+
+  it('コメントを作成して配信し、元のメッセージを記録する', () => {
+    const publish = vi.fn();
+    const recordSource = vi.fn();
+    const ingest = createCommentIngest({ publish, recordSource, now });
+
+    ingest('webhook', { id: 'q-1', authorId: 'u1', authorName: '田中', text: 'hello' });
+
+    expect(publish).toHaveBeenCalledWith({
+      type: 'comment',
+      id: 'webhook/q-1',
+      text: 'hello',
+      userName: '田中',
+      userColor: generateUserColor('u1'),
+      emojis: {},
+      threadId: 'source:webhook',
+      threadLabel: '',
+    });
+    expect(recordSource).toHaveBeenCalledWith({
+      id: 'webhook/q-1',
+      ts: '1705200000.000000',
+      userId: 'u1',
+      rawText: 'hello',
+      processedText: 'hello',
+    });
+  });
+
+  it('IDを省略した場合は採番する', () => {
+    const publish = vi.fn();
+    const ingest = createCommentIngest({ publish, now });
+
+    ingest('stdin', { authorId: 'a', authorName: 'a', text: 'one' });
+    ingest('stdin', { authorId: 'a', authorName: 'a', text: 'two' });
+
+    expect(publish.mock.calls.map(([comment]) => comment.id)).toEqual(['stdin/1705200000000-1', 'stdin/1705200000000-2']);
+  });
+
+  it('allowedCommands を指定した場合はコメントコマンドを表示スタイルに変換する', () => {
+    const publish = vi.fn();
+    const ingest = createCommentIngest({ publish, allowedCommands: ['position'], now });
+
+    ingest('webhook', { authorId: 'a', authorName: 'a', text: '[ue red] 告知です' });
+    ingest('webhook', { authorId: 'a', authorName: 'a', text: '[ue]' });
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish).toHaveBeenCalledWith(expect.objectContaining({ text: '告知です', style: { position: 'top' } }));
+  });
+
+  it('NGワードフィルターを適用する', () => {
+    const publish = vi.fn();
+    const hold = vi.fn();
+    const filter = createCommentFilter({
+      rules: [
+        { pattern: 'spam', action: 'drop' },
+        { pattern: 'bad', action: 'mask' },
+        { pattern: 'check', action: 'hold' },
+      ],
+    });
+    const ingest = createCommentIngest({ publish, hold, getFilter: () => filter, now });
+
+    ingest('webhook', { authorId: 'a', authorName: 'a', text: 'spam!' });
+    ingest('webhook', { authorId: 'a', authorName: 'a', text: 'bad word' });
+    ingest('webhook', { authorId: 'a', authorName: 'a', text: 'please check' });
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish.mock.calls[0]![0].text).toBe('*** word');
+    expect(hold).toHaveBeenCalledWith(expect.objectContaining({ text: 'please check' }));
+  });
+});
@@ -0,0 +1,81 @@
+import type { CommentCommandCategory, CommentMessage, TranscriptSource, WebSocketMessage } from '../types/index.js';
+import { generateUserColor } from '../user/index.js';
+import { parseCommentCommands } from '../message/index.js';
+import type { CommentFilter, FilterResult } from '../filter/index.js';
+import type { SourceCommentHandler } from './commentSource.js';
+
+/**
+ * コメントの受け付けの依存
+ */
+export interface CommentIngestDeps {
+  /** コメントを配信（モデレーションキューを経由する） */
+  publish: (message: WebSocketMessage) => void;
+  /** 現在のNGワードフィルターを取得 */
+  getFilter?: () => CommentFilter;
+  /** フィルターの hold ルールに一致したコメントを承認待ちにする（未指定の場合は表示しない） */
+  hold?: (comment: CommentMessage) => void;
+  /** コメントの元になったメッセージを記録（セッションログ用） */
+  recordSource?: (source: TranscriptSource) => void;
+  /** 有効にするコメントコマンドの種類（未指定の場合はコマンドを解析しない） */
+  allowedCommands?: readonly CommentCommandCategory[];
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * Slack以外の取得元のコメントをオーバーレイに配信するハンドラーを作成
+ * Slackのコメントと同じくコメントコマンドの変換、NGワードフィルターとモデレーションを適用する。
+ * 監視対象のスレッドには属さないため、コメントカウンターには含めない
+ */
+export function createCommentIngest(deps: CommentIngestDeps): SourceCommentHandler {
+  const { publish, getFilter, hold, recordSource, allowedCommands } = deps;
+  const now = deps.now ?? Date.now;
+  let sequence = 0;
+
+  function applyFilter(text: string): FilterResult {
+    const result = getFilter?.().apply(text) ?? { action: 'pass', text };
+    // 承認待ちにできない場合は表示しない
+    return result.action === 'hold' && !hold ? { ...result, action: 'drop' } : result;
+  }
+
+  return (source, input) => {
+    const receivedAt = now();
+    const id = `${source}/${input.id ?? `${receivedAt}-${++sequence}`}`;
+    const { text, style } = allowedCommands
+      ? parseCommentCommands(input.text, allowedCommands)
+      : { text: input.text, style: {} };
+    if (!text) return;
+
+    const filtered = applyFilter(text);
+    const comment: CommentMessage = {
+      type: 'comment',
+      id,
+      text: filtered.text,
+      userName: input.authorName,
+      userColor: generateUserColor(input.authorId),
+      emojis: input.emojis ?? {},
+      threadId: `source:${source}`,
+      threadLabel: '',
+    };
+    if (Object.keys(style).length > 0) {
+      comment.style = style;
+    }
+    console.log(`New comment from ${input.authorName} (${source}): ${input.text}`);
+    recordSource?.({
+      id,
+      ts: (receivedAt / 1000).toFixed(6),
+      userId: input.authorId,
+      rawText: input.text,
+      processedText: text,
+    });
+
+    if (filtered.action === 'drop') {
+      console.log(`Comment dropped by filter: ${id}`);
+    } else if (filtered.action === 'hold') {
+      console.log(`Comment held by filter: ${id}`);
+      hold?.(comment);
+    } else {
+      publish(comment);
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { CommentSourceError, parseSourceComment } from './commentSource.js';
+
+describe('parseSourceComment', () => {
+  it('本文・表示名・投稿者ID・絵文字を読み込む', () => {
+    expect(parseSourceComment({
+      id: 'q-1',
+      text: ' 質問です :wave: ',
+      author: '田中',
+      authorId: 'u123',
+      emojis: { wave: 'https://example.com/wave.png' },
+    }, 'webhook')).toEqual({
+      id: 'q-1',
+      authorId: 'u123',
+      authorName: '田中',
+      text: '質問です :wave:',
+      emojis: { wave: 'https://example.com/wave.png' },
+    });
+  });
+
+  it('表示名を省略した場合は既定の表示名を使い、表示名を投稿者IDにする', () => {
+    expect(parseSourceComment({ text: 'hello' }, 'stdin')).toEqual({ authorId: 'stdin', authorName: 'stdin', text: 'hello' });
+    expect(parseSourceComment({ text: 'hello', author: 'alice' }, 'stdin').authorId).toBe('alice');
+  });
+
+  it('不正な値はエラー', () => {
+    expect(() => parseSourceComment('hello', 'x')).toThrow(CommentSourceError);
+    expect(() => parseSourceComment({ text: '  ' }, 'x')).toThrow('text is required');
+    expect(() => parseSourceComment({ text: 'a'.repeat(501) }, 'x')).toThrow('at most 500');
+    expect(() => parseSourceComment({ text: 'hi', author: 1 }, 'x')).toThrow('author must be a string');
+    expect(() => parseSourceComment({ text: 'hi', id: 'a/b' }, 'x')).toThrow(CommentSourceError);
+  });
+
+  it('https 以外の絵文字URLは受け付けない', () => {
+    expect(() => parseSourceComment({ text: 'hi', emojis: { x: 'javascript:alert(1)' } }, 'x')).toThrow('Invalid emoji: x');
+    expect(() => parseSourceComment({ text: 'hi', emojis: { x: 'http://example.com/x.png' } }, 'x')).toThrow(CommentSourceError);
+  });
+});
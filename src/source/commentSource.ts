@@ -0,0 +1,113 @@
+import type { Router } from 'express';
+
+/**
+ * 取得元から受け取ったコメント（取得元に依存しない形式）
+ */
+export interface SourceComment {
+  /** 取得元の中で一意なID（省略時は自動で採番） */
+  id?: string;
+  /** 投稿者を識別するID（表示色の決定に使用） */
+  authorId: string;
+  /** 投稿者の表示名 */
+  authorName: string;
+  text: string;
+  /** 絵文字名 → 画像URL（テキスト中の :name: を画像で表示） */
+  emojis?: Record<string, string>;
+}
+
+/**
+ * 取得元から受け取ったコメントを処理するコールバック
+ * @param source 取得元の名前
+ */
+export type SourceCommentHandler = (source: string, comment: SourceComment) => void;
+
+// ============================================
+// コメントの取得元 - インターフェース
+// ============================================
+export interface CommentSource {
+  /** 取得元の名前（ログとコメントIDに使用） */
+  name: string;
+  /** オーバーレイサーバーに追加するルーター（HTTPで受け付ける取得元のみ） */
+  router?: Router;
+  /** コメントの受け付けを開始 */
+  start: () => Promise<void>;
+  /** コメントの受け付けを停止 */
+  stop: () => Promise<void>;
+}
+
+/**
+ * 取得元の設定や受け取ったコメントが不正な場合にスローされるエラー
+ */
+export class CommentSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentSourceError';
+  }
+}
+
+// コメント本文・表示名の最大文字数
+export const MAX_SOURCE_TEXT_LENGTH = 500;
+const MAX_AUTHOR_LENGTH = 50;
+
+const ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+const EMOJI_NAME_PATTERN = /^[a-z0-9_+'-]+$/;
+
+function optionalString(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new CommentSourceError(`${field} must be a string`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new CommentSourceError(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed || undefined;
+}
+
+function parseEmojis(value: unknown): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new CommentSourceError('emojis must be an object');
+  }
+  const emojis: Record<string, string> = {};
+  for (const [name, url] of Object.entries(value)) {
+    // セキュリティ: オーバーレイで読み込む画像は https のURLのみ許可する
+    if (!EMOJI_NAME_PATTERN.test(name) || typeof url !== 'string' || !url.startsWith('https://')) {
+      throw new CommentSourceError(`Invalid emoji: ${name}`);
+    }
+    emojis[name] = url;
+  }
+  return Object.keys(emojis).length > 0 ? emojis : undefined;
+}
+
+/**
+ * 外部から受け取った値をコメントとして検証
+ * - text（必須）: コメント本文
+ * - author: 表示名、authorId: 投稿者ID（省略時は表示名をIDとして使う）
+ * - id: 取得元の中で一意なID、emojis: 絵文字名 → https の画像URL
+ * @param defaultAuthor author を省略した場合の表示名
+ * @throws CommentSourceError 値が不正な場合
+ */
+export function parseSourceComment(value: unknown, defaultAuthor: string): SourceComment {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new CommentSourceError('Comment must be an object');
+  }
+  const record = value as Record<string, unknown>;
+
+  const text = optionalString(record['text'], 'text', MAX_SOURCE_TEXT_LENGTH);
+  if (!text) {
+    throw new CommentSourceError('text is required');
+  }
+  const id = optionalString(record['id'], 'id', 64);
+  if (id !== undefined && !ID_PATTERN.test(id)) {
+    throw new CommentSourceError('id may only contain letters, digits, ".", "_" and "-"');
+  }
+  const authorName = optionalString(record['author'], 'author', MAX_AUTHOR_LENGTH) ?? defaultAuthor;
+  const authorId = optionalString(record['authorId'], 'authorId', 64) ?? authorName;
+
+  const comment: SourceComment = { authorId, authorName, text };
+  if (id !== undefined) comment.id = id;
+  const emojis = parseEmojis(record['emojis']);
+  if (emojis) comment.emojis = emojis;
+  return comment;
+}
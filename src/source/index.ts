@@ -0,0 +1,10 @@
+export type { CommentSource, SourceComment, SourceCommentHandler } from './commentSource.js';
+export { CommentSourceError, MAX_SOURCE_TEXT_LENGTH, parseSourceComment } from './commentSource.js';
+export type { CommentSourceConfig, CommentSourceKind } from './sourceConfig.js';
+export { COMMENT_SOURCE_KINDS, loadCommentSourceConfig } from './sourceConfig.js';
+export type { CommentIngestDeps } from './commentIngest.js';
+export { createCommentIngest } from './commentIngest.js';
+export type { WebhookSourceOptions } from './webhookSource.js';
+export { createWebhookSource } from './webhookSource.js';
+export type { FileTailSourceOptions, StreamSourceOptions } from './streamSource.js';
+export { createFileTailSource, createStreamSource, parseCommentLine } from './streamSource.js';
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { loadCommentSourceConfig } from './sourceConfig.js';
+import { CommentSourceError } from './commentSource.js';
+
+describe('loadCommentSourceConfig', () => {
+  it('未設定の場合はSlackのみ', () => {
+    expect(loadCommentSourceConfig({})).toEqual({ kinds: ['slack'] });
+  });
+
+  it('カンマ区切りで複数の取得元を指定できる', () => {
+    expect(loadCommentSourceConfig({
+      COMMENT_SOURCES: 'webhook, file,webhook',
+      COMMENT_WEBHOOK_TOKEN: 'token',
+      COMMENT_FILE: 'comments.txt',
+    })).toEqual({ kinds: ['webhook', 'file'], webhookToken: 'token', filePath: 'comments.txt' });
+  });
+
+  it('不明な取得元や必要な設定がない場合はエラー', () => {
+    expect(() => loadCommentSourceConfig({ COMMENT_SOURCES: 'discord' })).toThrow(CommentSourceError);
+    expect(() => loadCommentSourceConfig({ COMMENT_SOURCES: ' , ' })).toThrow('at least one source');
+    expect(() => loadCommentSourceConfig({ COMMENT_SOURCES: 'webhook' })).toThrow('COMMENT_WEBHOOK_TOKEN must be set');
+    expect(() => loadCommentSourceConfig({ COMMENT_SOURCES: 'file' })).toThrow('COMMENT_FILE must be set');
+  });
+});
@@ -0,0 +1,67 @@
+import { CommentSourceError } from './commentSource.js';
+
+/**
+ * 組み込みのコメントの取得元
+ * - slack: Slackのスレッド・チャンネル（SLACK_TRANSPORT の接続方式で受信）
+ * - webhook: POST /api/comments で受け付ける
+ * - stdin: 標準入力の1行を1件のコメントとして読み込む
+ * - file: ファイルに追記された行を1件のコメントとして読み込む
+ */
+export type CommentSourceKind = 'slack' | 'webhook' | 'stdin' | 'file';
+
+export const COMMENT_SOURCE_KINDS: readonly CommentSourceKind[] = ['slack', 'webhook', 'stdin', 'file'];
+
+/**
+ * コメントの取得元の設定
+ */
+export interface CommentSourceConfig {
+  kinds: CommentSourceKind[];
+  /** webhook の認証トークン（Authorization: Bearer） */
+  webhookToken?: string;
+  /** file で読み込むファイルのパス */
+  filePath?: string;
+}
+
+/**
+ * 環境変数からコメントの取得元の設定を読み込む
+ * - COMMENT_SOURCES: 取得元をカンマ区切りで指定（デフォルト: slack）
+ * - COMMENT_WEBHOOK_TOKEN: webhook の認証トークン（webhook の場合は必須）
+ * - COMMENT_FILE: 読み込むファイルのパス（file の場合は必須）
+ * @throws CommentSourceError 不明な取得元の場合、必要な設定がない場合
+ */
+export function loadCommentSourceConfig(env: NodeJS.ProcessEnv): CommentSourceConfig {
+  const names = (env['COMMENT_SOURCES'] ?? 'slack')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+  if (names.length === 0) {
+    throw new CommentSourceError('COMMENT_SOURCES must include at least one source');
+  }
+
+  const kinds: CommentSourceKind[] = [];
+  for (const name of names) {
+    const kind = COMMENT_SOURCE_KINDS.find((candidate) => candidate === name);
+    if (!kind) {
+      throw new CommentSourceError(`Unknown comment source: ${name} (expected ${COMMENT_SOURCE_KINDS.join(', ')})`);
+    }
+    if (!kinds.includes(kind)) kinds.push(kind);
+  }
+
+  const config: CommentSourceConfig = { kinds };
+  if (kinds.includes('webhook')) {
+    // セキュリティ: オーバーレイサーバーは他の端末からも到達できるため、トークンなしでは受け付けない
+    const token = env['COMMENT_WEBHOOK_TOKEN'];
+    if (!token) {
+      throw new CommentSourceError('COMMENT_WEBHOOK_TOKEN must be set to use the webhook source');
+    }
+    config.webhookToken = token;
+  }
+  if (kinds.includes('file')) {
+    const filePath = env['COMMENT_FILE'];
+    if (!filePath) {
+      throw new CommentSourceError('COMMENT_FILE must be set to use the file source');
+    }
+    config.filePath = filePath;
+  }
+  return config;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { appendFile, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFileTailSource, createStreamSource, parseCommentLine } from './streamSource.js';
+
+describe('parseCommentLine', () => {
+  it('JSONの行は parseSourceComment と同じ形式で読み込む', () => {
+    expect(parseCommentLine('{"text":"hello","author":"alice"}', 'stdin'))
+      .toEqual({ authorId: 'alice', authorName: 'alice', text: 'hello' });
+  });
+
+  it('JSONとして解析できない行はエラー', () => {
+    expect(() => parseCommentLine('{not json', 'stdin')).toThrow('Invalid JSON line');
+  });
+
+  it('それ以外の行は行全体を本文にする', () => {
+    expect(parseCommentLine('こんにちは', 'stdin')).toEqual({ authorId: 'stdin', authorName: 'stdin', text: 'こんにちは' });
+    expect(parseCommentLine('   ', 'stdin')).toBeUndefined();
+  });
+});
+
+describe('createStreamSource', () => {
+  it('1行ずつコメントとして読み込み、不正な行は読み飛ばす', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const input = new PassThrough();
+    const onComment = vi.fn();
+    const source = createStreamSource({ name: 'stdin', input, onComment });
+    await source.start();
+
+    input.write('first\n{"text":""}\n');
+    input.end('{"text":"second","author":"bob"}\n');
+    await vi.waitFor(() => expect(onComment).toHaveBeenCalledTimes(2));
+
+    expect(onComment).toHaveBeenNthCalledWith(1, 'stdin', { authorId: 'stdin', authorName: 'stdin', text: 'first' });
+    expect(onComment).toHaveBeenNthCalledWith(2, 'stdin', { authorId: 'bob', authorName: 'bob', text: 'second' });
+    expect(warn).toHaveBeenCalledWith('Skipped invalid comment line (stdin): text is required');
+    await source.stop();
+    warn.mockRestore();
+  });
+});
+
+describe('createFileTailSource', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('開始後に追記された行のみを読み込む', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'comment-source-'));
+    const filePath = path.join(dir, 'comments.txt');
+    await writeFile(filePath, 'old\n');
+    const onComment = vi.fn();
+    const source = createFileTailSource({ filePath, onComment, interval: 10 });
+    await source.start();
+
+    await appendFile(filePath, 'new\npart');
+    await vi.waitFor(() => expect(onComment).toHaveBeenCalledTimes(1));
+    await appendFile(filePath, 'ial\n');
+    await vi.waitFor(() => expect(onComment).toHaveBeenCalledTimes(2));
+    await source.stop();
+
+    expect(onComment.mock.calls.map(([, comment]) => comment.text)).toEqual(['new', 'partial']);
+  });
+});
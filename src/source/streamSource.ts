@@ -0,0 +1,148 @@
+import { createReadStream, unwatchFile, watchFile, type Stats } from 'fs';
+import { stat } from 'fs/promises';
+import { createInterface, type Interface } from 'readline';
+import { CommentSourceError, parseSourceComment, type CommentSource, type SourceComment, type SourceCommentHandler } from './commentSource.js';
+
+/**
+ * 標準入力などのストリームから読み込む取得元の設定オプション
+ */
+export interface StreamSourceOptions {
+  /** 取得元の名前 */
+  name: string;
+  input: NodeJS.ReadableStream;
+  onComment: SourceCommentHandler;
+}
+
+/**
+ * ファイルの追記を読み込む取得元の設定オプション
+ */
+export interface FileTailSourceOptions {
+  filePath: string;
+  onComment: SourceCommentHandler;
+  /** ファイルの変更を確認する間隔（ミリ秒） */
+  interval?: number;
+}
+
+const DEFAULT_TAIL_INTERVAL = 500;
+
+/**
+ * 1行をコメントとして解析
+ * - JSON（{ "text": "...", "author": "..." }）: parseSourceComment と同じ形式
+ * - それ以外: 行全体を本文として扱う
+ * @param defaultAuthor 表示名を指定しない場合の表示名
+ * @returns 空行の場合は undefined
+ * @throws CommentSourceError JSONの内容が不正な場合
+ */
+export function parseCommentLine(line: string, defaultAuthor: string): SourceComment | undefined {
+  const trimmed = line.trim();
+  if (!trimmed) return undefined;
+
+  if (trimmed.startsWith('{')) {
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      throw new CommentSourceError('Invalid JSON line');
+    }
+    return parseSourceComment(value, defaultAuthor);
+  }
+  return parseSourceComment({ text: trimmed }, defaultAuthor);
+}
+
+/**
+ * 1行を処理し、不正な行は警告して読み飛ばす
+ */
+function handleLine(name: string, line: string, onComment: SourceCommentHandler): void {
+  try {
+    const comment = parseCommentLine(line, name);
+    if (comment) onComment(name, comment);
+  } catch (error) {
+    if (!(error instanceof CommentSourceError)) throw error;
+    console.warn(`Skipped invalid comment line (${name}): ${error.message}`);
+  }
+}
+
+/**
+ * ストリーム（標準入力など）の1行を1件のコメントとして読み込む取得元を生成
+ */
+export function createStreamSource(options: StreamSourceOptions): CommentSource {
+  const { name, input, onComment } = options;
+  let reader: Interface | undefined;
+
+  return {
+    name,
+    start: async () => {
+      if (reader) return;
+      reader = createInterface({ input, crlfDelay: Infinity });
+      reader.on('line', (line) => handleLine(name, line, onComment));
+    },
+    stop: async () => {
+      reader?.close();
+      reader = undefined;
+    },
+  };
+}
+
+/**
+ * ファイルに追記された行を1件のコメントとして読み込む取得元を生成（tail -f 相当）
+ * 開始時点の内容は読み込まず、ファイルが切り詰められた場合は先頭から読み直す
+ */
+export function createFileTailSource(options: FileTailSourceOptions): CommentSource {
+  const { filePath, onComment } = options;
+  const name = 'file';
+  let offset = 0;
+  // 改行で終わっていない行（次の追記で続きを読む）
+  let pending = '';
+  // 読み込みを順番に実行する
+  let reading: Promise<void> = Promise.resolve();
+  let running = false;
+
+  const readAppended = async (size: number): Promise<void> => {
+    if (size < offset) {
+      offset = 0;
+      pending = '';
+    }
+    if (size === offset) return;
+
+    const stream = createReadStream(filePath, { start: offset, end: size - 1, encoding: 'utf8' });
+    let chunk = '';
+    for await (const data of stream) {
+      chunk += data;
+    }
+    offset = size;
+
+    const lines = (pending + chunk).split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      handleLine(name, line, onComment);
+    }
+  };
+
+  const onChange = (current: Stats): void => {
+    reading = reading
+      .then(() => (running ? readAppended(current.size) : undefined))
+      .catch((err: unknown) => {
+        console.error(`Failed to read comment file (${filePath}):`, err);
+      });
+  };
+
+  return {
+    name,
+    start: async () => {
+      if (running) return;
+      running = true;
+      try {
+        offset = (await stat(filePath)).size;
+      } catch {
+        // ファイルがまだない場合は作成されるのを待つ
+        offset = 0;
+      }
+      watchFile(filePath, { interval: options.interval ?? DEFAULT_TAIL_INTERVAL }, onChange);
+    },
+    stop: async () => {
+      running = false;
+      unwatchFile(filePath, onChange);
+      await reading;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import express, { Router, type Request, type Response } from 'express';
+import { requireControlToken } from '../admin/index.js';
+import { CommentSourceError, parseSourceComment, type CommentSource, type SourceCommentHandler } from './commentSource.js';
+
+/**
+ * Webhookの設定オプション
+ */
+export interface WebhookSourceOptions {
+  /** 認証トークン（Authorization: Bearer <token>） */
+  token: string;
+  onComment: SourceCommentHandler;
+}
+
+/**
+ * POST /api/comments のレスポンス
+ */
+interface WebhookResponse {
+  success: boolean;
+  error?: string;
+}
+
+const SOURCE_NAME = 'webhook';
+const DEFAULT_AUTHOR = 'webhook';
+
+/**
+ * HTTPでコメントを受け付ける取得元を生成
+ * セキュリティ: 認証トークンが一致するリクエストのみ受け付ける
+ */
+export function createWebhookSource(options: WebhookSourceOptions): CommentSource {
+  const router = Router();
+  let running = false;
+
+  /**
+   * POST /api/comments
+   * { "text": "...", "author": "...", "authorId": "...", "id": "...", "emojis": { "name": "https://..." } }
+   */
+  router.post(
+    '/api/comments',
+    requireControlToken(options.token),
+    express.json({ limit: '16kb' }),
+    (req: Request, res: Response<WebhookResponse>) => {
+      if (!running) {
+        res.status(503).json({ success: false, error: 'Webhook source is not running' });
+        return;
+      }
+      try {
+        options.onComment(SOURCE_NAME, parseSourceComment(req.body, DEFAULT_AUTHOR));
+        res.status(202).json({ success: true });
+      } catch (error) {
+        if (error instanceof CommentSourceError) {
+          res.status(400).json({ success: false, error: error.message });
+          return;
+        }
+        console.error('Failed to accept webhook comment:', error);
+        res.status(500).json({ success: false, error: 'Failed to accept comment' });
+      }
+    }
+  );
+
+  return {
+    name: SOURCE_NAME,
+    router,
+    start: async () => {
+      running = true;
+    },
+    stop: async () => {
+      running = false;
+    },
+  };
+}
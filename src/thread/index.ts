@@ -0,0 +1,9 @@
+export type { MessageLocation, ThreadRegistry } from './threadRegistry.js';
+export {
+  createCounterMessage,
+  createThreadId,
+  createThreadRegistry,
+  createWatchTarget,
+  parseWatchSpec,
+} from './threadRegistry.js';
+export { formatWatchSpec } from './watchSpec.js';
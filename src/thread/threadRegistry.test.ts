@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createThreadId,
+  createThreadRegistry,
+  parseWatchSpec,
+} from './threadRegistry.js';
+import { formatWatchSpec } from './watchSpec.js';
+
+const URL_A = 'https://example.slack.com/archives/C111/p1705200000000000';
+const URL_B = 'https://example.slack.com/archives/C222/p1705300000123456';
+const CHANNEL_URL = 'https://example.slack.com/archives/C333';
+
+describe('parseWatchSpec', () => {
+  it('スレッドURLのみの場合はラベルなしで解析する', () => {
+    const thread = parseWatchSpec(URL_A);
+    expect(thread).toEqual({
+      kind: 'thread',
+      id: 'C111/1705200000.000000',
+      label: '',
+      channelId: 'C111',
+      threadTs: '1705200000.000000',
+    });
+  });
+
+  it('"ラベル=URL" 形式でラベルを付けられる', () => {
+    const thread = parseWatchSpec(`トラックA=${URL_B}`);
+    expect(thread).toMatchObject({
+      kind: 'thread',
+      label: 'トラックA',
+      channelId: 'C222',
+      threadTs: '1705300000.123456',
+    });
+  });
+
+  it('前後の空白を無視する', () => {
+    const thread = parseWatchSpec(`  A = ${URL_A}  `);
+    expect(thread.label).toBe('A');
+    expect(thread.id).toBe(createThreadId('C111', '1705200000.000000'));
+  });
+
+  it('チャンネルURLをチャンネル指定として解析する', () => {
+    expect(parseWatchSpec(CHANNEL_URL)).toEqual({
+      kind: 'channel',
+      id: 'C333',
+      label: '',
+      channelId: 'C333',
+      includeReplies: false,
+    });
+  });
+
+  it('チャンネルIDのみでも指定できる', () => {
+    expect(parseWatchSpec('全体=C333')).toMatchObject({
+      kind: 'channel',
+      label: '全体',
+      channelId: 'C333',
+    });
+  });
+
+  it('"?replies=true" でスレッド返信も対象にする', () => {
+    expect(parseWatchSpec(`全体=${CHANNEL_URL}?replies=true`)).toMatchObject({
+      kind: 'channel',
+      label: '全体',
+      includeReplies: true,
+    });
+  });
+
+  it('不正なURLはエラーを投げる', () => {
+    expect(() => parseWatchSpec('A=https://example.com/foo')).toThrow('Invalid Slack thread or channel URL');
+  });
+});
+
+describe('formatWatchSpec', () => {
+  it('parseWatchSpec で元の指定に戻せる文字列を返す', () => {
+    const spec = formatWatchSpec({ threadUrl: CHANNEL_URL, label: '全体', includeReplies: true });
+    expect(spec).toBe(`全体=${CHANNEL_URL}?replies=true`);
+    expect(parseWatchSpec(spec)).toMatchObject({ kind: 'channel', label: '全体', includeReplies: true });
+  });
+
+  it('ラベルと返信指定がない場合はURLのみを返す', () => {
+    expect(formatWatchSpec({ threadUrl: URL_A })).toBe(URL_A);
+  });
+});
+
+describe('createThreadRegistry', () => {
+  it('スレッドへの返信を監視中のスレッドに照合する', () => {
+    const registry = createThreadRegistry();
+    const thread = parseWatchSpec(URL_A);
+    registry.add(thread);
+
+    expect(registry.match({ channel: 'C111', ts: '1705200001.000000', thread_ts: '1705200000.000000' })).toEqual(thread);
+    expect(registry.match({ channel: 'C111', ts: '1705200001.000000', thread_ts: '1705200000.999999' })).toBeUndefined();
+    expect(registry.match({ channel: 'C999', ts: '1705200001.000000', thread_ts: '1705200000.000000' })).toBeUndefined();
+    expect(registry.match({ channel: 'C111', ts: '1705200001.000000' })).toBeUndefined();
+  });
+
+  it('チャンネル指定はトップレベルの投稿のみに照合する', () => {
+    const registry = createThreadRegistry();
+    const channel = parseWatchSpec(CHANNEL_URL);
+    registry.add(channel);
+
+    expect(registry.match({ channel: 'C333', ts: '1705200001.000000' })).toEqual(channel);
+    // スレッドの親メッセージ（ts === thread_ts）はトップレベル扱い
+    expect(registry.match({ channel: 'C333', ts: '1705200001.000000', thread_ts: '1705200001.000000' })).toEqual(channel);
+    expect(registry.match({ channel: 'C333', ts: '1705200002.000000', thread_ts: '1705200001.000000' })).toBeUndefined();
+  });
+
+  it('includeReplies のチャンネル指定はスレッド返信にも照合する', () => {
+    const registry = createThreadRegistry();
+    const channel = parseWatchSpec(`${CHANNEL_URL}?replies=true`);
+    registry.add(channel);
+
+    expect(registry.match({ channel: 'C333', ts: '1705200002.000000', thread_ts: '1705200001.000000' })).toEqual(channel);
+  });
+
+  it('同じチャンネルのスレッド指定をチャンネル指定より優先する', () => {
+    const registry = createThreadRegistry();
+    const channel = parseWatchSpec('C111?replies=true');
+    const thread = parseWatchSpec(URL_A);
+    registry.add(channel);
+    registry.add(thread);
+
+    expect(registry.match({ channel: 'C111', ts: '1705200001.000000', thread_ts: '1705200000.000000' })).toEqual(thread);
+    expect(registry.match({ channel: 'C111', ts: '1705200009.000000' })).toEqual(channel);
+  });
+
+  it('監視対象ごとと合計のコメント数を管理する', () => {
+    const registry = createThreadRegistry();
+    const a = parseWatchSpec(`A=${URL_A}`);
+    const b = parseWatchSpec(`B=${URL_B}`);
+    registry.add(a);
+    registry.add(b);
+
+    registry.setCount(a.id, 10);
+    expect(registry.increment(a.id)).toBe(11);
+    expect(registry.increment(b.id)).toBe(1);
+
+    expect(registry.getTotalCount()).toBe(12);
+    expect(registry.getThreadCounts()).toEqual([
+      { threadId: a.id, label: 'A', count: 11 },
+      { threadId: b.id, label: 'B', count: 1 },
+    ]);
+  });
+
+  it('登録済みの監視対象を再追加してもカウントは維持される', () => {
+    const registry = createThreadRegistry();
+    const thread = parseWatchSpec(URL_A);
+    registry.add(thread);
+    registry.increment(thread.id);
+
+    registry.add({ ...thread, label: '新ラベル' });
+
+    expect(registry.list()).toHaveLength(1);
+    expect(registry.getThreadCounts()[0]).toEqual({ threadId: thread.id, label: '新ラベル', count: 1 });
+  });
+
+  it('削除した監視対象は照合・集計の対象外になる', () => {
+    const registry = createThreadRegistry();
+    const thread = parseWatchSpec(URL_A);
+    registry.add(thread);
+    registry.increment(thread.id);
+
+    expect(registry.remove(thread.id)).toBe(true);
+    expect(registry.match({ channel: 'C111', ts: '1705200001.000000', thread_ts: '1705200000.000000' })).toBeUndefined();
+    expect(registry.getTotalCount()).toBe(0);
+    expect(registry.increment(thread.id)).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import type { CounterMessage, ThreadCount, WatchTarget } from '../types/index.js';
+import { parseChannelUrl, parseThreadUrl } from '../message/index.js';
+import { createCommentCounter, type CommentCounter } from '../counter/index.js';
+import { REPLIES_SUFFIX } from './watchSpec.js';
+
+// ============================================
+// 監視対象の指定の解析
+// ============================================
+
+/**
+ * スレッドIDを生成
+ */
+export function createThreadId(channelId: string, threadTs: string): string {
+  return `${channelId}/${threadTs}`;
+}
+
+/**
+ * URLとラベルから監視対象を作成
+ * - スレッドURL → スレッドモード
+ * - チャンネルURL、チャンネルID → チャンネルモード
+ * @throws Error いずれの形式でもない場合
+ */
+export function createWatchTarget(
+  url: string,
+  label = '',
+  includeReplies = false
+): WatchTarget {
+  const trimmedUrl = url.trim();
+  const trimmedLabel = label.trim();
+
+  if (/\/archives\/[A-Z0-9]+\/p\d+/i.test(trimmedUrl)) {
+    const { channelId, threadTs } = parseThreadUrl(trimmedUrl);
+    return {
+      kind: 'thread',
+      id: createThreadId(channelId, threadTs),
+      label: trimmedLabel,
+      channelId,
+      threadTs,
+    };
+  }
+
+  let channelId: string;
+  try {
+    ({ channelId } = parseChannelUrl(trimmedUrl));
+  } catch {
+    throw new Error('Invalid Slack thread or channel URL. Expected format: https://xxx.slack.com/archives/CHANNEL_ID[/pTIMESTAMP]');
+  }
+  return {
+    kind: 'channel',
+    id: channelId,
+    label: trimmedLabel,
+    channelId,
+    includeReplies,
+  };
+}
+
+/**
+ * 監視対象の指定文字列を解析する
+ * - "https://xxx.slack.com/archives/C.../p..." → スレッド
+ * - "https://xxx.slack.com/archives/C..." または "C..." → チャンネル
+ * - 末尾に "?replies=true" を付けるとチャンネルのスレッド返信も対象にする
+ * - "ラベル=..." 形式でラベルを付けられる
+ */
+export function parseWatchSpec(spec: string): WatchTarget {
+  let rest = spec.trim();
+  let includeReplies = false;
+  if (rest.endsWith(REPLIES_SUFFIX)) {
+    includeReplies = true;
+    rest = rest.slice(0, -REPLIES_SUFFIX.length);
+  }
+
+  let label = '';
+  const separatorIndex = rest.indexOf('=');
+  if (separatorIndex > 0 && !/^https?:\/\//i.test(rest)) {
+    label = rest.slice(0, separatorIndex);
+    rest = rest.slice(separatorIndex + 1);
+  }
+
+  return createWatchTarget(rest, label, includeReplies);
+}
+
+// ============================================
+// スレッドレジストリ - インターフェース
+// ============================================
+
+/**
+ * 監視対象との照合に使うメッセージの位置情報
+ */
+export interface MessageLocation {
+  channel: string;
+  ts?: string;
+  thread_ts?: string;
+}
+
+export interface ThreadRegistry {
+  /** 監視対象を追加（登録済みの場合は設定のみ更新） */
+  add: (target: WatchTarget) => void;
+  /** 監視対象を削除 */
+  remove: (targetId: string) => boolean;
+  /** メッセージが属する監視対象を検索（スレッド指定をチャンネル指定より優先） */
+  match: (message: MessageLocation) => WatchTarget | undefined;
+  /** 監視対象の一覧 */
+  list: () => WatchTarget[];
+  /** 監視対象のコメント数をインクリメントし、新しい値を返す */
+  increment: (targetId: string) => number;
+  /** 監視対象のコメント数をデクリメントし、新しい値を返す */
+  decrement: (targetId: string) => number;
+  /** 監視を開始した時刻（ミリ秒）。未登録の場合は undefined */
+  getWatchingSince: (targetId: string) => number | undefined;
+  /** 監視対象のコメント数を設定 */
+  setCount: (targetId: string, value: number) => void;
+  /** 全監視対象の合計コメント数 */
+  getTotalCount: () => number;
+  /** 監視対象ごとのコメント数 */
+  getThreadCounts: () => ThreadCount[];
+}
+
+interface RegistryEntry {
+  target: WatchTarget;
+  counter: CommentCounter;
+  since: number;
+}
+
+// ============================================
+// スレッドレジストリ - ファクトリ関数
+// ============================================
+
+/**
+ * 監視対象（スレッド・チャンネル）と監視対象ごとのコメント数を管理するレジストリを生成
+ * @param now 現在時刻を返す関数（テスト用にDI可能）
+ */
+export function createThreadRegistry(now: () => number = Date.now): ThreadRegistry {
+  const entries = new Map<string, RegistryEntry>();
+
+  return {
+    add: (target) => {
+      const existing = entries.get(target.id);
+      if (existing) {
+        existing.target = target;
+        return;
+      }
+      entries.set(target.id, { target, counter: createCommentCounter(), since: now() });
+    },
+    remove: (targetId) => entries.delete(targetId),
+    match: ({ channel, ts, thread_ts }) => {
+      const isReply = thread_ts !== undefined && thread_ts !== ts;
+
+      // スレッド返信: スレッド指定を優先
+      if (isReply) {
+        const thread = entries.get(createThreadId(channel, thread_ts))?.target;
+        if (thread) return thread;
+      }
+
+      const channelTarget = entries.get(channel)?.target;
+      if (channelTarget?.kind !== 'channel') return undefined;
+      if (isReply && !channelTarget.includeReplies) return undefined;
+      return channelTarget;
+    },
+    list: () => Array.from(entries.values(), (entry) => entry.target),
+    increment: (targetId) => entries.get(targetId)?.counter.increment() ?? 0,
+    decrement: (targetId) => entries.get(targetId)?.counter.decrement() ?? 0,
+    getWatchingSince: (targetId) => entries.get(targetId)?.since,
+    setCount: (targetId, value) => {
+      entries.get(targetId)?.counter.set(value);
+    },
+    getTotalCount: () => {
+      let total = 0;
+      for (const entry of entries.values()) {
+        total += entry.counter.getCount();
+      }
+      return total;
+    },
+    getThreadCounts: () =>
+      Array.from(entries.values(), ({ target, counter }) => ({
+        threadId: target.id,
+        label: target.label,
+        count: counter.getCount(),
+      })),
+  };
+}
+
+// ============================================
+// カウンターメッセージ
+// ============================================
+
+/**
+ * 合計と監視対象ごとの内訳を含むカウンターメッセージを作成
+ */
+export function createCounterMessage(registry: ThreadRegistry): CounterMessage {
+  return {
+    type: 'counter',
+    count: registry.getTotalCount(),
+    threads: registry.getThreadCounts(),
+  };
+}
@@ -0,0 +1,18 @@
+import type { AdminThreadInput } from '../types/index.js';
+
+// ============================================
+// 監視対象の指定文字列
+// ============================================
+// セットアップサーバーからも参照するため、メッセージ処理（絵文字マップ）に依存しないモジュールに分離
+
+/** チャンネル指定でスレッド返信も対象にする場合の接尾辞 */
+export const REPLIES_SUFFIX = '?replies=true';
+
+/**
+ * 監視対象の指定を parseWatchSpec で解析できる文字列に変換する
+ */
+export function formatWatchSpec(input: AdminThreadInput): string {
+  const label = input.label?.trim();
+  const target = input.threadUrl.trim();
+  return `${label ? `${label}=` : ''}${target}${input.includeReplies ? REPLIES_SUFFIX : ''}`;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createCommentId, createCommentTracker } from './commentTracker.js';
+
+describe('createCommentId', () => {
+  it('チャンネルIDとtsからコメントIDを生成する', () => {
+    expect(createCommentId('C123', '1705200000.000100')).toBe('C123/1705200000.000100');
+  });
+});
+
+describe('createCommentTracker', () => {
+  it('記録したコメントを取得できる', () => {
+    const tracker = createCommentTracker();
+    tracker.track({ id: 'C1/1', targetId: 'C1/0', text: 'hello' });
+
+    expect(tracker.get('C1/1')).toEqual({ id: 'C1/1', targetId: 'C1/0', text: 'hello' });
+    expect(tracker.get('C1/2')).toBeUndefined();
+  });
+
+  it('テキストを更新できる', () => {
+    const tracker = createCommentTracker();
+    tracker.track({ id: 'C1/1', targetId: 'C1/0', text: 'hello' });
+    tracker.update('C1/1', 'edited');
+
+    expect(tracker.get('C1/1')?.text).toBe('edited');
+  });
+
+  it('削除した記録は取得できない', () => {
+    const tracker = createCommentTracker();
+    tracker.track({ id: 'C1/1', targetId: 'C1/0', text: 'hello' });
+
+    expect(tracker.remove('C1/1')).toBe(true);
+    expect(tracker.remove('C1/1')).toBe(false);
+    expect(tracker.get('C1/1')).toBeUndefined();
+  });
+
+  it('TTLを過ぎた記録は破棄される', () => {
+    let now = 1000;
+    const tracker = createCommentTracker({ ttl: 500, now: () => now });
+    tracker.track({ id: 'C1/1', targetId: 'C1/0', text: 'old' });
+    now = 1300;
+    tracker.track({ id: 'C1/2', targetId: 'C1/0', text: 'new' });
+
+    now = 1500;
+    expect(tracker.get('C1/1')).toBeUndefined();
+    expect(tracker.get('C1/2')?.text).toBe('new');
+    expect(tracker.size()).toBe(1);
+  });
+});
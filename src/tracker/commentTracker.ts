@@ -0,0 +1,96 @@
+// ============================================
+// 表示中コメントのトラッカー - インターフェース
+// ============================================
+
+/**
+ * 表示中（または表示直後）のコメント
+ */
+export interface TrackedComment {
+  /** コメントID（channelId/ts） */
+  id: string;
+  /** 取得元の監視対象ID */
+  targetId: string;
+  /** 表示中のテキスト */
+  text: string;
+}
+
+export interface CommentTracker {
+  /** コメントを記録 */
+  track: (comment: TrackedComment) => void;
+  /** 記録中のコメントを取得（期限切れの場合は undefined） */
+  get: (id: string) => TrackedComment | undefined;
+  /** 記録中のコメントのテキストを更新 */
+  update: (id: string, text: string) => void;
+  /** 記録を削除 */
+  remove: (id: string) => boolean;
+  /** 記録件数（期限切れを除く） */
+  size: () => number;
+}
+
+/**
+ * CommentTrackerの設定オプション
+ */
+export interface CommentTrackerOptions {
+  /** 記録を保持する時間（ミリ秒） */
+  ttl?: number;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+// コメントが画面を流れ終わった後も、遅れて届く編集・削除を反映できるよう余裕を持たせる
+const DEFAULT_TTL = 60 * 1000;
+
+/**
+ * コメントIDを生成
+ */
+export function createCommentId(channelId: string, ts: string): string {
+  return `${channelId}/${ts}`;
+}
+
+// ============================================
+// 表示中コメントのトラッカー - ファクトリ関数
+// ============================================
+
+/**
+ * ブロードキャスト済みのコメントをSlackのtsで一定時間記録するトラッカーを生成
+ * 編集・削除イベントを表示中のコメントに反映するために使用する
+ */
+export function createCommentTracker(options: CommentTrackerOptions = {}): CommentTracker {
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, { comment: TrackedComment; expiresAt: number }>();
+
+  // 期限切れの記録を削除（Mapは挿入順のため先頭から確認すればよい）
+  const prune = (): void => {
+    const current = now();
+    for (const [id, entry] of entries) {
+      if (entry.expiresAt > current) break;
+      entries.delete(id);
+    }
+  };
+
+  return {
+    track: (comment) => {
+      prune();
+      entries.delete(comment.id);
+      entries.set(comment.id, { comment: { ...comment }, expiresAt: now() + ttl });
+    },
+    get: (id) => {
+      prune();
+      const entry = entries.get(id);
+      return entry ? { ...entry.comment } : undefined;
+    },
+    update: (id, text) => {
+      prune();
+      const entry = entries.get(id);
+      if (entry) {
+        entry.comment.text = text;
+      }
+    },
+    remove: (id) => entries.delete(id),
+    size: () => {
+      prune();
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,2 @@
+export type { CommentTracker, TrackedComment } from './commentTracker.js';
+export { createCommentId, createCommentTracker } from './commentTracker.js';
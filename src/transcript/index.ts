@@ -0,0 +1,9 @@
+export type { TranscriptWriter, TranscriptWriterOptions } from './transcriptLog.js';
+export {
+  createTranscriptWriter,
+  getTranscriptFileName,
+  isValidSessionId,
+  listTranscripts,
+  readTranscript,
+  resolveTranscriptDir,
+} from './transcriptLog.js';
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { TranscriptEntry } from '../types/index.js';
+import { createTranscriptWriter, isValidSessionId, listTranscripts, readTranscript } from './transcriptLog.js';
+
+describe('isValidSessionId', () => {
+  it('英数字とハイフンのみ許可する', () => {
+    expect(isValidSessionId('0b6f1c2e-8a3d-4f5e-9c7b-1a2b3c4d5e6f')).toBe(true);
+    expect(isValidSessionId('../secret')).toBe(false);
+    expect(isValidSessionId('')).toBe(false);
+  });
+});
+
+describe('セッションログ', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'transcript-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function readEntries(logDir: string, sessionId: string): Promise<TranscriptEntry[]> {
+    const content = await readFile(path.join(logDir, `${sessionId}.jsonl`), 'utf-8');
+    return content.trim().split('\n').map((line) => JSON.parse(line) as TranscriptEntry);
+  }
+
+  it('配信したメッセージを順番に追記し、コメントには元のSlackメッセージを添える', async () => {
+    const logDir = path.join(dir, 'logs');
+    const writer = createTranscriptWriter({ dir: logDir, sessionId: 'session-1', now: () => 0 });
+    writer.recordSource({ id: 'C1/1.0', ts: '1.0', userId: 'U1', rawText: 'hi <@U2>', processedText: 'hi @bob' });
+
+    writer.write({ type: 'comment', id: 'C1/1.0', text: 'hi @bob', userName: 'alice', userColor: 'red', threadId: 'T', threadLabel: '' });
+    writer.write({ type: 'counter', count: 1 });
+    writer.write({ type: 'comment_retract', id: 'C1/1.0' });
+    await writer.flush();
+
+    const entries = await readEntries(logDir, 'session-1');
+    expect(entries.map((entry) => entry.message.type)).toEqual(['comment', 'counter', 'comment_retract']);
+    expect(entries[0]).toEqual({
+      loggedAt: '1970-01-01T00:00:00.000Z',
+      message: expect.objectContaining({ id: 'C1/1.0' }),
+      source: { ts: '1.0', userId: 'U1', rawText: 'hi <@U2>', processedText: 'hi @bob' },
+    });
+    expect(entries[2]?.source).toBeUndefined();
+  });
+
+  it('不正なセッションIDはエラー', () => {
+    expect(() => createTranscriptWriter({ dir, sessionId: '../x' })).toThrow('Invalid session ID');
+  });
+
+  it('書き込みに失敗した場合は onError を呼ぶ', async () => {
+    const file = path.join(dir, 'file');
+    await writeFile(file, '');
+    const onError = vi.fn();
+    const writer = createTranscriptWriter({ dir: file, sessionId: 's', onError });
+
+    writer.write({ type: 'counter', count: 0 });
+    await writer.flush();
+
+    expect(onError).toHaveBeenCalled();
+  });
+
+  it('保存済みのセッションログを新しい順に一覧する', async () => {
+    const older = createTranscriptWriter({ dir, sessionId: 'older' });
+    older.write({ type: 'counter', count: 0 });
+    await older.flush();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const newer = createTranscriptWriter({ dir, sessionId: 'newer' });
+    newer.write({ type: 'counter', count: 0 });
+    await newer.flush();
+    await writeFile(path.join(dir, 'notes.txt'), '');
+    await mkdir(path.join(dir, 'sub.jsonl'));
+
+    const transcripts = await listTranscripts(dir);
+
+    expect(transcripts.map((t) => t.sessionId)).toEqual(['newer', 'older']);
+    expect(transcripts[0]?.size).toBeGreaterThan(0);
+  });
+
+  it('保存済みのセッションログを読み込み、壊れた行は読み飛ばす', async () => {
+    const entry: TranscriptEntry = { loggedAt: '2025-01-14T03:00:00.000Z', message: { type: 'counter', count: 1 } };
+    await writeFile(path.join(dir, 's1.jsonl'), `${JSON.stringify(entry)}\n{"loggedAt":\n`);
+
+    expect(await readTranscript(dir, 's1')).toEqual([entry]);
+    expect(await readTranscript(dir, 'missing')).toBeUndefined();
+    expect(await readTranscript(dir, '../s1')).toBeUndefined();
+  });
+
+  it('保存先ディレクトリがない場合は空', async () => {
+    expect(await listTranscripts(path.join(dir, 'missing'))).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { appendFile, mkdir, readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import type {
+  TranscriptEntry,
+  TranscriptSource,
+  TranscriptSummary,
+  WebSocketMessage,
+} from '../types/index.js';
+
+// セッションログの保存先のデフォルト（カレントディレクトリからの相対パス）
+const DEFAULT_TRANSCRIPT_DIR = 'logs';
+
+// ログファイルの拡張子
+const TRANSCRIPT_EXTENSION = '.jsonl';
+
+// 元メッセージを保持する件数の上限（承認待ちのコメントが後から配信される場合に備える）
+const MAX_SOURCES = 1000;
+
+// セキュリティ: セッションIDはファイル名に使うため英数字とハイフンのみ許可
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * セッションログの保存先ディレクトリを取得
+ * TRANSCRIPT_DIR で変更可能。セットアップサーバーとオーバーレイサーバーで同じディレクトリを参照する
+ */
+export function resolveTranscriptDir(env: NodeJS.ProcessEnv): string {
+  return path.resolve(env['TRANSCRIPT_DIR'] || DEFAULT_TRANSCRIPT_DIR);
+}
+
+/**
+ * セッションIDとして使える文字列か判定
+ */
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * セッションログのファイル名を取得
+ */
+export function getTranscriptFileName(sessionId: string): string {
+  return `${sessionId}${TRANSCRIPT_EXTENSION}`;
+}
+
+// ============================================
+// セッションログの書き込み - インターフェース
+// ============================================
+export interface TranscriptWriter {
+  /** コメントの元になったSlackメッセージを記録（配信時にログへ添える） */
+  recordSource: (source: TranscriptSource) => void;
+  /** 配信したメッセージをログに追記 */
+  write: (message: WebSocketMessage) => void;
+  /** 書き込み待ちのログをすべて書き込む */
+  flush: () => Promise<void>;
+}
+
+/**
+ * TranscriptWriterの設定オプション
+ */
+export interface TranscriptWriterOptions {
+  /** 保存先ディレクトリ */
+  dir: string;
+  sessionId: string;
+  /** 書き込みに失敗した際のコールバック */
+  onError?: (error: unknown) => void;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+// ============================================
+// セッションログの書き込み - ファクトリ関数
+// ============================================
+
+/**
+ * 配信したメッセージをセッションごとのJSONLファイルに追記するライターを生成
+ * 書き込みは順番を保って非同期に行い、配信処理を待たせない
+ */
+export function createTranscriptWriter(options: TranscriptWriterOptions): TranscriptWriter {
+  if (!isValidSessionId(options.sessionId)) {
+    throw new Error(`Invalid session ID: ${options.sessionId}`);
+  }
+  const filePath = path.join(options.dir, getTranscriptFileName(options.sessionId));
+  const now = options.now ?? Date.now;
+  const sources = new Map<string, TranscriptSource>();
+
+  let pending: Promise<void> = mkdir(options.dir, { recursive: true })
+    .then(() => undefined)
+    .catch((error: unknown) => options.onError?.(error));
+
+  const findSource = (message: WebSocketMessage): TranscriptSource | undefined => {
+    if (message.type !== 'comment' && message.type !== 'comment_update') return undefined;
+    return sources.get(message.id);
+  };
+
+  return {
+    recordSource: (source) => {
+      // 編集された場合は最新の内容に置き換える
+      sources.delete(source.id);
+      sources.set(source.id, source);
+      if (sources.size > MAX_SOURCES) {
+        const oldest = sources.keys().next().value;
+        if (oldest !== undefined) sources.delete(oldest);
+      }
+    },
+    write: (message) => {
+      const entry: TranscriptEntry = { loggedAt: new Date(now()).toISOString(), message };
+      const source = findSource(message);
+      if (source) {
+        entry.source = {
+          ts: source.ts,
+          userId: source.userId,
+          rawText: source.rawText,
+          processedText: source.processedText,
+        };
+      }
+      const line = JSON.stringify(entry) + '\n';
+      pending = pending
+        .then(() => appendFile(filePath, line, 'utf-8'))
+        .catch((error: unknown) => options.onError?.(error));
+    },
+    flush: () => pending,
+  };
+}
+
+// ============================================
+// 保存済みセッションログの一覧
+// ============================================
+
+/**
+ * 保存済みのセッションログを新しい順に取得
+ * 保存先ディレクトリがない場合は空
+ */
+export async function listTranscripts(dir: string): Promise<TranscriptSummary[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const summaries = await Promise.all(fileNames.map(async (fileName): Promise<TranscriptSummary[]> => {
+    if (!fileName.endsWith(TRANSCRIPT_EXTENSION)) return [];
+    const sessionId = fileName.slice(0, -TRANSCRIPT_EXTENSION.length);
+    if (!isValidSessionId(sessionId)) return [];
+
+    const stats = await stat(path.join(dir, fileName));
+    if (!stats.isFile()) return [];
+    return [{ sessionId, size: stats.size, updatedAt: stats.mtime.toISOString() }];
+  }));
+
+  return summaries.flat().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * 保存済みのセッションログを読み込む
+ * 書き込み途中で終了した場合などの壊れた行は読み飛ばす
+ * @returns ログが存在しない場合は undefined
+ */
+export async function readTranscript(dir: string, sessionId: string): Promise<TranscriptEntry[] | undefined> {
+  if (!isValidSessionId(sessionId)) return undefined;
+
+  let content: string;
+  try {
+    content = await readFile(path.join(dir, getTranscriptFileName(sessionId)), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  return content.split('\n').flatMap((line): TranscriptEntry[] => {
+    if (!line.trim()) return [];
+    try {
+      const entry = JSON.parse(line) as TranscriptEntry;
+      return typeof entry.loggedAt === 'string' && entry.message ? [entry] : [];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { createEventsApiReceiver } from './eventsApiTransport.js';
+
+const signingSecret = 'test-signing-secret';
+const nowMillis = 1705200000 * 1000;
+
+// Slackと同じ方法でリクエストに署名する
+function sign(body: string, timestamp = nowMillis / 1000, secret = signingSecret): IncomingHttpHeaders {
+  const signature = createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex');
+  return {
+    'x-slack-signature': `v0=${signature}`,
+    'x-slack-request-timestamp': String(timestamp),
+  };
+}
+
+function eventCallback(eventId: string, event: Record<string, unknown>): string {
+  return JSON.stringify({ type: 'event_callback', event_id: eventId, event });
+}
+
+describe('createEventsApiReceiver', () => {
+  const receiver = () => createEventsApiReceiver({ signingSecret, now: () => nowMillis });
+
+  it('url_verification には challenge を返す', () => {
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc123' });
+
+    expect(receiver().receive(body, sign(body))).toEqual({ status: 200, body: { challenge: 'abc123' } });
+  });
+
+  it('署名が一致する event_callback のイベントを返す', () => {
+    const event = { type: 'message', channel: 'C1', ts: '1705200001.000000', user: 'U1', text: 'hello' };
+    const body = eventCallback('Ev1', event);
+
+    expect(receiver().receive(body, sign(body))).toEqual({ status: 200, event });
+  });
+
+  it('署名がない・一致しない・古いリクエストは拒否する', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const body = eventCallback('Ev1', { type: 'message', channel: 'C1' });
+    const target = receiver();
+
+    expect(target.receive(body, {})).toEqual({ status: 401 });
+    expect(target.receive(body, sign(body, nowMillis / 1000, 'wrong-secret'))).toEqual({ status: 401 });
+    expect(target.receive(`${body} `, sign(body))).toEqual({ status: 401 });
+    expect(target.receive(body, sign(body, nowMillis / 1000 - 10 * 60))).toEqual({ status: 401 });
+    warn.mockRestore();
+  });
+
+  it('再送されたイベントと購読していないイベントは処理しない', () => {
+    const target = receiver();
+    const body = eventCallback('Ev1', { type: 'message', channel: 'C1' });
+    const other = eventCallback('Ev2', { type: 'app_mention', channel: 'C1' });
+
+    expect(target.receive(body, sign(body)).event).toBeDefined();
+    expect(target.receive(body, sign(body))).toEqual({ status: 200 });
+    expect(target.receive(other, sign(other))).toEqual({ status: 200 });
+  });
+
+  it('JSONとして解析できないリクエストは 400', () => {
+    const body = 'payload=%7B%7D';
+
+    expect(receiver().receive(body, sign(body))).toEqual({ status: 400 });
+  });
+});
@@ -0,0 +1,202 @@
+import { verifySlackRequest } from '@slack/bolt';
+import express, { Router, type Request, type Response } from 'express';
+import type { IncomingHttpHeaders } from 'http';
+import type { SlackClient } from '../types/index.js';
+import type { SlackEvent, SlackEventHandler } from '../slack/index.js';
+import type { SlackTransport } from './slackTransport.js';
+
+/**
+ * Events API のリクエストの処理結果
+ */
+export interface EventsApiResult {
+  /** Slackに返すHTTPステータス */
+  status: number;
+  /** Slackに返すレスポンス（url_verification の challenge など） */
+  body?: Record<string, unknown>;
+  /** 処理するイベント（購読していないイベントや再送の場合は undefined） */
+  event?: SlackEvent;
+}
+
+// ============================================
+// Events API レシーバー - インターフェース
+// ============================================
+export interface EventsApiReceiver {
+  /** 署名を検証してリクエストを処理する */
+  receive: (rawBody: string, headers: IncomingHttpHeaders) => EventsApiResult;
+}
+
+/**
+ * Events API レシーバーの設定オプション
+ */
+export interface EventsApiReceiverOptions {
+  /** Slack App の Signing Secret */
+  signingSecret: string;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * Events API の接続方式の設定オプション
+ */
+export interface EventsApiTransportOptions extends EventsApiReceiverOptions {
+  client: SlackClient;
+  handleEvent: SlackEventHandler;
+}
+
+// 再送の重複を判定するために記録するイベントIDの件数
+const EVENT_ID_CACHE_LIMIT = 1000;
+
+// 受け付けるイベントの種類
+const HANDLED_EVENT_TYPES = new Set(['message', 'reaction_added']);
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// Events API レシーバー - ファクトリ関数
+// ============================================
+
+/**
+ * Events API のリクエストを処理するレシーバーを生成
+ * セキュリティ: Signing Secret で署名とタイムスタンプ（5分以内）を検証し、Slack以外からのリクエストは拒否する
+ */
+export function createEventsApiReceiver(options: EventsApiReceiverOptions): EventsApiReceiver {
+  const now = options.now ?? Date.now;
+  // 処理済みのイベントID（Slackは応答が遅れると同じイベントを再送する）
+  const seenEventIds = new Set<string>();
+
+  const markSeen = (eventId: string): boolean => {
+    if (seenEventIds.has(eventId)) return false;
+    seenEventIds.add(eventId);
+    if (seenEventIds.size > EVENT_ID_CACHE_LIMIT) {
+      const oldest = seenEventIds.values().next().value;
+      if (oldest !== undefined) seenEventIds.delete(oldest);
+    }
+    return true;
+  };
+
+  return {
+    receive: (rawBody, headers) => {
+      const signature = getHeader(headers, 'x-slack-signature');
+      const timestamp = getHeader(headers, 'x-slack-request-timestamp');
+      if (!signature || !timestamp) {
+        return { status: 401 };
+      }
+      try {
+        verifySlackRequest({
+          signingSecret: options.signingSecret,
+          body: rawBody,
+          headers: {
+            'x-slack-signature': signature,
+            'x-slack-request-timestamp': Number(timestamp),
+          },
+          nowMilliseconds: now(),
+        });
+      } catch (error) {
+        console.warn('Rejected Slack request:', error instanceof Error ? error.message : error);
+        return { status: 401 };
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return { status: 400 };
+      }
+      if (!isRecord(payload)) {
+        return { status: 400 };
+      }
+
+      // Request URL の登録時の確認
+      if (payload['type'] === 'url_verification') {
+        return { status: 200, body: { challenge: payload['challenge'] } };
+      }
+
+      if (payload['type'] !== 'event_callback' || !isRecord(payload['event'])) {
+        return { status: 200 };
+      }
+      const eventId = payload['event_id'];
+      if (typeof eventId === 'string' && !markSeen(eventId)) {
+        return { status: 200 };
+      }
+      const event = payload['event'];
+      if (typeof event['type'] !== 'string' || !HANDLED_EVENT_TYPES.has(event['type'])) {
+        return { status: 200 };
+      }
+      return { status: 200, event: event as unknown as SlackEvent };
+    },
+  };
+}
+
+/**
+ * Events API のルーターを作成
+ * 署名の検証には受信したままのリクエストボディが必要なため、JSONとして解析する前の値を使う
+ * @param receiver Events API レシーバー
+ * @param onEvent 受信したイベントを処理するコールバック（応答を返した後に呼ぶ）
+ */
+export function createEventsApiRouter(
+  receiver: EventsApiReceiver,
+  onEvent: (event: SlackEvent) => void
+): Router {
+  const router = Router();
+
+  /**
+   * POST /slack/events
+   * Slack App の Event Subscriptions の Request URL に指定する
+   */
+  router.post('/slack/events', express.raw({ type: '*/*', limit: '1mb' }), (req: Request, res: Response) => {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const result = receiver.receive(rawBody, req.headers);
+    if (result.body) {
+      res.status(result.status).json(result.body);
+    } else {
+      res.status(result.status).end();
+    }
+
+    // Slackは3秒以内に応答がないと再送するため、応答を返してから処理する
+    if (result.event) {
+      onEvent(result.event);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Events API（HTTP）でイベントを受信する接続方式を生成
+ * オーバーレイサーバーの /slack/events でイベントを受け取るため、Slackから到達できるURL（トンネル等）が必要
+ */
+export function createEventsApiTransport(options: EventsApiTransportOptions): SlackTransport {
+  const { client, handleEvent } = options;
+  const receiver = createEventsApiReceiver(options);
+  let running = false;
+
+  const router = createEventsApiRouter(receiver, (event) => {
+    // 停止後に届いたイベントは処理しない
+    if (!running) return;
+    handleEvent(event, client).catch((err: unknown) => {
+      console.error('Failed to handle Slack event:', err);
+    });
+  });
+
+  return {
+    name: 'slack',
+    kind: 'events',
+    client,
+    router,
+    // Slackからのリクエストを待つ方式のため、受け付けを開始していれば接続済みとする
+    connectionState: () => (running ? 'connected' : 'disconnected'),
+    start: async () => {
+      running = true;
+    },
+    stop: async () => {
+      running = false;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+export type { SlackTransport, SlackTransportDeps } from './slackTransport.js';
+export { createSlackTransport } from './slackTransport.js';
+export type { SlackTransportConfig, SlackTransportKind } from './transportConfig.js';
+export {
+  getRequiredSlackKeys,
+  loadSlackTransportConfig,
+  resolveSlackTransportKind,
+  SLACK_TRANSPORT_KINDS,
+  TransportConfigError,
+} from './transportConfig.js';
+export type { SocketModeTransportOptions } from './socketModeTransport.js';
+export { createSocketModeTransport } from './socketModeTransport.js';
+export type {
+  EventsApiReceiver,
+  EventsApiReceiverOptions,
+  EventsApiResult,
+  EventsApiTransportOptions,
+} from './eventsApiTransport.js';
+export { createEventsApiReceiver, createEventsApiRouter, createEventsApiTransport } from './eventsApiTransport.js';
+export type { PollingTransportOptions, ThreadPoller, ThreadPollerOptions } from './pollingTransport.js';
+export { createPollingTransport, createThreadPoller } from './pollingTransport.js';
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SlackClient, SlackReplyMessage } from '../types/index.js';
+import { createThreadRegistry, createWatchTarget } from '../thread/index.js';
+import { createPollingTransport, createThreadPoller } from './pollingTransport.js';
+
+type RepliesFn = SlackClient['conversations']['replies'];
+type HistoryFn = NonNullable<SlackClient['conversations']['history']>;
+
+function createMockClient(replies: SlackReplyMessage[][], history: SlackReplyMessage[][] = []): SlackClient {
+  const repliesFn = vi.fn<RepliesFn>();
+  for (const messages of replies) {
+    repliesFn.mockResolvedValueOnce({ ok: true, messages });
+  }
+  const historyFn = vi.fn<HistoryFn>();
+  for (const messages of history) {
+    historyFn.mockResolvedValueOnce({ ok: true, messages });
+  }
+  return {
+    users: { info: vi.fn() },
+    conversations: { replies: repliesFn, history: historyFn },
+    emoji: { list: vi.fn() },
+  };
+}
+
+describe('createThreadPoller', () => {
+  // 監視開始: 1705200000 秒
+  const startedAt = 1705200000 * 1000;
+
+  it('監視を開始した後の返信のみを古い順にハンドラーに渡す', async () => {
+    const registry = createThreadRegistry(() => startedAt);
+    registry.add(createWatchTarget('https://example.slack.com/archives/C111/p1705100000000000'));
+    const client = createMockClient([[
+      { ts: '1705100000.000000', user: 'U0', text: 'parent' },
+      { ts: '1705200002.000000', thread_ts: '1705100000.000000', user: 'U2', text: 'second' },
+      { ts: '1705200001.000000', thread_ts: '1705100000.000000', user: 'U1', text: 'first' },
+    ], []]);
+    const handleEvent = vi.fn().mockResolvedValue(undefined);
+    const poller = createThreadPoller({ client, registry, handleEvent });
+
+    // 1回目は取得開始位置の記録のみ
+    await poller.poll();
+    expect(client.conversations.replies).not.toHaveBeenCalled();
+
+    await poller.poll();
+    expect(client.conversations.replies).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'C111',
+      ts: '1705100000.000000',
+      oldest: '1705200000.000000',
+    }));
+    expect(handleEvent.mock.calls.map(([event]) => event.text)).toEqual(['first', 'second']);
+    expect(handleEvent).toHaveBeenCalledWith({
+      type: 'message',
+      channel: 'C111',
+      ts: '1705200001.000000',
+      thread_ts: '1705100000.000000',
+      user: 'U1',
+      text: 'first',
+    }, client);
+
+    // 次回は取得済みの最新の返信より後から取得する
+    await poller.poll();
+    expect(client.conversations.replies).toHaveBeenLastCalledWith(expect.objectContaining({ oldest: '1705200002.000000' }));
+  });
+
+  it('チャンネル指定は conversations.history で取得する', async () => {
+    const registry = createThreadRegistry(() => startedAt);
+    registry.add(createWatchTarget('https://example.slack.com/archives/C222', 'ch'));
+    const client = createMockClient([], [[
+      { ts: '1705200003.000000', user: 'U1', text: 'hello' },
+    ]]);
+    const handleEvent = vi.fn().mockResolvedValue(undefined);
+    const poller = createThreadPoller({ client, registry, handleEvent });
+
+    await poller.poll();
+    await poller.poll();
+
+    expect(client.conversations.history).toHaveBeenCalledWith(expect.objectContaining({ channel: 'C222', oldest: '1705200000.000000' }));
+    expect(handleEvent).toHaveBeenCalledWith(expect.objectContaining({ channel: 'C222', ts: '1705200003.000000', text: 'hello' }), client);
+  });
+
+  it('取得に失敗した場合は次回同じ位置から取得し直す', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const registry = createThreadRegistry(() => startedAt);
+    registry.add(createWatchTarget('https://example.slack.com/archives/C111/p1705100000000000'));
+    const client = createMockClient([]);
+    vi.mocked(client.conversations.replies).mockRejectedValueOnce(new Error('ratelimited'));
+    const poller = createThreadPoller({ client, registry, handleEvent: vi.fn() });
+
+    await expect(poller.poll()).resolves.toBe(true);
+    await expect(poller.poll()).resolves.toBe(false);
+    vi.mocked(client.conversations.replies).mockResolvedValueOnce({ ok: true, messages: [] });
+    await expect(poller.poll()).resolves.toBe(true);
+
+    expect(error).toHaveBeenCalled();
+    expect(client.conversations.replies).toHaveBeenLastCalledWith(expect.objectContaining({ oldest: '1705200000.000000' }));
+    error.mockRestore();
+  });
+});
+
+describe('createPollingTransport', () => {
+  it('直近の取得結果を接続状態にする', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const registry = createThreadRegistry(() => 0);
+    registry.add(createWatchTarget('https://example.slack.com/archives/C111/p1705100000000000'));
+    const client = createMockClient([]);
+    vi.mocked(client.conversations.replies).mockRejectedValue(new Error('invalid_auth'));
+    const transport = createPollingTransport({ client, registry, handleEvent: vi.fn(), intervalMs: 10 });
+
+    expect(transport.connectionState()).toBe('disconnected');
+    await transport.start();
+    expect(transport.connectionState()).toBe('connected');
+
+    // 2回目の取得（返信の取得）に失敗する
+    await vi.waitFor(() => expect(transport.connectionState()).toBe('error'));
+
+    await transport.stop();
+    expect(transport.connectionState()).toBe('disconnected');
+    error.mockRestore();
+  });
+});
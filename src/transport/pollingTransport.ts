@@ -0,0 +1,207 @@
+import type {
+  SlackClient,
+  SlackConnectionState,
+  SlackMessageEvent,
+  SlackReplyMessage,
+  WatchTarget,
+} from '../types/index.js';
+import type { ThreadRegistry } from '../thread/index.js';
+import type { SlackEventHandler } from '../slack/index.js';
+import type { SlackTransport } from './slackTransport.js';
+
+/**
+ * ポーリングの設定オプション
+ */
+export interface ThreadPollerOptions {
+  client: SlackClient;
+  registry: ThreadRegistry;
+  handleEvent: SlackEventHandler;
+  /** 現在時刻を返す関数（テスト用にDI可能） */
+  now?: () => number;
+}
+
+/**
+ * ポーリングの接続方式の設定オプション
+ */
+export interface PollingTransportOptions extends ThreadPollerOptions {
+  /** ポーリングの間隔（ミリ秒） */
+  intervalMs: number;
+}
+
+// ============================================
+// ポーラー - インターフェース
+// ============================================
+export interface ThreadPoller {
+  /** 全ての監視対象の新しい投稿を取得してハンドラーに渡す（全て取得できた場合は true） */
+  poll: () => Promise<boolean>;
+}
+
+/**
+ * ミリ秒をSlackのts形式に変換
+ */
+function toSlackTs(millis: number): string {
+  return (millis / 1000).toFixed(6);
+}
+
+/**
+ * 取得したメッセージを message イベントの形に変換
+ */
+function toMessageEvent(channel: string, message: SlackReplyMessage & { ts: string }): SlackMessageEvent {
+  const event: SlackMessageEvent = {
+    type: 'message',
+    channel,
+    ts: message.ts,
+    thread_ts: message.thread_ts,
+    user: message.user,
+    text: message.text,
+  };
+  if (message.subtype) event.subtype = message.subtype;
+  if (message.files) event.files = message.files;
+  return event;
+}
+
+// ============================================
+// ポーラー - ファクトリ関数
+// ============================================
+
+/**
+ * 監視対象の新しい投稿を Slack Web API で取得するポーラーを生成
+ * - スレッド: conversations.replies で前回取得した投稿より新しい返信を取得
+ * - チャンネル: conversations.history で前回取得した投稿より新しい投稿を取得（スレッド返信は対象外）
+ * 監視を開始した時刻より前の投稿は取得しない。編集・削除・リアクションは検知できない
+ */
+export function createThreadPoller(options: ThreadPollerOptions): ThreadPoller {
+  const { client, registry, handleEvent } = options;
+  const now = options.now ?? Date.now;
+  // 監視対象ID → 取得済みの最新のts
+  const latestTs = new Map<string, string>();
+  let warnedHistory = false;
+
+  async function fetchNewMessages(target: WatchTarget, oldest: string): Promise<SlackReplyMessage[]> {
+    const messages: SlackReplyMessage[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params: { channel: string; oldest: string; limit: number; cursor?: string } = {
+        channel: target.channelId,
+        oldest,
+        limit: 100,
+      };
+      if (cursor) {
+        params.cursor = cursor;
+      }
+
+      let result: Awaited<ReturnType<SlackClient['conversations']['replies']>>;
+      if (target.kind === 'thread') {
+        result = await client.conversations.replies({ ...params, ts: target.threadTs });
+      } else if (client.conversations.history) {
+        result = await client.conversations.history(params);
+      } else {
+        if (!warnedHistory) {
+          console.warn('conversations.history is not available; channel targets are not polled');
+          warnedHistory = true;
+        }
+        return [];
+      }
+
+      messages.push(...(result.messages ?? []));
+      cursor = result.has_more ? result.response_metadata?.next_cursor : undefined;
+    } while (cursor);
+
+    return messages;
+  }
+
+  async function pollTarget(target: WatchTarget): Promise<void> {
+    const oldest = latestTs.get(target.id);
+    if (oldest === undefined) {
+      // 初めて見つけた監視対象は、監視を開始した時刻以降の投稿のみを取得する
+      latestTs.set(target.id, toSlackTs(registry.getWatchingSince(target.id) ?? now()));
+      return;
+    }
+
+    const messages = (await fetchNewMessages(target, oldest))
+      .filter((message): message is SlackReplyMessage & { ts: string } =>
+        // 親メッセージと取得済みの投稿を除外（oldest と同じtsの投稿が含まれる場合がある）
+        message.ts !== undefined &&
+        Number(message.ts) > Number(oldest) &&
+        (target.kind !== 'thread' || message.ts !== target.threadTs)
+      )
+      .sort((a, b) => Number(a.ts) - Number(b.ts));
+
+    for (const message of messages) {
+      await handleEvent(toMessageEvent(target.channelId, message), client);
+      latestTs.set(target.id, message.ts);
+    }
+  }
+
+  return {
+    poll: async () => {
+      const targets = registry.list();
+
+      // 監視対象から外されたものの記録を削除
+      const ids = new Set(targets.map((target) => target.id));
+      for (const id of latestTs.keys()) {
+        if (!ids.has(id)) latestTs.delete(id);
+      }
+
+      let succeeded = true;
+      for (const target of targets) {
+        try {
+          await pollTarget(target);
+        } catch (error) {
+          console.error(`Failed to poll ${target.id}:`, error);
+          succeeded = false;
+        }
+      }
+      return succeeded;
+    },
+  };
+}
+
+/**
+ * 定期的に新しい投稿を取得する接続方式を生成
+ * Bot Token のみで動作し、公開URLや App-Level Token が不要
+ */
+export function createPollingTransport(options: PollingTransportOptions): SlackTransport {
+  const poller = createThreadPoller(options);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let state: SlackConnectionState = 'disconnected';
+
+  // 直近の取得結果を接続状態にする
+  const poll = async (): Promise<void> => {
+    const succeeded = await poller.poll();
+    if (running) {
+      state = succeeded ? 'connected' : 'error';
+    }
+  };
+
+  // 前回の取得が終わってから次の取得を予約する（取得に時間がかかっても重複しない）
+  const schedule = (): void => {
+    timer = setTimeout(() => {
+      poll().finally(() => {
+        if (running) schedule();
+      });
+    }, options.intervalMs);
+  };
+
+  return {
+    name: 'slack',
+    kind: 'polling',
+    client: options.client,
+    connectionState: () => state,
+    start: async () => {
+      if (running) return;
+      running = true;
+      state = 'connecting';
+      // 監視対象ごとの取得開始位置を記録
+      await poll();
+      schedule();
+    },
+    stop: async () => {
+      running = false;
+      state = 'disconnected';
+      clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { webApi } from '@slack/bolt';
+import type { SlackClient, SlackConnectionState } from '../types/index.js';
+import type { ThreadRegistry } from '../thread/index.js';
+import type { SlackEventHandler } from '../slack/index.js';
+import type { CommentSource } from '../source/index.js';
+import type { SlackTransportConfig, SlackTransportKind } from './transportConfig.js';
+import { createSocketModeTransport } from './socketModeTransport.js';
+import { createEventsApiTransport } from './eventsApiTransport.js';
+import { createPollingTransport } from './pollingTransport.js';
+
+// ============================================
+// 接続方式 - インターフェース
+// ============================================
+// コメントの取得元の1つとして扱う（router は Events API のみ）
+export interface SlackTransport extends CommentSource {
+  name: 'slack';
+  kind: SlackTransportKind;
+  /** Slack Web API クライアント（ユーザー名・絵文字・スレッドの取得に使用） */
+  client: SlackClient;
+  /** Slackとの接続状態 */
+  connectionState: () => SlackConnectionState;
+}
+
+/**
+ * 接続方式の依存
+ */
+export interface SlackTransportDeps {
+  /** 受信したイベントを処理するハンドラー（全ての接続方式で共通） */
+  handleEvent: SlackEventHandler;
+  /** ポーリングで取得する監視対象 */
+  registry: ThreadRegistry;
+}
+
+/**
+ * Slack Web API クライアントを生成（Socket Mode 以外で使用）
+ */
+function createWebClient(config: SlackTransportConfig): SlackClient {
+  // WebClient はURLの末尾に / が必要
+  const slackApiUrl = config.apiUrl && (config.apiUrl.endsWith('/') ? config.apiUrl : `${config.apiUrl}/`);
+  const client = new webApi.WebClient(config.botToken, slackApiUrl ? { slackApiUrl } : {});
+  return client as unknown as SlackClient;
+}
+
+/**
+ * 設定に応じた接続方式を生成
+ * 認証情報は loadSlackTransportConfig で検証済みであること
+ */
+export function createSlackTransport(config: SlackTransportConfig, deps: SlackTransportDeps): SlackTransport {
+  switch (config.kind) {
+    case 'socket':
+      return createSocketModeTransport({
+        botToken: config.botToken,
+        appToken: config.appToken!,
+        apiUrl: config.apiUrl,
+        handleEvent: deps.handleEvent,
+      });
+    case 'events':
+      return createEventsApiTransport({
+        client: createWebClient(config),
+        signingSecret: config.signingSecret!,
+        handleEvent: deps.handleEvent,
+      });
+    case 'polling':
+      return createPollingTransport({
+        client: createWebClient(config),
+        registry: deps.registry,
+        handleEvent: deps.handleEvent,
+        intervalMs: config.pollIntervalMs,
+      });
+  }
+}
@@ -0,0 +1,70 @@
+import pkg from '@slack/bolt';
+const { App, SocketModeReceiver } = pkg;
+import type { SlackClient, SlackConnectionState, SlackMessageEvent, SlackReactionEvent } from '../types/index.js';
+import type { SlackEventHandler } from '../slack/index.js';
+import type { SlackTransport } from './slackTransport.js';
+
+/**
+ * Socket Mode の設定オプション
+ */
+export interface SocketModeTransportOptions {
+  botToken: string;
+  /** App-Level Token（connections:write スコープ） */
+  appToken: string;
+  /** Slack Web API のURL（スタブサーバーを使う場合のみ） */
+  apiUrl?: string;
+  handleEvent: SlackEventHandler;
+}
+
+/**
+ * Socket Mode（Slack Bolt）でイベントを受信する接続方式を生成
+ * 公開URLが不要で、ファイアウォール内からでも接続できる
+ */
+export function createSocketModeTransport(options: SocketModeTransportOptions): SlackTransport {
+  const { handleEvent } = options;
+  // 接続状態を取得するため、レシーバーを明示的に作成する（socketMode: true の場合と同じ設定）
+  const receiver = new SocketModeReceiver({ appToken: options.appToken });
+  const app = new App({
+    token: options.botToken,
+    receiver,
+    ...(options.apiUrl ? { clientOptions: { slackApiUrl: options.apiUrl } } : {}),
+  });
+
+  // 切断時は SocketModeClient が自動で再接続する（停止した場合は close の後に disconnected が通知される）
+  let state: SlackConnectionState = 'disconnected';
+  receiver.client.on('connecting', () => {
+    if (state !== 'reconnecting') state = 'connecting';
+  });
+  receiver.client.on('connected', () => {
+    state = 'connected';
+  });
+  receiver.client.on('close', () => {
+    state = 'reconnecting';
+  });
+  receiver.client.on('disconnected', () => {
+    state = 'disconnected';
+  });
+
+  // メッセージイベントをリッスン（新規投稿・編集・削除）
+  app.event('message', async ({ event, client }) => {
+    await handleEvent(event as unknown as SlackMessageEvent, client as unknown as SlackClient);
+  });
+
+  // リアクションをリッスン（絵文字スタンプとして表示）
+  app.event('reaction_added', async ({ event, client }) => {
+    await handleEvent(event as unknown as SlackReactionEvent, client as unknown as SlackClient);
+  });
+
+  return {
+    name: 'slack',
+    kind: 'socket',
+    client: app.client as unknown as SlackClient,
+    connectionState: () => state,
+    start: async () => {
+      await app.start();
+    },
+    stop: async () => {
+      await app.stop();
+    },
+  };
+}
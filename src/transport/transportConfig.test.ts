@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRequiredSlackKeys,
+  loadSlackTransportConfig,
+  resolveSlackTransportKind,
+  TransportConfigError,
+} from './transportConfig.js';
+
+describe('resolveSlackTransportKind', () => {
+  it('未設定の場合は Socket Mode', () => {
+    expect(resolveSlackTransportKind(undefined)).toBe('socket');
+    expect(resolveSlackTransportKind('')).toBe('socket');
+  });
+
+  it('不明な接続方式はエラー', () => {
+    expect(() => resolveSlackTransportKind('webhook')).toThrow(TransportConfigError);
+  });
+});
+
+describe('getRequiredSlackKeys', () => {
+  it('接続方式ごとに必要な認証情報を返す', () => {
+    expect(getRequiredSlackKeys('socket')).toEqual(['SLACK_BOT_TOKEN', 'SLACK_APP_TOKEN']);
+    expect(getRequiredSlackKeys('events')).toEqual(['SLACK_BOT_TOKEN', 'SLACK_SIGNING_SECRET']);
+    expect(getRequiredSlackKeys('polling')).toEqual(['SLACK_BOT_TOKEN']);
+  });
+});
+
+describe('loadSlackTransportConfig', () => {
+  it('環境変数から設定を読み込む', () => {
+    expect(loadSlackTransportConfig({
+      SLACK_TRANSPORT: 'events',
+      SLACK_BOT_TOKEN: 'xoxb-test',
+      SLACK_SIGNING_SECRET: 'secret',
+      SLACK_API_URL: 'http://localhost:9000/api/',
+    })).toEqual({
+      kind: 'events',
+      botToken: 'xoxb-test',
+      appToken: undefined,
+      signingSecret: 'secret',
+      apiUrl: 'http://localhost:9000/api/',
+      pollIntervalMs: 5000,
+    });
+  });
+
+  it('ポーリングは Bot Token のみで動作し、間隔は1秒以上', () => {
+    expect(loadSlackTransportConfig({ SLACK_TRANSPORT: 'polling', SLACK_BOT_TOKEN: 'xoxb-test', SLACK_POLL_INTERVAL_SECONDS: '10' }).pollIntervalMs).toBe(10000);
+    expect(loadSlackTransportConfig({ SLACK_TRANSPORT: 'polling', SLACK_BOT_TOKEN: 'xoxb-test', SLACK_POLL_INTERVAL_SECONDS: '0.1' }).pollIntervalMs).toBe(1000);
+    expect(loadSlackTransportConfig({ SLACK_TRANSPORT: 'polling', SLACK_BOT_TOKEN: 'xoxb-test', SLACK_POLL_INTERVAL_SECONDS: 'abc' }).pollIntervalMs).toBe(5000);
+  });
+
+  it('接続方式に必要な認証情報がない場合はエラー', () => {
+    expect(() => loadSlackTransportConfig({ SLACK_BOT_TOKEN: 'xoxb-test' })).toThrow('SLACK_APP_TOKEN must be set');
+    expect(() => loadSlackTransportConfig({ SLACK_TRANSPORT: 'events', SLACK_BOT_TOKEN: 'xoxb-test', SLACK_APP_TOKEN: 'xapp-test' }))
+      .toThrow('SLACK_SIGNING_SECRET must be set');
+    expect(() => loadSlackTransportConfig({ SLACK_TRANSPORT: 'polling' })).toThrow(TransportConfigError);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Slackからコメントを受け取る方式
+ * - socket: Socket Mode（Bot Token と App-Level Token が必要）
+ * - events: Events API（HTTPでイベントを受信、Bot Token と Signing Secret が必要）
+ * - polling: conversations.replies / conversations.history を定期的に取得（Bot Token のみ）
+ */
+export type SlackTransportKind = 'socket' | 'events' | 'polling';
+
+export const SLACK_TRANSPORT_KINDS: readonly SlackTransportKind[] = ['socket', 'events', 'polling'];
+
+/**
+ * 接続方式の設定
+ */
+export interface SlackTransportConfig {
+  kind: SlackTransportKind;
+  botToken: string;
+  /** Socket Mode の App-Level Token（xapp-） */
+  appToken?: string;
+  /** Events API のリクエスト署名の検証に使う Signing Secret */
+  signingSecret?: string;
+  /** Slack Web API のURL（ローカルのスタブサーバーで動作確認する場合に指定） */
+  apiUrl?: string;
+  /** ポーリングの間隔（ミリ秒） */
+  pollIntervalMs: number;
+}
+
+/**
+ * 接続方式の設定が不正な場合にスローされるエラー
+ */
+export class TransportConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransportConfigError';
+  }
+}
+
+// ポーリングの間隔（秒）。Slack APIのレート制限を考慮して短くしすぎない
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+const MIN_POLL_INTERVAL_SECONDS = 1;
+
+// 接続方式ごとに必要な認証情報
+const REQUIRED_KEYS: Record<SlackTransportKind, string[]> = {
+  socket: ['SLACK_BOT_TOKEN', 'SLACK_APP_TOKEN'],
+  events: ['SLACK_BOT_TOKEN', 'SLACK_SIGNING_SECRET'],
+  polling: ['SLACK_BOT_TOKEN'],
+};
+
+/**
+ * SLACK_TRANSPORT の値を接続方式に変換（未設定の場合は Socket Mode）
+ * @throws TransportConfigError 不明な接続方式の場合
+ */
+export function resolveSlackTransportKind(value: string | undefined): SlackTransportKind {
+  if (!value) return 'socket';
+  const kind = SLACK_TRANSPORT_KINDS.find((candidate) => candidate === value);
+  if (!kind) {
+    throw new TransportConfigError(`Unknown SLACK_TRANSPORT: ${value} (expected ${SLACK_TRANSPORT_KINDS.join(', ')})`);
+  }
+  return kind;
+}
+
+/**
+ * 接続方式に必要な環境変数の一覧
+ */
+export function getRequiredSlackKeys(kind: SlackTransportKind): string[] {
+  return [...REQUIRED_KEYS[kind]];
+}
+
+/**
+ * 環境変数から接続方式の設定を読み込む
+ * - SLACK_TRANSPORT: socket / events / polling（デフォルト: socket）
+ * - SLACK_POLL_INTERVAL_SECONDS: ポーリングの間隔（1秒以上、デフォルト: 5秒）
+ * - SLACK_API_URL: Slack Web API のURL（テスト用のスタブサーバーを指定する場合のみ）
+ * @throws TransportConfigError 不明な接続方式の場合、必要な認証情報がない場合
+ */
+export function loadSlackTransportConfig(env: NodeJS.ProcessEnv): SlackTransportConfig {
+  const kind = resolveSlackTransportKind(env['SLACK_TRANSPORT']);
+  const missingKeys = REQUIRED_KEYS[kind].filter((key) => !env[key]);
+  if (missingKeys.length > 0) {
+    throw new TransportConfigError(`${missingKeys.join(' and ')} must be set (SLACK_TRANSPORT=${kind})`);
+  }
+
+  const interval = Number(env['SLACK_POLL_INTERVAL_SECONDS']);
+  const pollIntervalSeconds = Number.isFinite(interval) && interval > 0
+    ? Math.max(interval, MIN_POLL_INTERVAL_SECONDS)
+    : DEFAULT_POLL_INTERVAL_SECONDS;
+
+  return {
+    kind,
+    botToken: env['SLACK_BOT_TOKEN']!,
+    appToken: env['SLACK_APP_TOKEN'] || undefined,
+    signingSecret: env['SLACK_SIGNING_SECRET'] || undefined,
+    apiUrl: env['SLACK_API_URL'] || undefined,
+    pollIntervalMs: pollIntervalSeconds * 1000,
+  };
+}
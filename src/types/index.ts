@@ -6,23 +6,555 @@ export interface ThreadInfo {
   threadTs: string;
 }
 
+/**
+ * 監視対象のスレッド
+ * id はスレッドを一意に識別するキー（channelId/threadTs）
+ */
+export interface WatchedThread extends ThreadInfo {
+  kind: 'thread';
+  id: string;
+  label: string;
+}
+
+/**
+ * 監視対象のチャンネル
+ * id はチャンネルID。トップレベルの投稿を表示し、includeReplies の場合はスレッド返信も表示する
+ */
+export interface WatchedChannel {
+  kind: 'channel';
+  id: string;
+  label: string;
+  channelId: string;
+  includeReplies: boolean;
+}
+
+/**
+ * コメントの取得元（スレッドまたはチャンネル）
+ */
+export type WatchTarget = WatchedThread | WatchedChannel;
+
 // ============================================
 // WebSocketメッセージ
 // ============================================
 export interface CommentMessage {
   type: 'comment';
+  /** コメントID（channelId/ts）。編集・削除の反映に使用 */
+  id: string;
   text: string;
   userName: string;
   userColor: string;
   emojis?: Record<string, string>;
+  /** 添付画像（SHOW_IMAGES=true の場合のみ） */
+  images?: CommentImage[];
+  /** コメントコマンド（[ue] [red] など）で指定された表示スタイル */
+  style?: CommentStyle;
+  threadId: string;
+  threadLabel: string;
+}
+
+/**
+ * コメントの表示位置
+ * - top: 画面上部に固定表示
+ * - bottom: 画面下部に固定表示
+ * 未指定の場合は右から左に流れる
+ */
+export type CommentPosition = 'top' | 'bottom';
+
+/**
+ * コメントの文字サイズ（未指定の場合は文字数に応じたサイズ）
+ */
+export type CommentSize = 'big' | 'small';
+
+/**
+ * コメントの表示スタイル
+ */
+export interface CommentStyle {
+  position?: CommentPosition;
+  /** 文字色（#RRGGBB）。未指定の場合は投稿者ごとの色 */
+  color?: string;
+  size?: CommentSize;
+}
+
+/**
+ * コメントに添付された画像
+ */
+export interface CommentImage {
+  /** オーバーレイサーバー経由の画像URL（/images/...） */
+  url: string;
+  width?: number;
+  height?: number;
+  /** ファイル名（代替テキスト） */
+  name?: string;
+}
+
+export interface ThreadCount {
+  threadId: string;
+  label: string;
+  count: number;
 }
 
 export interface CounterMessage {
   type: 'counter';
+  /** 全スレッドの合計 */
+  count: number;
+  /** スレッドごとの内訳 */
+  threads?: ThreadCount[];
+}
+
+/**
+ * 表示済みコメントの編集
+ */
+export interface CommentUpdateMessage {
+  type: 'comment_update';
+  id: string;
+  text: string;
+  emojis?: Record<string, string>;
+}
+
+/**
+ * 表示済みコメントの取り消し（削除）
+ */
+export interface CommentRetractMessage {
+  type: 'comment_retract';
+  id: string;
+}
+
+/**
+ * 監視中のメッセージへのリアクション（絵文字スタンプとして表示）
+ */
+export interface ReactionMessage {
+  type: 'reaction';
+  /** リアクションされたメッセージのID（channelId/ts） */
+  messageId: string;
+  /** 絵文字名（スキントーンを除く） */
+  emoji: string;
+  /** 絵文字画像のURL */
+  url: string;
+  threadId: string;
+  threadLabel: string;
+}
+
+/**
+ * オーバーレイの表示設定（接続時と設定ファイルの変更時に配信）
+ */
+export interface OverlayConfigMessage {
+  type: 'config';
+  config: OverlayConfig;
+}
+
+/**
+ * 新しいコメントの表示の一時停止・再開（一時停止中はオーバーレイに表示する）
+ */
+export interface OverlayPauseMessage {
+  type: 'pause';
+  paused: boolean;
+}
+
+/**
+ * 表示中のコメントを消す
+ */
+export interface OverlayClearMessage {
+  type: 'clear';
+}
+
+export type WebSocketMessage =
+  | CommentMessage
+  | CommentUpdateMessage
+  | CommentRetractMessage
+  | CounterMessage
+  | ReactionMessage
+  | OverlayConfigMessage
+  | OverlayPauseMessage
+  | OverlayClearMessage;
+
+// ============================================
+// オーバーレイの表示設定
+// ============================================
+
+/**
+ * コメントカウンターの表示位置
+ */
+export type CounterPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * コメントカウンターの色の閾値（count 以上で color を使用）
+ */
+export interface CounterThreshold {
+  count: number;
+  /** 文字色（#RRGGBB） */
+  color: string;
+}
+
+/**
+ * コメントを表示しない矩形（画面に対する 0〜1 の割合）
+ * スライドのタイトルや発表者のワイプ（カメラ映像）を避けるために使用する
+ */
+export interface ExclusionArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * オーバーレイの表示設定
+ */
+export interface OverlayConfig {
+  /** レーン数 */
+  laneCount: number;
+  /** コメントを表示する縦方向の範囲（画面高さに対する割合） */
+  usableRange: { start: number; end: number };
+  /** コメントを表示しない矩形（重なるレーンは使用しない） */
+  exclusions: ExclusionArea[];
+  /** 流れるコメントが画面を横切る秒数 */
+  flowDurationSeconds: number;
+  /** 固定表示（[ue] / [shita]）の秒数 */
+  fixedDurationSeconds: number;
+  font: {
+    /** CSSの font-family */
+    family: string;
+    weight: number;
+    /** 縁取りの太さ（px） */
+    outlineWidth: number;
+    /** 縁取りの色（#RRGGBB） */
+    outlineColor: string;
+    /** コメントの不透明度（0〜1） */
+    opacity: number;
+  };
+  counter: {
+    visible: boolean;
+    position: CounterPosition;
+    /** 文字色の閾値（count の昇順） */
+    thresholds: CounterThreshold[];
+  };
+}
+
+/**
+ * 名前を付けて保存した表示設定（セットアップ画面のプリセット）
+ */
+export interface OverlayPreset {
+  name: string;
+  config: OverlayConfig;
+}
+
+// ============================================
+// 管理API（オーバーレイサーバーのコントロールチャネル）
+// ============================================
+
+/**
+ * 監視スレッドの指定
+ */
+export interface AdminThreadInput {
+  /** スレッドURL、チャンネルURL、またはチャンネルID */
+  threadUrl: string;
+  label?: string;
+  /** チャンネル指定時にスレッド返信も表示するか */
+  includeReplies?: boolean;
+}
+
+/**
+ * PUT /api/admin/threads のリクエスト（監視スレッドを置き換え）
+ */
+export interface AdminReplaceThreadsRequest {
+  threads: AdminThreadInput[];
+}
+
+/**
+ * /api/admin/threads 系のレスポンス
+ */
+export interface AdminThreadsResponse {
+  success: boolean;
+  threads?: ThreadCount[];
+  error?: string;
+}
+
+// ============================================
+// モデレーション
+// ============================================
+
+/**
+ * モデレーション設定
+ */
+export interface ModerationSettings {
+  /** 有効な場合、新しいコメントは承認されるまで表示しない */
+  enabled: boolean;
+  /** 指定秒数が経過したコメントを自動承認する（null の場合は自動承認しない） */
+  autoApproveSeconds: number | null;
+}
+
+/**
+ * 承認待ちになった理由
+ * - moderation: モデレーションが有効
+ * - filter: NGワードフィルターの hold ルールに一致
+ */
+export type ModerationReason = 'moderation' | 'filter';
+
+/**
+ * 承認待ちのコメント
+ */
+export interface ModerationItem {
+  id: string;
+  comment: CommentMessage;
+  reason: ModerationReason;
+  /** キューに入った時刻（ミリ秒） */
+  receivedAt: number;
+  /** 自動承認される時刻（ミリ秒）。自動承認しない場合（NGワードで保留した場合を含む）は null */
+  autoApproveAt: number | null;
+}
+
+/**
+ * モデレーションキューの状態
+ */
+export interface ModerationSnapshot {
+  settings: ModerationSettings;
+  items: ModerationItem[];
+}
+
+/**
+ * /api/admin/moderation 系のレスポンス
+ */
+export interface AdminModerationResponse {
+  success: boolean;
+  moderation?: ModerationSnapshot;
+  error?: string;
+}
+
+/**
+ * Slackとの接続状態
+ * - connecting: 接続中（起動直後）
+ * - connected: 接続済み（ポーリングの場合は直近の取得に成功）
+ * - reconnecting: 切断され、再接続中（Socket Mode）
+ * - error: 直近の取得に失敗（ポーリング）
+ * - disconnected: 停止済み
+ */
+export type SlackConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'error' | 'disconnected';
+
+/**
+ * オーバーレイの操作状態（トレイアイコンの表示にも使用）
+ */
+export interface AdminOverlayState {
+  /** 新しいコメントの表示を一時停止中か */
+  paused: boolean;
+  /** 全スレッドのコメント数の合計 */
   count: number;
+  /** 監視中のスレッドとコメント数 */
+  threads: ThreadCount[];
+  /** Slackとの接続状態（Slackから取得しない場合は null） */
+  slack: SlackConnectionState | null;
+}
+
+/**
+ * /api/admin/overlay 系のレスポンス
+ */
+export interface AdminOverlayResponse {
+  success: boolean;
+  overlay?: AdminOverlayState;
+  error?: string;
+}
+
+/**
+ * 管理WebSocket（/ws/admin）で配信するイベント
+ */
+export interface AdminModerationEvent {
+  type: 'moderation';
+  data: ModerationSnapshot;
+}
+
+/**
+ * 管理WebSocket（/ws/admin）で配信するイベント（リプレイの状態の変化）
+ */
+export interface AdminReplayEvent {
+  type: 'replay';
+  data: ReplayStatus;
+}
+
+export type AdminEventMessage = AdminModerationEvent | AdminReplayEvent;
+
+// ============================================
+// リプレイ
+// ============================================
+
+/**
+ * リプレイの状態
+ * - idle: 読み込んでいない
+ * - playing: 再生中
+ * - paused: 一時停止中（読み込み直後を含む）
+ * - ended: 最後まで再生した
+ */
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'ended';
+
+/**
+ * リプレイの再生元
+ * - thread: 既存スレッドの返信履歴
+ * - transcript: 保存済みのセッションログ
+ */
+export type ReplaySourceInput =
+  | { type: 'thread'; threadUrl: string }
+  | { type: 'transcript'; sessionId: string };
+
+/**
+ * リプレイの再生状況
+ */
+export interface ReplayStatus {
+  state: ReplayState;
+  /** 再生元の表示名（読み込んでいない場合は null） */
+  source: string | null;
+  /** 再生位置（ミリ秒、最初のコメントからの経過時間） */
+  positionMs: number;
+  /** 最後のコメントまでの長さ（ミリ秒） */
+  durationMs: number;
+  /** 再生速度（1 で元の投稿間隔どおり） */
+  speed: number;
+  /** 配信済みのメッセージ数 */
+  played: number;
+  /** メッセージの総数 */
+  total: number;
 }
 
-export type WebSocketMessage = CommentMessage | CounterMessage;
+/**
+ * POST /api/admin/replay のリクエスト（再生元を読み込む）
+ */
+export interface AdminReplayLoadRequest {
+  source: ReplaySourceInput;
+  speed?: number;
+}
+
+/**
+ * /api/admin/replay 系のレスポンス
+ */
+export interface AdminReplayResponse {
+  success: boolean;
+  replay?: ReplayStatus;
+  error?: string;
+}
+
+// ============================================
+// NGワードフィルター
+// ============================================
+
+/**
+ * フィルタールールに一致した際の動作
+ * - drop: コメントを表示しない
+ * - mask: 一致した部分を * に置き換えて表示
+ * - hold: モデレーションキューに入れて承認を待つ
+ */
+export type FilterAction = 'drop' | 'mask' | 'hold';
+
+/**
+ * フィルタールール
+ */
+export interface FilterRule {
+  /** NGワード、または正規表現 */
+  pattern: string;
+  /** true の場合は pattern を正規表現として扱う */
+  regex?: boolean;
+  /** true の場合は大文字・小文字を区別する */
+  caseSensitive?: boolean;
+  action: FilterAction;
+}
+
+/**
+ * フィルター設定ファイルの内容
+ */
+export interface FilterConfig {
+  rules: FilterRule[];
+}
+
+// ============================================
+// セッションログ（トランスクリプト）
+// ============================================
+
+/**
+ * コメントの元になったSlackメッセージ
+ */
+export interface TranscriptSource {
+  /** コメントID（channelId/ts） */
+  id: string;
+  /** Slackのts */
+  ts: string;
+  /** 投稿者のユーザーID */
+  userId: string;
+  /** Slack記法を含む元のテキスト */
+  rawText: string;
+  /** Slack記法を除去したテキスト（フィルター適用前） */
+  processedText: string;
+}
+
+/**
+ * セッションログの1行
+ */
+export interface TranscriptEntry {
+  /** 記録した時刻（ISO 8601） */
+  loggedAt: string;
+  /** オーバーレイに配信したメッセージ */
+  message: WebSocketMessage;
+  /** コメント・編集の場合の元のSlackメッセージ */
+  source?: Omit<TranscriptSource, 'id'>;
+}
+
+/**
+ * 保存済みのセッションログ
+ */
+export interface TranscriptSummary {
+  sessionId: string;
+  /** ファイルサイズ（バイト） */
+  size: number;
+  /** 最終更新時刻（ISO 8601） */
+  updatedAt: string;
+}
+
+// ============================================
+// Slackメッセージイベント（Bolt の message イベントの部分的な型）
+// ============================================
+export interface SlackMessagePayload {
+  ts?: string;
+  thread_ts?: string;
+  user?: string;
+  text?: string;
+  subtype?: string;
+  files?: SlackFile[];
+}
+
+/**
+ * メッセージに添付されたファイル（部分的な型）
+ * サムネイルは Slack が生成した縮小画像（thumb_{サイズ}）
+ */
+export interface SlackFile {
+  id: string;
+  name?: string;
+  mimetype?: string;
+  url_private?: string;
+  original_w?: number;
+  original_h?: number;
+  [thumb: `thumb_${number}`]: string | undefined;
+  [thumbSize: `thumb_${number}_${'w' | 'h'}`]: number | undefined;
+}
+
+export interface SlackMessageEvent extends SlackMessagePayload {
+  type: 'message';
+  channel: string;
+  /** message_changed: 編集後のメッセージ */
+  message?: SlackMessagePayload;
+  /** message_changed / message_deleted: 変更前のメッセージ */
+  previous_message?: SlackMessagePayload;
+  /** message_deleted: 削除されたメッセージのts */
+  deleted_ts?: string;
+}
+
+/**
+ * Slackの reaction_added イベント（部分的な型）
+ */
+export interface SlackReactionEvent {
+  type: 'reaction_added';
+  user?: string;
+  /** 絵文字名（スキントーン付きの場合は "thumbsup::skin-tone-2" 形式） */
+  reaction: string;
+  item: {
+    type: string;
+    channel?: string;
+    ts?: string;
+  };
+}
 
 // ============================================
 // ユーザーキャッシュ
@@ -34,6 +566,19 @@ export interface UserCache {
 // ============================================
 // Slack Client型（Slack WebClientの部分的な型）
 // ============================================
+
+/**
+ * conversations.replies で取得するメッセージ（部分的な型）
+ */
+export interface SlackReplyMessage {
+  ts?: string;
+  thread_ts?: string;
+  user?: string;
+  text?: string;
+  subtype?: string;
+  files?: SlackFile[];
+}
+
 export interface SlackClient {
   users: {
     info: (params: { user: string }) => Promise<{
@@ -52,18 +597,33 @@ export interface SlackClient {
       ts: string;
       limit?: number;
       cursor?: string;
+      /** 指定したts以降のメッセージのみ取得 */
+      oldest?: string;
     }) => Promise<{
       ok: boolean;
-      messages?: Array<{
-        ts?: string;
-        thread_ts?: string;
-        user?: string;
-        text?: string;
-        subtype?: string;
-      }>;
+      messages?: SlackReplyMessage[];
       has_more?: boolean;
       response_metadata?: { next_cursor?: string };
     }>;
+    /** チャンネルの投稿の取得（ポーリング用、channels:history / groups:history スコープが必要） */
+    history?: (params: {
+      channel: string;
+      limit?: number;
+      cursor?: string;
+      oldest?: string;
+    }) => Promise<{
+      ok: boolean;
+      messages?: SlackReplyMessage[];
+      has_more?: boolean;
+      response_metadata?: { next_cursor?: string };
+    }>;
+    /** チャンネル名の取得（channels:read / groups:read スコープが必要） */
+    info?: (params: { channel: string }) => Promise<{
+      ok: boolean;
+      channel?: {
+        name?: string;
+      };
+    }>;
   };
   emoji: {
     list: () => Promise<{
@@ -98,4 +658,39 @@ export interface StandardEmojiEntry {
 export interface ProcessedMessage {
   sanitizedText: string;
   emojis: Record<string, string>;
+  /** コメントコマンドで指定された表示スタイル（allowedCommands を指定した場合のみ） */
+  style?: CommentStyle;
+}
+
+/**
+ * コメントコマンドの種類
+ * - position: [ue] [shita] [naka]
+ * - color: [red] [blue] など
+ * - size: [big] [small] [medium]
+ */
+export type CommentCommandCategory = 'position' | 'color' | 'size';
+
+/**
+ * メンションの表示名（ID → 名前）
+ * processMessage の前に Slack API で解決しておく
+ */
+export interface MentionNames {
+  /** ユーザーID → 表示名 */
+  users?: Record<string, string>;
+  /** チャンネルID → チャンネル名 */
+  channels?: Record<string, string>;
+}
+
+/**
+ * processMessage のオプション
+ */
+export interface ProcessMessageOptions {
+  /** メンションの表示名。未解決のメンションは記法内のラベルか既定の表記で表示する */
+  mentions?: MentionNames;
+  /**
+   * 有効にするコメントコマンドの種類
+   * 指定した場合、先頭のコマンドをテキストから除去し、許可された種類のみ style に反映する。
+   * 未指定の場合はコマンドを解析せずテキストのまま表示する
+   */
+  allowedCommands?: readonly CommentCommandCategory[];
 }
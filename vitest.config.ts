@@ -1,9 +1,11 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 
 export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
     include: ['src/**/*.test.ts'],
+    // E2Eテストはサーバープロセスを起動するため npm run test:e2e で実行する
+    exclude: [...configDefaults.exclude, 'src/**/*.e2e.test.ts'],
   },
 });
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['src/**/*.e2e.test.ts'],
+    // オーバーレイサーバーの起動を待つため長めに設定
+    testTimeout: 60000,
+    hookTimeout: 60000,
+  },
+});